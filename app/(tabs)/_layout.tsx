@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { QrCode, History } from 'lucide-react-native';
+import { QrCode, History, Map as MapIcon } from 'lucide-react-native';
 
 export default function TabLayout() {
   return (
@@ -39,6 +39,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="map"
+        options={{
+          title: 'Mapa',
+          tabBarIcon: ({ size, color }) => (
+            <MapIcon size={size} color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
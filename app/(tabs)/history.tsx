@@ -1,28 +1,98 @@
-import React, { useState, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert, Linking, Share } from 'react-native';
+import React, { useState, useCallback, useRef } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert, Share, ActivityIndicator, TextInput, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { MapPin, Calendar, Share2, ExternalLink, Trash2, RefreshCw, QrCode, Clock } from 'lucide-react-native';
+import { MapPin, Calendar, Share2, Trash2, RefreshCw, QrCode, Clock, Settings, Cloud, CloudOff, AlertCircle, ArrowDownUp, Search, X, Barcode, Repeat, Layers, Download, Upload, Fence, Pencil, Tag, StickyNote, CircleCheck, CircleX, User, Users, ShieldAlert } from 'lucide-react-native';
+import { router } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
-import { database, ScanRecord } from '@/lib/database';
+import {
+  getScanKey,
+  ScanQuery,
+  ScanRecord,
+  scanRepository,
+  ScanSession,
+  SyncSummary,
+  TagCount,
+  Zone,
+} from '@/lib/scanRepository';
+import { getScanPayload, PAYLOAD_TYPES, PAYLOAD_TYPE_LABELS } from '@/lib/payload';
+import { getBarcodeTypeLabel } from '@/lib/barcode';
+import PayloadActions from '@/components/PayloadActions';
+import SessionList from '@/components/SessionList';
+import ExportSheet, { ExportScope } from '@/components/ExportSheet';
+import ImportSheet from '@/components/ImportSheet';
+import ScanNotesEditor from '@/components/ScanNotesEditor';
+import UrlSafetySheet from '@/components/UrlSafetySheet';
+import { auth } from '@/lib/auth';
+import { CurrentWorkspace, getCurrentWorkspace, subscribeToWorkspace } from '@/lib/currentWorkspace';
+import { canEditScans } from '@/lib/workspaces';
+import { URL_RISK_LABELS, URL_SAFETY_LEVEL_COLORS, URL_SAFETY_LEVEL_LABELS } from '@/lib/urlSafety';
+import { refreshUrlBlocklist } from '@/lib/urlChecker';
+import { SCAN_STATUSES, SCAN_STATUS_COLORS, SCAN_STATUS_LABELS } from '@/lib/annotations';
+import type { ScanFeedMessage } from '@/lib/scanEvents';
+import {
+  DATE_RANGE_LABELS,
+  DateRangePreset,
+  DEFAULT_HISTORY_FILTERS,
+  HistoryFilters,
+  hasActiveFilters,
+  loadHistoryFilters,
+  saveHistoryFilters,
+  toScanQuery,
+} from '@/lib/historyFilters';
+
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+// Los cambios recibidos del servidor en ráfaga (importaciones, sesiones eliminadas) se agrupan en una recarga
+const LIVE_RELOAD_DELAY_MS = 500;
+const DATE_RANGE_PRESETS: DateRangePreset[] = ['today', 'week', 'month'];
+
+type HistoryView = 'scans' | 'sessions';
 
 export default function HistoryScreen() {
   const [scans, setScans] = useState<ScanRecord[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [syncSummary, setSyncSummary] = useState<SyncSummary>({ pending: 0, failed: 0, syncing: false });
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [order, setOrder] = useState<NonNullable<ScanQuery['order']>>('desc');
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [view, setView] = useState<HistoryView>('scans');
+  const [exportVisible, setExportVisible] = useState(false);
+  const [importVisible, setImportVisible] = useState(false);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [editingScan, setEditingScan] = useState<ScanRecord | null>(null);
+  const [workspace, setWorkspace] = useState<CurrentWorkspace | null>(getCurrentWorkspace());
+  const [linkToCheck, setLinkToCheck] = useState<{ url: string; scan: ScanRecord | null } | null>(null);
 
-  // Cargar escaneos cuando la pantalla está enfocada
-  useFocusEffect(
-    useCallback(() => {
-      loadScans();
-    }, [])
-  );
+  // El orden y los filtros activos se guardan en refs para que las recargas disparadas
+  // por el foco o por la sincronización usen siempre los valores actuales
+  const orderRef = useRef<NonNullable<ScanQuery['order']>>('desc');
+  const filtersRef = useRef<HistoryFilters | null>(null);
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const liveReloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scansRef = useRef<ScanRecord[]>([]);
+  scansRef.current = scans;
 
-  const loadScans = async () => {
+  const getQuery = useCallback((): ScanQuery => ({
+    ...toScanQuery(filtersRef.current ?? DEFAULT_HISTORY_FILTERS),
+    order: orderRef.current,
+  }), []);
+
+  const loadScans = useCallback(async (showSpinner: boolean = true) => {
     try {
-      setRefreshing(true);
-      await database.init();
-      const data = await database.getScans();
-      setScans(data);
+      if (showSpinner) setRefreshing(true);
+      await scanRepository.init();
+      if (!filtersRef.current) {
+        filtersRef.current = await loadHistoryFilters();
+        setFilters(filtersRef.current);
+      }
+      const page = await scanRepository.getScans({ ...getQuery(), limit: PAGE_SIZE, offset: 0 });
+      setScans(page.items);
+      setTotal(page.total);
+      setNextOffset(page.nextOffset);
     } catch (error) {
       console.error('Failed to load scans:', error);
       Alert.alert('Error', 'No se pudieron cargar los escaneos');
@@ -30,6 +100,152 @@ export default function HistoryScreen() {
       setRefreshing(false);
       setLoading(false);
     }
+  }, [getQuery]);
+
+  const loadTags = useCallback(() => {
+    scanRepository.getTags().then(setTagCounts).catch(error => console.error('Failed to load tags:', error));
+  }, []);
+
+  const scheduleLiveReload = useCallback(() => {
+    if (liveReloadTimerRef.current) clearTimeout(liveReloadTimerRef.current);
+    liveReloadTimerRef.current = setTimeout(() => {
+      liveReloadTimerRef.current = null;
+      loadScans(false);
+      loadTags();
+    }, LIVE_RELOAD_DELAY_MS);
+  }, [loadScans, loadTags]);
+
+  // Los eliminados y los modificados se aplican sobre la lista; los nuevos, los avisos de recarga y
+  // cualquier cambio con los repetidos agrupados o con filtros (puede entrar o salir de ellos) la recargan
+  const handleScanEvent = useCallback((message: ScanFeedMessage) => {
+    const currentFilters = filtersRef.current ?? DEFAULT_HISTORY_FILTERS;
+    if (message.type === 'reset' || message.type === 'created' || currentFilters.groupDuplicates) {
+      scheduleLiveReload();
+      return;
+    }
+
+    const key = `${message.scan_id}`;
+    if (message.type === 'deleted') {
+      if (scansRef.current.some(item => getScanKey(item) === key)) {
+        setScans(prev => prev.filter(item => getScanKey(item) !== key));
+        setTotal(prev => Math.max(prev - 1, 0));
+      }
+    } else if (message.scan && !hasActiveFilters(currentFilters)) {
+      const updated = message.scan;
+      setScans(prev => prev.map(item => getScanKey(item) === key
+        ? { ...item, ...updated, sync_status: item.sync_status, local_id: item.local_id }
+        : item));
+      loadTags();
+    } else {
+      scheduleLiveReload();
+    }
+  }, [loadTags, scheduleLiveReload]);
+
+  // Cargar escaneos cuando la pantalla está enfocada y seguir los cambios de la cola de sincronización
+  useFocusEffect(
+    useCallback(() => {
+      loadScans();
+      scanRepository.getSyncSummary?.().then(setSyncSummary).catch(() => {});
+      scanRepository.getZones().then(setZones).catch(error => console.error('Failed to load zones:', error));
+      loadTags();
+      // La copia de la lista de bloqueo de enlaces se actualiza mientras hay conexión
+      void refreshUrlBlocklist();
+      setWorkspace(getCurrentWorkspace());
+      const unsubscribeWorkspace = subscribeToWorkspace((current) => {
+        setWorkspace(current);
+        loadScans();
+        loadTags();
+      });
+      const unsubscribeSync = scanRepository.subscribeToSync?.((summary) => {
+        setSyncSummary(summary);
+        if (!summary.syncing) {
+          loadScans(false);
+        }
+      });
+      // Escaneos creados, modificados o eliminados en el servidor desde otros dispositivos
+      const unsubscribeScanEvents = scanRepository.subscribeToScanEvents?.(handleScanEvent);
+      return () => {
+        unsubscribeWorkspace();
+        unsubscribeSync?.();
+        unsubscribeScanEvents?.();
+        if (liveReloadTimerRef.current) {
+          clearTimeout(liveReloadTimerRef.current);
+          liveReloadTimerRef.current = null;
+        }
+      };
+    }, [loadScans, loadTags, handleScanEvent])
+  );
+
+  // Cargar la siguiente página al llegar al final de la lista
+  const loadMoreScans = async () => {
+    if (nextOffset === null || loadingMore || refreshing) return;
+    try {
+      setLoadingMore(true);
+      const page = await scanRepository.getScans({ ...getQuery(), limit: PAGE_SIZE, offset: nextOffset });
+      setScans(prev => {
+        const keys = new Set(prev.map(getScanKey));
+        return [...prev, ...page.items.filter(scan => !keys.has(getScanKey(scan)))];
+      });
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      console.error('Failed to load more scans:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleOrder = () => {
+    const newOrder = order === 'desc' ? 'asc' : 'desc';
+    setOrder(newOrder);
+    orderRef.current = newOrder;
+    loadScans();
+  };
+
+  // Aplicar y guardar los filtros; la búsqueda de texto espera a que el usuario deje de escribir
+  const updateFilters = (changes: Partial<HistoryFilters>, debounce: boolean = false) => {
+    const updated = { ...(filtersRef.current ?? DEFAULT_HISTORY_FILTERS), ...changes };
+    filtersRef.current = updated;
+    setFilters(updated);
+    saveHistoryFilters(updated).catch(error => console.error('Error saving filters:', error));
+
+    if (searchTimerRef.current) {
+      clearTimeout(searchTimerRef.current);
+      searchTimerRef.current = null;
+    }
+    if (debounce) {
+      searchTimerRef.current = setTimeout(() => loadScans(), SEARCH_DEBOUNCE_MS);
+    } else {
+      loadScans();
+    }
+  };
+
+  const clearFilters = () => updateFilters(DEFAULT_HISTORY_FILTERS);
+
+  // Todo el historial o, si hay filtros, solo lo que se está viendo
+  const getExportScopes = (): ExportScope[] => {
+    const scopes: ExportScope[] = [{ key: 'all', label: 'Todo el historial', query: {} }];
+    if (hasActiveFilters(filters)) {
+      scopes.push({
+        key: 'filtered',
+        label: filters.session ? `Sesión "${filters.session.name}" con los filtros actuales` : 'Resultados con los filtros actuales',
+        query: toScanQuery(filters),
+        fileLabel: filters.session?.name ?? filters.zone?.name ?? filters.tags[0] ?? 'filtrado',
+      });
+    }
+    return scopes;
+  };
+
+  // Al volver a los escaneos se recarga la lista por si se renombró o eliminó alguna sesión
+  const changeView = (newView: HistoryView) => {
+    if (newView === view) return;
+    setView(newView);
+    if (newView === 'scans') loadScans(false);
+  };
+
+  // Ver los escaneos de una sesión desde la pestaña de sesiones
+  const openSession = (session: ScanSession) => {
+    setView('scans');
+    updateFilters({ session: { id: session.id, name: session.name } });
   };
 
   const onRefresh = () => {
@@ -37,7 +253,7 @@ export default function HistoryScreen() {
     loadScans();
   };
 
-  const handleDeleteScan = (id: number) => {
+  const handleDeleteScan = (scan: ScanRecord) => {
     Alert.alert(
       'Eliminar Escaneo',
       '¿Estás seguro de que quieres eliminar este escaneo?',
@@ -48,9 +264,10 @@ export default function HistoryScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const success = await database.deleteScan(id);
+              const success = await scanRepository.deleteScan(scan);
               if (success) {
-                setScans(prev => prev.filter(scan => scan.id !== id));
+                setScans(prev => prev.filter(item => getScanKey(item) !== getScanKey(scan)));
+                setTotal(prev => Math.max(prev - 1, 0));
                 Alert.alert('Éxito', 'Escaneo eliminado correctamente');
               } else {
                 Alert.alert('Error', 'No se pudo eliminar el escaneo');
@@ -65,6 +282,19 @@ export default function HistoryScreen() {
     );
   };
 
+  // Sustituir el escaneo editado en la lista sin recargarla
+  const handleScanSaved = (saved: ScanRecord) => {
+    setScans(prev => prev.map(item => (getScanKey(item) === getScanKey(saved) ? saved : item)));
+    loadTags();
+  };
+
+  // Los enlaces se comprueban antes de abrirlos; el veredicto se guarda en el escaneo si se puede editar
+  const openURL = (item: ScanRecord, url: string) =>
+    setLinkToCheck({ url, scan: canEdit && (item.group_size ?? 1) === 1 ? item : null });
+
+  const handleVerdictSaved = (saved: ScanRecord) =>
+    setScans(prev => prev.map(item => (getScanKey(item) === getScanKey(saved) ? saved : item)));
+
   const shareQR = async (qrData: string) => {
     try {
       await Share.share({
@@ -76,24 +306,14 @@ export default function HistoryScreen() {
     }
   };
 
-  const openURL = async (url: string) => {
+  const retryFailedSync = async () => {
     try {
-      const supported = await Linking.canOpenURL(url);
-      if (supported) {
-        await Linking.openURL(url);
-      } else {
-        Alert.alert('Error', 'No se puede abrir este enlace');
-      }
+      await scanRepository.retryFailed?.();
     } catch (error) {
-      console.error('Error opening URL:', error);
+      console.error('Error retrying sync:', error);
     }
   };
 
-  const isURL = (text: string): boolean => {
-    const urlPattern = /^(https?:\/\/)|(www\.)/i;
-    return urlPattern.test(text);
-  };
-
   const formatDate = (timestamp: number): string => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('es-ES', {
@@ -119,11 +339,151 @@ export default function HistoryScreen() {
     return 'Ubicación no disponible';
   };
 
+  const renderSyncStatus = (item: ScanRecord) => {
+    switch (item.sync_status) {
+      case 'pending':
+        return (
+          <View style={styles.metaEscaneo}>
+            <CloudOff size={14} color="#FF9500" />
+            <Text style={[styles.estadoSincronizacion, { color: '#FF9500' }]}>Pendiente de sincronizar</Text>
+          </View>
+        );
+      case 'failed':
+        return (
+          <TouchableOpacity style={styles.metaEscaneo} onPress={retryFailedSync}>
+            <AlertCircle size={14} color="#FF3B30" />
+            <Text style={[styles.estadoSincronizacion, { color: '#FF3B30' }]}>
+              Error de sincronización · Reintentar
+            </Text>
+          </TouchableOpacity>
+        );
+      case 'synced':
+        return (
+          <View style={styles.metaEscaneo}>
+            <Cloud size={14} color="#34C759" />
+            <Text style={[styles.estadoSincronizacion, { color: '#34C759' }]}>Sincronizado</Text>
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Número de lecturas con la primera y la última vez que se vio el código
+  const renderRepeats = (item: ScanRecord) => {
+    const count = item.scan_count ?? 1;
+    const groupSize = item.group_size ?? 1;
+    if (count <= 1 && groupSize <= 1) return null;
+
+    const lastSeen = item.last_seen_at ?? item.timestamp;
+    return (
+      <View style={styles.bloqueRepetidos}>
+        <View style={styles.metaEscaneo}>
+          <Repeat size={14} color="#FF9500" />
+          <Text style={styles.textoRepetidos}>Leído {count} {count === 1 ? 'vez' : 'veces'}</Text>
+        </View>
+        <Text style={styles.textoVistoRepetidos}>
+          Primera vez: {formatDate(item.timestamp)} {formatTime(item.timestamp)}
+        </Text>
+        <Text style={styles.textoVistoRepetidos}>
+          Última vez: {formatDate(lastSeen)} {formatTime(lastSeen)}
+        </Text>
+        {groupSize > 1 && (
+          <TouchableOpacity
+            style={styles.botonVerRegistros}
+            onPress={() => updateFilters({ search: item.qr_data, groupDuplicates: false })}>
+            <Layers size={14} color="#007AFF" />
+            <Text style={styles.textoVerRegistros}>Ver {groupSize} registros</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  // Estado de revisión (solo si ya se ha revisado), etiquetas y notas
+  const renderAnnotations = (item: ScanRecord) => {
+    const status = item.status ?? 'pending';
+    const tags = item.tags ?? [];
+    if (status === 'pending' && tags.length === 0 && !item.notes) return null;
+
+    return (
+      <View style={styles.bloqueAnotaciones}>
+        {status !== 'pending' && (
+          <View style={styles.metaEscaneo}>
+            {status === 'verified'
+              ? <CircleCheck size={14} color={SCAN_STATUS_COLORS.verified} />
+              : <CircleX size={14} color={SCAN_STATUS_COLORS.rejected} />}
+            <Text style={[styles.estadoSincronizacion, { color: SCAN_STATUS_COLORS[status] }]}>
+              {SCAN_STATUS_LABELS[status]}
+            </Text>
+          </View>
+        )}
+        {tags.length > 0 && (
+          <View style={styles.filaEtiquetas}>
+            <Tag size={14} color="#666" />
+            {tags.map(tag => (
+              <TouchableOpacity
+                key={tag}
+                style={styles.etiquetaEscaneo}
+                onPress={() => !filters.tags.includes(tag) && updateFilters({ tags: [...filters.tags, tag] })}>
+                <Text style={styles.textoEtiquetaEscaneo}>{tag}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {item.notes && (
+          <View style={styles.metaEscaneo}>
+            <StickyNote size={14} color="#666" />
+            <Text style={[styles.fechaEscaneo, styles.textoNotas]} numberOfLines={2}>{item.notes}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderUrlVerdict = (item: ScanRecord) => {
+    const verdict = item.url_verdict;
+    if (!verdict || verdict.level === 'safe') return null;
+    return (
+      <View style={styles.metaEscaneo}>
+        <ShieldAlert size={14} color={URL_SAFETY_LEVEL_COLORS[verdict.level]} />
+        <Text style={[styles.estadoSincronizacion, { color: URL_SAFETY_LEVEL_COLORS[verdict.level] }]}>
+          {URL_SAFETY_LEVEL_LABELS[verdict.level]}: {verdict.risks.map(risk => URL_RISK_LABELS[risk]).join(', ')}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderAuthor = (item: ScanRecord) => {
+    const author = item.owner_name ?? (item.sync_status === 'pending' || item.sync_status === 'failed'
+      ? auth.getSession()?.user.username
+      : null);
+    if (!author) return null;
+    return (
+      <View style={styles.metaEscaneo}>
+        <User size={14} color="#666" />
+        <Text style={styles.fechaEscaneo}>Por {author}</Text>
+      </View>
+    );
+  };
+
+  // Los lectores de un espacio de trabajo solo pueden consultar sus escaneos
+  const canEdit = !workspace || canEditScans(workspace.role);
+
   const renderScanItem = ({ item }: { item: ScanRecord }) => (
-    <View style={styles.tarjetaEscaneo}>
+    <TouchableOpacity
+      style={styles.tarjetaEscaneo}
+      activeOpacity={0.7}
+      onPress={() => router.push(`/scan/${getScanKey(item)}`)}>
       <View style={styles.encabezadoEscaneo}>
         <View style={styles.infoEscaneo}>
           <Text style={styles.datoEscaneo} numberOfLines={2}>{item.qr_data}</Text>
+
+          {/* Tipo de contenido y acciones */}
+          <PayloadActions payload={getScanPayload(item)} onOpenURL={url => openURL(item, url)} />
+
+          {/* Última comprobación del enlace, si encontró riesgos */}
+          {renderUrlVerdict(item)}
           
           {/* Fecha */}
           <View style={styles.metaEscaneo}>
@@ -136,6 +496,31 @@ export default function HistoryScreen() {
             <Clock size={14} color="#666" />
             <Text style={styles.horaEscaneo}>{formatTime(item.timestamp)}</Text>
           </View>
+
+          {/* Simbología */}
+          <View style={styles.metaEscaneo}>
+            <Barcode size={14} color="#666" />
+            <Text style={styles.fechaEscaneo}>{getBarcodeTypeLabel(item.barcode_type)}</Text>
+          </View>
+
+          {/* Autor: los escaneos aún sin sincronizar son del usuario con sesión */}
+          {renderAuthor(item)}
+
+          {/* Zona */}
+          {item.zone_id && (
+            <View style={styles.metaEscaneo}>
+              <Fence size={14} color="#666" />
+              <Text style={styles.fechaEscaneo}>
+                {zones.find(zone => zone.id === item.zone_id)?.name ?? 'Zona eliminada'}
+              </Text>
+            </View>
+          )}
+
+          {/* Estado de revisión, etiquetas y notas */}
+          {renderAnnotations(item)}
+
+          {/* Lecturas repetidas */}
+          {renderRepeats(item)}
           
           {/* Ubicación */}
           {(item.latitude && item.longitude) && (
@@ -146,33 +531,139 @@ export default function HistoryScreen() {
               </Text>
             </View>
           )}
+
+          {/* Estado de sincronización */}
+          {renderSyncStatus(item)}
         </View>
         
         <View style={styles.botonesAccion}>
           <TouchableOpacity style={styles.botonAccion} onPress={() => shareQR(item.qr_data)}>
             <Share2 size={18} color="#007AFF" />
           </TouchableOpacity>
-          {isURL(item.qr_data) && (
-            <TouchableOpacity style={styles.botonAccion} onPress={() => openURL(item.qr_data)}>
-              <ExternalLink size={18} color="#34C759" />
-            </TouchableOpacity>
+          {/* Los grupos con varios registros se editan y eliminan desde su vista individual */}
+          {canEdit && (item.group_size ?? 1) === 1 && (
+            <>
+              <TouchableOpacity style={styles.botonAccion} onPress={() => setEditingScan(item)}>
+                <Pencil size={18} color="#007AFF" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.botonAccion} onPress={() => handleDeleteScan(item)}>
+                <Trash2 size={18} color="#FF3B30" />
+              </TouchableOpacity>
+            </>
           )}
-          <TouchableOpacity style={styles.botonAccion} onPress={() => handleDeleteScan(item.id)}>
-            <Trash2 size={18} color="#FF3B30" />
-          </TouchableOpacity>
         </View>
       </View>
+    </TouchableOpacity>
+  );
+
+  const renderFooter = () =>
+    loadingMore ? <ActivityIndicator style={styles.indicadorPagina} color="#007AFF" /> : null;
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActivo]}
+      onPress={onPress}>
+      <Text style={[styles.textoChip, active && styles.textoChipActivo]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilterBar = () => (
+    <View style={styles.barraFiltros}>
+      <View style={styles.campoBusqueda}>
+        <Search size={16} color="#8e8e93" />
+        <TextInput
+          style={styles.textoBusqueda}
+          value={filters.search}
+          onChangeText={(search) => updateFilters({ search }, true)}
+          placeholder="Buscar en el contenido"
+          placeholderTextColor="#8e8e93"
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {filters.search !== '' && (
+          <TouchableOpacity onPress={() => updateFilters({ search: '' })}>
+            <X size={16} color="#8e8e93" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filaChips}>
+        {filters.session && (
+          <TouchableOpacity
+            style={[styles.chip, styles.chipActivo, styles.chipSesion]}
+            onPress={() => updateFilters({ session: null })}>
+            <Text style={[styles.textoChip, styles.textoChipActivo]} numberOfLines={1}>
+              Sesión: {filters.session.name}
+            </Text>
+            <X size={14} color="white" style={styles.iconoChipSesion} />
+          </TouchableOpacity>
+        )}
+        {renderChip('Agrupar repetidos', filters.groupDuplicates, () =>
+          updateFilters({ groupDuplicates: !filters.groupDuplicates })
+        )}
+        {renderChip('Con ubicación', filters.hasLocation, () =>
+          updateFilters({ hasLocation: !filters.hasLocation })
+        )}
+        {renderChip('Solo URL', filters.payloadType === 'url', () =>
+          updateFilters({ payloadType: filters.payloadType === 'url' ? null : 'url' })
+        )}
+        {DATE_RANGE_PRESETS.map(preset =>
+          renderChip(DATE_RANGE_LABELS[preset], filters.dateRange === preset, () =>
+            updateFilters({ dateRange: filters.dateRange === preset ? 'all' : preset })
+          )
+        )}
+        {/* La zona filtrada se muestra aunque ya no exista, para poder quitar el filtro */}
+        {filters.zone && !zones.some(zone => zone.id === filters.zone?.id) &&
+          renderChip(`Zona: ${filters.zone.name}`, true, () => updateFilters({ zone: null }))}
+        {zones.map(zone =>
+          renderChip(`Zona: ${zone.name}`, filters.zone?.id === zone.id, () =>
+            updateFilters({ zone: filters.zone?.id === zone.id ? null : { id: zone.id, name: zone.name } })
+          )
+        )}
+        {SCAN_STATUSES.map(status =>
+          renderChip(SCAN_STATUS_LABELS[status], filters.status === status, () =>
+            updateFilters({ status: filters.status === status ? null : status })
+          )
+        )}
+        {/* Las etiquetas seleccionadas se muestran primero, aunque ya no las use ningún escaneo */}
+        {[...filters.tags, ...tagCounts.map(item => item.tag).filter(tag => !filters.tags.includes(tag))].map(tag =>
+          renderChip(`#${tag}`, filters.tags.includes(tag), () =>
+            updateFilters({
+              tags: filters.tags.includes(tag) ? filters.tags.filter(item => item !== tag) : [...filters.tags, tag],
+            })
+          )
+        )}
+        {PAYLOAD_TYPES.filter(type => type !== 'url').map(type =>
+          renderChip(PAYLOAD_TYPE_LABELS[type], filters.payloadType === type, () =>
+            updateFilters({ payloadType: filters.payloadType === type ? null : type })
+          )
+        )}
+      </ScrollView>
     </View>
   );
 
-  const renderEmpty = () => (
+  const renderEmpty = () => hasActiveFilters(filters) ? (
+    <View style={styles.contenedorVacio}>
+      <Search size={80} color="#C7C7CC" />
+      <Text style={styles.tituloVacio}>Sin resultados</Text>
+      <Text style={styles.mensajeVacio}>
+        Ningún escaneo coincide con la búsqueda o los filtros seleccionados
+      </Text>
+      <TouchableOpacity style={styles.botonActualizar} onPress={clearFilters}>
+        <X size={20} color="white" />
+        <Text style={styles.textoBotonActualizar}>Quitar filtros</Text>
+      </TouchableOpacity>
+    </View>
+  ) : (
     <View style={styles.contenedorVacio}>
       <QrCode size={80} color="#C7C7CC" />
       <Text style={styles.tituloVacio}>No hay escaneos</Text>
       <Text style={styles.mensajeVacio}>
         Los códigos QR que escanees aparecerán aquí con fecha, hora y ubicación
       </Text>
-      <TouchableOpacity style={styles.botonActualizar} onPress={loadScans}>
+      <TouchableOpacity style={styles.botonActualizar} onPress={() => loadScans()}>
         <RefreshCw size={20} color="white" />
         <Text style={styles.textoBotonActualizar}>Actualizar</Text>
       </TouchableOpacity>
@@ -193,27 +684,106 @@ export default function HistoryScreen() {
   return (
     <SafeAreaView style={styles.contenedor}>
       <View style={styles.encabezado}>
-        <Text style={styles.tituloEncabezado}>Historial de Escaneos</Text>
-        <Text style={styles.subtituloEncabezado}>
-          {scans.length} código{scans.length !== 1 ? 's' : ''} QR escaneado{scans.length !== 1 ? 's' : ''}
-        </Text>
+        <View style={styles.filaEncabezado}>
+          <Text style={styles.tituloEncabezado}>Historial de Escaneos</Text>
+          <View style={styles.botonesAccion}>
+            {auth.getSession() && (
+              <TouchableOpacity style={styles.botonAccion} onPress={() => router.push('/workspaces')}>
+                <Users size={20} color={workspace ? '#007AFF' : '#8e8e93'} />
+              </TouchableOpacity>
+            )}
+            {canEdit && (
+              <TouchableOpacity style={styles.botonAccion} onPress={() => setImportVisible(true)}>
+                <Upload size={20} color="#007AFF" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.botonAccion} onPress={() => setExportVisible(true)}>
+              <Download size={20} color="#007AFF" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.botonAccion} onPress={() => router.push('/settings')}>
+              <Settings size={20} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+        </View>
+        <View style={styles.filaEncabezado}>
+          <Text style={styles.subtituloEncabezado}>
+            {workspace ? `${workspace.name} · ` : ''}
+            {filters.groupDuplicates
+              ? `${total} código${total !== 1 ? 's' : ''} distinto${total !== 1 ? 's' : ''}`
+              : `${total} código${total !== 1 ? 's' : ''} QR escaneado${total !== 1 ? 's' : ''}`}
+          </Text>
+          <TouchableOpacity style={styles.botonOrden} onPress={toggleOrder}>
+            <ArrowDownUp size={14} color="#007AFF" />
+            <Text style={styles.textoBotonOrden}>
+              {order === 'desc' ? 'Más recientes' : 'Más antiguos'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {(syncSummary.pending > 0 || syncSummary.failed > 0) && (
+          <Text style={styles.pendientesEncabezado}>
+            {syncSummary.syncing ? 'Sincronizando… ' : ''}
+            {syncSummary.pending} pendiente{syncSummary.pending !== 1 ? 's' : ''} de sincronizar
+            {syncSummary.failed > 0 ? ` · ${syncSummary.failed} con error` : ''}
+          </Text>
+        )}
       </View>
 
-      <FlatList
-        data={scans}
-        renderItem={renderScanItem}
-        keyExtractor={(item) => item.id.toString()}
-        contentContainerStyle={styles.contenedorLista}
-        showsVerticalScrollIndicator={false}
-        refreshControl={
-          <RefreshControl 
-            refreshing={refreshing} 
-            onRefresh={onRefresh} 
-            tintColor="#007AFF" 
-            colors={['#007AFF']} 
+      {/* Escaneos sueltos o agrupados por sesión */}
+      <View style={styles.selectorVista}>
+        {(['scans', 'sessions'] as const).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.opcionVista, view === option && styles.opcionVistaActiva]}
+            onPress={() => changeView(option)}>
+            <Text style={[styles.textoOpcionVista, view === option && styles.textoOpcionVistaActiva]}>
+              {option === 'scans' ? 'Escaneos' : 'Sesiones'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {view === 'sessions' ? (
+        <SessionList onOpenSession={openSession} />
+      ) : (
+        <>
+          {renderFilterBar()}
+
+          <FlatList
+            data={scans}
+            renderItem={renderScanItem}
+            keyExtractor={getScanKey}
+            contentContainerStyle={styles.contenedorLista}
+            showsVerticalScrollIndicator={false}
+            refreshControl={
+              <RefreshControl 
+                refreshing={refreshing} 
+                onRefresh={onRefresh} 
+                tintColor="#007AFF" 
+                colors={['#007AFF']} 
+              />
+            }
+            ListEmptyComponent={renderEmpty}
+            ListFooterComponent={renderFooter}
+            onEndReached={loadMoreScans}
+            onEndReachedThreshold={0.5}
           />
-        }
-        ListEmptyComponent={renderEmpty}
+        </>
+      )}
+
+      <ExportSheet visible={exportVisible} scopes={getExportScopes()} onClose={() => setExportVisible(false)} />
+      <ImportSheet visible={importVisible} onClose={() => setImportVisible(false)} onImported={() => loadScans(false)} />
+      <ScanNotesEditor
+        visible={editingScan !== null}
+        scan={editingScan}
+        suggestedTags={tagCounts.map(item => item.tag)}
+        onClose={() => setEditingScan(null)}
+        onSaved={handleScanSaved}
+      />
+      <UrlSafetySheet
+        url={linkToCheck?.url ?? null}
+        scan={linkToCheck?.scan}
+        onClose={() => setLinkToCheck(null)}
+        onVerdictSaved={handleVerdictSaved}
       />
     </SafeAreaView>
   );
@@ -242,6 +812,11 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E5E5EA',
   },
+  filaEncabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   tituloEncabezado: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -252,6 +827,104 @@ const styles = StyleSheet.create({
     color: '#8e8e93',
     marginTop: 4,
   },
+  botonOrden: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  textoBotonOrden: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  indicadorPagina: {
+    marginVertical: 16,
+  },
+  pendientesEncabezado: {
+    fontSize: 14,
+    color: '#FF9500',
+    marginTop: 4,
+    fontWeight: '500',
+  },
+  barraFiltros: {
+    backgroundColor: 'white',
+    paddingTop: 12,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  campoBusqueda: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f2f2f7',
+    borderRadius: 10,
+    marginHorizontal: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  textoBusqueda: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1c1c1e',
+    marginHorizontal: 8,
+    padding: 0,
+  },
+  filaChips: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f2f2f7',
+    marginRight: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '500',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  chipSesion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 220,
+  },
+  iconoChipSesion: {
+    marginLeft: 4,
+  },
+  selectorVista: {
+    flexDirection: 'row',
+    margin: 16,
+    marginBottom: 0,
+    padding: 2,
+    borderRadius: 10,
+    backgroundColor: '#e5e5ea',
+  },
+  opcionVista: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  opcionVistaActiva: {
+    backgroundColor: 'white',
+  },
+  textoOpcionVista: {
+    fontSize: 14,
+    color: '#8e8e93',
+    fontWeight: '600',
+  },
+  textoOpcionVistaActiva: {
+    color: '#1c1c1e',
+  },
   contenedorLista: {
     padding: 16,
     flexGrow: 1,
@@ -293,6 +966,64 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 6,
   },
+  bloqueRepetidos: {
+    marginBottom: 6,
+  },
+  bloqueAnotaciones: {
+    marginBottom: 2,
+  },
+  filaEtiquetas: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  etiquetaEscaneo: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#f0f6ff',
+    marginLeft: 6,
+    marginBottom: 2,
+  },
+  textoEtiquetaEscaneo: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  textoNotas: {
+    flex: 1,
+    fontStyle: 'italic',
+  },
+  textoRepetidos: {
+    fontSize: 13,
+    color: '#FF9500',
+    marginLeft: 6,
+    fontWeight: '600',
+  },
+  textoVistoRepetidos: {
+    fontSize: 12,
+    color: '#8e8e93',
+    marginLeft: 20,
+    marginBottom: 2,
+  },
+  botonVerRegistros: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginLeft: 20,
+    marginTop: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#f0f6ff',
+  },
+  textoVerRegistros: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   fechaEscaneo: {
     fontSize: 13,
     color: '#666',
@@ -305,6 +1036,11 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     fontWeight: '500',
   },
+  estadoSincronizacion: {
+    fontSize: 13,
+    marginLeft: 6,
+    fontWeight: '500',
+  },
   ubicacionEscaneo: {
     fontSize: 13,
     color: '#007AFF',
@@ -1,27 +1,79 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Alert,
-  Dimensions,
   TouchableOpacity,
   Animated,
+  Platform,
+  Switch,
+  TextInput,
 } from 'react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
 import * as Location from 'expo-location';
+import * as Haptics from 'expo-haptics';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { MapPin, QrCode, Zap, Clock } from 'lucide-react-native';
-import { database } from '@/lib/database';
-
-const { width, height } = Dimensions.get('window');
+import {
+  MapPin,
+  QrCode,
+  Zap,
+  Clock,
+  Layers,
+  Fence,
+  TriangleAlert,
+  Workflow,
+  Ban,
+  ListChecks,
+  ChevronRight,
+} from 'lucide-react-native';
+import { NewScan, scanRepository, ScanSession, Zone } from '@/lib/scanRepository';
+import { parsePayload } from '@/lib/payload';
+import { BarcodeType, getBarcodeTypeLabel, normalizeBarcodeType } from '@/lib/barcode';
+import { DEFAULT_SCANNER_SETTINGS, loadScannerSettings, ScannerSettings } from '@/lib/scannerSettings';
+import { findZoneForPoint } from '@/lib/zones';
+import { applyRuleEvaluation, evaluateRules, RuleEvaluation, ScanRule } from '@/lib/rules';
+import { getScanRules, refreshScanRules } from '@/lib/scanRules';
+import { playRuleFeedback } from '@/lib/ruleFeedback';
+import { getActiveChecklist, recordChecklistCode } from '@/lib/checklist';
+import {
+  CHECKLIST_OUTCOME_COLORS,
+  CHECKLIST_OUTCOME_LABELS,
+  ChecklistOutcome,
+  getChecklistSummary,
+} from '@/lib/manifest';
+import PayloadActions from '@/components/PayloadActions';
+import UrlSafetySheet from '@/components/UrlSafetySheet';
 
 interface ScanResult {
   data: string;
+  type: string; // Simbología normalizada (qr, ean13, code128...)
   location: Location.LocationObject | null;
   timestamp: number;
+  zone?: Zone | null;          // Zona en la que se leyó
+  expectedZone?: Zone | null;  // Zona habitual del código, si se ha leído fuera de ella
+  rules?: RuleEvaluation;      // Reglas de escaneo que ha cumplido y sus acciones
+  checklist?: { outcome: ChecklistOutcome; label: string | null }; // Resultado en la lista de control activa
 }
 
+// Progreso de la lista de control activa que se muestra sobre la cámara
+interface ProgresoLista {
+  name: string;
+  matched: number;
+  total: number;
+}
+
+// Vibración de cada resultado de la lista de control
+const VIBRACION_LISTA: Record<ChecklistOutcome, Haptics.NotificationFeedbackType> = {
+  matched: Haptics.NotificationFeedbackType.Success,
+  already_scanned: Haptics.NotificationFeedbackType.Warning,
+  unexpected: Haptics.NotificationFeedbackType.Error,
+};
+
+type TipoNotificacion = 'info' | 'aviso';
+
 export default function ScannerScreen() {
   const [permission, requestPermission] = useCameraPermissions();
   const [locationPermission, setLocationPermission] = useState<boolean>(false);
@@ -29,27 +81,102 @@ export default function ScannerScreen() {
   const [lastScan, setLastScan] = useState<ScanResult | null>(null);
   const [scanCount, setScanCount] = useState<number>(0);
   const [notificationOpacity] = useState(new Animated.Value(0));
+  const [notificationMessage, setNotificationMessage] = useState<string>('');
+  const [notificationType, setNotificationType] = useState<TipoNotificacion>('info');
   const [isScanning, setIsScanning] = useState<boolean>(true);
+  const [scannerSettings, setScannerSettings] = useState<ScannerSettings>(DEFAULT_SCANNER_SETTINGS);
+  const cooldownTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Modo continuo: los escaneos se agrupan en una sesión y la cámara no se pausa
+  const [session, setSession] = useState<ScanSession | null>(null);
+  const [sessionName, setSessionName] = useState<string>('');
+  const [sessionScanCount, setSessionScanCount] = useState<number>(0);
+  const [startingSession, setStartingSession] = useState<boolean>(false);
+  // Códigos ya leídos en la sesión y los que se están guardando, para no repetirlos mientras sigan delante de la cámara
+  const sessionCodesRef = useRef<Set<string>>(new Set());
+  const pendingCodesRef = useRef<Set<string>>(new Set());
+  // Zonas para etiquetar cada lectura (se guardan en el dispositivo, así que funcionan sin conexión)
+  const zonesRef = useRef<Zone[]>([]);
+  // Reglas de escaneo del ámbito actual (copia del dispositivo, que se actualiza al volver a la pestaña)
+  const rulesRef = useRef<ScanRule[]>([]);
+  // Enlace que una regla manda abrir; antes se comprueba su seguridad
+  const [linkToOpen, setLinkToOpen] = useState<string | null>(null);
+  // Lista de control activa (se carga o se cierra en su pantalla)
+  const [checklist, setChecklist] = useState<ProgresoLista | null>(null);
+  const barcodeTypes: BarcodeType[] = scannerSettings.barcodeTypes;
 
-  useEffect(() => {
-    inicializarApp();
+  useEffect(() => () => {
+    if (cooldownTimerRef.current) clearTimeout(cooldownTimerRef.current);
   }, []);
 
-  const inicializarApp = async () => {
+  // En modo continuo no hay tiempo de pedir la posición en cada lectura: se sigue en segundo plano
+  const sessionId = session?.id;
+  useEffect(() => {
+    if (!sessionId || !locationPermission) return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.Balanced, distanceInterval: 5 },
+      setLocation
+    )
+      .then(sub => {
+        if (cancelled) sub.remove();
+        else subscription = sub;
+      })
+      .catch(error => console.error('Error al seguir la ubicación:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [sessionId, locationPermission]);
+
+  // Los ajustes del escáner se pueden cambiar en Ajustes mientras esta pestaña sigue montada
+  useFocusEffect(
+    useCallback(() => {
+      loadScannerSettings()
+        .then(setScannerSettings)
+        .catch(error => console.error('Error al cargar los ajustes del escáner:', error));
+      cargarZonas();
+      cargarReglas();
+      cargarListaDeControl();
+    }, [])
+  );
+
+  const cargarZonas = async () => {
     try {
-      await database.init();
-      await obtenerPermisoUbicacion();
-      await obtenerUbicacionActual();
-      
-      // Cargar conteo de escaneos existentes
-      const scans = await database.getScans();
-      setScanCount(scans.length);
+      await scanRepository.init();
+      zonesRef.current = await scanRepository.getZones();
     } catch (error) {
-      console.error('Error al inicializar la app:', error);
+      console.error('Error al cargar las zonas:', error);
+    }
+  };
+
+  const cargarReglas = async () => {
+    try {
+      rulesRef.current = (await getScanRules()).rules;
+      rulesRef.current = (await refreshScanRules()).rules;
+    } catch (error) {
+      console.error('Error al cargar las reglas de escaneo:', error);
     }
   };
 
-  const obtenerPermisoUbicacion = async () => {
+  const cargarListaDeControl = async () => {
+    try {
+      const activa = await getActiveChecklist();
+      if (!activa) {
+        setChecklist(null);
+        return;
+      }
+      const { matched, total } = getChecklistSummary(activa.manifest, activa.progress);
+      setChecklist({ name: activa.manifest.name, matched, total });
+    } catch (error) {
+      console.error('Error al cargar la lista de control:', error);
+    }
+  };
+
+  // Devuelve si se ha concedido el permiso
+  const obtenerPermisoUbicacion = useCallback(async (): Promise<boolean> => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
       setLocationPermission(status === 'granted');
@@ -61,14 +188,16 @@ export default function ScannerScreen() {
           [{ text: 'OK' }]
         );
       }
+      return status === 'granted';
     } catch (error) {
       console.error('Error al solicitar permiso de ubicación:', error);
+      return false;
     }
-  };
+  }, []);
 
-  const obtenerUbicacionActual = async () => {
+  const obtenerUbicacionActual = useCallback(async (permitido: boolean) => {
     try {
-      if (locationPermission) {
+      if (permitido) {
         const loc = await Location.getCurrentPositionAsync({
           accuracy: Location.Accuracy.Balanced,
         });
@@ -77,9 +206,28 @@ export default function ScannerScreen() {
     } catch (error) {
       console.error('Error al obtener ubicación:', error);
     }
-  };
+  }, []);
+
+  const inicializarApp = useCallback(async () => {
+    try {
+      await scanRepository.init();
+      await obtenerUbicacionActual(await obtenerPermisoUbicacion());
+      
+      // Cargar conteo de escaneos existentes
+      const { total } = await scanRepository.getScans({ limit: 1 });
+      setScanCount(total);
+    } catch (error) {
+      console.error('Error al inicializar la app:', error);
+    }
+  }, [obtenerPermisoUbicacion, obtenerUbicacionActual]);
+
+  useEffect(() => {
+    inicializarApp();
+  }, [inicializarApp]);
 
-  const mostrarNotificacion = (message: string) => {
+  const mostrarNotificacion = (message: string, type: TipoNotificacion = 'info') => {
+    setNotificationMessage(message);
+    setNotificationType(type);
     Animated.sequence([
       Animated.timing(notificationOpacity, {
         toValue: 1,
@@ -95,6 +243,83 @@ export default function ScannerScreen() {
     ]).start();
   };
 
+  const vibrar = (type: Haptics.NotificationFeedbackType) => {
+    if (Platform.OS === 'web') return;
+    Haptics.notificationAsync(type).catch(error => console.warn('Vibración no disponible:', error));
+  };
+
+  // El aviso de las reglas que ha cumplido el código sustituye a la vibración habitual y, con una lista de
+  // control activa, la vibración indica si el código estaba en la lista
+  const avisarEscaneo = (scanResult: ScanResult, type: Haptics.NotificationFeedbackType | null) => {
+    if (scanResult.rules?.feedback) {
+      playRuleFeedback(scanResult.rules.feedback);
+    } else if (scanResult.checklist) {
+      vibrar(VIBRACION_LISTA[scanResult.checklist.outcome]);
+    } else if (type !== null) {
+      vibrar(type);
+    }
+  };
+
+  const iniciarSesion = async () => {
+    setStartingSession(true);
+    try {
+      const nueva = await scanRepository.startSession(`Sesión ${formatearFechaHora(Date.now())}`);
+      sessionCodesRef.current = new Set();
+      pendingCodesRef.current = new Set();
+      if (cooldownTimerRef.current) {
+        clearTimeout(cooldownTimerRef.current);
+        cooldownTimerRef.current = null;
+      }
+      setSession(nueva);
+      setSessionName(nueva.name);
+      setSessionScanCount(0);
+      setIsScanning(true);
+    } catch (error) {
+      console.error('Error al iniciar la sesión:', error);
+      Alert.alert('Error', 'No se pudo iniciar la sesión de escaneo');
+    } finally {
+      setStartingSession(false);
+    }
+  };
+
+  const finalizarSesion = async () => {
+    if (!session) return;
+    try {
+      const nombre = sessionName.trim() || session.name;
+      await scanRepository.updateSession(session, { name: nombre, ended_at: Date.now() });
+      mostrarNotificacion(`Sesión "${nombre}" finalizada con ${sessionScanCount} códigos`);
+    } catch (error) {
+      console.error('Error al finalizar la sesión:', error);
+      Alert.alert('Error', 'No se pudo finalizar la sesión');
+      return;
+    }
+    setSession(null);
+    setSessionName('');
+  };
+
+  const renombrarSesion = async () => {
+    if (!session) return;
+    const nombre = sessionName.trim();
+    if (!nombre || nombre === session.name) {
+      setSessionName(session.name);
+      return;
+    }
+    try {
+      setSession(await scanRepository.updateSession(session, { name: nombre }));
+    } catch (error) {
+      console.error('Error al renombrar la sesión:', error);
+      setSessionName(session.name);
+    }
+  };
+
+  const alternarModoContinuo = (activar: boolean) => {
+    if (activar) {
+      iniciarSesion();
+    } else {
+      finalizarSesion();
+    }
+  };
+
   const formatearFechaHora = (timestamp: number): string => {
     const date = new Date(timestamp);
     return date.toLocaleString('es-ES', {
@@ -116,6 +341,10 @@ export default function ScannerScreen() {
 
   const manejarCodigoEscaneado = async ({ type, data }: { type: string; data: string }) => {
     if (!isScanning) return;
+    if (session) {
+      await manejarCodigoContinuo(session, { type, data });
+      return;
+    }
     
     try {
       setIsScanning(false);
@@ -135,52 +364,177 @@ export default function ScannerScreen() {
 
       const scanResult: ScanResult = {
         data,
+        type: normalizeBarcodeType(type),
         location: currentLocation,
         timestamp: Date.now(),
       };
 
+      // Guardar en base de datos (según la política de códigos repetidos)
+      const result = await guardarEscaneoEnBaseDeDatos(scanResult);
       setLastScan(scanResult);
       
-      // Guardar en base de datos
-      await guardarEscaneoEnBaseDeDatos(scanResult);
-      
-      // Actualizar conteo de escaneos
-      const scans = await database.getScans();
-      setScanCount(scans.length);
+      if (result?.outcome === 'recorded') {
+        // Actualizar conteo de escaneos
+        const { total } = await scanRepository.getScans({ limit: 1 });
+        setScanCount(total);
+      }
       
-      mostrarNotificacion('Código QR escaneado correctamente');
+      // El escaneo ya está guardado en el dispositivo; se sincroniza cuando haya conexión
+      if (!result) {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Error);
+        mostrarNotificacion(scanResult.rules?.reject_message ?? 'Código rechazado', 'aviso');
+      } else if (scanResult.expectedZone) {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Warning);
+        mostrarNotificacion(describirFueraDeZona(scanResult), 'aviso');
+      } else if (result.outcome === 'ignored') {
+        avisarEscaneo(scanResult, null);
+        mostrarNotificacion('Código repetido, no se ha vuelto a registrar');
+      } else if (result.outcome === 'incremented') {
+        avisarEscaneo(scanResult, null);
+        mostrarNotificacion(`Código repetido: leído ${result.scanCount} veces`);
+      } else {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Success);
+        mostrarNotificacion(
+          scanRepository.isOffline?.()
+            ? 'Código guardado sin conexión, se sincronizará más tarde'
+            : `Código ${getBarcodeTypeLabel(scanResult.type)} escaneado correctamente`
+        );
+      }
+
+      // Solo fuera del modo continuo: abrir enlaces a medio escanear una sesión la interrumpiría
+      if (result && scanResult.rules?.open_url) {
+        const payload = parsePayload(scanResult.data);
+        if (payload.type === 'url') setLinkToOpen(payload.fields.url);
+      }
       
-      // Reactivar el escaneo después de un retraso
-      setTimeout(() => {
+      // Reactivar el escaneo tras la pausa configurada
+      cooldownTimerRef.current = setTimeout(() => {
+        cooldownTimerRef.current = null;
         setIsScanning(true);
-      }, 3000);
+      }, scannerSettings.cooldownSeconds * 1000);
       
     } catch (error) {
       console.error('Error al manejar escaneo:', error);
-      Alert.alert('Error', 'No se pudo procesar el código QR');
+      Alert.alert('Error', 'No se pudo procesar el código');
       setIsScanning(true);
     }
   };
 
-  const guardarEscaneoEnBaseDeDatos = async (scanResult: ScanResult) => {
+  // Modo continuo: cada código distinto se guarda al momento en la sesión, sin pausar la cámara
+  const manejarCodigoContinuo = async (
+    sesionActual: ScanSession,
+    { type, data }: { type: string; data: string }
+  ) => {
+    if (sessionCodesRef.current.has(data) || pendingCodesRef.current.has(data)) return;
+    pendingCodesRef.current.add(data);
+
+    try {
+      const scanResult: ScanResult = {
+        data,
+        type: normalizeBarcodeType(type),
+        location,
+        timestamp: Date.now(),
+      };
+
+      // Los códigos rechazados también se recuerdan, para no avisar de nuevo mientras sigan delante
+      const result = await guardarEscaneoEnBaseDeDatos(scanResult, sesionActual.id);
+      sessionCodesRef.current.add(data);
+      setLastScan(scanResult);
+
+      if (result?.outcome === 'recorded') {
+        setSessionScanCount(count => count + 1);
+        setScanCount(count => count + 1);
+      }
+      if (!result) {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Error);
+        mostrarNotificacion(scanResult.rules?.reject_message ?? 'Código rechazado', 'aviso');
+      } else if (scanResult.expectedZone) {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Warning);
+        mostrarNotificacion(describirFueraDeZona(scanResult), 'aviso');
+      } else if (result.outcome === 'recorded') {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Success);
+        mostrarNotificacion(`${getBarcodeTypeLabel(scanResult.type)} añadido a la sesión`);
+      } else {
+        avisarEscaneo(scanResult, Haptics.NotificationFeedbackType.Warning);
+        mostrarNotificacion('Código repetido en esta sesión');
+      }
+    } catch (error) {
+      console.error('Error al manejar escaneo continuo:', error);
+      vibrar(Haptics.NotificationFeedbackType.Error);
+      mostrarNotificacion('No se pudo guardar el código');
+    } finally {
+      pendingCodesRef.current.delete(data);
+    }
+  };
+
+  // Aviso cuando un código aparece fuera de la zona en la que se leyó la última vez
+  const describirFueraDeZona = ({ zone, expectedZone }: ScanResult): string =>
+    zone
+      ? `Código fuera de su zona: esperado en "${expectedZone?.name}", leído en "${zone.name}"`
+      : `Código fuera de su zona: esperado en "${expectedZone?.name}"`;
+
+  // Guarda la lectura etiquetada con su zona y con las etiquetas y el estado de las reglas que cumple, y
+  // completa scanResult con la zona, las reglas, el resultado en la lista de control y, si se ha leído fuera de
+  // ella, la zona esperada. Devuelve null si una regla rechaza el código: entonces no se guarda ni se anota
+  const guardarEscaneoEnBaseDeDatos = async (scanResult: ScanResult, sessionId: string | null = null) => {
     try {
-      const scanData = {
+      const coords = scanResult.location?.coords;
+      scanResult.zone = coords ? findZoneForPoint(coords, zonesRef.current) : null;
+
+      const rules = evaluateRules(
+        rulesRef.current,
+        {
+          qr_data: scanResult.data,
+          latitude: coords?.latitude ?? null,
+          longitude: coords?.longitude ?? null,
+          zone_id: scanResult.zone?.id ?? null,
+        },
+        zonesRef.current
+      );
+      scanResult.rules = rules;
+      if (rules.rejected) {
+        console.log('Escaneo rechazado por una regla:', rules.reject_message);
+        return null;
+      }
+
+      const scanData = applyRuleEvaluation<NewScan>({
         qr_data: scanResult.data,
         latitude: scanResult.location?.coords.latitude || null,
         longitude: scanResult.location?.coords.longitude || null,
         altitude: scanResult.location?.coords.altitude || null,
         accuracy: scanResult.location?.coords.accuracy || null,
         timestamp: scanResult.timestamp,
-      };
+        barcode_type: scanResult.type,
+        session_id: sessionId,
+        zone_id: scanResult.zone?.id ?? null,
+      }, rules);
 
-      const id = await database.addScan(scanData);
-      console.log('Escaneo guardado exitosamente con ID:', id);
+      const result = await scanRepository.registerScan(scanData, scannerSettings.duplicates);
+      if (result.expectedZoneId) {
+        // La zona esperada puede haberse eliminado desde la última carga
+        scanResult.expectedZone = zonesRef.current.find(zone => zone.id === result.expectedZoneId) ?? null;
+      }
+      console.log('Escaneo procesado:', result.outcome, 'ID local:', result.localId);
+      await anotarEnListaDeControl(scanResult);
+      return result;
     } catch (error) {
       console.error('Error al guardar escaneo:', error);
       throw error;
     }
   };
 
+  // Las lecturas repetidas también se anotan: así se avisa de que el código ya estaba escaneado
+  const anotarEnListaDeControl = async (scanResult: ScanResult) => {
+    try {
+      const anotado = await recordChecklistCode(scanResult.data, scanResult.timestamp);
+      if (!anotado) return;
+      scanResult.checklist = { outcome: anotado.outcome, label: anotado.item?.label ?? null };
+      setChecklist({ name: anotado.manifest.name, matched: anotado.summary.matched, total: anotado.summary.total });
+    } catch (error) {
+      console.error('Error al anotar el código en la lista de control:', error);
+    }
+  };
+
   if (!permission) {
     return (
       <View style={styles.contenedorPermisos}>
@@ -209,9 +563,14 @@ export default function ScannerScreen() {
   return (
     <SafeAreaView style={styles.contenedor}>
       {/* Banner de notificación */}
-      <Animated.View style={[styles.notificacion, { opacity: notificationOpacity }]}>
-        <Zap size={16} color="white" />
-        <Text style={styles.textoNotificacion}>Código QR escaneado correctamente</Text>
+      <Animated.View
+        style={[
+          styles.notificacion,
+          notificationType === 'aviso' && styles.notificacionAviso,
+          { opacity: notificationOpacity },
+        ]}>
+        {notificationType === 'aviso' ? <TriangleAlert size={16} color="white" /> : <Zap size={16} color="white" />}
+        <Text style={styles.textoNotificacion}>{notificationMessage}</Text>
       </Animated.View>
 
       {/* Info de GPS */}
@@ -231,9 +590,39 @@ export default function ScannerScreen() {
           facing="back"
           onBarcodeScanned={isScanning ? manejarCodigoEscaneado : undefined}
           barcodeScannerSettings={{
-            barcodeTypes: ['qr'],
+            barcodeTypes,
           }}
         >
+          {/* Lista de control: progreso y resultado de la última lectura */}
+          {checklist && (
+            <TouchableOpacity style={styles.bannerLista} onPress={() => router.push('/checklist')}>
+              <View style={styles.filaBannerLista}>
+                <ListChecks size={16} color="white" />
+                <Text style={styles.textoBannerLista} numberOfLines={1}>
+                  {checklist.name}: {checklist.matched}/{checklist.total}
+                </Text>
+                <ChevronRight size={16} color="white" />
+              </View>
+              {lastScan?.checklist && (
+                <View style={styles.filaBannerLista}>
+                  <View
+                    style={[
+                      styles.resultadoLista,
+                      { backgroundColor: CHECKLIST_OUTCOME_COLORS[lastScan.checklist.outcome] },
+                    ]}
+                  >
+                    <Text style={styles.textoResultadoLista}>
+                      {CHECKLIST_OUTCOME_LABELS[lastScan.checklist.outcome]}
+                    </Text>
+                  </View>
+                  <Text style={styles.textoEtiquetaLista} numberOfLines={1}>
+                    {lastScan.checklist.label ?? lastScan.data}
+                  </Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          )}
+
           {/* Superposición del escáner */}
           <View style={styles.overlay}>
             <View style={styles.areaEscaneo}>
@@ -255,8 +644,45 @@ export default function ScannerScreen() {
 
       {/* Panel inferior de información */}
       <View style={styles.panelInferior}>
+        {/* Modo continuo */}
+        <View style={styles.filaModoContinuo}>
+          <Layers size={18} color="#007AFF" />
+          <Text style={styles.textoModoContinuo}>Modo continuo</Text>
+          <Switch
+            value={session !== null}
+            onValueChange={alternarModoContinuo}
+            disabled={startingSession}
+          />
+        </View>
+
+        {session && (
+          <View style={styles.contenedorSesion}>
+            <TextInput
+              style={styles.inputSesion}
+              value={sessionName}
+              onChangeText={setSessionName}
+              onBlur={renombrarSesion}
+              placeholder="Nombre de la sesión"
+              maxLength={100}
+              returnKeyType="done"
+            />
+            <View style={styles.filaSesion}>
+              <Text style={styles.textoConteoSesion}>
+                {sessionScanCount} {sessionScanCount === 1 ? 'código' : 'códigos'} en esta sesión
+              </Text>
+              <TouchableOpacity style={styles.botonFinalizar} onPress={finalizarSesion}>
+                <Text style={styles.textoBotonFinalizar}>Finalizar</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         <Text style={styles.textoInstruccion}>
-          Apunta la cámara hacia un código QR para escanearlo
+          {session
+            ? 'Pasa la cámara por los códigos: cada código distinto se añade a la sesión'
+            : barcodeTypes.length === 1 && barcodeTypes[0] === 'qr'
+            ? 'Apunta la cámara hacia un código QR para escanearlo'
+            : 'Apunta la cámara hacia un código para escanearlo'}
         </Text>
         
         {scanCount > 0 && (
@@ -267,10 +693,15 @@ export default function ScannerScreen() {
 
         {lastScan && (
           <View style={styles.contenedorUltimoEscaneo}>
-            <Text style={styles.tituloUltimoEscaneo}>Último escaneo:</Text>
+            <Text style={styles.tituloUltimoEscaneo}>
+              Último escaneo ({getBarcodeTypeLabel(lastScan.type)}):
+            </Text>
             <Text style={styles.datoUltimoEscaneo} numberOfLines={2}>
               {lastScan.data}
             </Text>
+
+            {/* Tipo de contenido y acciones */}
+            <PayloadActions payload={parsePayload(lastScan.data)} />
             
             {/* Fecha y Hora */}
             <View style={styles.filaMetaEscaneo}>
@@ -290,9 +721,40 @@ export default function ScannerScreen() {
                 )}
               </Text>
             </View>
+
+            {/* Zona */}
+            {(lastScan.zone || lastScan.expectedZone) && (
+              <View style={styles.filaMetaEscaneo}>
+                {lastScan.expectedZone ? (
+                  <TriangleAlert size={14} color="#FF9500" />
+                ) : (
+                  <Fence size={14} color="#666" />
+                )}
+                <Text style={[styles.textoMetaEscaneo, lastScan.expectedZone && styles.textoFueraDeZona]}>
+                  {lastScan.zone ? `Zona: ${lastScan.zone.name}` : 'Fuera de zona'}
+                  {lastScan.expectedZone ? ` · esperado en ${lastScan.expectedZone.name}` : ''}
+                </Text>
+              </View>
+            )}
+
+            {/* Reglas de escaneo */}
+            {lastScan.rules && lastScan.rules.matched.length > 0 && (
+              <View style={styles.filaMetaEscaneo}>
+                {lastScan.rules.rejected ? <Ban size={14} color="#FF3B30" /> : <Workflow size={14} color="#666" />}
+                <Text
+                  style={[styles.textoMetaEscaneo, lastScan.rules.rejected && styles.textoRechazado]}
+                  numberOfLines={2}
+                >
+                  {lastScan.rules.rejected ? 'Rechazado, no se ha guardado · ' : 'Reglas: '}
+                  {lastScan.rules.matched.map(rule => rule.name).join(', ')}
+                </Text>
+              </View>
+            )}
           </View>
         )}
       </View>
+
+      <UrlSafetySheet url={linkToOpen} onClose={() => setLinkToOpen(null)} />
     </SafeAreaView>
   );
 }
@@ -354,6 +816,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     zIndex: 1000,
   },
+  notificacionAviso: {
+    backgroundColor: '#FF9500',
+  },
   textoNotificacion: {
     color: 'white',
     fontSize: 14,
@@ -441,6 +906,44 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  bannerLista: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    zIndex: 10,
+  },
+  filaBannerLista: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 2,
+  },
+  textoBannerLista: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  resultadoLista: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  textoResultadoLista: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  textoEtiquetaLista: {
+    flex: 1,
+    color: 'white',
+    fontSize: 13,
+  },
   panelInferior: {
     backgroundColor: 'white',
     paddingHorizontal: 20,
@@ -457,6 +960,57 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  filaModoContinuo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  textoModoContinuo: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginLeft: 8,
+  },
+  contenedorSesion: {
+    padding: 12,
+    backgroundColor: '#f0f7ff',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  inputSesion: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d1d6',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  filaSesion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  textoConteoSesion: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  botonFinalizar: {
+    backgroundColor: '#FF3B30',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  textoBotonFinalizar: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   textoInstruccion: {
     fontSize: 16,
     color: '#1c1c1e',
@@ -503,6 +1057,12 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     fontWeight: '500',
   },
+  textoFueraDeZona: {
+    color: '#FF9500',
+  },
+  textoRechazado: {
+    color: '#FF3B30',
+  },
   textoUbicacionEscaneo: {
     fontSize: 12,
     color: '#007AFF',
@@ -0,0 +1,260 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { MapPin, Clock, Crosshair, Mountain, X, RefreshCw, Fence, ChevronRight } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { getScanKey, ScanRecord, scanRepository, Zone } from '@/lib/scanRepository';
+import { getScanPayload } from '@/lib/payload';
+import PayloadActions from '@/components/PayloadActions';
+import ScanMap from '@/components/ScanMap';
+
+export default function MapScreen() {
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<ScanRecord | null>(null);
+  const [zones, setZones] = useState<Zone[]>([]);
+
+  // Recargar al enfocar la pestaña y cuando termine una sincronización
+  useFocusEffect(
+    useCallback(() => {
+      loadScans();
+      return scanRepository.subscribeToSync?.((summary) => {
+        if (!summary.syncing) loadScans();
+      });
+    }, [])
+  );
+
+  const loadScans = async () => {
+    try {
+      await scanRepository.init();
+      const [located, zoneList] = await Promise.all([
+        scanRepository.getAllScans({ hasLocation: true }),
+        scanRepository.getZones(),
+      ]);
+      setScans(located);
+      setZones(zoneList);
+    } catch (error) {
+      console.error('Failed to load scans for map:', error);
+      Alert.alert('Error', 'No se pudieron cargar los escaneos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDateTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString('es-ES', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+
+  const renderDetail = (scan: ScanRecord) => (
+    <View style={styles.tarjetaDetalle}>
+      <View style={styles.encabezadoDetalle}>
+        <Text style={styles.datoDetalle} numberOfLines={2}>{scan.qr_data}</Text>
+        <TouchableOpacity onPress={() => setSelected(null)}>
+          <X size={20} color="#8e8e93" />
+        </TouchableOpacity>
+      </View>
+
+      <PayloadActions payload={getScanPayload(scan)} />
+
+      <View style={styles.metaDetalle}>
+        <Clock size={14} color="#666" />
+        <Text style={styles.textoMeta}>{formatDateTime(scan.timestamp)}</Text>
+      </View>
+      <View style={styles.metaDetalle}>
+        <MapPin size={14} color="#007AFF" />
+        <Text style={[styles.textoMeta, styles.textoUbicacion]}>
+          {scan.latitude?.toFixed(6)}, {scan.longitude?.toFixed(6)}
+        </Text>
+      </View>
+      {scan.zone_id && (
+        <View style={styles.metaDetalle}>
+          <Fence size={14} color="#666" />
+          <Text style={styles.textoMeta}>
+            Zona: {zones.find(zone => zone.id === scan.zone_id)?.name ?? 'eliminada'}
+          </Text>
+        </View>
+      )}
+      {scan.accuracy !== null && (
+        <View style={styles.metaDetalle}>
+          <Crosshair size={14} color="#666" />
+          <Text style={styles.textoMeta}>Precisión: ±{Math.round(scan.accuracy)} m</Text>
+        </View>
+      )}
+      {scan.altitude !== null && (
+        <View style={styles.metaDetalle}>
+          <Mountain size={14} color="#666" />
+          <Text style={styles.textoMeta}>Altitud: {Math.round(scan.altitude)} m</Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.botonDetalle} onPress={() => router.push(`/scan/${getScanKey(scan)}`)}>
+        <Text style={styles.textoBotonDetalle}>Ver detalle</Text>
+        <ChevronRight size={16} color="#007AFF" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.contenedor}>
+      <View style={styles.encabezado}>
+        <Text style={styles.tituloEncabezado}>Mapa de Escaneos</Text>
+        <Text style={styles.subtituloEncabezado}>
+          {scans.length} escaneo{scans.length !== 1 ? 's' : ''} con ubicación
+        </Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.contenedorCentrado}>
+          <ActivityIndicator color="#007AFF" />
+        </View>
+      ) : scans.length === 0 ? (
+        <View style={styles.contenedorCentrado}>
+          <MapPin size={80} color="#C7C7CC" />
+          <Text style={styles.tituloVacio}>Sin escaneos en el mapa</Text>
+          <Text style={styles.mensajeVacio}>
+            Los códigos escaneados con la ubicación activada aparecerán aquí
+          </Text>
+          <TouchableOpacity style={styles.botonActualizar} onPress={loadScans}>
+            <RefreshCw size={20} color="white" />
+            <Text style={styles.textoBotonActualizar}>Actualizar</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.contenedorMapa}>
+          <ScanMap
+            scans={scans}
+            selectedKey={selected ? getScanKey(selected) : null}
+            onSelectScan={setSelected}
+            zones={zones}
+          />
+          {selected && renderDetail(selected)}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  encabezado: {
+    backgroundColor: 'white',
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  tituloEncabezado: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+  },
+  subtituloEncabezado: {
+    fontSize: 16,
+    color: '#8e8e93',
+    marginTop: 4,
+  },
+  contenedorMapa: {
+    flex: 1,
+  },
+  contenedorCentrado: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  tituloVacio: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  mensajeVacio: {
+    fontSize: 16,
+    color: '#8e8e93',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 32,
+  },
+  botonActualizar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  textoBotonActualizar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  tarjetaDetalle: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 5,
+    borderLeftWidth: 4,
+    borderLeftColor: '#007AFF',
+  },
+  encabezadoDetalle: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+  },
+  datoDetalle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginRight: 12,
+    marginBottom: 8,
+  },
+  metaDetalle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  textoMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 6,
+    fontWeight: '500',
+  },
+  textoUbicacion: {
+    color: '#007AFF',
+  },
+  botonDetalle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
+  textoBotonDetalle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
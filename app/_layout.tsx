@@ -1,14 +1,23 @@
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { useAuthGuard } from '@/hooks/useAuthGuard';
 
 export default function RootLayout() {
   useFrameworkReady();
+  useAuthGuard();
 
   return (
     <>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="login" options={{ headerShown: false, gestureEnabled: false }} />
+        <Stack.Screen name="settings" options={{ headerShown: true, title: 'Ajustes' }} />
+        <Stack.Screen name="zones" options={{ headerShown: true, title: 'Zonas' }} />
+        <Stack.Screen name="rules" options={{ headerShown: true, title: 'Reglas' }} />
+        <Stack.Screen name="checklist" options={{ headerShown: true, title: 'Lista de control' }} />
+        <Stack.Screen name="workspaces" options={{ headerShown: true, title: 'Espacios de trabajo' }} />
+        <Stack.Screen name="scan/[id]" options={{ headerShown: true, title: 'Escaneo' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
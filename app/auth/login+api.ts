@@ -0,0 +1,29 @@
+import { loginUser } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { validateCredentials } from '@/lib/server/validation';
+
+// POST /auth/login - Abre sesión con { username, password }.
+// Devuelve { access_token, refresh_token, token_type, expires_in, user } o 401 si las credenciales no son correctas
+export async function POST(request: Request): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  // Unas credenciales con formato inválido nunca pueden ser correctas
+  const result = validateCredentials(body);
+  if (!result.ok) {
+    return jsonError(401, 'Usuario o contraseña incorrectos');
+  }
+
+  try {
+    const tokens = await loginUser(result.value.username, result.value.password);
+    if (!tokens) {
+      return jsonError(401, 'Usuario o contraseña incorrectos');
+    }
+    return json(tokens);
+  } catch (error) {
+    console.error('Error al iniciar sesión:', error);
+    return jsonError(500, 'No se pudo iniciar sesión');
+  }
+}
@@ -0,0 +1,17 @@
+import { getBearerToken, revokeTokens } from '@/lib/server/auth';
+import { readJsonBody } from '@/lib/server/http';
+
+// POST /auth/logout - Cierra la sesión: invalida el token de acceso de la cabecera Authorization
+// y el refresh_token del cuerpo (si se envía). Siempre devuelve 204
+export async function POST(request: Request): Promise<Response> {
+  const body = await readJsonBody(request);
+  const refreshToken = typeof body === 'object' && body !== null
+    ? (body as Record<string, unknown>).refresh_token
+    : undefined;
+
+  revokeTokens({
+    accessToken: getBearerToken(request),
+    refreshToken: typeof refreshToken === 'string' ? refreshToken : null,
+  });
+  return new Response(null, { status: 204 });
+}
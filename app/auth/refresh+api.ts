@@ -0,0 +1,20 @@
+import { refreshSession } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+
+// POST /auth/refresh - Cambia { refresh_token } por un par de tokens nuevo (el anterior deja de valer).
+// Devuelve 401 si el token de refresco no existe o ha caducado
+export async function POST(request: Request): Promise<Response> {
+  const body = await readJsonBody(request);
+  const refreshToken = typeof body === 'object' && body !== null
+    ? (body as Record<string, unknown>).refresh_token
+    : undefined;
+  if (typeof refreshToken !== 'string' || refreshToken === '') {
+    return jsonError(400, 'refresh_token es obligatorio');
+  }
+
+  const tokens = refreshSession(refreshToken);
+  if (!tokens) {
+    return jsonError(401, 'La sesión ha caducado');
+  }
+  return json(tokens);
+}
@@ -0,0 +1,28 @@
+import { registerUser } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { validateCredentials } from '@/lib/server/validation';
+
+// POST /auth/register - Crea una cuenta { username, password } y abre sesión.
+// Devuelve 201 con { access_token, refresh_token, token_type, expires_in, user } o 409 si el usuario existe
+export async function POST(request: Request): Promise<Response> {
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateCredentials(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de usuario inválidos', result.errors);
+  }
+
+  try {
+    const tokens = await registerUser(result.value.username, result.value.password);
+    if (!tokens) {
+      return jsonError(409, 'El nombre de usuario ya está en uso');
+    }
+    return json(tokens, 201);
+  } catch (error) {
+    console.error('Error al crear usuario:', error);
+    return jsonError(500, 'No se pudo crear la cuenta');
+  }
+}
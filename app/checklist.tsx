@@ -0,0 +1,451 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { ListChecks, Upload, Download, RotateCcw, X } from 'lucide-react-native';
+import {
+  ActiveChecklist,
+  closeChecklist,
+  getActiveChecklist,
+  resetChecklistProgress,
+  startChecklist,
+} from '@/lib/checklist';
+import { pickTextFile, shareTextFile } from '@/lib/files';
+import { ImportFileError } from '@/lib/importScans';
+import {
+  buildReconciliationFileName,
+  buildReconciliationReport,
+  CHECKLIST_OUTCOME_COLORS,
+  getChecklistSummary,
+  readManifestFile,
+  RECONCILIATION_MIME_TYPES,
+  ReconciliationFormat,
+} from '@/lib/manifest';
+
+const ACCEPTED_TYPES = ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain', '*/*'];
+
+type Filtro = 'missing' | 'matched' | 'unexpected';
+
+const FILTRO_LABELS: Record<Filtro, string> = {
+  missing: 'Pendientes',
+  matched: 'Escaneados',
+  unexpected: 'No esperados',
+};
+
+const FILTRO_COLORS: Record<Filtro, string> = {
+  missing: '#8e8e93',
+  matched: CHECKLIST_OUTCOME_COLORS.matched,
+  unexpected: CHECKLIST_OUTCOME_COLORS.unexpected,
+};
+
+interface FilaLista {
+  qr_data: string;
+  label: string | null;
+  detail: string | null;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-ES', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const describeSighting = (count: number, lastScannedAt: number) =>
+  `${count === 1 ? '1 lectura' : `${count} lecturas`} · ${formatDateTime(lastScannedAt)}`;
+
+export default function ChecklistScreen() {
+  const [checklist, setChecklist] = useState<ActiveChecklist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [filter, setFilter] = useState<Filtro>('missing');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadChecklist();
+    }, [])
+  );
+
+  const loadChecklist = async () => {
+    try {
+      setChecklist(await getActiveChecklist());
+    } catch (error) {
+      console.error('Failed to load checklist:', error);
+      Alert.alert('Error', 'No se pudo cargar la lista de control');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = useMemo(
+    () => (checklist ? getChecklistSummary(checklist.manifest, checklist.progress) : null),
+    [checklist]
+  );
+
+  const rows = useMemo((): FilaLista[] => {
+    if (!checklist || !summary) return [];
+    switch (filter) {
+      case 'matched':
+        return checklist.manifest.items.flatMap(item => {
+          const sighting = checklist.progress.matched[item.qr_data];
+          return sighting ? [{ ...item, detail: describeSighting(sighting.count, sighting.last_scanned_at) }] : [];
+        });
+      case 'unexpected':
+        return summary.unexpected.map(({ qr_data, sighting }) => ({
+          qr_data,
+          label: null,
+          detail: describeSighting(sighting.count, sighting.last_scanned_at),
+        }));
+      default:
+        return summary.missing.map(item => ({ ...item, detail: null }));
+    }
+  }, [checklist, summary, filter]);
+
+  // El nombre de la lista es el del fichero sin la extensión
+  const handleLoad = async () => {
+    try {
+      const file = await pickTextFile(ACCEPTED_TYPES);
+      if (!file) return;
+
+      setImporting(true);
+      const items = readManifestFile(file.content, file.name);
+      const name = file.name.replace(/\.[^.]+$/, '').trim() || 'Lista de control';
+      setChecklist(await startChecklist(name, items));
+      setFilter('missing');
+    } catch (error) {
+      console.error('Error loading manifest:', error);
+      Alert.alert(
+        'Error',
+        error instanceof ImportFileError ? error.message : 'No se pudo cargar la lista de códigos'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = async (format: ReconciliationFormat) => {
+    if (!checklist) return;
+    try {
+      await shareTextFile(
+        buildReconciliationReport(checklist.manifest, checklist.progress, format),
+        buildReconciliationFileName(checklist.manifest, format),
+        RECONCILIATION_MIME_TYPES[format],
+        'Exportar conciliación'
+      );
+    } catch (error) {
+      console.error('Error exporting reconciliation:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo exportar la conciliación');
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert('Reiniciar Progreso', '¿Borrar todas las lecturas anotadas en esta lista?', [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Reiniciar',
+        style: 'destructive',
+        onPress: async () => setChecklist(await resetChecklistProgress()),
+      },
+    ]);
+  };
+
+  const handleClose = () => {
+    Alert.alert('Cerrar Lista', 'El escáner dejará de comprobar los códigos contra esta lista. ¿Continuar?', [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Cerrar',
+        style: 'destructive',
+        onPress: async () => {
+          await closeChecklist();
+          setChecklist(null);
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.contenedor, styles.contenedorVacio]}>
+        <ActivityIndicator color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (!checklist || !summary) {
+    return (
+      <View style={[styles.contenedor, styles.contenedorVacio]}>
+        <ListChecks size={60} color="#C7C7CC" />
+        <Text style={styles.tituloVacio}>Sin lista de control</Text>
+        <Text style={styles.descripcionVacio}>
+          Carga un CSV con las columnas qr_data y label (o un código por línea) o un JSON con la lista de
+          códigos esperados. Al escanear se indicará si cada código estaba en la lista, ya se había leído o no
+          se esperaba.
+        </Text>
+        <TouchableOpacity style={styles.botonPrincipal} onPress={handleLoad} disabled={importing}>
+          {importing ? <ActivityIndicator color="white" /> : <Upload size={20} color="white" />}
+          <Text style={styles.textoBotonPrincipal}>Cargar lista</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const counts: Record<Filtro, number> = {
+    missing: summary.missing.length,
+    matched: summary.matched,
+    unexpected: summary.unexpected.length,
+  };
+  const percent = summary.total > 0 ? Math.round((summary.matched / summary.total) * 100) : 0;
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.tarjeta}>
+        <View style={styles.filaTitulo}>
+          <ListChecks size={18} color="#007AFF" />
+          <Text style={styles.nombreLista} numberOfLines={1}>{checklist.manifest.name}</Text>
+        </View>
+        <Text style={styles.textoProgreso}>
+          {summary.matched} de {summary.total} códigos escaneados ({percent}%)
+        </Text>
+        <View style={styles.barraProgreso}>
+          <View style={[styles.rellenoProgreso, { width: `${percent}%` }]} />
+        </View>
+        {summary.unexpected.length > 0 && (
+          <Text style={[styles.textoSecundario, { color: CHECKLIST_OUTCOME_COLORS.unexpected }]}>
+            {summary.unexpected.length === 1
+              ? '1 código leído no estaba en la lista'
+              : `${summary.unexpected.length} códigos leídos no estaban en la lista`}
+          </Text>
+        )}
+
+        <Text style={styles.tituloSeccion}>Exportar conciliación</Text>
+        <Text style={styles.textoSecundario}>Códigos pendientes y no esperados, con sus lecturas</Text>
+        <View style={styles.filaBotones}>
+          {(['csv', 'json'] as const).map(format => (
+            <TouchableOpacity key={format} style={styles.botonSecundario} onPress={() => handleExport(format)}>
+              <Download size={16} color="#007AFF" />
+              <Text style={styles.textoBotonSecundario}>{format.toUpperCase()}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.filaBotones}>
+          <TouchableOpacity style={styles.botonSecundario} onPress={handleReset}>
+            <RotateCcw size={16} color="#FF9500" />
+            <Text style={[styles.textoBotonSecundario, { color: '#FF9500' }]}>Reiniciar progreso</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.botonSecundario} onPress={handleClose}>
+            <X size={16} color="#FF3B30" />
+            <Text style={[styles.textoBotonSecundario, { color: '#FF3B30' }]}>Cerrar lista</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.filaChips}>
+        {(Object.keys(FILTRO_LABELS) as Filtro[]).map(option => {
+          const selected = option === filter;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, selected && styles.chipActivo]}
+              onPress={() => setFilter(option)}>
+              <Text style={[styles.textoChip, selected && styles.textoChipActivo]}>
+                {FILTRO_LABELS[option]} ({counts[option]})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderRow = ({ item }: { item: FilaLista }) => (
+    <View style={[styles.filaCodigo, { borderLeftColor: FILTRO_COLORS[filter] }]}>
+      {item.label && <Text style={styles.etiquetaCodigo} numberOfLines={1}>{item.label}</Text>}
+      <Text style={item.label ? styles.textoSecundario : styles.etiquetaCodigo} numberOfLines={2}>
+        {item.qr_data}
+      </Text>
+      {item.detail && <Text style={styles.textoSecundario}>{item.detail}</Text>}
+    </View>
+  );
+
+  return (
+    <View style={styles.contenedor}>
+      <FlatList
+        data={rows}
+        keyExtractor={item => item.qr_data}
+        renderItem={renderRow}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={
+          <Text style={[styles.textoSecundario, styles.textoListaVacia]}>
+            {filter === 'missing'
+              ? 'No falta ningún código de la lista'
+              : filter === 'matched'
+              ? 'Todavía no se ha escaneado ningún código de la lista'
+              : 'No se ha leído ningún código fuera de la lista'}
+          </Text>
+        }
+        contentContainerStyle={styles.contenido}
+        initialNumToRender={30}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    padding: 16,
+  },
+  contenedorVacio: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  tituloVacio: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  descripcionVacio: {
+    fontSize: 14,
+    color: '#8e8e93',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  tarjeta: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  filaTitulo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  nombreLista: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1c1c1e',
+    marginLeft: 8,
+  },
+  textoProgreso: {
+    fontSize: 14,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  barraProgreso: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E5EA',
+    overflow: 'hidden',
+    marginVertical: 8,
+  },
+  rellenoProgreso: {
+    height: '100%',
+    backgroundColor: '#34C759',
+  },
+  tituloSeccion: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginTop: 16,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+    marginTop: 2,
+  },
+  filaBotones: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  botonSecundario: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginTop: 4,
+  },
+  textoBotonSecundario: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 6,
+  },
+  botonPrincipal: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  textoBotonPrincipal: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  filaCodigo: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderLeftWidth: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  etiquetaCodigo: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+  },
+  textoListaVacia: {
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
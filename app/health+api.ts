@@ -0,0 +1,6 @@
+import { json } from '@/lib/server/http';
+
+// GET /health - Permite a los clientes comprobar que el servidor está accesible
+export function GET(): Response {
+  return json({ status: 'ok', timestamp: Date.now() });
+}
@@ -0,0 +1,225 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { QrCode, Server, ChevronRight } from 'lucide-react-native';
+import { backend } from '@/lib/backend';
+import { auth, AuthError } from '@/lib/auth';
+
+type Mode = 'login' | 'register';
+
+export default function LoginScreen() {
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [serverUrl, setServerUrl] = useState(backend.getStatus().url);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      backend.init().then(() => setServerUrl(backend.getStatus().url));
+    }, [])
+  );
+
+  const submit = async () => {
+    if (!username.trim() || !password) {
+      setError('Introduce el usuario y la contraseña');
+      return;
+    }
+    try {
+      setSubmitting(true);
+      setError(null);
+      if (mode === 'login') {
+        await auth.login(serverUrl, username.trim(), password);
+      } else {
+        await auth.register(serverUrl, username.trim(), password);
+      }
+      setPassword('');
+      router.replace('/');
+    } catch (err) {
+      console.error('Error al iniciar sesión:', err);
+      setError(err instanceof AuthError ? err.message : 'No se pudo conectar con el servidor');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.contenedor}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View style={styles.contenido}>
+        <View style={styles.encabezado}>
+          <QrCode size={48} color="#007AFF" />
+          <Text style={styles.titulo}>{mode === 'login' ? 'Iniciar sesión' : 'Crear cuenta'}</Text>
+          <Text style={styles.subtitulo}>Tus escaneos se guardan en el servidor a tu nombre</Text>
+        </View>
+
+        <View style={styles.tarjeta}>
+          <TextInput
+            style={styles.campoTexto}
+            value={username}
+            onChangeText={setUsername}
+            placeholder="Usuario"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoComplete="username"
+            editable={!submitting}
+          />
+          <TextInput
+            style={styles.campoTexto}
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Contraseña"
+            secureTextEntry
+            autoCapitalize="none"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            editable={!submitting}
+            onSubmitEditing={submit}
+          />
+          {mode === 'register' && (
+            <Text style={styles.textoSecundario}>
+              Usuario de 3 a 40 caracteres (letras, números, punto o guiones). Contraseña de al menos 8 caracteres.
+            </Text>
+          )}
+          {error && <Text style={styles.textoError}>{error}</Text>}
+
+          <TouchableOpacity style={styles.botonPrimario} onPress={submit} disabled={submitting}>
+            {submitting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.textoBotonPrimario}>{mode === 'login' ? 'Entrar' : 'Crear cuenta'}</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.botonEnlace} onPress={toggleMode} disabled={submitting}>
+            <Text style={styles.textoEnlace}>
+              {mode === 'login' ? '¿No tienes cuenta? Crear cuenta' : '¿Ya tienes cuenta? Iniciar sesión'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* El servidor se puede cambiar antes de iniciar sesión */}
+        <TouchableOpacity style={[styles.tarjeta, styles.filaServidor]} onPress={() => router.push('/settings')}>
+          <Server size={18} color="#007AFF" />
+          <View style={styles.textoServidor}>
+            <Text style={styles.etiquetaServidor}>Servidor</Text>
+            <Text style={styles.textoSecundario} numberOfLines={1}>{serverUrl || 'Sin configurar'}</Text>
+          </View>
+          <ChevronRight size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  encabezado: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  titulo: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: '#1c1c1e',
+    marginTop: 12,
+  },
+  subtitulo: {
+    fontSize: 14,
+    color: '#8e8e93',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  tarjeta: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  campoTexto: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+    marginBottom: 10,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+  },
+  textoError: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  botonPrimario: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  textoBotonPrimario: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  botonEnlace: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  textoEnlace: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  filaServidor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  textoServidor: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  etiquetaServidor: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 2,
+  },
+});
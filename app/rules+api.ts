@@ -0,0 +1,44 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { cannotManageRules, getRuleSet, replaceRuleSet } from '@/lib/server/rules';
+import { isValidClientId, validateRulesInput } from '@/lib/server/validation';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+import { canManageRules } from '@/lib/workspaces';
+
+// GET /rules - Reglas de escaneo { version, rules, updated_at } del espacio de trabajo de workspace_id o,
+// sin él, de los escaneos personales del usuario. Las consultan todos los miembros, que las aplican al escanear
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const workspaceId = new URL(request.url).searchParams.get('workspace_id');
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    return jsonError(400, 'workspace_id no es un identificador de espacio de trabajo válido');
+  }
+  if (!getScanScope(user, workspaceId)) return notMember();
+
+  return json(getRuleSet(workspaceId, user.id));
+}
+
+// PUT /rules - Sustituye las reglas de un ámbito { rules, workspace_id? } (en un espacio de trabajo, solo su
+// propietario) y devuelve la lista guardada con su nueva versión
+export async function PUT(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateRulesInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Reglas inválidas', result.errors);
+  }
+
+  const scope = getScanScope(user, result.value.workspace_id);
+  if (!scope) return notMember();
+  if (!canManageRules(scope.role)) return cannotManageRules();
+
+  return json(replaceRuleSet(result.value.workspace_id, user.id, result.value.rules));
+}
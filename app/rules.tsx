@@ -0,0 +1,470 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, RefreshControl, Alert, Switch } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Workflow, Plus, Trash2, CloudOff, ChevronUp, ChevronDown, FlaskConical, Lock } from 'lucide-react-native';
+import { backend } from '@/lib/backend';
+import { scanRepository, Zone } from '@/lib/scanRepository';
+import { auth } from '@/lib/auth';
+import { getCurrentWorkspace, loadCurrentWorkspace } from '@/lib/currentWorkspace';
+import { SCAN_STATUS_LABELS } from '@/lib/annotations';
+import {
+  describeRuleAction,
+  describeRuleCondition,
+  evaluateRules,
+  RULE_FEEDBACK_LABELS,
+  ScanRule,
+} from '@/lib/rules';
+import { refreshScanRules, saveScanRules } from '@/lib/scanRules';
+import { fetchWebhooks } from '@/lib/webhookApi';
+import type { Webhook } from '@/lib/webhooks';
+import { canManageRules } from '@/lib/workspaces';
+import RuleEditor from '@/components/RuleEditor';
+
+export default function RulesScreen() {
+  const [rules, setRules] = useState<ScanRule[]>([]);
+  const [pending, setPending] = useState(false);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingRule, setEditingRule] = useState<ScanRule | null>(null);
+  // Prueba sin guardar nada: qué harían las reglas con un contenido leído en una zona
+  const [sample, setSample] = useState('');
+  const [sampleZoneId, setSampleZoneId] = useState<string | null>(null);
+
+  // Los lectores y editores de un espacio de trabajo ven sus reglas, pero solo el propietario las cambia
+  const workspace = getCurrentWorkspace();
+  const editable = !workspace || canManageRules(workspace.role);
+
+  // Solo para elegir el webhook de una regla: sin sesión o sin conexión no se ofrecen
+  const loadWebhooks = useCallback(async () => {
+    const current = getCurrentWorkspace();
+    if (!auth.getSession() || (current && !canManageRules(current.role))) {
+      setWebhooks(null);
+      return;
+    }
+    try {
+      setWebhooks(await fetchWebhooks(backend.getStatus().url, current?.id ?? null));
+    } catch (error) {
+      console.warn('No se pudieron cargar los webhooks:', error);
+      setWebhooks(null);
+    }
+  }, []);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      await backend.init();
+      await scanRepository.init();
+      await loadCurrentWorkspace();
+      const [ruleSet, zoneList] = await Promise.all([refreshScanRules(), scanRepository.getZones()]);
+      setRules(ruleSet.rules);
+      setPending(ruleSet.pending);
+      setZones(zoneList);
+      loadWebhooks();
+    } catch (error) {
+      console.error('Failed to load rules:', error);
+      Alert.alert('Error', 'No se pudieron cargar las reglas');
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadWebhooks]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRules();
+    }, [loadRules])
+  );
+
+  const persist = async (list: ScanRule[]) => {
+    const saved = await saveScanRules(list);
+    setRules(saved.rules);
+    setPending(saved.pending);
+  };
+
+  const persistOrAlert = async (list: ScanRule[]) => {
+    try {
+      await persist(list);
+    } catch (error) {
+      console.error('Error saving rules:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudieron guardar las reglas');
+    }
+  };
+
+  const openEditor = (rule: ScanRule | null) => {
+    setEditingRule(rule);
+    setEditorVisible(true);
+  };
+
+  const handleSave = (edited: ScanRule) =>
+    persist(
+      rules.some(rule => rule.id === edited.id)
+        ? rules.map(rule => (rule.id === edited.id ? edited : rule))
+        : [...rules, edited]
+    );
+
+  const handleToggle = (rule: ScanRule, enabled: boolean) =>
+    persistOrAlert(rules.map(item => (item.id === rule.id ? { ...item, enabled } : item)));
+
+  // Las reglas se aplican en orden: el estado y el mensaje de rechazo los decide la última o la primera
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const list = [...rules];
+    [list[index], list[target]] = [list[target], list[index]];
+    persistOrAlert(list);
+  };
+
+  const handleDelete = (rule: ScanRule) => {
+    Alert.alert('Eliminar Regla', `¿Eliminar la regla "${rule.name}"?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Eliminar',
+        style: 'destructive',
+        onPress: () => persistOrAlert(rules.filter(item => item.id !== rule.id)),
+      },
+    ]);
+  };
+
+  const zoneName = (id: string | null) => (id ? zones.find(zone => zone.id === id)?.name ?? null : null);
+
+  const webhookName = (id: string) => {
+    const webhook = webhooks?.find(item => item.id === id);
+    return webhook ? webhook.description ?? webhook.url : null;
+  };
+
+  const evaluation = useMemo(
+    () =>
+      sample.trim()
+        ? evaluateRules(rules, { qr_data: sample, latitude: null, longitude: null, zone_id: sampleZoneId }, zones)
+        : null,
+    [rules, sample, sampleZoneId, zones]
+  );
+
+  const renderTester = () => (
+    <View style={styles.tarjetaPrueba}>
+      <View style={styles.filaTitulo}>
+        <FlaskConical size={18} color="#007AFF" />
+        <Text style={styles.nombreRegla}>Probar las reglas</Text>
+      </View>
+      <TextInput
+        style={styles.campoTexto}
+        value={sample}
+        onChangeText={setSample}
+        placeholder="Contenido de un código"
+        placeholderTextColor="#8e8e93"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+      />
+      {zones.length > 0 && (
+        <View style={styles.filaChips}>
+          {[null, ...zones].map(zone => {
+            const selected = (zone?.id ?? null) === sampleZoneId;
+            return (
+              <TouchableOpacity
+                key={zone?.id ?? 'ninguna'}
+                style={[styles.chip, selected && styles.chipActivo]}
+                onPress={() => setSampleZoneId(zone?.id ?? null)}>
+                <Text style={[styles.textoChip, selected && styles.textoChipActivo]}>{zone?.name ?? 'Sin zona'}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+      {evaluation && (
+        evaluation.matched.length === 0 ? (
+          <Text style={styles.textoSecundario}>Ninguna regla activa coincide: el escaneo se guarda sin cambios</Text>
+        ) : (
+          <View>
+            <Text style={styles.textoResultado}>
+              Coinciden: {evaluation.matched.map(rule => rule.name).join(', ')}
+            </Text>
+            {evaluation.rejected ? (
+              <Text style={[styles.textoResultado, styles.textoRechazo]}>
+                Se rechaza y no se guarda: {evaluation.reject_message}
+              </Text>
+            ) : (
+              <>
+                {evaluation.tags.length > 0 && (
+                  <Text style={styles.textoResultado}>Etiquetas: {evaluation.tags.join(', ')}</Text>
+                )}
+                {evaluation.status && (
+                  <Text style={styles.textoResultado}>Estado: {SCAN_STATUS_LABELS[evaluation.status]}</Text>
+                )}
+                {evaluation.open_url && <Text style={styles.textoResultado}>Se abre el enlace</Text>}
+                {evaluation.webhooks.length > 0 && (
+                  <Text style={styles.textoResultado}>
+                    Webhooks:{' '}
+                    {evaluation.webhooks.map(item => webhookName(item.webhook_id) ?? item.webhook_id).join(', ')}
+                  </Text>
+                )}
+              </>
+            )}
+            {evaluation.feedback && (
+              <Text style={styles.textoResultado}>Aviso: {RULE_FEEDBACK_LABELS[evaluation.feedback]}</Text>
+            )}
+          </View>
+        )
+      )}
+    </View>
+  );
+
+  const renderRule = (rule: ScanRule, index: number) => (
+    <TouchableOpacity
+      key={rule.id}
+      style={[styles.tarjeta, !rule.enabled && styles.tarjetaInactiva]}
+      onPress={() => openEditor(rule)}
+      disabled={!editable}>
+      <View style={styles.infoRegla}>
+        <View style={styles.filaTitulo}>
+          <Workflow size={18} color="#007AFF" />
+          <Text style={styles.nombreRegla} numberOfLines={1}>{rule.name}</Text>
+        </View>
+        <Text style={styles.textoSecundario}>
+          {describeRuleCondition(rule.condition, zoneName(rule.condition.zone_id))}
+        </Text>
+        <Text style={styles.textoSecundario} numberOfLines={2}>
+          {rule.actions
+            .map(action =>
+              action.type === 'webhook'
+                ? `Webhook: ${webhookName(action.webhook_id) ?? action.webhook_id}`
+                : describeRuleAction(action)
+            )
+            .join(' · ')}
+        </Text>
+      </View>
+      {editable && (
+        <View style={styles.controles}>
+          <Switch value={rule.enabled} onValueChange={enabled => handleToggle(rule, enabled)} />
+          <View style={styles.filaControles}>
+            <TouchableOpacity style={styles.botonAccion} onPress={() => handleMove(index, -1)} disabled={index === 0}>
+              <ChevronUp size={18} color={index === 0 ? '#C7C7CC' : '#007AFF'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.botonAccion}
+              onPress={() => handleMove(index, 1)}
+              disabled={index === rules.length - 1}>
+              <ChevronDown size={18} color={index === rules.length - 1 ? '#C7C7CC' : '#007AFF'} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.botonAccion} onPress={() => handleDelete(rule)}>
+              <Trash2 size={18} color="#FF3B30" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.contenedor}>
+      <ScrollView
+        contentContainerStyle={styles.contenido}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={loadRules} tintColor="#007AFF" colors={['#007AFF']} />
+        }>
+        <Text style={styles.descripcion}>
+          Al escanear un código se aplican en orden todas las reglas activas que cumple
+          {workspace ? ` (las del espacio de trabajo ${workspace.name})` : ''}. El servidor las vuelve a aplicar
+          al guardar, también a los escaneos importados.
+        </Text>
+
+        {!editable && (
+          <View style={styles.filaAviso}>
+            <Lock size={14} color="#8e8e93" />
+            <Text style={styles.textoSecundario}>
+              Solo el propietario del espacio de trabajo puede cambiar sus reglas
+            </Text>
+          </View>
+        )}
+        {pending && (
+          <View style={styles.filaAviso}>
+            <CloudOff size={14} color="#FF9500" />
+            <Text style={[styles.textoSecundario, { color: '#FF9500' }]}>Pendiente de sincronizar</Text>
+          </View>
+        )}
+
+        {renderTester()}
+
+        {rules.map(renderRule)}
+        {rules.length === 0 && !refreshing && (
+          <View style={styles.contenedorVacio}>
+            <Workflow size={60} color="#C7C7CC" />
+            <Text style={styles.tituloVacio}>Sin reglas</Text>
+            <Text style={styles.textoSecundario}>
+              Etiqueta, cambia el estado o rechaza los códigos según su contenido y la zona en la que se leen
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {editable && (
+        <TouchableOpacity style={styles.botonNueva} onPress={() => openEditor(null)}>
+          <Plus size={20} color="white" />
+          <Text style={styles.textoBotonNueva}>Nueva regla</Text>
+        </TouchableOpacity>
+      )}
+
+      <RuleEditor
+        visible={editorVisible}
+        rule={editingRule}
+        zones={zones}
+        webhooks={webhooks}
+        onClose={() => setEditorVisible(false)}
+        onSave={handleSave}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  descripcion: {
+    fontSize: 14,
+    color: '#8e8e93',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  filaAviso: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  tarjeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  tarjetaInactiva: {
+    opacity: 0.6,
+  },
+  tarjetaPrueba: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#d6e6ff',
+  },
+  infoRegla: {
+    flex: 1,
+  },
+  filaTitulo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  nombreRegla: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1c1c1e',
+    marginLeft: 8,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+    marginLeft: 4,
+    marginTop: 2,
+  },
+  controles: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  filaControles: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  botonAccion: {
+    padding: 6,
+  },
+  campoTexto: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+    marginVertical: 8,
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  textoResultado: {
+    fontSize: 14,
+    color: '#1c1c1e',
+    marginTop: 4,
+  },
+  textoRechazo: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  contenedorVacio: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  tituloVacio: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  botonNueva: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  textoBotonNueva: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,519 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Share, ActivityIndicator } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import * as Clipboard from 'expo-clipboard';
+import {
+  Copy,
+  Share2,
+  ExternalLink,
+  Trash2,
+  Clock,
+  Repeat,
+  Barcode,
+  MapPin,
+  Crosshair,
+  Mountain,
+  Layers,
+  Fence,
+  Cloud,
+  CloudOff,
+  AlertCircle,
+  QrCode,
+  Pencil,
+  Tag,
+  StickyNote,
+  CircleCheck,
+  ShieldAlert,
+} from 'lucide-react-native';
+import { parseScanKey, ScanRecord, scanRepository } from '@/lib/scanRepository';
+import { getScanAnnotations, SCAN_STATUS_COLORS, SCAN_STATUS_LABELS } from '@/lib/annotations';
+import { getScanPayload } from '@/lib/payload';
+import { URL_RISK_LABELS, URL_SAFETY_LEVEL_COLORS, URL_SAFETY_LEVEL_LABELS } from '@/lib/urlSafety';
+import { getBarcodeTypeLabel } from '@/lib/barcode';
+import PayloadActions from '@/components/PayloadActions';
+import ScanNotesEditor from '@/components/ScanNotesEditor';
+import UrlSafetySheet from '@/components/UrlSafetySheet';
+
+// Detalle de un escaneo. La ruta usa la misma clave que las listas (getScanKey): el ID del
+// servidor, o local-<id> para los escaneos que solo existen en el dispositivo.
+// También se abre desde fuera de la app con qrscanner://scan/42
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('es-ES', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+// Valor de un campo del contenido interpretado como texto (null si está vacío)
+const formatFieldValue = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (Array.isArray(value)) {
+    const items = value.map(formatFieldValue).filter(Boolean);
+    return items.length > 0 ? items.join(', ') : null;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function ScanDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [scan, setScan] = useState<ScanRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [zoneName, setZoneName] = useState<string | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
+  // Enlace que se está comprobando antes de abrirlo
+  const [linkToCheck, setLinkToCheck] = useState<string | null>(null);
+
+  // Nombres de la sesión y la zona; si no se pueden obtener se muestra solo lo demás
+  const loadNames = useCallback((found: ScanRecord) => {
+    if (found.session_id) {
+      scanRepository.getSessions()
+        .then(sessions => setSessionName(sessions.find(session => session.id === found.session_id)?.name ?? null))
+        .catch(error => console.warn('No se pudo obtener la sesión:', error));
+    }
+    if (found.zone_id) {
+      scanRepository.getZones()
+        .then(zones => setZoneName(zones.find(zone => zone.id === found.zone_id)?.name ?? 'Zona eliminada'))
+        .catch(error => console.warn('No se pudo obtener la zona:', error));
+    }
+  }, []);
+
+  const loadScan = useCallback(async () => {
+    const key = parseScanKey(String(id));
+    try {
+      setLoading(true);
+      await scanRepository.init();
+      const found = !key ? null : key.local ? await scanRepository.getLocalScan(key.id) : await scanRepository.getScanById(key.id);
+      setScan(found);
+      if (found) loadNames(found);
+    } catch (error) {
+      console.error('Failed to load scan:', error);
+      Alert.alert('Error', 'No se pudo cargar el escaneo');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, loadNames]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadScan();
+    }, [loadScan])
+  );
+
+  const openEditor = () => {
+    setEditorVisible(true);
+    scanRepository.getTags()
+      .then(tags => setSuggestedTags(tags.map(item => item.tag)))
+      .catch(error => console.warn('No se pudieron obtener las etiquetas:', error));
+  };
+
+  const goBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/history');
+    }
+  };
+
+  const copyData = async (data: string) => {
+    try {
+      await Clipboard.setStringAsync(data);
+      Alert.alert('Copiado', 'El contenido se ha copiado al portapapeles');
+    } catch (error) {
+      console.error('Error copying:', error);
+      Alert.alert('Error', 'No se pudo copiar el contenido');
+    }
+  };
+
+  const shareData = async (data: string) => {
+    try {
+      await Share.share({
+        message: `Código QR escaneado: ${data}`,
+        title: 'Compartir Código QR',
+      });
+    } catch (error) {
+      console.error('Error sharing:', error);
+    }
+  };
+
+  const handleDelete = (target: ScanRecord) => {
+    Alert.alert(
+      'Eliminar Escaneo',
+      '¿Estás seguro de que quieres eliminar este escaneo?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await scanRepository.deleteScan(target);
+              goBack();
+            } catch (error) {
+              console.error('Error deleting scan:', error);
+              Alert.alert('Error', 'No se pudo eliminar el escaneo');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const retryFailedSync = async () => {
+    try {
+      await scanRepository.retryFailed?.();
+      await loadScan();
+    } catch (error) {
+      console.error('Error retrying sync:', error);
+    }
+  };
+
+  const renderRow = (icon: React.ReactNode, label: string, value: string) => (
+    <View style={styles.fila} key={label}>
+      {icon}
+      <Text style={styles.etiquetaFila}>{label}</Text>
+      <Text style={styles.valorFila} selectable>{value}</Text>
+    </View>
+  );
+
+  const renderSyncStatus = (item: ScanRecord) => {
+    switch (item.sync_status) {
+      case 'pending':
+        return renderRow(<CloudOff size={16} color="#FF9500" />, 'Estado', 'Pendiente de sincronizar');
+      case 'failed':
+        return (
+          <TouchableOpacity onPress={retryFailedSync}>
+            {renderRow(<AlertCircle size={16} color="#FF3B30" />, 'Estado', 'Error de sincronización · Reintentar')}
+          </TouchableOpacity>
+        );
+      default:
+        return renderRow(<Cloud size={16} color="#34C759" />, 'Estado', 'Sincronizado');
+    }
+  };
+
+  if (loading && !scan) {
+    return (
+      <View style={styles.contenedorCentrado}>
+        <ActivityIndicator color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (!scan) {
+    return (
+      <View style={styles.contenedorCentrado}>
+        <QrCode size={60} color="#C7C7CC" />
+        <Text style={styles.tituloVacio}>Escaneo no encontrado</Text>
+        <Text style={styles.mensajeVacio}>Puede que se haya eliminado o que el enlace no sea válido</Text>
+        <TouchableOpacity style={styles.botonVolver} onPress={goBack}>
+          <Text style={styles.textoBotonVolver}>Volver</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const payload = getScanPayload(scan);
+  const fieldRows = payload.type === 'text'
+    ? []
+    : Object.entries(payload.fields)
+        .map(([field, value]) => [field, formatFieldValue(value)] as const)
+        .filter((row): row is readonly [string, string] => row[1] !== null);
+  const scanCount = scan.scan_count ?? 1;
+  const annotations = getScanAnnotations(scan);
+
+  return (
+    <ScrollView style={styles.contenedor} contentContainerStyle={styles.contenido}>
+      <Stack.Screen options={{ title: `Escaneo ${scan.id}` }} />
+
+      {/* Contenido */}
+      <View style={styles.tarjeta}>
+        <Text style={styles.dato} selectable>{scan.qr_data}</Text>
+        <PayloadActions payload={payload} onOpenURL={setLinkToCheck} />
+
+        <View style={styles.filaAcciones}>
+          <TouchableOpacity style={styles.botonAccion} onPress={() => copyData(scan.qr_data)}>
+            <Copy size={18} color="#007AFF" />
+            <Text style={styles.textoAccion}>Copiar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.botonAccion} onPress={() => shareData(scan.qr_data)}>
+            <Share2 size={18} color="#007AFF" />
+            <Text style={styles.textoAccion}>Compartir</Text>
+          </TouchableOpacity>
+          {payload.type === 'url' && (
+            <TouchableOpacity style={styles.botonAccion} onPress={() => setLinkToCheck(payload.fields.url)}>
+              <ExternalLink size={18} color="#007AFF" />
+              <Text style={styles.textoAccion}>Abrir</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.botonAccion} onPress={() => handleDelete(scan)}>
+            <Trash2 size={18} color="#FF3B30" />
+            <Text style={[styles.textoAccion, styles.textoEliminar]}>Eliminar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Campos del contenido interpretado */}
+      {fieldRows.length > 0 && (
+        <>
+          <Text style={styles.tituloSeccion}>Contenido interpretado</Text>
+          <View style={styles.tarjeta}>
+            {fieldRows.map(([field, value]) => (
+              <View style={styles.filaCampo} key={field}>
+                <Text style={styles.nombreCampo}>{field}</Text>
+                <Text style={styles.valorCampo} selectable>{value}</Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      {/* Última comprobación de seguridad del enlace */}
+      {payload.type === 'url' && (
+        <>
+          <Text style={styles.tituloSeccion}>Seguridad del enlace</Text>
+          <View style={styles.tarjeta}>
+            {scan.url_verdict ? (
+              <>
+                {renderRow(
+                  <ShieldAlert size={16} color={URL_SAFETY_LEVEL_COLORS[scan.url_verdict.level]} />,
+                  'Resultado',
+                  URL_SAFETY_LEVEL_LABELS[scan.url_verdict.level]
+                )}
+                {scan.url_verdict.risks.length > 0 && renderRow(
+                  <AlertCircle size={16} color="#666" />,
+                  'Motivos',
+                  scan.url_verdict.risks.map(risk => URL_RISK_LABELS[risk]).join(', ')
+                )}
+                {scan.url_verdict.final_url !== scan.url_verdict.url &&
+                  renderRow(<ExternalLink size={16} color="#666" />, 'Destino', scan.url_verdict.final_url)}
+                {renderRow(<Clock size={16} color="#666" />, 'Comprobado', formatDateTime(scan.url_verdict.checked_at))}
+              </>
+            ) : (
+              <Text style={styles.mensajeVacio}>Se comprobará la primera vez que abras el enlace</Text>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Revisión: estado, etiquetas y notas */}
+      <View style={styles.filaTituloSeccion}>
+        <Text style={styles.tituloSeccion}>Revisión</Text>
+        <TouchableOpacity style={styles.botonEditar} onPress={openEditor}>
+          <Pencil size={14} color="#007AFF" />
+          <Text style={styles.textoAccion}>Editar</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.tarjeta}>
+        {renderRow(
+          <CircleCheck size={16} color={SCAN_STATUS_COLORS[annotations.status]} />,
+          'Estado',
+          SCAN_STATUS_LABELS[annotations.status]
+        )}
+        {renderRow(
+          <Tag size={16} color="#666" />,
+          'Etiquetas',
+          annotations.tags.length > 0 ? annotations.tags.join(', ') : 'Sin etiquetas'
+        )}
+        {renderRow(<StickyNote size={16} color="#666" />, 'Notas', annotations.notes ?? 'Sin notas')}
+      </View>
+
+      {/* Lectura */}
+      <Text style={styles.tituloSeccion}>Lectura</Text>
+      <View style={styles.tarjeta}>
+        {renderRow(<Barcode size={16} color="#666" />, 'Tipo', getBarcodeTypeLabel(scan.barcode_type))}
+        {renderRow(<Clock size={16} color="#666" />, 'Fecha', formatDateTime(scan.timestamp))}
+        {scanCount > 1 && renderRow(<Repeat size={16} color="#FF9500" />, 'Lecturas', `${scanCount} veces`)}
+        {scanCount > 1 && renderRow(
+          <Clock size={16} color="#666" />,
+          'Última lectura',
+          formatDateTime(scan.last_seen_at ?? scan.timestamp)
+        )}
+        {scan.session_id && renderRow(<Layers size={16} color="#666" />, 'Sesión', sessionName ?? scan.session_id)}
+        {scan.zone_id && renderRow(<Fence size={16} color="#666" />, 'Zona', zoneName ?? scan.zone_id)}
+      </View>
+
+      {/* Ubicación */}
+      <Text style={styles.tituloSeccion}>Ubicación</Text>
+      <View style={styles.tarjeta}>
+        {scan.latitude !== null && scan.longitude !== null ? (
+          <>
+            {renderRow(
+              <MapPin size={16} color="#007AFF" />,
+              'Coordenadas',
+              `${scan.latitude.toFixed(6)}, ${scan.longitude.toFixed(6)}`
+            )}
+            {scan.accuracy !== null &&
+              renderRow(<Crosshair size={16} color="#666" />, 'Precisión', `±${Math.round(scan.accuracy)} m`)}
+            {scan.altitude !== null &&
+              renderRow(<Mountain size={16} color="#666" />, 'Altitud', `${Math.round(scan.altitude)} m`)}
+          </>
+        ) : (
+          <Text style={styles.mensajeVacio}>Ubicación no disponible</Text>
+        )}
+      </View>
+
+      {/* Sincronización */}
+      <Text style={styles.tituloSeccion}>Sincronización</Text>
+      <View style={styles.tarjeta}>
+        {renderSyncStatus(scan)}
+        {scan.sync_status !== 'pending' && scan.sync_status !== 'failed' &&
+          renderRow(<QrCode size={16} color="#666" />, 'ID en el servidor', String(scan.id))}
+        {scan.local_id !== undefined &&
+          renderRow(<QrCode size={16} color="#666" />, 'ID en el dispositivo', String(scan.local_id))}
+      </View>
+
+      <ScanNotesEditor
+        visible={editorVisible}
+        scan={scan}
+        suggestedTags={suggestedTags}
+        onClose={() => setEditorVisible(false)}
+        onSaved={setScan}
+      />
+      <UrlSafetySheet url={linkToCheck} scan={scan} onClose={() => setLinkToCheck(null)} onVerdictSaved={setScan} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    padding: 16,
+  },
+  contenedorCentrado: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: '#f8f9fa',
+  },
+  tituloVacio: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  mensajeVacio: {
+    fontSize: 14,
+    color: '#8e8e93',
+    textAlign: 'center',
+  },
+  botonVolver: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 24,
+  },
+  textoBotonVolver: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  tarjeta: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  dato: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 8,
+  },
+  filaAcciones: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    borderTopWidth: 1,
+    borderTopColor: '#f2f2f7',
+    paddingTop: 12,
+    marginTop: 4,
+  },
+  botonAccion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 20,
+    paddingVertical: 4,
+  },
+  textoAccion: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 6,
+  },
+  textoEliminar: {
+    color: '#FF3B30',
+  },
+  tituloSeccion: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  filaTituloSeccion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  botonEditar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+    marginRight: 4,
+  },
+  fila: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  etiquetaFila: {
+    fontSize: 14,
+    color: '#8e8e93',
+    marginLeft: 8,
+    width: 120,
+  },
+  valorFila: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1c1c1e',
+  },
+  filaCampo: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f2f2f7',
+  },
+  nombreCampo: {
+    fontSize: 12,
+    color: '#8e8e93',
+    marginBottom: 2,
+  },
+  valorCampo: {
+    fontSize: 14,
+    color: '#1c1c1e',
+  },
+});
@@ -1,154 +1,87 @@
-import { Platform } from 'react-native';
+import { addScan, getScanById, queryScans } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { createOnce, readIdempotencyKey } from '@/lib/server/idempotency';
+import { applyScanRules, runSavedScanRules } from '@/lib/server/rules';
+import { publishScanEvent } from '@/lib/server/scanEvents';
+import { parseScanQuery, validateScanInput } from '@/lib/server/validation';
+import { getScanScope, notMember, readOnly } from '@/lib/server/workspaces';
+import { canEditScans } from '@/lib/workspaces';
 
-// Interfaz de base de datos multiplataforma
-export interface ScanRecord {
-  id: number;
-  qr_data: string;
-  latitude: number | null;
-  longitude: number | null;
-  altitude: number | null;
-  accuracy: number | null;
-  timestamp: number;
-  created_at?: string;
-}
+// GET /scans - Lista paginada de escaneos: { items, total, limit, offset, nextOffset }
+// Parámetros: limit, offset, from, to, q, has_location, type, session_id, zone_id, tag (repetible), status,
+// group_by (qr_data), sort (timestamp | qr_data), order (asc | desc) y workspace_id. Sin workspace_id
+// se listan los escaneos personales del usuario.
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
 
-// Almacenamiento en memoria para plataforma web (puedes reemplazar esto con IndexedDB para persistencia)
-let webScans: ScanRecord[] = [];
-let nextId = 1;
+  const query = parseScanQuery(new URL(request.url).searchParams);
+  if (!query.ok) {
+    return jsonError(400, 'Parámetros de consulta inválidos', query.errors);
+  }
 
-// Base de datos SQLite para plataformas móviles
-let db: any = null;
+  const scope = getScanScope(user, query.value.workspaceId);
+  if (!scope) return notMember();
 
-const initMobileDatabase = async () => {
-  if (Platform.OS !== 'web' && !db) {
-    const SQLite = require('expo-sqlite');
-    db = SQLite.openDatabaseSync('qr_scanner.db');
-    
-    // Crear la tabla si no existe
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS scans (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        qr_data TEXT NOT NULL,
-        latitude REAL,
-        longitude REAL,
-        altitude REAL,
-        accuracy REAL,
-        timestamp INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+  try {
+    const page = await queryScans({ ...query.value, ...scope.filter });
+    return json({ ...page, limit: query.value.limit, offset: query.value.offset });
+  } catch (error) {
+    console.error('Error al listar escaneos:', error);
+    return jsonError(500, 'No se pudieron obtener los escaneos');
   }
-};
+}
 
-// Inicializar la base de datos según la plataforma
-export const initDatabase = async (): Promise<void> => {
-  if (Platform.OS === 'web') {
-    const stored = localStorage.getItem('qr_scans');
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        webScans = parsed.scans || [];
-        nextId = parsed.nextId || 1;
-      } catch (error) {
-        console.error('Error al cargar los escaneos almacenados:', error);
-        webScans = [];
-        nextId = 1;
-      }
-    }
-  } else {
-    await initMobileDatabase();
-  }
-};
+// POST /scans - Crea un nuevo escaneo del usuario (en el espacio de trabajo de workspace_id, si se indica)
+// y devuelve el registro creado, con las etiquetas y el estado de las reglas de ese ámbito que cumple
+// (422 si una de ellas lo rechaza). Con la cabecera Idempotency-Key, repetir la petición devuelve el
+// escaneo ya creado con 200 en lugar de crear otro
+export async function POST(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
 
-// Guardar en localStorage para la web
-const saveToLocalStorage = () => {
-  if (Platform.OS === 'web') {
-    localStorage.setItem('qr_scans', JSON.stringify({
-      scans: webScans,
-      nextId: nextId
-    }));
+  const idempotencyKey = readIdempotencyKey(request);
+  if (idempotencyKey === undefined) {
+    return jsonError(400, 'La cabecera Idempotency-Key no es válida');
   }
-};
 
-// Obtener todos los escaneos
-export const getScans = async (): Promise<ScanRecord[]> => {
-  await initDatabase();
-  
-  if (Platform.OS === 'web') {
-    return [...webScans].sort((a, b) => b.timestamp - a.timestamp);
-  } else {
-    if (!db) throw new Error('Base de datos no inicializada');
-    
-    const result = await db.getAllAsync('SELECT * FROM scans ORDER BY timestamp DESC');
-    return result as ScanRecord[];
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
   }
-};
 
-// Agregar un nuevo escaneo
-export const addScan = async (
-  scanData: Omit<ScanRecord, 'id' | 'created_at'>
-): Promise<number> => {
-  await initDatabase();
-  
-  if (Platform.OS === 'web') {
-    const newScan: ScanRecord = {
-      ...scanData,
-      id: nextId++,
-      created_at: new Date().toISOString()
-    };
-    webScans.push(newScan);
-    saveToLocalStorage();
-    return newScan.id;
-  } else {
-    if (!db) throw new Error('Base de datos no inicializada');
-    
-    const result = await db.runAsync(
-      `INSERT INTO scans (qr_data, latitude, longitude, altitude, accuracy, timestamp)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [
-        scanData.qr_data,
-        scanData.latitude,
-        scanData.longitude,
-        scanData.altitude,
-        scanData.accuracy,
-        scanData.timestamp,
-      ]
-    );
-    
-    return result.lastInsertRowId;
+  const result = validateScanInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de escaneo inválidos', result.errors);
   }
-};
 
-// Eliminar un escaneo
-export const deleteScan = async (id: number): Promise<boolean> => {
-  await initDatabase();
-  
-  if (Platform.OS === 'web') {
-    const initialLength = webScans.length;
-    webScans = webScans.filter(scan => scan.id !== id);
-    const deleted = webScans.length < initialLength;
-    if (deleted) {
-      saveToLocalStorage();
-    }
-    return deleted;
-  } else {
-    if (!db) throw new Error('Base de datos no inicializada');
-    
-    const result = await db.runAsync('DELETE FROM scans WHERE id = ?', [id]);
-    return result.changes > 0;
-  }
-};
+  const scope = getScanScope(user, result.value.workspace_id);
+  if (!scope) return notMember();
+  if (!canEditScans(scope.role)) return readOnly();
 
-// Obtener un escaneo específico por ID
-export const getScanById = async (id: number): Promise<ScanRecord | null> => {
-  await initDatabase();
-  
-  if (Platform.OS === 'web') {
-    return webScans.find(scan => scan.id === id) || null;
-  } else {
-    if (!db) throw new Error('Base de datos no inicializada');
-    
-    const result = await db.getFirstAsync('SELECT * FROM scans WHERE id = ?', [id]);
-    return result as ScanRecord || null;
+  try {
+    const ruled = await applyScanRules({ ...result.value, owner_id: user.id, owner_name: user.username });
+    if (ruled.evaluation.rejected) {
+      return jsonError(422, ruled.evaluation.reject_message ?? 'Una regla ha rechazado el escaneo');
+    }
+    const { id, replayed } = await createOnce(user.id, idempotencyKey, async () => {
+      const id = await addScan(ruled.scan);
+      const scan = await getScanById(id);
+      if (scan) {
+        publishScanEvent('created', scan);
+        runSavedScanRules(ruled.evaluation, scan);
+      }
+      return id;
+    });
+    const scan = await getScanById(id);
+    // El escaneo creado con esta clave se ha eliminado desde entonces
+    if (!scan) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    return json(scan, replayed ? 200 : 201);
+  } catch (error) {
+    console.error('Error al crear escaneo:', error);
+    return jsonError(500, 'No se pudo guardar el escaneo');
   }
-};
+}
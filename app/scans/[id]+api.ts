@@ -0,0 +1,100 @@
+import { deleteScan, getScanById, updateScanAnnotations } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, parseId, readJsonBody } from '@/lib/server/http';
+import { publishScanEvent } from '@/lib/server/scanEvents';
+import { validateScanPatch } from '@/lib/server/validation';
+import { getScanRole, readOnly } from '@/lib/server/workspaces';
+import { canEditScans } from '@/lib/workspaces';
+
+// GET /scans/:id - Devuelve un escaneo del usuario o de uno de sus espacios de trabajo (404 si no existe)
+export async function GET(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const id = parseId(params.id);
+  if (id === null) {
+    return jsonError(400, 'El id debe ser un entero positivo');
+  }
+
+  try {
+    const scan = await getScanById(id);
+    if (!scan || !getScanRole(scan, user)) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    return json(scan);
+  } catch (error) {
+    console.error('Error al obtener escaneo:', error);
+    return jsonError(500, 'No se pudo obtener el escaneo');
+  }
+}
+
+// PATCH /scans/:id - Cambia las notas, etiquetas, estado o veredicto del enlace de un escaneo:
+// { notes?, tags?, status?, url_verdict? }
+// Devuelve el escaneo actualizado (403 si el usuario es lector)
+export async function PATCH(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const id = parseId(params.id);
+  if (id === null) {
+    return jsonError(400, 'El id debe ser un entero positivo');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateScanPatch(body);
+  if (!result.ok) {
+    return jsonError(400, 'Cambios inválidos', result.errors);
+  }
+
+  try {
+    const scan = await getScanById(id);
+    const role = scan ? getScanRole(scan, user) : null;
+    if (!role) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    if (!canEditScans(role)) return readOnly();
+    const updated = await updateScanAnnotations(id, result.value);
+    const saved = updated ? await getScanById(id) : null;
+    if (!saved) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    publishScanEvent('updated', saved);
+    return json(saved);
+  } catch (error) {
+    console.error('Error al modificar escaneo:', error);
+    return jsonError(500, 'No se pudo modificar el escaneo');
+  }
+}
+
+// DELETE /scans/:id - Elimina un escaneo (204 si se eliminó, 404 si no existe, 403 si el usuario es lector)
+export async function DELETE(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const id = parseId(params.id);
+  if (id === null) {
+    return jsonError(400, 'El id debe ser un entero positivo');
+  }
+
+  try {
+    const scan = await getScanById(id);
+    const role = scan ? getScanRole(scan, user) : null;
+    if (!scan || !role) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    if (!canEditScans(role)) return readOnly();
+    const deleted = await deleteScan(id);
+    if (!deleted) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    publishScanEvent('deleted', scan);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Error al eliminar escaneo:', error);
+    return jsonError(500, 'No se pudo eliminar el escaneo');
+  }
+}
@@ -0,0 +1,59 @@
+import { getScanById, recordSighting } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, parseId, readJsonBody } from '@/lib/server/http';
+import { createOnce, readIdempotencyKey } from '@/lib/server/idempotency';
+import { publishScanEvent } from '@/lib/server/scanEvents';
+import { validateSightingInput } from '@/lib/server/validation';
+import { getScanRole, readOnly } from '@/lib/server/workspaces';
+import { canEditScans } from '@/lib/workspaces';
+
+// POST /scans/:id/sightings - Suma lecturas repetidas a un escaneo: { timestamp, count? }
+// Devuelve el escaneo con scan_count y last_seen_at actualizados. Con la cabecera Idempotency-Key,
+// repetir la petición devuelve el escaneo sin volver a sumar las lecturas
+export async function POST(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const id = parseId(params.id);
+  if (id === null) {
+    return jsonError(400, 'El id debe ser un entero positivo');
+  }
+
+  const idempotencyKey = readIdempotencyKey(request);
+  if (idempotencyKey === undefined) {
+    return jsonError(400, 'La cabecera Idempotency-Key no es válida');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateSightingInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de lectura inválidos', result.errors);
+  }
+
+  try {
+    const scan = await getScanById(id);
+    const role = scan ? getScanRole(scan, user) : null;
+    if (!role) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    if (!canEditScans(role)) return readOnly();
+    // Las claves de lecturas son de cada escaneo y no se confunden con las de creación de escaneos
+    const { replayed } = await createOnce(user.id, idempotencyKey && `sightings:${id}:${idempotencyKey}`, async () => {
+      await recordSighting(id, result.value.timestamp, result.value.count);
+      return id;
+    });
+    const saved = await getScanById(id);
+    if (!saved) {
+      return jsonError(404, 'Escaneo no encontrado');
+    }
+    if (!replayed) publishScanEvent('updated', saved);
+    return json(saved);
+  } catch (error) {
+    console.error('Error al registrar lectura repetida:', error);
+    return jsonError(500, 'No se pudo registrar la lectura');
+  }
+}
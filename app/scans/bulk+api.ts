@@ -0,0 +1,78 @@
+import type { BulkItemResult, BulkScanResponse } from '@/lib/importScans';
+import type { RuleEvaluation } from '@/lib/rules';
+import { addScansIfNew, getScanById } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { applyScanRules, runSavedScanRules } from '@/lib/server/rules';
+import { publishScanEvent } from '@/lib/server/scanEvents';
+import { ScanInput, validateBulkScanInput, validateScanInput } from '@/lib/server/validation';
+import { getScanScope } from '@/lib/server/workspaces';
+import { canEditScans } from '@/lib/workspaces';
+
+// POST /scans/bulk - Importa varios escaneos a la vez (hasta MAX_BULK_SIZE por petición).
+// Se omiten los que ya existen con el mismo qr_data y timestamp; los inválidos no impiden
+// guardar el resto. Devuelve { inserted, skipped, invalid, results } con una entrada por elemento.
+// Los escaneos se guardan a nombre del usuario y se comparan con los de su espacio de trabajo (o con sus
+// escaneos personales); los de espacios de trabajo en los que no puede añadir escaneos se rechazan.
+// Se aplican las reglas de cada ámbito: los escaneos que rechaza una regla cuentan como inválidos.
+export async function POST(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const items = validateBulkScanInput(body);
+  if (!items.ok) {
+    return jsonError(400, 'Lote de escaneos inválido', items.errors);
+  }
+
+  const results: BulkItemResult[] = [];
+  const valid: { index: number; scan: ScanInput; evaluation: RuleEvaluation }[] = [];
+
+  try {
+    for (const [index, item] of items.value.entries()) {
+      const result = validateScanInput(item);
+      if (!result.ok) {
+        results.push({ index, status: 'invalid', errors: result.errors });
+        continue;
+      }
+      const scope = getScanScope(user, result.value.workspace_id);
+      if (!scope || !canEditScans(scope.role)) {
+        results.push({ index, status: 'invalid', errors: ['No puedes añadir escaneos a este espacio de trabajo'] });
+        continue;
+      }
+      const ruled = await applyScanRules({ ...result.value, owner_id: user.id, owner_name: user.username });
+      const { evaluation } = ruled;
+      if (evaluation.rejected) {
+        results.push({ index, status: 'invalid', errors: [evaluation.reject_message ?? 'Rechazado por una regla'] });
+        continue;
+      }
+      valid.push({ index, ...ruled });
+    }
+
+    const saved = await addScansIfNew(valid.map(item => item.scan));
+    for (const [position, { id, inserted }] of saved.entries()) {
+      results.push({ index: valid[position].index, status: inserted ? 'inserted' : 'skipped', id });
+      const scan = inserted ? await getScanById(id) : null;
+      if (scan) {
+        publishScanEvent('created', scan);
+        runSavedScanRules(valid[position].evaluation, scan);
+      }
+    }
+  } catch (error) {
+    console.error('Error al importar escaneos:', error);
+    return jsonError(500, 'No se pudieron guardar los escaneos');
+  }
+
+  results.sort((a, b) => a.index - b.index);
+  const response: BulkScanResponse = {
+    inserted: results.filter(result => result.status === 'inserted').length,
+    skipped: results.filter(result => result.status === 'skipped').length,
+    invalid: results.filter(result => result.status === 'invalid').length,
+    results,
+  };
+  return json(response);
+}
@@ -0,0 +1,25 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { jsonError } from '@/lib/server/http';
+import { openScanEventStream } from '@/lib/server/scanEvents';
+import { isValidClientId } from '@/lib/server/validation';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+
+// GET /scans/events - Cambios en los escaneos en tiempo real (text/event-stream): eventos created, updated
+// y deleted con { id, type, scan_id, scan, at }. Con workspace_id, los de ese espacio de trabajo; sin él,
+// los de los escaneos personales del usuario. Al reconectar, la cabecera Last-Event-ID (o el parámetro
+// last_event_id) recupera los eventos perdidos; si ya no se conservan se envía un evento reset.
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const params = new URL(request.url).searchParams;
+  const workspaceId = params.get('workspace_id');
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    return jsonError(400, 'workspace_id no es un identificador de espacio de trabajo válido');
+  }
+  const scope = getScanScope(user, workspaceId);
+  if (!scope) return notMember();
+
+  const lastEventId = request.headers.get('last-event-id') ?? params.get('last_event_id');
+  return openScanEventStream(request, user, scope, lastEventId || null);
+}
@@ -0,0 +1,37 @@
+import { buildExportFileName, EXPORT_MIME_TYPES, serializeScans } from '@/lib/export';
+import { queryScans } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { jsonError } from '@/lib/server/http';
+import { parseExportQuery } from '@/lib/server/validation';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+
+// GET /scans/export - Descarga los escaneos como fichero CSV, JSON o GeoJSON
+// Parámetros: format (csv | json | geojson) y los mismos filtros que GET /scans (sin limit se exporta todo).
+// Como GET /scans, sin workspace_id se exportan los escaneos personales del usuario.
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const result = parseExportQuery(new URL(request.url).searchParams);
+  if (!result.ok) {
+    return jsonError(400, 'Parámetros de exportación inválidos', result.errors);
+  }
+
+  const { format, query } = result.value;
+  const scope = getScanScope(user, query.workspaceId);
+  if (!scope) return notMember();
+
+  try {
+    const { items } = await queryScans({ ...query, ...scope.filter });
+    return new Response(serializeScans(items, format), {
+      status: 200,
+      headers: {
+        'Content-Type': `${EXPORT_MIME_TYPES[format]}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${buildExportFileName(format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error al exportar escaneos:', error);
+    return jsonError(500, 'No se pudieron exportar los escaneos');
+  }
+}
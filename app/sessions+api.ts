@@ -0,0 +1,26 @@
+import { getSessions } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError } from '@/lib/server/http';
+import { isValidClientId } from '@/lib/server/validation';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+
+// GET /sessions - Sesiones de escaneo (las más recientes primero) con su número de escaneos
+// Con workspace_id, las de ese espacio de trabajo; sin él, las sesiones personales del usuario
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const workspaceId = new URL(request.url).searchParams.get('workspace_id');
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    return jsonError(400, 'workspace_id no es un identificador de espacio de trabajo válido');
+  }
+  const scope = getScanScope(user, workspaceId);
+  if (!scope) return notMember();
+
+  try {
+    return json(await getSessions(scope.filter));
+  } catch (error) {
+    console.error('Error al listar sesiones:', error);
+    return jsonError(500, 'No se pudieron obtener las sesiones');
+  }
+}
@@ -0,0 +1,106 @@
+import { deleteSession, getSessionById, queryScans, saveSession } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { publishScanEvent } from '@/lib/server/scanEvents';
+import { isValidClientId, validateSessionInput } from '@/lib/server/validation';
+import { getScanRole, getScanScope, notMember, readOnly } from '@/lib/server/workspaces';
+import { canEditScans } from '@/lib/workspaces';
+
+// GET /sessions/:id - Devuelve una sesión del usuario o de uno de sus espacios de trabajo (404 si no existe)
+export async function GET(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!isValidClientId(params.id)) {
+    return jsonError(400, 'El id de sesión no es válido');
+  }
+
+  try {
+    const session = await getSessionById(params.id);
+    if (!session || !getScanRole(session, user)) {
+      return jsonError(404, 'Sesión no encontrada');
+    }
+    return json(await getSessionById(params.id, getScanScope(user, session.workspace_id)!.filter));
+  } catch (error) {
+    console.error('Error al obtener sesión:', error);
+    return jsonError(500, 'No se pudo obtener la sesión');
+  }
+}
+
+// PUT /sessions/:id - Crea o actualiza (renombra, cierra) una sesión con el id generado por el cliente:
+// { name, started_at, ended_at?, workspace_id? }. El espacio de trabajo se fija al crearla
+// (403 si el usuario no es miembro o es lector; 404 si el id es de una sesión que no puede ver)
+export async function PUT(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!isValidClientId(params.id)) {
+    return jsonError(400, 'El id de sesión no es válido');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateSessionInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de sesión inválidos', result.errors);
+  }
+
+  try {
+    const existing = await getSessionById(params.id);
+    const { workspace_id, ...changes } = result.value;
+    if (existing) {
+      const role = getScanRole(existing, user);
+      if (!role) {
+        return jsonError(404, 'Sesión no encontrada');
+      }
+      if (!canEditScans(role)) return readOnly();
+    } else {
+      const scope = getScanScope(user, workspace_id);
+      if (!scope) return notMember();
+      if (!canEditScans(scope.role)) return readOnly();
+    }
+
+    const session = existing
+      ? { ...existing, ...changes }
+      : { id: params.id, ...changes, owner_id: user.id, workspace_id };
+    await saveSession(session);
+    const saved = await getSessionById(params.id, getScanScope(user, session.workspace_id)!.filter);
+    return json(saved, existing ? 200 : 201);
+  } catch (error) {
+    console.error('Error al guardar sesión:', error);
+    return jsonError(500, 'No se pudo guardar la sesión');
+  }
+}
+
+// DELETE /sessions/:id - Elimina la sesión y sus escaneos: los del usuario si es personal o todos los del
+// espacio de trabajo si es compartida (204 si se eliminó, 403 si el usuario es lector, 404 si no existe)
+export async function DELETE(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!isValidClientId(params.id)) {
+    return jsonError(400, 'El id de sesión no es válido');
+  }
+
+  try {
+    const session = await getSessionById(params.id);
+    const role = session ? getScanRole(session, user) : null;
+    if (!session || !role) {
+      return jsonError(404, 'Sesión no encontrada');
+    }
+    if (!canEditScans(role)) return readOnly();
+
+    // Escaneos que se eliminan con la sesión, para avisar a los demás dispositivos
+    const scope = getScanScope(user, session.workspace_id)!.filter;
+    const { items } = await queryScans({ sessionId: params.id, ...scope });
+    await deleteSession(params.id, scope);
+    items.forEach(scan => publishScanEvent('deleted', scan));
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Error al eliminar sesión:', error);
+    return jsonError(500, 'No se pudo eliminar la sesión');
+  }
+}
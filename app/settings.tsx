@@ -0,0 +1,528 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import {
+  Server,
+  CheckCircle,
+  XCircle,
+  RefreshCw,
+  Fence,
+  ChevronRight,
+  User,
+  Users,
+  LogOut,
+  Workflow,
+  ListChecks,
+} from 'lucide-react-native';
+import { ApiStatus, backend } from '@/lib/backend';
+import { auth, AuthSession } from '@/lib/auth';
+import { CurrentWorkspace, getCurrentWorkspace, subscribeToWorkspace } from '@/lib/currentWorkspace';
+import { API_PROFILES, API_PROFILE_LABELS, ApiProfile, getProfileUrl, isValidBaseUrl } from '@/lib/config';
+import { BARCODE_TYPES, BARCODE_TYPE_LABELS, BarcodeType } from '@/lib/barcode';
+import {
+  COOLDOWN_OPTIONS,
+  DEFAULT_SCANNER_SETTINGS,
+  loadScannerSettings,
+  saveScannerSettings,
+  ScannerSettings,
+} from '@/lib/scannerSettings';
+import {
+  DUPLICATE_DISTANCE_OPTIONS,
+  DUPLICATE_POLICIES,
+  DUPLICATE_POLICY_DESCRIPTIONS,
+  DUPLICATE_POLICY_LABELS,
+  DUPLICATE_WINDOW_OPTIONS,
+  DuplicateSettings,
+} from '@/lib/duplicates';
+
+const SOURCE_LABELS: Record<ApiStatus['source'], string> = {
+  env: 'Variable de entorno',
+  profile: 'Perfil',
+  custom: 'URL personalizada',
+};
+
+export default function SettingsScreen() {
+  const [status, setStatus] = useState<ApiStatus>(backend.getStatus());
+  const [customUrl, setCustomUrl] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [scannerSettings, setScannerSettings] = useState<ScannerSettings>(DEFAULT_SCANNER_SETTINGS);
+  const [session, setSession] = useState<AuthSession | null>(auth.getSession());
+
+  const [workspace, setWorkspace] = useState<CurrentWorkspace | null>(getCurrentWorkspace());
+
+  useEffect(() => auth.subscribe(setSession), []);
+  useEffect(() => subscribeToWorkspace(setWorkspace), []);
+
+  useFocusEffect(
+    useCallback(() => {
+      backend.init().then(() => {
+        setStatus(backend.getStatus());
+        setWorkspace(getCurrentWorkspace());
+      });
+      loadScannerSettings()
+        .then(setScannerSettings)
+        .catch(error => console.error('Error al cargar los ajustes del escáner:', error));
+    }, [])
+  );
+
+  const runWithCheck = async (action: () => Promise<ApiStatus>) => {
+    try {
+      setChecking(true);
+      setStatus(await action());
+    } catch (error) {
+      console.error('Error al cambiar el backend:', error);
+      Alert.alert('Error', 'No se pudo cambiar la configuración del servidor');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const testConnection = () =>
+    runWithCheck(async () => {
+      await backend.checkConnection();
+      return backend.getStatus();
+    });
+
+  const selectProfile = (profile: ApiProfile) => runWithCheck(() => backend.useProfile(profile));
+
+  const saveCustomUrl = () => {
+    if (!isValidBaseUrl(customUrl)) {
+      Alert.alert('URL inválida', 'La URL debe comenzar con http:// o https://');
+      return;
+    }
+    runWithCheck(() => backend.useCustomUrl(customUrl));
+    setCustomUrl('');
+  };
+
+  const resetSettings = () => runWithCheck(() => backend.resetApiSettings());
+
+  const confirmLogout = () => {
+    Alert.alert(
+      'Cerrar sesión',
+      'Los escaneos sin sincronizar se enviarán cuando vuelvas a iniciar sesión. Si la inicia otra cuenta, ' +
+        'se borrarán de este dispositivo.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Cerrar sesión', style: 'destructive', onPress: () => void auth.logout() },
+      ]
+    );
+  };
+
+  const toggleBarcodeType = (type: BarcodeType) => {
+    const enabled = scannerSettings.barcodeTypes.includes(type);
+    if (enabled && scannerSettings.barcodeTypes.length === 1) {
+      Alert.alert('Tipos de código', 'Debe quedar al menos un tipo de código activado');
+      return;
+    }
+    const barcodeTypes = enabled
+      ? scannerSettings.barcodeTypes.filter(t => t !== type)
+      : BARCODE_TYPES.filter(t => t === type || scannerSettings.barcodeTypes.includes(t));
+    updateScannerSettings({ ...scannerSettings, barcodeTypes });
+  };
+
+  const updateScannerSettings = (next: ScannerSettings) => {
+    setScannerSettings(next);
+    saveScannerSettings(next).catch(error => console.error('Error al guardar los ajustes del escáner:', error));
+  };
+
+  const updateDuplicates = (changes: Partial<DuplicateSettings>) =>
+    updateScannerSettings({ ...scannerSettings, duplicates: { ...scannerSettings.duplicates, ...changes } });
+
+  const formatSeconds = (seconds: number) => (seconds >= 60 ? `${seconds / 60} min` : `${seconds} s`);
+
+  const renderOptionChips = (
+    options: number[],
+    selected: number,
+    format: (value: number) => string,
+    onSelect: (value: number) => void
+  ) => (
+    <View style={styles.filaChips}>
+      {options.map((value) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.chip, selected === value && styles.chipActivo]}
+          onPress={() => onSelect(value)}>
+          <Text style={[styles.textoChip, selected === value && styles.textoChipActivo]}>{format(value)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderReachability = () => {
+    if (checking) {
+      return <ActivityIndicator color="#007AFF" />;
+    }
+    if (status.reachable === null) {
+      return <Text style={styles.textoEstado}>Sin comprobar</Text>;
+    }
+    return (
+      <View style={styles.filaEstado}>
+        {status.reachable ? <CheckCircle size={16} color="#34C759" /> : <XCircle size={16} color="#FF3B30" />}
+        <Text style={[styles.textoEstado, { color: status.reachable ? '#34C759' : '#FF3B30' }]}>
+          {status.reachable ? 'Conectado' : 'Sin conexión'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.contenedor} contentContainerStyle={styles.contenido}>
+      {/* Servidor activo */}
+      <View style={styles.tarjeta}>
+        <View style={styles.encabezadoTarjeta}>
+          <Server size={18} color="#007AFF" />
+          <Text style={styles.tituloTarjeta}>Servidor activo</Text>
+        </View>
+        <Text style={styles.urlActiva} selectable>{status.url || 'Sin configurar'}</Text>
+        <Text style={styles.textoSecundario}>
+          {SOURCE_LABELS[status.source]}
+          {status.profile ? `: ${API_PROFILE_LABELS[status.profile]}` : ''}
+        </Text>
+        <View style={styles.filaAcciones}>
+          {renderReachability()}
+          <TouchableOpacity style={styles.botonSecundario} onPress={testConnection} disabled={checking}>
+            <RefreshCw size={14} color="#007AFF" />
+            <Text style={styles.textoBotonSecundario}>Probar conexión</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Usuario con el que se guardan los escaneos en el servidor */}
+      {session && (
+        <View style={styles.tarjeta}>
+          <View style={styles.encabezadoTarjeta}>
+            <User size={18} color="#007AFF" />
+            <Text style={styles.tituloTarjeta}>Cuenta</Text>
+          </View>
+          <Text style={styles.urlActiva}>{session.user.username}</Text>
+          <Text style={styles.textoSecundario} numberOfLines={1}>{session.baseUrl}</Text>
+          <View style={styles.filaAcciones}>
+            <View />
+            <TouchableOpacity style={styles.botonSecundario} onPress={confirmLogout}>
+              <LogOut size={14} color="#FF3B30" />
+              <Text style={[styles.textoBotonSecundario, styles.textoPeligro]}>Cerrar sesión</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Espacio de trabajo en el que se guardan y consultan los escaneos */}
+      {session && (
+        <TouchableOpacity style={[styles.tarjeta, styles.filaEnlace]} onPress={() => router.push('/workspaces')}>
+          <Users size={20} color="#007AFF" />
+          <View style={styles.textoEnlace}>
+            <Text style={styles.nombrePerfil}>Espacio de trabajo</Text>
+            <Text style={styles.textoSecundario}>{workspace?.name ?? 'Personal'}</Text>
+          </View>
+          <ChevronRight size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      )}
+
+      {/* Perfiles */}
+      <Text style={styles.tituloSeccion}>Perfiles</Text>
+      {API_PROFILES.map((profile) => {
+        const url = getProfileUrl(profile);
+        const active = status.source === 'profile' && status.profile === profile;
+        return (
+          <TouchableOpacity
+            key={profile}
+            style={[styles.opcionPerfil, active && styles.opcionPerfilActiva]}
+            onPress={() => selectProfile(profile)}
+            disabled={checking || !url}>
+            <Text style={styles.nombrePerfil}>{API_PROFILE_LABELS[profile]}</Text>
+            <Text style={styles.textoSecundario} numberOfLines={1}>{url || 'No configurado'}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {/* URL personalizada */}
+      <Text style={styles.tituloSeccion}>URL personalizada</Text>
+      <View style={styles.tarjeta}>
+        <TextInput
+          style={styles.campoTexto}
+          value={customUrl}
+          onChangeText={setCustomUrl}
+          placeholder="http://192.168.1.10:8081"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <View style={styles.filaAcciones}>
+          <TouchableOpacity style={styles.botonSecundario} onPress={resetSettings} disabled={checking}>
+            <Text style={styles.textoBotonSecundario}>Restablecer</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.botonPrimario} onPress={saveCustomUrl} disabled={checking}>
+            <Text style={styles.textoBotonPrimario}>Guardar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Simbologías que reconoce el escáner */}
+      <Text style={styles.tituloSeccion}>Tipos de código</Text>
+      <View style={styles.tarjeta}>
+        <View style={styles.filaChips}>
+          {BARCODE_TYPES.map((type) => {
+            const active = scannerSettings.barcodeTypes.includes(type);
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, active && styles.chipActivo]}
+                onPress={() => toggleBarcodeType(type)}>
+                <Text style={[styles.textoChip, active && styles.textoChipActivo]}>{BARCODE_TYPE_LABELS[type]}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.textoSecundario}>
+          Activar solo los tipos necesarios agiliza la detección y evita lecturas accidentales.
+        </Text>
+      </View>
+
+      {/* Códigos repetidos */}
+      <Text style={styles.tituloSeccion}>Códigos repetidos</Text>
+      {DUPLICATE_POLICIES.map((policy) => {
+        const active = scannerSettings.duplicates.policy === policy;
+        return (
+          <TouchableOpacity
+            key={policy}
+            style={[styles.opcionPerfil, active && styles.opcionPerfilActiva]}
+            onPress={() => updateDuplicates({ policy })}>
+            <Text style={styles.nombrePerfil}>{DUPLICATE_POLICY_LABELS[policy]}</Text>
+            <Text style={styles.textoSecundario}>{DUPLICATE_POLICY_DESCRIPTIONS[policy]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+      {scannerSettings.duplicates.policy === 'ignore_time' && (
+        <View style={styles.tarjeta}>
+          <Text style={styles.etiquetaOpcion}>Ignorar durante</Text>
+          {renderOptionChips(
+            DUPLICATE_WINDOW_OPTIONS,
+            scannerSettings.duplicates.windowSeconds,
+            formatSeconds,
+            (windowSeconds) => updateDuplicates({ windowSeconds })
+          )}
+        </View>
+      )}
+      {scannerSettings.duplicates.policy === 'ignore_distance' && (
+        <View style={styles.tarjeta}>
+          <Text style={styles.etiquetaOpcion}>Ignorar a menos de</Text>
+          {renderOptionChips(
+            DUPLICATE_DISTANCE_OPTIONS,
+            scannerSettings.duplicates.distanceMeters,
+            (meters) => `${meters} m`,
+            (distanceMeters) => updateDuplicates({ distanceMeters })
+          )}
+          <Text style={styles.textoSecundario}>Si no hay ubicación disponible, la lectura se registra.</Text>
+        </View>
+      )}
+
+      {/* Pausa entre lecturas */}
+      <Text style={styles.tituloSeccion}>Pausa entre lecturas</Text>
+      <View style={styles.tarjeta}>
+        {renderOptionChips(
+          COOLDOWN_OPTIONS,
+          scannerSettings.cooldownSeconds,
+          formatSeconds,
+          (cooldownSeconds) => updateScannerSettings({ ...scannerSettings, cooldownSeconds })
+        )}
+        <Text style={styles.textoSecundario}>Tiempo que espera el escáner tras cada lectura.</Text>
+      </View>
+
+      {/* Zonas con las que se etiquetan los escaneos */}
+      <Text style={styles.tituloSeccion}>Zonas</Text>
+      <TouchableOpacity style={[styles.tarjeta, styles.filaEnlace]} onPress={() => router.push('/zones')}>
+        <Fence size={20} color="#007AFF" />
+        <View style={styles.textoEnlace}>
+          <Text style={styles.nombrePerfil}>Gestionar zonas</Text>
+          <Text style={styles.textoSecundario}>Radios y polígonos para etiquetar y vigilar dónde se leen los códigos.</Text>
+        </View>
+        <ChevronRight size={20} color="#C7C7CC" />
+      </TouchableOpacity>
+
+      {/* Acciones automáticas según el contenido de cada código */}
+      <Text style={styles.tituloSeccion}>Reglas</Text>
+      <TouchableOpacity style={[styles.tarjeta, styles.filaEnlace]} onPress={() => router.push('/rules')}>
+        <Workflow size={20} color="#007AFF" />
+        <View style={styles.textoEnlace}>
+          <Text style={styles.nombrePerfil}>Reglas de escaneo</Text>
+          <Text style={styles.textoSecundario}>Etiquetar, cambiar el estado, avisar o rechazar según el contenido.</Text>
+        </View>
+        <ChevronRight size={20} color="#C7C7CC" />
+      </TouchableOpacity>
+
+      {/* Comprobación de los códigos leídos contra una lista de códigos esperados */}
+      <Text style={styles.tituloSeccion}>Auditoría</Text>
+      <TouchableOpacity style={[styles.tarjeta, styles.filaEnlace]} onPress={() => router.push('/checklist')}>
+        <ListChecks size={20} color="#007AFF" />
+        <View style={styles.textoEnlace}>
+          <Text style={styles.nombrePerfil}>Lista de control</Text>
+          <Text style={styles.textoSecundario}>Cargar los códigos esperados y ver los que faltan o sobran.</Text>
+        </View>
+        <ChevronRight size={20} color="#C7C7CC" />
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    padding: 16,
+  },
+  tarjeta: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  encabezadoTarjeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  tituloTarjeta: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1c1c1e',
+    marginLeft: 8,
+  },
+  urlActiva: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 4,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+  },
+  filaAcciones: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  filaEstado: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  textoEstado: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8e8e93',
+    marginLeft: 6,
+  },
+  tituloSeccion: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  opcionPerfil: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  opcionPerfilActiva: {
+    borderColor: '#007AFF',
+  },
+  nombrePerfil: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 2,
+  },
+  campoTexto: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+  },
+  botonPrimario: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  textoBotonPrimario: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  botonSecundario: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#f0f6ff',
+  },
+  textoBotonSecundario: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  etiquetaOpcion: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 10,
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  textoPeligro: {
+    color: '#FF3B30',
+  },
+  filaEnlace: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  textoEnlace: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+});
@@ -0,0 +1,26 @@
+import { getTagCounts } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError } from '@/lib/server/http';
+import { isValidClientId } from '@/lib/server/validation';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+
+// GET /tags - Etiquetas usadas en los escaneos con su número de escaneos: [{ tag, count }]
+// Con workspace_id, las de ese espacio de trabajo; sin él, las de los escaneos personales del usuario
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const workspaceId = new URL(request.url).searchParams.get('workspace_id');
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    return jsonError(400, 'workspace_id no es un identificador de espacio de trabajo válido');
+  }
+  const scope = getScanScope(user, workspaceId);
+  if (!scope) return notMember();
+
+  try {
+    return json(await getTagCounts(scope.filter));
+  } catch (error) {
+    console.error('Error al listar etiquetas:', error);
+    return jsonError(500, 'No se pudieron obtener las etiquetas');
+  }
+}
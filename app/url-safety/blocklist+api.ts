@@ -0,0 +1,33 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { canEditUrlBlocklist, getUrlBlocklist, replaceUrlBlocklist } from '@/lib/server/urlSafety';
+import { validateUrlBlocklistInput } from '@/lib/server/validation';
+
+// GET /url-safety/blocklist - Lista de dominios bloqueados: { version, domains, updated_at }.
+// Las apps guardan una copia para comprobar enlaces sin conexión y la descargan de nuevo al cambiar la versión
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  return json(getUrlBlocklist());
+}
+
+// PUT /url-safety/blocklist - Sustituye la lista: { domains }. Solo para los usuarios de URL_BLOCKLIST_ADMINS
+export async function PUT(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+  if (!canEditUrlBlocklist(user)) {
+    return jsonError(403, 'No tienes permiso para modificar la lista de bloqueo');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateUrlBlocklistInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Lista de bloqueo inválida', result.errors);
+  }
+  return json(replaceUrlBlocklist(result.value.domains));
+}
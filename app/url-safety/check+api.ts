@@ -0,0 +1,28 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { checkUrlSafety } from '@/lib/server/urlSafety';
+import { validateUrlCheckInput } from '@/lib/server/validation';
+
+// POST /url-safety/check - Comprueba un enlace antes de abrirlo: { url } → veredicto con los
+// riesgos del enlace y de cada redirección que sigue (acortadores)
+export async function POST(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateUrlCheckInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de comprobación inválidos', result.errors);
+  }
+
+  try {
+    return json(await checkUrlSafety(result.value.url));
+  } catch (error) {
+    console.error('Error al comprobar el enlace:', error);
+    return jsonError(500, 'No se pudo comprobar el enlace');
+  }
+}
@@ -0,0 +1,52 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { isValidClientId, validateWebhookInput } from '@/lib/server/validation';
+import { cannotManageWebhooks, createWebhook, listWebhooks } from '@/lib/server/webhooks';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+import { MAX_WEBHOOKS_PER_SCOPE } from '@/lib/webhooks';
+import { canManageWebhooks } from '@/lib/workspaces';
+
+// GET /webhooks - Webhooks del espacio de trabajo de workspace_id (solo su propietario) o, sin él, los de
+// los escaneos personales del usuario. No incluyen el secreto
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const workspaceId = new URL(request.url).searchParams.get('workspace_id');
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    return jsonError(400, 'workspace_id no es un identificador de espacio de trabajo válido');
+  }
+  const scope = getScanScope(user, workspaceId);
+  if (!scope) return notMember();
+  if (!canManageWebhooks(scope.role)) return cannotManageWebhooks();
+
+  return json(listWebhooks(user, workspaceId));
+}
+
+// POST /webhooks - Crea un webhook { url, events?, description?, active?, workspace_id? } que recibe los
+// escaneos creados, modificados o eliminados de ese ámbito. Devuelve el webhook con su secreto de firma,
+// que no se vuelve a mostrar (409 si el ámbito ya tiene el máximo de webhooks)
+export async function POST(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateWebhookInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de webhook inválidos', result.errors);
+  }
+
+  const scope = getScanScope(user, result.value.workspace_id);
+  if (!scope) return notMember();
+  if (!canManageWebhooks(scope.role)) return cannotManageWebhooks();
+
+  const webhook = createWebhook(result.value, user);
+  if (!webhook) {
+    return jsonError(409, `No se pueden crear más de ${MAX_WEBHOOKS_PER_SCOPE} webhooks en el mismo ámbito`);
+  }
+  return json(webhook, 201);
+}
@@ -0,0 +1,49 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { validateWebhookPatch } from '@/lib/server/validation';
+import { deleteWebhook, getWebhook, updateWebhook } from '@/lib/server/webhooks';
+
+// GET /webhooks/:id - Devuelve un webhook sin su secreto (404 si no existe o el usuario no puede gestionarlo)
+export async function GET(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const webhook = getWebhook(params.id, user);
+  if (!webhook) {
+    return jsonError(404, 'Webhook no encontrado');
+  }
+  return json(webhook);
+}
+
+// PATCH /webhooks/:id - Cambia { url?, events?, description?, active? }. Con rotate_secret: true se genera
+// un secreto nuevo, que se devuelve con el webhook
+export async function PATCH(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!getWebhook(params.id, user)) {
+    return jsonError(404, 'Webhook no encontrado');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateWebhookPatch(body);
+  if (!result.ok) {
+    return jsonError(400, 'Cambios inválidos', result.errors);
+  }
+  return json(updateWebhook(params.id, result.value));
+}
+
+// DELETE /webhooks/:id - Elimina el webhook y su registro de entregas (204, o 404 si no existe)
+export async function DELETE(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!getWebhook(params.id, user) || !deleteWebhook(params.id)) {
+    return jsonError(404, 'Webhook no encontrado');
+  }
+  return new Response(null, { status: 204 });
+}
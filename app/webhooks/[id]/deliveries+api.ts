@@ -0,0 +1,15 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError } from '@/lib/server/http';
+import { getWebhook, getWebhookDeliveries } from '@/lib/server/webhooks';
+
+// GET /webhooks/:id/deliveries - Registro de las últimas entregas del webhook, de la más reciente a la más
+// antigua, con el cuerpo enviado, el estado (pending, succeeded, failed) y el resultado de cada intento
+export async function GET(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!getWebhook(params.id, user)) {
+    return jsonError(404, 'Webhook no encontrado');
+  }
+  return json(getWebhookDeliveries(params.id));
+}
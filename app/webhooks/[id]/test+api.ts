@@ -0,0 +1,25 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError } from '@/lib/server/http';
+import { getWebhook, testWebhook } from '@/lib/server/webhooks';
+
+// POST /webhooks/:id/test - Envía un evento ping firmado a la URL del webhook y devuelve la entrega con el
+// resultado. Sirve para comprobar la URL y la verificación de la firma; la prueba no se reintenta
+export async function POST(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!getWebhook(params.id, user)) {
+    return jsonError(404, 'Webhook no encontrado');
+  }
+
+  try {
+    const delivery = await testWebhook(params.id);
+    if (!delivery) {
+      return jsonError(404, 'Webhook no encontrado');
+    }
+    return json(delivery);
+  } catch (error) {
+    console.error('Error al probar el webhook:', error);
+    return jsonError(500, 'No se pudo enviar la prueba');
+  }
+}
@@ -0,0 +1,29 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { validateWorkspaceInput } from '@/lib/server/validation';
+import { createWorkspace, listWorkspaces } from '@/lib/server/workspaces';
+
+// GET /workspaces - Espacios de trabajo del usuario con su rol y número de miembros
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  return json(listWorkspaces(user));
+}
+
+// POST /workspaces - Crea un espacio de trabajo { name } con el usuario como propietario
+export async function POST(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateWorkspaceInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de espacio de trabajo inválidos', result.errors);
+  }
+  return json(createWorkspace(result.value.name, user), 201);
+}
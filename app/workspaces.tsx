@@ -0,0 +1,413 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, RefreshControl, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Users, User, Plus, Trash2, LogOut, CheckCircle } from 'lucide-react-native';
+import { backend } from '@/lib/backend';
+import { auth } from '@/lib/auth';
+import { CurrentWorkspace, getCurrentWorkspace, loadCurrentWorkspace, setCurrentWorkspace } from '@/lib/currentWorkspace';
+import {
+  addWorkspaceMember,
+  createWorkspace,
+  fetchWorkspace,
+  fetchWorkspaces,
+  removeWorkspaceMember,
+  updateWorkspaceMember,
+} from '@/lib/workspaceApi';
+import {
+  canManageMembers,
+  WORKSPACE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  WorkspaceDetail,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceSummary,
+} from '@/lib/workspaces';
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Comprueba la conexión con el servidor';
+
+const baseUrl = () => backend.getStatus().url;
+
+export default function WorkspacesScreen() {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [current, setCurrent] = useState<CurrentWorkspace | null>(getCurrentWorkspace());
+  const [detail, setDetail] = useState<WorkspaceDetail | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newMember, setNewMember] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<WorkspaceRole>('editor');
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      await backend.init();
+      const selected = await loadCurrentWorkspace();
+      const list = await fetchWorkspaces(baseUrl());
+      setWorkspaces(list);
+
+      // El rol o el nombre pueden haber cambiado, o el usuario ya no ser miembro
+      const summary = selected ? list.find(workspace => workspace.id === selected.id) ?? null : null;
+      if (selected && (!summary || summary.role !== selected.role || summary.name !== selected.name)) {
+        await setCurrentWorkspace(summary);
+      }
+      setCurrent(summary);
+      setDetail(summary ? await fetchWorkspace(baseUrl(), summary.id) : null);
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+      Alert.alert('Error', 'No se pudieron cargar los espacios de trabajo');
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadWorkspaces();
+    }, [loadWorkspaces])
+  );
+
+  const selectWorkspace = async (workspace: WorkspaceSummary | null) => {
+    await setCurrentWorkspace(workspace);
+    setCurrent(workspace);
+    setDetail(null);
+    if (workspace) {
+      fetchWorkspace(baseUrl(), workspace.id)
+        .then(setDetail)
+        .catch(error => console.error('Failed to load workspace members:', error));
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      const created = await createWorkspace(baseUrl(), name);
+      setWorkspaces(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewName('');
+      await selectWorkspace(created);
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      Alert.alert('Error', `No se pudo crear el espacio de trabajo: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!detail || !newMember.trim()) return;
+    try {
+      setDetail(await addWorkspaceMember(baseUrl(), detail.id, newMember.trim(), newMemberRole));
+      setNewMember('');
+    } catch (error) {
+      console.error('Error adding member:', error);
+      Alert.alert('Error', `No se pudo añadir el miembro: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleChangeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (!detail || member.role === role) return;
+    try {
+      setDetail(await updateWorkspaceMember(baseUrl(), detail.id, member.user_id, role));
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      Alert.alert('Error', `No se pudo cambiar el rol: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleRemoveMember = (member: WorkspaceMember) => {
+    if (!detail) return;
+    const leaving = member.user_id === auth.getSession()?.user.id;
+    Alert.alert(
+      leaving ? 'Salir del espacio de trabajo' : 'Quitar miembro',
+      leaving
+        ? `¿Salir de "${detail.name}"? Tus escaneos se quedan en el espacio de trabajo.`
+        : `¿Quitar a ${member.username} de "${detail.name}"? Sus escaneos se quedan en el espacio de trabajo.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: leaving ? 'Salir' : 'Quitar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeWorkspaceMember(baseUrl(), detail.id, member.user_id);
+              if (leaving) {
+                await selectWorkspace(null);
+                setWorkspaces(prev => prev.filter(workspace => workspace.id !== detail.id));
+              } else {
+                setDetail(await fetchWorkspace(baseUrl(), detail.id));
+              }
+            } catch (error) {
+              console.error('Error removing member:', error);
+              Alert.alert('Error', getErrorMessage(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderOption = (key: string, title: string, subtitle: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={[styles.opcion, active && styles.opcionActiva]} onPress={onPress}>
+      <View style={styles.infoOpcion}>
+        <Text style={styles.nombreOpcion} numberOfLines={1}>{title}</Text>
+        <Text style={styles.textoSecundario}>{subtitle}</Text>
+      </View>
+      {active && <CheckCircle size={20} color="#007AFF" />}
+    </TouchableOpacity>
+  );
+
+  const renderRoleChips = (selected: WorkspaceRole, onSelect: (role: WorkspaceRole) => void) => (
+    <View style={styles.filaChips}>
+      {WORKSPACE_ROLES.map(role => (
+        <TouchableOpacity
+          key={role}
+          style={[styles.chip, selected === role && styles.chipActivo]}
+          onPress={() => onSelect(role)}>
+          <Text style={[styles.textoChip, selected === role && styles.textoChipActivo]}>
+            {WORKSPACE_ROLE_LABELS[role]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderMember = (member: WorkspaceMember, manage: boolean) => {
+    const isMe = member.user_id === auth.getSession()?.user.id;
+    return (
+      <View key={member.user_id} style={styles.filaMiembro}>
+        <View style={styles.infoOpcion}>
+          <Text style={styles.nombreMiembro}>{member.username}{isMe ? ' (tú)' : ''}</Text>
+          {manage
+            ? renderRoleChips(member.role, role => handleChangeRole(member, role))
+            : <Text style={styles.textoSecundario}>{WORKSPACE_ROLE_LABELS[member.role]}</Text>}
+        </View>
+        {(manage || isMe) && (
+          <TouchableOpacity style={styles.botonAccion} onPress={() => handleRemoveMember(member)}>
+            {isMe ? <LogOut size={18} color="#FF3B30" /> : <Trash2 size={18} color="#FF3B30" />}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const manage = detail ? canManageMembers(detail.role) : false;
+
+  return (
+    <ScrollView
+      style={styles.contenedor}
+      contentContainerStyle={styles.contenido}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={loadWorkspaces} tintColor="#007AFF" colors={['#007AFF']} />
+      }>
+      <Text style={styles.descripcion}>
+        Los escaneos nuevos se guardan en el espacio de trabajo elegido y el historial y el mapa muestran los
+        suyos. Los lectores pueden consultarlos, pero no añadir, modificar ni eliminar escaneos.
+      </Text>
+
+      {renderOption('personal', 'Personal', 'Solo tus escaneos', current === null, () => selectWorkspace(null))}
+      {workspaces.map(workspace =>
+        renderOption(
+          workspace.id,
+          workspace.name,
+          `${WORKSPACE_ROLE_LABELS[workspace.role]} · ${workspace.member_count} miembro${workspace.member_count !== 1 ? 's' : ''}`,
+          current?.id === workspace.id,
+          () => selectWorkspace(workspace)
+        )
+      )}
+
+      {/* Nuevo espacio de trabajo */}
+      <View style={styles.tarjeta}>
+        <View style={styles.filaFormulario}>
+          <TextInput
+            style={styles.campoTexto}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Nuevo espacio de trabajo"
+            onSubmitEditing={handleCreate}
+          />
+          <TouchableOpacity style={styles.botonPrimario} onPress={handleCreate}>
+            <Plus size={18} color="white" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Miembros del espacio de trabajo elegido */}
+      {detail && (
+        <>
+          <View style={styles.encabezadoSeccion}>
+            <Users size={16} color="#8e8e93" />
+            <Text style={styles.tituloSeccion}>Miembros de {detail.name}</Text>
+          </View>
+          <View style={styles.tarjeta}>
+            {detail.members.map(member => renderMember(member, manage))}
+          </View>
+          {manage && (
+            <View style={styles.tarjeta}>
+              <View style={styles.filaFormulario}>
+                <User size={18} color="#8e8e93" />
+                <TextInput
+                  style={[styles.campoTexto, styles.campoMiembro]}
+                  value={newMember}
+                  onChangeText={setNewMember}
+                  placeholder="Nombre de usuario"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+              {renderRoleChips(newMemberRole, setNewMemberRole)}
+              <TouchableOpacity style={styles.botonAnadir} onPress={handleAddMember}>
+                <Text style={styles.textoBotonAnadir}>Añadir miembro</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  descripcion: {
+    fontSize: 14,
+    color: '#8e8e93',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  opcion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  opcionActiva: {
+    borderColor: '#007AFF',
+  },
+  infoOpcion: {
+    flex: 1,
+  },
+  nombreOpcion: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 2,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+  },
+  tarjeta: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 4,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  filaFormulario: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  campoTexto: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+  },
+  campoMiembro: {
+    marginLeft: 8,
+    marginBottom: 10,
+  },
+  botonPrimario: {
+    backgroundColor: '#007AFF',
+    padding: 11,
+    borderRadius: 10,
+    marginLeft: 8,
+  },
+  encabezadoSeccion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  tituloSeccion: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginLeft: 6,
+  },
+  filaMiembro: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f2f5',
+  },
+  nombreMiembro: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 6,
+  },
+  botonAccion: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  botonAnadir: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  textoBotonAnadir: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
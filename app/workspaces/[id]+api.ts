@@ -0,0 +1,15 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError } from '@/lib/server/http';
+import { getWorkspaceDetail } from '@/lib/server/workspaces';
+
+// GET /workspaces/:id - Espacio de trabajo con sus miembros (404 si no existe o el usuario no es miembro)
+export async function GET(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const workspace = getWorkspaceDetail(params.id, user);
+  if (!workspace) {
+    return jsonError(404, 'Espacio de trabajo no encontrado');
+  }
+  return json(workspace);
+}
@@ -0,0 +1,39 @@
+import { authenticate, findUserByName, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { validateMemberInput } from '@/lib/server/validation';
+import { addMember, getWorkspaceDetail, getWorkspaceRole } from '@/lib/server/workspaces';
+import { canManageMembers } from '@/lib/workspaces';
+
+// POST /workspaces/:id/members - Añade un miembro { username, role } (solo el propietario).
+// Devuelve el espacio de trabajo con sus miembros; 404 si el usuario no existe y 409 si ya es miembro
+export async function POST(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const role = getWorkspaceRole(params.id, user.id);
+  if (!role) {
+    return jsonError(404, 'Espacio de trabajo no encontrado');
+  }
+  if (!canManageMembers(role)) {
+    return jsonError(403, 'Solo el propietario puede gestionar los miembros');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateMemberInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de miembro inválidos', result.errors);
+  }
+
+  const member = findUserByName(result.value.username);
+  if (!member) {
+    return jsonError(404, `No existe el usuario ${result.value.username}`);
+  }
+  if (!addMember(params.id, member, result.value.role)) {
+    return jsonError(409, `${member.username} ya es miembro del espacio de trabajo`);
+  }
+  return json(getWorkspaceDetail(params.id, user), 201);
+}
@@ -0,0 +1,56 @@
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { validateMemberRoleInput } from '@/lib/server/validation';
+import { getWorkspaceDetail, getWorkspaceRole, MemberChangeResult, removeMember, setMemberRole } from '@/lib/server/workspaces';
+import { canManageMembers } from '@/lib/workspaces';
+
+const memberChangeError = (result: Exclude<MemberChangeResult, 'ok'>): Response =>
+  result === 'not_found'
+    ? jsonError(404, 'Miembro no encontrado')
+    : jsonError(409, 'El espacio de trabajo debe tener al menos un propietario');
+
+// PATCH /workspaces/:id/members/:userId - Cambia el rol de un miembro { role } (solo el propietario).
+// Devuelve el espacio de trabajo con sus miembros
+export async function PATCH(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const role = getWorkspaceRole(params.id, user.id);
+  if (!role) {
+    return jsonError(404, 'Espacio de trabajo no encontrado');
+  }
+  if (!canManageMembers(role)) {
+    return jsonError(403, 'Solo el propietario puede gestionar los miembros');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const input = validateMemberRoleInput(body);
+  if (!input.ok) {
+    return jsonError(400, 'Rol inválido', input.errors);
+  }
+
+  const result = setMemberRole(params.id, params.userId, input.value.role);
+  return result === 'ok' ? json(getWorkspaceDetail(params.id, user)) : memberChangeError(result);
+}
+
+// DELETE /workspaces/:id/members/:userId - Quita un miembro (el propietario, o el propio usuario para
+// salir del espacio de trabajo). 204 si se quitó
+export async function DELETE(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const role = getWorkspaceRole(params.id, user.id);
+  if (!role) {
+    return jsonError(404, 'Espacio de trabajo no encontrado');
+  }
+  if (!canManageMembers(role) && params.userId !== user.id) {
+    return jsonError(403, 'Solo el propietario puede gestionar los miembros');
+  }
+
+  const result = removeMember(params.id, params.userId);
+  return result === 'ok' ? new Response(null, { status: 204 }) : memberChangeError(result);
+}
@@ -0,0 +1,26 @@
+import { getZones } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError } from '@/lib/server/http';
+import { isValidClientId } from '@/lib/server/validation';
+import { getScanScope, notMember } from '@/lib/server/workspaces';
+
+// GET /zones - Zonas ordenadas por nombre
+// Con workspace_id, las de ese espacio de trabajo; sin él, las zonas personales del usuario
+export async function GET(request: Request): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  const workspaceId = new URL(request.url).searchParams.get('workspace_id');
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    return jsonError(400, 'workspace_id no es un identificador de espacio de trabajo válido');
+  }
+  const scope = getScanScope(user, workspaceId);
+  if (!scope) return notMember();
+
+  try {
+    return json(await getZones(scope.filter));
+  } catch (error) {
+    console.error('Error al listar zonas:', error);
+    return jsonError(500, 'No se pudieron obtener las zonas');
+  }
+}
@@ -0,0 +1,229 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Fence, Plus, Trash2, CloudOff, MapPin } from 'lucide-react-native';
+import { scanRepository, Zone } from '@/lib/scanRepository';
+import { describeZoneShape, getZoneCenter } from '@/lib/zones';
+import ZoneEditor from '@/components/ZoneEditor';
+
+export default function ZonesScreen() {
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingZone, setEditingZone] = useState<Zone | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadZones();
+    }, [])
+  );
+
+  const loadZones = async () => {
+    try {
+      setRefreshing(true);
+      await scanRepository.init();
+      setZones(await scanRepository.getZones());
+    } catch (error) {
+      console.error('Failed to load zones:', error);
+      Alert.alert('Error', 'No se pudieron cargar las zonas');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const openEditor = (zone: Zone | null) => {
+    setEditingZone(zone);
+    setEditorVisible(true);
+  };
+
+  const handleSaved = (saved: Zone) => {
+    setZones(prev =>
+      [...prev.filter(zone => zone.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  };
+
+  const handleDeleteZone = (zone: Zone) => {
+    Alert.alert(
+      'Eliminar Zona',
+      `¿Eliminar la zona "${zone.name}"? Sus escaneos se conservan, pero dejarán de estar asociados a ella.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await scanRepository.deleteZone(zone);
+              setZones(prev => prev.filter(item => item.id !== zone.id));
+            } catch (error) {
+              console.error('Error deleting zone:', error);
+              Alert.alert('Error', 'No se pudo eliminar la zona. Comprueba la conexión con el servidor.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderZone = ({ item }: { item: Zone }) => {
+    const center = getZoneCenter(item.shape);
+    return (
+      <TouchableOpacity style={styles.tarjeta} onPress={() => openEditor(item)}>
+        <View style={styles.infoZona}>
+          <View style={styles.filaTitulo}>
+            <Fence size={18} color="#007AFF" />
+            <Text style={styles.nombreZona} numberOfLines={1}>{item.name}</Text>
+          </View>
+          <Text style={styles.textoSecundario}>{describeZoneShape(item.shape)}</Text>
+          <View style={styles.filaMeta}>
+            <MapPin size={12} color="#8e8e93" />
+            <Text style={styles.textoSecundario}>
+              {center.latitude.toFixed(5)}, {center.longitude.toFixed(5)}
+            </Text>
+          </View>
+          {(item.sync_status === 'pending' || item.sync_status === 'modified') && (
+            <View style={styles.filaMeta}>
+              <CloudOff size={12} color="#FF9500" />
+              <Text style={[styles.textoSecundario, { color: '#FF9500' }]}>Pendiente de sincronizar</Text>
+            </View>
+          )}
+        </View>
+        <TouchableOpacity style={styles.botonAccion} onPress={() => handleDeleteZone(item)}>
+          <Trash2 size={18} color="#FF3B30" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.contenedor}>
+      <FlatList
+        data={zones}
+        renderItem={renderZone}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.contenido}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={loadZones} tintColor="#007AFF" colors={['#007AFF']} />
+        }
+        ListHeaderComponent={
+          <Text style={styles.descripcion}>
+            Cada escaneo con ubicación se etiqueta con la zona en la que se lee. Si un código aparece fuera
+            de la zona donde se leyó la última vez, el escáner muestra un aviso.
+          </Text>
+        }
+        ListEmptyComponent={
+          refreshing ? null : (
+            <View style={styles.contenedorVacio}>
+              <Fence size={60} color="#C7C7CC" />
+              <Text style={styles.tituloVacio}>Sin zonas</Text>
+              <Text style={styles.textoSecundario}>Crea una zona con un radio o un polígono</Text>
+            </View>
+          )
+        }
+      />
+
+      <TouchableOpacity style={styles.botonNueva} onPress={() => openEditor(null)}>
+        <Plus size={20} color="white" />
+        <Text style={styles.textoBotonNueva}>Nueva zona</Text>
+      </TouchableOpacity>
+
+      <ZoneEditor
+        visible={editorVisible}
+        zone={editingZone}
+        onClose={() => setEditorVisible(false)}
+        onSaved={handleSaved}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contenido: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  descripcion: {
+    fontSize: 14,
+    color: '#8e8e93',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  tarjeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  infoZona: {
+    flex: 1,
+  },
+  filaTitulo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  nombreZona: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1c1c1e',
+    marginLeft: 8,
+  },
+  filaMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+    marginLeft: 4,
+  },
+  botonAccion: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  contenedorVacio: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  tituloVacio: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  botonNueva: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  textoBotonNueva: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,99 @@
+import { deleteZone, getZoneById, saveZone } from '@/lib/scanStore';
+import { authenticate, unauthorized } from '@/lib/server/auth';
+import { json, jsonError, readJsonBody } from '@/lib/server/http';
+import { isValidClientId, validateZoneInput } from '@/lib/server/validation';
+import { getScanRole, getScanScope, notMember, readOnly } from '@/lib/server/workspaces';
+import { canEditScans } from '@/lib/workspaces';
+
+// GET /zones/:id - Devuelve una zona del usuario o de uno de sus espacios de trabajo (404 si no existe)
+export async function GET(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!isValidClientId(params.id)) {
+    return jsonError(400, 'El id de zona no es válido');
+  }
+
+  try {
+    const zone = await getZoneById(params.id);
+    if (!zone || !getScanRole(zone, user)) {
+      return jsonError(404, 'Zona no encontrada');
+    }
+    return json(zone);
+  } catch (error) {
+    console.error('Error al obtener zona:', error);
+    return jsonError(500, 'No se pudo obtener la zona');
+  }
+}
+
+// PUT /zones/:id - Crea o actualiza una zona con el id generado por el cliente:
+// { name, shape, created_at, workspace_id? }. El espacio de trabajo se fija al crearla
+// (403 si el usuario no es miembro o es lector; 404 si el id es de una zona que no puede ver)
+export async function PUT(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!isValidClientId(params.id)) {
+    return jsonError(400, 'El id de zona no es válido');
+  }
+
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return jsonError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+
+  const result = validateZoneInput(body);
+  if (!result.ok) {
+    return jsonError(400, 'Datos de zona inválidos', result.errors);
+  }
+
+  try {
+    const existing = await getZoneById(params.id);
+    const { workspace_id, ...changes } = result.value;
+    if (existing) {
+      const role = getScanRole(existing, user);
+      if (!role) {
+        return jsonError(404, 'Zona no encontrada');
+      }
+      if (!canEditScans(role)) return readOnly();
+    } else {
+      const scope = getScanScope(user, workspace_id);
+      if (!scope) return notMember();
+      if (!canEditScans(scope.role)) return readOnly();
+    }
+
+    await saveZone(existing
+      ? { ...existing, ...changes }
+      : { id: params.id, ...changes, owner_id: user.id, workspace_id });
+    return json(await getZoneById(params.id), existing ? 200 : 201);
+  } catch (error) {
+    console.error('Error al guardar zona:', error);
+    return jsonError(500, 'No se pudo guardar la zona');
+  }
+}
+
+// DELETE /zones/:id - Elimina la zona; sus escaneos se conservan sin zona
+// (204 si se eliminó, 403 si el usuario es lector, 404 si no existe)
+export async function DELETE(request: Request, params: Record<string, string>): Promise<Response> {
+  const user = authenticate(request);
+  if (!user) return unauthorized();
+
+  if (!isValidClientId(params.id)) {
+    return jsonError(400, 'El id de zona no es válido');
+  }
+
+  try {
+    const zone = await getZoneById(params.id);
+    const role = zone ? getScanRole(zone, user) : null;
+    if (!zone || !role) {
+      return jsonError(404, 'Zona no encontrada');
+    }
+    if (!canEditScans(role)) return readOnly();
+
+    await deleteZone(params.id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Error al eliminar zona:', error);
+    return jsonError(500, 'No se pudo eliminar la zona');
+  }
+}
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, Pressable } from 'react-native';
+import { Download, X } from 'lucide-react-native';
+import type { ScanQuery } from '@/lib/scanStore';
+import { scanRepository } from '@/lib/scanRepository';
+import {
+  buildExportFileName,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  EXPORT_MIME_TYPES,
+  ExportFormat,
+  serializeScans,
+} from '@/lib/export';
+import { shareTextFile } from '@/lib/files';
+
+// Qué escaneos se exportan: todo el historial, el resultado de los filtros, una sesión...
+export interface ExportScope {
+  key: string;
+  label: string;
+  query: ScanQuery;
+  fileLabel?: string; // Se añade al nombre del fichero
+}
+
+interface ExportSheetProps {
+  visible: boolean;
+  scopes: ExportScope[];
+  onClose: () => void;
+}
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+  csv: 'Hoja de cálculo, una fila por escaneo',
+  json: 'Todos los campos, incluido el contenido interpretado',
+  geojson: 'Puntos para mapas y SIG (solo escaneos con ubicación)',
+};
+
+export default function ExportSheet({ visible, scopes, onClose }: ExportSheetProps) {
+  const [scopeKey, setScopeKey] = useState<string | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+
+  // Por defecto el alcance más concreto (el último de la lista)
+  const defaultScopeKey = scopes[scopes.length - 1]?.key ?? null;
+  useEffect(() => {
+    if (visible) setScopeKey(defaultScopeKey);
+  }, [visible, defaultScopeKey]);
+
+  const scope = scopes.find(item => item.key === scopeKey) ?? scopes[0];
+
+  const handleExport = async () => {
+    if (!scope) return;
+    try {
+      setExporting(true);
+      // Se exportan los registros individuales aunque el historial los muestre agrupados
+      const { groupByData, limit, offset, ...query } = scope.query;
+      const scans = await scanRepository.getAllScans({ ...query, order: 'asc' });
+      const exportable = format === 'geojson'
+        ? scans.filter(scan => scan.latitude !== null && scan.longitude !== null)
+        : scans;
+      if (exportable.length === 0) {
+        Alert.alert(
+          'Nada que exportar',
+          format === 'geojson' ? 'Ningún escaneo de la selección tiene ubicación' : 'No hay escaneos en la selección'
+        );
+        return;
+      }
+
+      await shareTextFile(
+        serializeScans(scans, format),
+        buildExportFileName(format, scope.fileLabel),
+        EXPORT_MIME_TYPES[format],
+        'Exportar escaneos'
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error exporting scans:', error);
+      Alert.alert('Error', 'No se pudieron exportar los escaneos');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.fondo} onPress={onClose}>
+        {/* Pressable interior para que los toques en la hoja no la cierren */}
+        <Pressable style={styles.hoja}>
+          <View style={styles.encabezado}>
+            <Text style={styles.titulo}>Exportar escaneos</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color="#8e8e93" />
+            </TouchableOpacity>
+          </View>
+
+          {scopes.length > 1 && (
+            <>
+              <Text style={styles.etiqueta}>Qué exportar</Text>
+              {scopes.map(item => (
+                <TouchableOpacity
+                  key={item.key}
+                  style={[styles.opcion, item.key === scope?.key && styles.opcionActiva]}
+                  onPress={() => setScopeKey(item.key)}>
+                  <Text style={[styles.textoOpcion, item.key === scope?.key && styles.textoOpcionActiva]}>
+                    {item.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+
+          <Text style={styles.etiqueta}>Formato</Text>
+          {EXPORT_FORMATS.map(item => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.opcion, item === format && styles.opcionActiva]}
+              onPress={() => setFormat(item)}>
+              <Text style={[styles.textoOpcion, item === format && styles.textoOpcionActiva]}>
+                {EXPORT_FORMAT_LABELS[item]}
+              </Text>
+              <Text style={styles.descripcionOpcion}>{FORMAT_DESCRIPTIONS[item]}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.botonExportar, exporting && styles.botonDeshabilitado]}
+            onPress={handleExport}
+            disabled={exporting}>
+            {exporting ? <ActivityIndicator color="white" /> : <Download size={20} color="white" />}
+            <Text style={styles.textoBotonExportar}>Exportar</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hoja: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  encabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  titulo: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+  },
+  etiqueta: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  opcion: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  opcionActiva: {
+    borderColor: '#007AFF',
+    backgroundColor: '#f0f6ff',
+  },
+  textoOpcion: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+  },
+  textoOpcionActiva: {
+    color: '#007AFF',
+  },
+  descripcionOpcion: {
+    fontSize: 13,
+    color: '#8e8e93',
+    marginTop: 2,
+  },
+  botonExportar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  botonDeshabilitado: {
+    opacity: 0.6,
+  },
+  textoBotonExportar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, Pressable, FlatList } from 'react-native';
+import { Upload, X, CheckCircle, MinusCircle, AlertCircle } from 'lucide-react-native';
+import { scanRepository } from '@/lib/scanRepository';
+import { pickTextFile } from '@/lib/files';
+import { ImportFileError, ImportRowResult, ImportRowStatus, ImportSummary, readImportFile } from '@/lib/importScans';
+
+interface ImportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Se llama tras importar alguna fila para recargar el historial
+  onImported: () => void;
+}
+
+const ACCEPTED_TYPES = ['text/csv', 'text/comma-separated-values', 'application/json', 'application/geo+json', '*/*'];
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  inserted: 'Importada',
+  skipped: 'Ya existía',
+  invalid: 'Inválida',
+};
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  inserted: '#34C759',
+  skipped: '#8e8e93',
+  invalid: '#FF3B30',
+};
+
+export default function ImportSheet({ visible, onClose, onImported }: ImportSheetProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  // Cada apertura empieza de cero
+  useEffect(() => {
+    if (visible) {
+      setFileName(null);
+      setSummary(null);
+    }
+  }, [visible]);
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickTextFile(ACCEPTED_TYPES);
+      if (!file) return;
+
+      setImporting(true);
+      setFileName(file.name);
+      setSummary(null);
+      const result = await scanRepository.importScans(readImportFile(file.content, file.name));
+      setSummary(result);
+      if (result.inserted > 0) onImported();
+    } catch (error) {
+      console.error('Error importing scans:', error);
+      Alert.alert(
+        'Error',
+        error instanceof ImportFileError ? error.message : 'No se pudo importar el fichero'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderStatusIcon = (status: ImportRowStatus) => {
+    switch (status) {
+      case 'inserted':
+        return <CheckCircle size={16} color={STATUS_COLORS.inserted} />;
+      case 'skipped':
+        return <MinusCircle size={16} color={STATUS_COLORS.skipped} />;
+      default:
+        return <AlertCircle size={16} color={STATUS_COLORS.invalid} />;
+    }
+  };
+
+  const renderRow = ({ item }: { item: ImportRowResult }) => (
+    <View style={styles.fila}>
+      {renderStatusIcon(item.status)}
+      <View style={styles.infoFila}>
+        <Text style={styles.textoFila}>
+          Fila {item.row} · <Text style={{ color: STATUS_COLORS[item.status] }}>{STATUS_LABELS[item.status]}</Text>
+        </Text>
+        {item.errors?.map(error => (
+          <Text key={error} style={styles.errorFila}>{error}</Text>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderSummary = (result: ImportSummary) => (
+    <>
+      <View style={styles.totales}>
+        <View style={styles.total}>
+          <Text style={[styles.numeroTotal, { color: STATUS_COLORS.inserted }]}>{result.inserted}</Text>
+          <Text style={styles.etiquetaTotal}>importadas</Text>
+        </View>
+        <View style={styles.total}>
+          <Text style={[styles.numeroTotal, { color: STATUS_COLORS.skipped }]}>{result.skipped}</Text>
+          <Text style={styles.etiquetaTotal}>ya existían</Text>
+        </View>
+        <View style={styles.total}>
+          <Text style={[styles.numeroTotal, { color: STATUS_COLORS.invalid }]}>{result.invalid}</Text>
+          <Text style={styles.etiquetaTotal}>inválidas</Text>
+        </View>
+      </View>
+      {result.queued && (
+        <Text style={styles.aviso}>
+          Sin conexión con el servidor: los escaneos se han guardado en el dispositivo y se sincronizarán más tarde.
+        </Text>
+      )}
+      <FlatList
+        style={styles.listaFilas}
+        data={result.rows}
+        renderItem={renderRow}
+        keyExtractor={item => `${item.row}`}
+      />
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.fondo} onPress={importing ? undefined : onClose}>
+        {/* Pressable interior para que los toques en la hoja no la cierren */}
+        <Pressable style={styles.hoja}>
+          <View style={styles.encabezado}>
+            <Text style={styles.titulo}>Importar escaneos</Text>
+            <TouchableOpacity onPress={onClose} disabled={importing}>
+              <X size={22} color="#8e8e93" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.descripcion}>
+            Elige una copia exportada en CSV, JSON o GeoJSON. Las filas con el mismo contenido y la misma
+            fecha que un escaneo existente se omiten.
+          </Text>
+
+          {fileName && <Text style={styles.nombreFichero} numberOfLines={1}>{fileName}</Text>}
+
+          {importing && (
+            <View style={styles.cargando}>
+              <ActivityIndicator color="#007AFF" />
+              <Text style={styles.textoCargando}>Importando…</Text>
+            </View>
+          )}
+
+          {summary && renderSummary(summary)}
+
+          <TouchableOpacity
+            style={[styles.botonImportar, importing && styles.botonDeshabilitado]}
+            onPress={handlePickFile}
+            disabled={importing}>
+            <Upload size={20} color="white" />
+            <Text style={styles.textoBotonImportar}>{summary ? 'Importar otro fichero' : 'Elegir fichero'}</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hoja: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '85%',
+  },
+  encabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  titulo: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+  },
+  descripcion: {
+    fontSize: 14,
+    color: '#8e8e93',
+    lineHeight: 20,
+  },
+  nombreFichero: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginTop: 12,
+  },
+  cargando: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  textoCargando: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  totales: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  total: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  numeroTotal: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  etiquetaTotal: {
+    fontSize: 12,
+    color: '#8e8e93',
+  },
+  aviso: {
+    fontSize: 13,
+    color: '#FF9500',
+    marginTop: 12,
+  },
+  listaFilas: {
+    marginTop: 12,
+    maxHeight: 260,
+  },
+  fila: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f2f2f7',
+  },
+  infoFila: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  textoFila: {
+    fontSize: 14,
+    color: '#1c1c1e',
+  },
+  errorFila: {
+    fontSize: 12,
+    color: '#FF3B30',
+    marginTop: 2,
+  },
+  botonImportar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  botonDeshabilitado: {
+    opacity: 0.6,
+  },
+  textoBotonImportar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,256 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Linking, Platform } from 'react-native';
+import * as Contacts from 'expo-contacts';
+import { ExternalLink, Wifi, UserPlus, Phone, MessageSquare, Mail, Map as MapIcon } from 'lucide-react-native';
+import {
+  ContactPayload,
+  describePayload,
+  GeoPayload,
+  ParsedPayload,
+  PAYLOAD_TYPE_LABELS,
+  SmsPayload,
+  EmailPayload,
+  WifiPayload,
+} from '@/lib/payload';
+
+interface PayloadActionsProps {
+  payload: ParsedPayload;
+  // Permite a la pantalla decidir cómo se abren los enlaces
+  onOpenURL?: (url: string) => void;
+}
+
+interface PayloadAction {
+  label: string;
+  icon: React.ReactNode;
+  onPress: () => void;
+}
+
+const openLink = async (url: string) => {
+  try {
+    const supported = await Linking.canOpenURL(url);
+    if (supported) {
+      await Linking.openURL(url);
+    } else {
+      Alert.alert('Error', 'No hay ninguna aplicación que pueda abrir este contenido');
+    }
+  } catch (error) {
+    console.error('Error opening link:', error);
+  }
+};
+
+// Las apps no pueden conectarse a una red por su cuenta: se muestran los datos y se abren los ajustes
+const joinWifi = (wifi: WifiPayload) => {
+  Alert.alert(
+    'Conectar a la red Wi-Fi',
+    [
+      `Red: ${wifi.ssid}`,
+      `Contraseña: ${wifi.password ?? '(sin contraseña)'}`,
+      wifi.security ? `Seguridad: ${wifi.security}` : null,
+      wifi.hidden ? 'Red oculta' : null,
+    ].filter(Boolean).join('\n'),
+    [
+      { text: 'Cerrar', style: 'cancel' },
+      {
+        text: 'Abrir ajustes Wi-Fi',
+        onPress: () => {
+          if (Platform.OS === 'android') {
+            Linking.sendIntent('android.settings.WIFI_SETTINGS').catch(() => Linking.openSettings());
+          } else {
+            Linking.openSettings();
+          }
+        },
+      },
+    ]
+  );
+};
+
+const addContact = async (contact: ContactPayload) => {
+  if (Platform.OS === 'web') {
+    Alert.alert('No disponible', 'Añadir contactos solo está disponible en la app móvil');
+    return;
+  }
+  try {
+    const { status } = await Contacts.requestPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permisos de Contactos', 'Se necesita acceso a los contactos para añadir este contacto.');
+      return;
+    }
+    await Contacts.presentFormAsync(null, {
+      contactType: Contacts.ContactTypes.Person,
+      name: contact.name ?? '',
+      company: contact.organization ?? undefined,
+      jobTitle: contact.title ?? undefined,
+      phoneNumbers: contact.phones.map(number => ({ label: 'mobile', number })),
+      emails: contact.emails.map(email => ({ label: 'work', email })),
+      addresses: contact.address ? [{ label: 'home', street: contact.address }] : undefined,
+      urlAddresses: contact.url ? [{ label: 'homepage', url: contact.url }] : undefined,
+      note: contact.note ?? undefined,
+    }, { isNew: true });
+  } catch (error) {
+    console.error('Error adding contact:', error);
+    Alert.alert('Error', 'No se pudo añadir el contacto');
+  }
+};
+
+const getSmsUrl = (sms: SmsPayload): string => {
+  // iOS usa "&body=" y Android "?body="
+  const separator = Platform.OS === 'ios' ? '&' : '?';
+  return sms.message
+    ? `sms:${sms.number}${separator}body=${encodeURIComponent(sms.message)}`
+    : `sms:${sms.number}`;
+};
+
+const getEmailUrl = (email: EmailPayload): string => {
+  const params = [
+    email.subject ? `subject=${encodeURIComponent(email.subject)}` : null,
+    email.body ? `body=${encodeURIComponent(email.body)}` : null,
+  ].filter(Boolean);
+  return `mailto:${email.to}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+};
+
+const getMapUrl = (geo: GeoPayload): string => {
+  const coordinates = `${geo.latitude},${geo.longitude}`;
+  const label = encodeURIComponent(geo.query ?? coordinates);
+  switch (Platform.OS) {
+    case 'ios':
+      return `http://maps.apple.com/?ll=${coordinates}&q=${label}`;
+    case 'android':
+      return `geo:${coordinates}?q=${coordinates}(${label})`;
+    default:
+      return `https://www.google.com/maps/search/?api=1&query=${coordinates}`;
+  }
+};
+
+const getActions = (payload: ParsedPayload, openURL: (url: string) => void): PayloadAction[] => {
+  switch (payload.type) {
+    case 'url':
+      return [{ label: 'Abrir enlace', icon: <ExternalLink size={14} color="#34C759" />, onPress: () => openURL(payload.fields.url) }];
+    case 'wifi':
+      return [{ label: 'Conectar', icon: <Wifi size={14} color="#007AFF" />, onPress: () => joinWifi(payload.fields) }];
+    case 'contact': {
+      const actions: PayloadAction[] = [
+        { label: 'Añadir contacto', icon: <UserPlus size={14} color="#007AFF" />, onPress: () => addContact(payload.fields) },
+      ];
+      const phone = payload.fields.phones[0];
+      if (phone) {
+        actions.push({ label: 'Llamar', icon: <Phone size={14} color="#34C759" />, onPress: () => openLink(`tel:${phone}`) });
+      }
+      return actions;
+    }
+    case 'phone':
+      return [{ label: 'Llamar', icon: <Phone size={14} color="#34C759" />, onPress: () => openLink(`tel:${payload.fields.number}`) }];
+    case 'sms':
+      return [{ label: 'Enviar SMS', icon: <MessageSquare size={14} color="#007AFF" />, onPress: () => openLink(getSmsUrl(payload.fields)) }];
+    case 'email':
+      return [{ label: 'Enviar email', icon: <Mail size={14} color="#007AFF" />, onPress: () => openLink(getEmailUrl(payload.fields)) }];
+    case 'geo':
+      return [{ label: 'Abrir mapa', icon: <MapIcon size={14} color="#007AFF" />, onPress: () => openLink(getMapUrl(payload.fields)) }];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Tipo de contenido detectado, resumen y acciones específicas (conectar, añadir contacto, llamar...).
+ * Para códigos GS1 se listan además sus identificadores de aplicación.
+ */
+export default function PayloadActions({ payload, onOpenURL }: PayloadActionsProps) {
+  if (payload.type === 'text') return null;
+
+  const summary = describePayload(payload);
+  const actions = getActions(payload, onOpenURL ?? openLink);
+
+  return (
+    <View style={styles.contenedor}>
+      <View style={styles.filaTipo}>
+        <View style={styles.etiquetaTipo}>
+          <Text style={styles.textoTipo}>{PAYLOAD_TYPE_LABELS[payload.type]}</Text>
+        </View>
+        {summary && payload.type !== 'url' && (
+          <Text style={styles.resumen} numberOfLines={1}>{summary}</Text>
+        )}
+      </View>
+      {payload.type === 'gs1' && (
+        <View style={styles.listaElementos}>
+          {payload.fields.elements.map((element, index) => (
+            <Text key={`${element.ai}-${index}`} style={styles.textoElemento} numberOfLines={1}>
+              <Text style={styles.codigoElemento}>({element.ai}) </Text>
+              {element.label}: {element.formatted}
+            </Text>
+          ))}
+        </View>
+      )}
+      {actions.length > 0 && (
+        <View style={styles.filaAcciones}>
+          {actions.map(action => (
+            <TouchableOpacity key={action.label} style={styles.botonAccion} onPress={action.onPress}>
+              {action.icon}
+              <Text style={styles.textoAccion}>{action.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    marginBottom: 8,
+  },
+  filaTipo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  etiquetaTipo: {
+    backgroundColor: '#E5F0FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  textoTipo: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '700',
+  },
+  resumen: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 8,
+    fontWeight: '500',
+  },
+  listaElementos: {
+    marginBottom: 8,
+  },
+  textoElemento: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    marginBottom: 2,
+  },
+  codigoElemento: {
+    color: '#8e8e93',
+    fontWeight: '600',
+  },
+  filaAcciones: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  botonAccion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  textoAccion: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,392 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, Pressable, TextInput, ScrollView, Switch } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { X, Trash2 } from 'lucide-react-native';
+import { SCAN_STATUS_LABELS, SCAN_STATUSES, MAX_TAG_LENGTH } from '@/lib/annotations';
+import { PAYLOAD_TYPE_LABELS, PAYLOAD_TYPES, PayloadType } from '@/lib/payload';
+import {
+  getRuleErrors,
+  MAX_REJECT_MESSAGE_LENGTH,
+  MAX_RULE_ACTIONS,
+  MAX_RULE_NAME_LENGTH,
+  MAX_RULE_PATTERN_LENGTH,
+  RULE_ACTION_LABELS,
+  RULE_ACTION_TYPES,
+  RULE_FEEDBACK_LABELS,
+  RULE_FEEDBACKS,
+  RULE_MATCH_LABELS,
+  RULE_MATCH_TYPES,
+  RuleAction,
+  RuleActionType,
+  RuleMatchType,
+  ScanRule,
+} from '@/lib/rules';
+import type { Webhook } from '@/lib/webhooks';
+import type { Zone } from '@/lib/zones';
+
+interface RuleEditorProps {
+  visible: boolean;
+  rule: ScanRule | null; // null para crear una regla nueva
+  zones: Pick<Zone, 'id' | 'name'>[];
+  webhooks: Webhook[] | null; // null si no se han podido cargar (sin sesión o sin conexión)
+  onClose: () => void;
+  onSave: (rule: ScanRule) => Promise<void>;
+}
+
+// Acción recién añadida, con los valores por defecto de su tipo
+const createAction = (type: RuleActionType, webhooks: Webhook[] | null): RuleAction => {
+  switch (type) {
+    case 'tag':
+      return { type, tag: '' };
+    case 'set_status':
+      return { type, status: 'verified' };
+    case 'open_url':
+      return { type };
+    case 'feedback':
+      return { type, feedback: 'success' };
+    case 'webhook':
+      return { type, webhook_id: webhooks?.[0]?.id ?? '' };
+    case 'reject':
+      return { type, message: null };
+  }
+};
+
+const MATCH_PLACEHOLDERS: Record<Exclude<RuleMatchType, 'payload_type'>, string> = {
+  prefix: 'https://acme.com/',
+  regex: '^LOTE-\\d{6}$',
+};
+
+export default function RuleEditor({ visible, rule, zones, webhooks, onClose, onSave }: RuleEditorProps) {
+  const [name, setName] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [match, setMatch] = useState<RuleMatchType>('prefix');
+  const [value, setValue] = useState('');
+  const [zoneId, setZoneId] = useState<string | null>(null);
+  const [actions, setActions] = useState<RuleAction[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Cada apertura parte de la regla que se edita o de un formulario vacío
+  useEffect(() => {
+    if (!visible) return;
+    setName(rule?.name ?? '');
+    setEnabled(rule?.enabled ?? true);
+    setMatch(rule?.condition.match ?? 'prefix');
+    setValue(rule?.condition.value ?? '');
+    setZoneId(rule?.condition.zone_id ?? null);
+    setActions(rule?.actions ?? [createAction('tag', null)]);
+  }, [visible, rule]);
+
+  const changeMatch = (type: RuleMatchType) => {
+    setMatch(type);
+    // El tipo de contenido se elige de la lista: el texto de las otras condiciones no sirve
+    if (type === 'payload_type') setValue(PAYLOAD_TYPES[0]);
+    else if (match === 'payload_type') setValue('');
+  };
+
+  const updateAction = (index: number, action: RuleAction) =>
+    setActions(prev => prev.map((item, i) => (i === index ? action : item)));
+
+  const addAction = (type: RuleActionType) => {
+    if (actions.length >= MAX_RULE_ACTIONS) return;
+    setActions(prev => [...prev, createAction(type, webhooks)]);
+  };
+
+  const handleSave = async () => {
+    const edited: ScanRule = {
+      id: rule?.id ?? Crypto.randomUUID(),
+      name: name.trim(),
+      enabled,
+      condition: { match, value, zone_id: zoneId },
+      actions: actions.map(action => (action.type === 'tag' ? { ...action, tag: action.tag.trim() } : action)),
+    };
+    const errors = getRuleErrors(edited);
+    if (errors.length > 0) {
+      Alert.alert('Regla incompleta', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSave(edited);
+      onClose();
+    } catch (error) {
+      console.error('Error saving rule:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo guardar la regla');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: readonly T[],
+    selected: T | null,
+    getLabel: (option: T) => string,
+    onSelect: (option: T) => void
+  ) => (
+    <View style={styles.filaChips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected === option && styles.chipActivo]}
+          onPress={() => onSelect(option)}>
+          <Text style={[styles.textoChip, selected === option && styles.textoChipActivo]}>{getLabel(option)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderActionFields = (action: RuleAction, index: number) => {
+    switch (action.type) {
+      case 'tag':
+        return (
+          <TextInput
+            style={styles.campoTexto}
+            value={action.tag}
+            onChangeText={tag => updateAction(index, { ...action, tag })}
+            placeholder="revisar"
+            placeholderTextColor="#8e8e93"
+            autoCapitalize="none"
+            maxLength={MAX_TAG_LENGTH}
+          />
+        );
+      case 'set_status':
+        return renderChips(SCAN_STATUSES, action.status, status => SCAN_STATUS_LABELS[status], status =>
+          updateAction(index, { ...action, status })
+        );
+      case 'open_url':
+        return (
+          <Text style={styles.ayuda}>Solo en la app y si el código es un enlace; antes se comprueba su seguridad.</Text>
+        );
+      case 'feedback':
+        return renderChips(RULE_FEEDBACKS, action.feedback, feedback => RULE_FEEDBACK_LABELS[feedback], feedback =>
+          updateAction(index, { ...action, feedback })
+        );
+      case 'webhook':
+        if (!webhooks) {
+          return <Text style={styles.ayuda}>Inicia sesión y conecta con el servidor para elegir el webhook.</Text>;
+        }
+        if (webhooks.length === 0) {
+          return <Text style={styles.ayuda}>No hay webhooks en este ámbito. Créalos con la API del servidor.</Text>;
+        }
+        return renderChips(
+          webhooks.map(webhook => webhook.id),
+          action.webhook_id,
+          id => {
+            const webhook = webhooks.find(item => item.id === id);
+            return webhook?.description ?? webhook?.url ?? id;
+          },
+          webhook_id => updateAction(index, { ...action, webhook_id })
+        );
+      case 'reject':
+        return (
+          <TextInput
+            style={styles.campoTexto}
+            value={action.message ?? ''}
+            onChangeText={message => updateAction(index, { ...action, message: message || null })}
+            placeholder="Mensaje al rechazar (opcional)"
+            placeholderTextColor="#8e8e93"
+            maxLength={MAX_REJECT_MESSAGE_LENGTH}
+          />
+        );
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.fondo} onPress={saving ? undefined : onClose}>
+        {/* Pressable interior para que los toques en la hoja no la cierren */}
+        <Pressable style={styles.hoja}>
+          <View style={styles.encabezado}>
+            <Text style={styles.titulo}>{rule ? 'Editar regla' : 'Nueva regla'}</Text>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <X size={22} color="#8e8e93" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.etiqueta}>Nombre</Text>
+            <TextInput
+              style={styles.campoTexto}
+              value={name}
+              onChangeText={setName}
+              placeholder="Enlaces de proveedores"
+              placeholderTextColor="#8e8e93"
+              maxLength={MAX_RULE_NAME_LENGTH}
+            />
+            <View style={styles.filaInterruptor}>
+              <Text style={styles.textoInterruptor}>Activa</Text>
+              <Switch value={enabled} onValueChange={setEnabled} />
+            </View>
+
+            <Text style={styles.etiqueta}>Si el código</Text>
+            {renderChips(RULE_MATCH_TYPES, match, type => RULE_MATCH_LABELS[type], changeMatch)}
+            {match === 'payload_type' ? (
+              renderChips(PAYLOAD_TYPES, value as PayloadType, type => PAYLOAD_TYPE_LABELS[type], setValue)
+            ) : (
+              <TextInput
+                style={styles.campoTexto}
+                value={value}
+                onChangeText={setValue}
+                placeholder={MATCH_PLACEHOLDERS[match]}
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={MAX_RULE_PATTERN_LENGTH}
+              />
+            )}
+
+            <Text style={styles.etiqueta}>Y se lee en</Text>
+            {renderChips(
+              ['', ...zones.map(zone => zone.id)],
+              zoneId ?? '',
+              id => (id ? zones.find(zone => zone.id === id)?.name ?? id : 'Cualquier lugar'),
+              id => setZoneId(id || null)
+            )}
+
+            <Text style={styles.etiqueta}>Entonces</Text>
+            {actions.map((action, index) => (
+              <View key={index} style={styles.accion}>
+                <View style={styles.filaAccion}>
+                  <Text style={styles.tituloAccion}>{RULE_ACTION_LABELS[action.type]}</Text>
+                  <TouchableOpacity onPress={() => setActions(prev => prev.filter((_, i) => i !== index))}>
+                    <Trash2 size={16} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+                {renderActionFields(action, index)}
+              </View>
+            ))}
+            {actions.length < MAX_RULE_ACTIONS && (
+              <>
+                <Text style={styles.ayuda}>Añadir acción:</Text>
+                {renderChips(RULE_ACTION_TYPES, null, type => RULE_ACTION_LABELS[type], addAction)}
+              </>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.botonGuardar, saving && styles.botonDeshabilitado]}
+            onPress={handleSave}
+            disabled={saving}>
+            {saving ? <ActivityIndicator color="white" /> : <Text style={styles.textoBotonGuardar}>Guardar</Text>}
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hoja: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '90%',
+  },
+  encabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  titulo: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+  },
+  etiqueta: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  campoTexto: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+  },
+  filaInterruptor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  textoInterruptor: {
+    fontSize: 15,
+    color: '#1c1c1e',
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  accion: {
+    borderWidth: 1,
+    borderColor: '#f2f2f7',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+  },
+  filaAccion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  tituloAccion: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1c1c1e',
+  },
+  ayuda: {
+    fontSize: 13,
+    color: '#8e8e93',
+    marginBottom: 8,
+  },
+  botonGuardar: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  botonDeshabilitado: {
+    opacity: 0.6,
+  },
+  textoBotonGuardar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,394 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, TouchableOpacity, LayoutChangeEvent, GestureResponderEvent } from 'react-native';
+import Svg, { Circle, G, Line, Polygon, Rect, Text as SvgText } from 'react-native-svg';
+import { Plus, Minus, Maximize } from 'lucide-react-native';
+import { getScanKey, ScanRecord } from '@/lib/scanRepository';
+import { metersPerWorldUnit, projectToWorld, unprojectFromWorld, WorldPoint } from '@/lib/geo';
+import { clusterPoints, MapCluster } from '@/lib/mapClusters';
+import { getZoneCenter, Zone } from '@/lib/zones';
+
+// Mapa de escaneos dibujado con SVG sobre una cuadrícula de coordenadas: no necesita
+// teselas ni conexión. Se desplaza arrastrando y se amplía con dos dedos o con los botones.
+
+interface ScanMapProps {
+  scans: ScanRecord[]; // Solo se dibujan los que tienen coordenadas
+  selectedKey: string | null;
+  onSelectScan: (scan: ScanRecord | null) => void;
+  zones?: Zone[];      // Se dibujan debajo de los escaneos
+}
+
+interface Viewport {
+  center: WorldPoint;
+  scale: number; // Píxeles por unidad de la proyección (el mundo entero mide scale píxeles)
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface ProjectedScan {
+  scan: ScanRecord;
+  world: WorldPoint;
+}
+
+const MIN_SCALE = 256;
+const MAX_SCALE = 2 ** 29; // Unos 7 cm por píxel en el ecuador
+const ZOOM_STEP = 2;
+const FIT_PADDING = 48;
+const SINGLE_POINT_SPAN_METERS = 500; // Zona visible al encuadrar un único escaneo
+const CLUSTER_CELL_SIZE = 56;
+const MARKER_RADIUS = 7;
+const MIN_ACCURACY_RADIUS = 3; // Por debajo de este radio el círculo de precisión no se ve
+const GRATICULE_STEPS = [0.0001, 0.0002, 0.0005, 0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 45];
+const MAX_GRATICULE_LINES = 6;
+const SCALE_BAR_MAX_WIDTH = 100;
+const ZONE_OUTLINE = { fill: '#34C759', fillOpacity: 0.1, stroke: '#34C759', strokeWidth: 1.5, strokeDasharray: '6 4' };
+
+const clampScale = (scale: number): number => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+const clampUnit = (value: number): number => Math.max(0, Math.min(1, value));
+
+// Encuadre que muestra todos los puntos con un margen
+const fitViewport = (points: WorldPoint[], size: Size): Viewport | null => {
+  if (points.length === 0 || size.width === 0) return null;
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+
+  if (maxX - minX === 0 && maxY - minY === 0) {
+    const span = SINGLE_POINT_SPAN_METERS / metersPerWorldUnit(unprojectFromWorld(center).latitude);
+    return { center, scale: clampScale(Math.min(size.width, size.height) / span) };
+  }
+
+  const scale = Math.min(
+    (size.width - 2 * FIT_PADDING) / Math.max(maxX - minX, Number.EPSILON),
+    (size.height - 2 * FIT_PADDING) / Math.max(maxY - minY, Number.EPSILON)
+  );
+  return { center, scale: clampScale(scale) };
+};
+
+// Separación de la cuadrícula para que quepan unas pocas líneas en pantalla
+const getGraticuleStep = (spanDegrees: number): number =>
+  GRATICULE_STEPS.find(step => spanDegrees / step <= MAX_GRATICULE_LINES) ?? 90;
+
+const formatDegrees = (value: number, step: number): string =>
+  `${value.toFixed(Math.max(0, -Math.floor(Math.log10(step))))}°`;
+
+// Longitud redonda (1, 2 o 5 × 10^n metros) que ocupa como mucho maxPixels
+const getScaleBar = (metersPerPixel: number, maxPixels: number): { meters: number; pixels: number } => {
+  const maxMeters = metersPerPixel * maxPixels;
+  const magnitude = 10 ** Math.floor(Math.log10(maxMeters));
+  const meters = [5, 2, 1].map(factor => factor * magnitude).find(value => value <= maxMeters) ?? magnitude;
+  return { meters, pixels: meters / metersPerPixel };
+};
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${meters / 1000} km` : meters >= 1 ? `${meters} m` : `${Math.round(meters * 100)} cm`;
+
+// Distancia entre los dos primeros dedos, o null si solo hay uno
+const getTouchDistance = (event: GestureResponderEvent): number | null => {
+  const touches = event.nativeEvent.touches;
+  if (touches.length < 2) return null;
+  return Math.hypot(touches[0].pageX - touches[1].pageX, touches[0].pageY - touches[1].pageY);
+};
+
+export default function ScanMap({ scans, selectedKey, onSelectScan, zones = [] }: ScanMapProps) {
+  const [size, setSize] = useState<Size>({ width: 0, height: 0 });
+  const [viewport, setViewportState] = useState<Viewport | null>(null);
+  const viewportRef = useRef<Viewport | null>(null);
+  const gestureRef = useRef<{ start: Viewport; distance: number | null; offsetX: number; offsetY: number } | null>(null);
+
+  const setViewport = useCallback((next: Viewport) => {
+    const clamped = { center: { x: clampUnit(next.center.x), y: clampUnit(next.center.y) }, scale: clampScale(next.scale) };
+    viewportRef.current = clamped;
+    setViewportState(clamped);
+  }, []);
+
+  const projected = useMemo<ProjectedScan[]>(
+    () => scans
+      .filter(scan => scan.latitude !== null && scan.longitude !== null)
+      .map(scan => ({ scan, world: projectToWorld({ latitude: scan.latitude!, longitude: scan.longitude! }) })),
+    [scans]
+  );
+
+  const fitTo = useCallback((points: WorldPoint[]) => {
+    const next = fitViewport(points, size);
+    if (next) setViewport(next);
+  }, [size, setViewport]);
+
+  // Encuadrar los escaneos la primera vez; las recargas posteriores conservan la vista del usuario
+  useEffect(() => {
+    if (!viewportRef.current) fitTo(projected.map(item => item.world));
+  }, [projected, fitTo]);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Los toques sin desplazamiento llegan a los marcadores
+      onMoveShouldSetPanResponder: (_event, gesture) =>
+        Math.abs(gesture.dx) > 4 || Math.abs(gesture.dy) > 4 || gesture.numberActiveTouches > 1,
+      onPanResponderGrant: (event) => {
+        if (!viewportRef.current) return;
+        gestureRef.current = { start: viewportRef.current, distance: getTouchDistance(event), offsetX: 0, offsetY: 0 };
+      },
+      onPanResponderMove: (event, gesture) => {
+        const current = gestureRef.current;
+        if (!current || !viewportRef.current) return;
+
+        // Al poner o levantar un segundo dedo se toma la posición actual como nuevo origen
+        const distance = getTouchDistance(event);
+        if ((distance === null) !== (current.distance === null)) {
+          gestureRef.current = { start: viewportRef.current, distance, offsetX: gesture.dx, offsetY: gesture.dy };
+          return;
+        }
+
+        const scale = distance !== null && current.distance
+          ? clampScale((current.start.scale * distance) / current.distance)
+          : current.start.scale;
+        setViewport({
+          scale,
+          center: {
+            x: current.start.center.x - (gesture.dx - current.offsetX) / scale,
+            y: current.start.center.y - (gesture.dy - current.offsetY) / scale,
+          },
+        });
+      },
+      onPanResponderRelease: () => {
+        gestureRef.current = null;
+      },
+      onPanResponderTerminate: () => {
+        gestureRef.current = null;
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const zoomBy = (factor: number) => {
+    if (viewport) setViewport({ ...viewport, scale: viewport.scale * factor });
+  };
+
+  // Los grupos solo cambian con el zoom, no al desplazar el mapa
+  const scale = viewport?.scale ?? null;
+  const clusters = useMemo<MapCluster<ProjectedScan>[]>(() => {
+    if (scale === null) return [];
+    const points = projected.map(item => ({ x: item.world.x * scale, y: item.world.y * scale, item }));
+    return clusterPoints(points, CLUSTER_CELL_SIZE);
+  }, [projected, scale]);
+
+  // Un grupo se abre ampliando el mapa; si sus escaneos están en el mismo punto se elige el más reciente
+  const handleClusterPress = (cluster: MapCluster<ProjectedScan>) => {
+    const worlds = cluster.items.map(item => item.world);
+    const spread = Math.max(
+      Math.max(...worlds.map(point => point.x)) - Math.min(...worlds.map(point => point.x)),
+      Math.max(...worlds.map(point => point.y)) - Math.min(...worlds.map(point => point.y))
+    );
+    if (!viewport || spread * MAX_SCALE < CLUSTER_CELL_SIZE || viewport.scale >= MAX_SCALE) {
+      const latest = cluster.items.reduce((a, b) => (b.scan.timestamp > a.scan.timestamp ? b : a));
+      onSelectScan(latest.scan);
+      return;
+    }
+    fitTo(worlds);
+  };
+
+  const renderGraticule = (view: Viewport) => {
+    const topLeft = unprojectFromWorld({
+      x: view.center.x - size.width / 2 / view.scale,
+      y: view.center.y - size.height / 2 / view.scale,
+    });
+    const bottomRight = unprojectFromWorld({
+      x: view.center.x + size.width / 2 / view.scale,
+      y: view.center.y + size.height / 2 / view.scale,
+    });
+    const step = getGraticuleStep(Math.max(bottomRight.longitude - topLeft.longitude, topLeft.latitude - bottomRight.latitude));
+
+    const lines: React.ReactNode[] = [];
+    for (let lng = Math.ceil(topLeft.longitude / step) * step; lng <= bottomRight.longitude; lng += step) {
+      const x = (projectToWorld({ latitude: 0, longitude: lng }).x - view.center.x) * view.scale + size.width / 2;
+      lines.push(
+        <G key={`lng-${lng}`}>
+          <Line x1={x} y1={0} x2={x} y2={size.height} stroke="#d1d9e0" strokeWidth={1} />
+          <SvgText x={x + 3} y={12} fontSize={10} fill="#8e8e93">{formatDegrees(lng, step)}</SvgText>
+        </G>
+      );
+    }
+    for (let lat = Math.ceil(bottomRight.latitude / step) * step; lat <= topLeft.latitude; lat += step) {
+      const y = (projectToWorld({ latitude: lat, longitude: 0 }).y - view.center.y) * view.scale + size.height / 2;
+      lines.push(
+        <G key={`lat-${lat}`}>
+          <Line x1={0} y1={y} x2={size.width} y2={y} stroke="#d1d9e0" strokeWidth={1} />
+          <SvgText x={3} y={y - 3} fontSize={10} fill="#8e8e93">{formatDegrees(lat, step)}</SvgText>
+        </G>
+      );
+    }
+    return lines;
+  };
+
+  const renderZone = ({ id, name, shape }: Zone, view: Viewport) => {
+    const toScreen = (world: WorldPoint) => ({
+      x: (world.x - view.center.x) * view.scale + size.width / 2,
+      y: (world.y - view.center.y) * view.scale + size.height / 2,
+    });
+    // En los círculos el centro es también donde va el nombre
+    const center = toScreen(projectToWorld(getZoneCenter(shape)));
+
+    return (
+      <G key={id}>
+        {shape.type === 'circle' ? (
+          <Circle
+            cx={center.x}
+            cy={center.y}
+            r={(shape.radius / metersPerWorldUnit(shape.center.latitude)) * view.scale}
+            {...ZONE_OUTLINE}
+          />
+        ) : (
+          <Polygon
+            points={shape.points
+              .map(point => toScreen(projectToWorld(point)))
+              .map(({ x, y }) => `${x},${y}`)
+              .join(' ')}
+            {...ZONE_OUTLINE}
+          />
+        )}
+        <SvgText x={center.x} y={center.y} fontSize={11} fontWeight="bold" fill="#248A3D" textAnchor="middle">
+          {name}
+        </SvgText>
+      </G>
+    );
+  };
+
+  const renderCluster = (cluster: MapCluster<ProjectedScan>, view: Viewport) => {
+    const x = cluster.x - view.center.x * view.scale + size.width / 2;
+    const y = cluster.y - view.center.y * view.scale + size.height / 2;
+    // Fuera de la pantalla no se dibuja (el margen deja ver los círculos de precisión de los bordes)
+    if (x < -CLUSTER_CELL_SIZE || y < -CLUSTER_CELL_SIZE || x > size.width + CLUSTER_CELL_SIZE || y > size.height + CLUSTER_CELL_SIZE) {
+      return null;
+    }
+
+    if (cluster.items.length > 1) {
+      const radius = 14 + Math.min(10, Math.log2(cluster.items.length) * 3);
+      return (
+        <G key={cluster.key} onPress={() => handleClusterPress(cluster)}>
+          <Circle cx={x} cy={y} r={radius} fill="#007AFF" fillOpacity={0.85} stroke="white" strokeWidth={2} />
+          <SvgText x={x} y={y + 4} fontSize={12} fontWeight="bold" fill="white" textAnchor="middle">
+            {cluster.items.length}
+          </SvgText>
+        </G>
+      );
+    }
+
+    const { scan } = cluster.items[0];
+    const selected = getScanKey(scan) === selectedKey;
+    const accuracyRadius = scan.accuracy
+      ? (scan.accuracy / metersPerWorldUnit(scan.latitude!)) * view.scale
+      : 0;
+    return (
+      <G key={cluster.key} onPress={() => onSelectScan(scan)}>
+        {accuracyRadius >= MIN_ACCURACY_RADIUS && (
+          <Circle cx={x} cy={y} r={accuracyRadius} fill="#007AFF" fillOpacity={0.12} stroke="#007AFF" strokeOpacity={0.4} />
+        )}
+        <Circle
+          cx={x}
+          cy={y}
+          r={selected ? MARKER_RADIUS + 2 : MARKER_RADIUS}
+          fill={selected ? '#FF9500' : '#007AFF'}
+          stroke="white"
+          strokeWidth={2}
+        />
+      </G>
+    );
+  };
+
+  const scaleBar = viewport && size.width > 0
+    ? getScaleBar(
+        metersPerWorldUnit(unprojectFromWorld(viewport.center).latitude) / viewport.scale,
+        SCALE_BAR_MAX_WIDTH
+      )
+    : null;
+
+  return (
+    <View style={styles.contenedor} onLayout={handleLayout} {...panResponder.panHandlers}>
+      {viewport && size.width > 0 && (
+        <Svg width={size.width} height={size.height}>
+          <Rect x={0} y={0} width={size.width} height={size.height} fill="#eef2f5" onPress={() => onSelectScan(null)} />
+          {renderGraticule(viewport)}
+          {zones.map(zone => renderZone(zone, viewport))}
+          {clusters.map(cluster => renderCluster(cluster, viewport))}
+        </Svg>
+      )}
+
+      {/* Controles de zoom */}
+      <View style={styles.controles}>
+        <TouchableOpacity style={styles.botonControl} onPress={() => zoomBy(ZOOM_STEP)}>
+          <Plus size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.botonControl} onPress={() => zoomBy(1 / ZOOM_STEP)}>
+          <Minus size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.botonControl} onPress={() => fitTo(projected.map(item => item.world))}>
+          <Maximize size={18} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Escala */}
+      {scaleBar && (
+        <View style={styles.escala}>
+          <View style={[styles.barraEscala, { width: scaleBar.pixels }]} />
+          <Text style={styles.textoEscala}>{formatDistance(scaleBar.meters)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flex: 1,
+    overflow: 'hidden',
+    backgroundColor: '#eef2f5',
+  },
+  controles: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+  },
+  botonControl: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 1,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  escala: {
+    position: 'absolute',
+    left: 12,
+    bottom: 12,
+  },
+  barraEscala: {
+    height: 4,
+    borderWidth: 1,
+    borderTopWidth: 0,
+    borderColor: '#1c1c1e',
+  },
+  textoEscala: {
+    fontSize: 11,
+    color: '#1c1c1e',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+});
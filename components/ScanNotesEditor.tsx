@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, Pressable, TextInput, ScrollView } from 'react-native';
+import { X, Plus, Tag } from 'lucide-react-native';
+import { ScanRecord, scanRepository } from '@/lib/scanRepository';
+import {
+  DEFAULT_SCAN_STATUS,
+  MAX_NOTES_LENGTH,
+  MAX_TAG_LENGTH,
+  MAX_TAGS,
+  normalizeTags,
+  parseTagsText,
+  SCAN_STATUSES,
+  SCAN_STATUS_COLORS,
+  SCAN_STATUS_LABELS,
+  ScanStatus,
+} from '@/lib/annotations';
+
+interface ScanNotesEditorProps {
+  visible: boolean;
+  scan: ScanRecord | null;
+  suggestedTags?: string[]; // Etiquetas ya usadas en otros escaneos
+  onClose: () => void;
+  onSaved: (scan: ScanRecord) => void;
+}
+
+export default function ScanNotesEditor({ visible, scan, suggestedTags = [], onClose, onSaved }: ScanNotesEditorProps) {
+  const [status, setStatus] = useState<ScanStatus>(DEFAULT_SCAN_STATUS);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagText, setTagText] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Cada apertura parte de los valores guardados del escaneo
+  useEffect(() => {
+    if (!visible || !scan) return;
+    setStatus(scan.status ?? DEFAULT_SCAN_STATUS);
+    setTags(scan.tags ?? []);
+    setTagText('');
+    setNotes(scan.notes ?? '');
+  }, [visible, scan]);
+
+  const addTags = (newTags: string[]) => {
+    const merged = normalizeTags([...tags, ...newTags]);
+    if (merged.length > MAX_TAGS) {
+      Alert.alert('Demasiadas etiquetas', `Un escaneo puede tener como máximo ${MAX_TAGS} etiquetas`);
+      return;
+    }
+    setTags(merged);
+  };
+
+  // Se pueden escribir varias etiquetas a la vez separadas por comas o punto y coma
+  const addTypedTags = () => {
+    const typed = parseTagsText(tagText);
+    if (typed.length === 0) return;
+    if (typed.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      Alert.alert('Etiqueta demasiado larga', `Cada etiqueta puede tener hasta ${MAX_TAG_LENGTH} caracteres`);
+      return;
+    }
+    addTags(typed);
+    setTagText('');
+  };
+
+  const handleSave = async () => {
+    if (!scan) return;
+    // Una etiqueta escrita y sin añadir también se guarda
+    const pending = parseTagsText(tagText).filter(tag => tag.length <= MAX_TAG_LENGTH);
+    const finalTags = normalizeTags([...tags, ...pending]).slice(0, MAX_TAGS);
+
+    try {
+      setSaving(true);
+      const saved = await scanRepository.updateScan(scan, { status, tags: finalTags, notes });
+      onSaved(saved);
+      onClose();
+    } catch (error) {
+      console.error('Error updating scan:', error);
+      Alert.alert('Error', 'No se pudieron guardar los cambios. Comprueba la conexión con el servidor.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const suggestions = suggestedTags.filter(tag => !tags.includes(tag)).slice(0, 12);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.fondo} onPress={saving ? undefined : onClose}>
+        {/* Pressable interior para que los toques en la hoja no la cierren */}
+        <Pressable style={styles.hoja}>
+          <View style={styles.encabezado}>
+            <Text style={styles.titulo}>Notas y etiquetas</Text>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <X size={22} color="#8e8e93" />
+            </TouchableOpacity>
+          </View>
+          {scan && <Text style={styles.subtitulo} numberOfLines={1}>{scan.qr_data}</Text>}
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.etiqueta}>Estado</Text>
+            <View style={styles.filaChips}>
+              {SCAN_STATUSES.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, status === option && { backgroundColor: SCAN_STATUS_COLORS[option] }]}
+                  onPress={() => setStatus(option)}>
+                  <Text style={[styles.textoChip, status === option && styles.textoChipActivo]}>
+                    {SCAN_STATUS_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.etiqueta}>Etiquetas ({tags.length})</Text>
+            {tags.length > 0 && (
+              <View style={styles.filaChips}>
+                {tags.map(tag => (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.chip, styles.chipEtiqueta]}
+                    onPress={() => setTags(prev => prev.filter(item => item !== tag))}>
+                    <Text style={[styles.textoChip, styles.textoChipActivo]}>{tag}</Text>
+                    <X size={12} color="white" style={styles.iconoChip} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <View style={styles.filaCampo}>
+              <TextInput
+                style={[styles.campoTexto, styles.campoFlexible]}
+                value={tagText}
+                onChangeText={setTagText}
+                placeholder="revisar, almacén norte..."
+                placeholderTextColor="#8e8e93"
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="done"
+                blurOnSubmit={false}
+                onSubmitEditing={addTypedTags}
+              />
+              <TouchableOpacity style={styles.botonIcono} onPress={addTypedTags}>
+                <Plus size={20} color="#007AFF" />
+              </TouchableOpacity>
+            </View>
+            {suggestions.length > 0 && (
+              <View style={[styles.filaChips, styles.sugerencias]}>
+                {suggestions.map(tag => (
+                  <TouchableOpacity key={tag} style={[styles.chip, styles.chipSugerencia]} onPress={() => addTags([tag])}>
+                    <Tag size={12} color="#007AFF" />
+                    <Text style={[styles.textoChip, styles.textoSugerencia]}>{tag}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.etiqueta}>Notas</Text>
+            <TextInput
+              style={[styles.campoTexto, styles.campoNotas]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Observaciones sobre este escaneo"
+              placeholderTextColor="#8e8e93"
+              multiline
+              maxLength={MAX_NOTES_LENGTH}
+              textAlignVertical="top"
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.botonGuardar, saving && styles.botonDeshabilitado]}
+            onPress={handleSave}
+            disabled={saving}>
+            {saving ? <ActivityIndicator color="white" /> : <Text style={styles.textoBotonGuardar}>Guardar</Text>}
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hoja: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '90%',
+  },
+  encabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  titulo: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+  },
+  subtitulo: {
+    fontSize: 14,
+    color: '#8e8e93',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  etiqueta: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  campoTexto: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+  },
+  campoFlexible: {
+    flex: 1,
+  },
+  campoNotas: {
+    minHeight: 96,
+  },
+  filaCampo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  botonIcono: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: '#f0f6ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  sugerencias: {
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipEtiqueta: {
+    backgroundColor: '#007AFF',
+  },
+  chipSugerencia: {
+    backgroundColor: '#f0f6ff',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  textoSugerencia: {
+    color: '#007AFF',
+    marginLeft: 4,
+  },
+  iconoChip: {
+    marginLeft: 4,
+  },
+  botonGuardar: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  botonDeshabilitado: {
+    opacity: 0.6,
+  },
+  textoBotonGuardar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert, TextInput } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Layers, Calendar, Pencil, Download, Trash2, CloudOff, ChevronRight } from 'lucide-react-native';
+import { scanRepository, ScanSession } from '@/lib/scanRepository';
+import ExportSheet from '@/components/ExportSheet';
+
+interface SessionListProps {
+  // Abre los escaneos de la sesión en la lista del historial
+  onOpenSession: (session: ScanSession) => void;
+}
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('es-ES', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatRange = (session: ScanSession): string => {
+  if (session.ended_at === null) return `${formatDateTime(session.started_at)} · En curso`;
+  const end = new Date(session.ended_at).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+  return `${formatDateTime(session.started_at)} – ${end}`;
+};
+
+export default function SessionList({ onOpenSession }: SessionListProps) {
+  const [sessions, setSessions] = useState<ScanSession[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [exportSession, setExportSession] = useState<ScanSession | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [])
+  );
+
+  const loadSessions = async () => {
+    try {
+      setRefreshing(true);
+      setSessions(await scanRepository.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      Alert.alert('Error', 'No se pudieron cargar las sesiones');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const startEditing = (session: ScanSession) => {
+    setEditingId(session.id);
+    setEditingName(session.name);
+  };
+
+  const saveName = async (session: ScanSession) => {
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!name || name === session.name) return;
+
+    try {
+      const updated = await scanRepository.updateSession(session, { name });
+      setSessions(prev => prev.map(item => (item.id === session.id ? { ...updated, scan_count: item.scan_count } : item)));
+    } catch (error) {
+      console.error('Error renaming session:', error);
+      Alert.alert('Error', 'No se pudo renombrar la sesión');
+    }
+  };
+
+  const handleDeleteSession = (session: ScanSession) => {
+    const count = session.scan_count ?? 0;
+    Alert.alert(
+      'Eliminar Sesión',
+      `¿Eliminar la sesión "${session.name}" y sus ${count} escaneo${count !== 1 ? 's' : ''}?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await scanRepository.deleteSession(session);
+              setSessions(prev => prev.filter(item => item.id !== session.id));
+            } catch (error) {
+              console.error('Error deleting session:', error);
+              Alert.alert('Error', 'No se pudo eliminar la sesión. Comprueba la conexión con el servidor.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSessionItem = ({ item }: { item: ScanSession }) => {
+    const count = item.scan_count ?? 0;
+    return (
+      <View style={styles.tarjetaSesion}>
+        {editingId === item.id ? (
+          <TextInput
+            style={styles.inputNombre}
+            value={editingName}
+            onChangeText={setEditingName}
+            onBlur={() => saveName(item)}
+            maxLength={100}
+            autoFocus
+            returnKeyType="done"
+          />
+        ) : (
+          <TouchableOpacity style={styles.filaNombre} onPress={() => onOpenSession(item)}>
+            <Text style={styles.nombreSesion} numberOfLines={1}>{item.name}</Text>
+            <ChevronRight size={18} color="#C7C7CC" />
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.metaSesion}>
+          <Calendar size={14} color="#666" />
+          <Text style={styles.textoMeta}>{formatRange(item)}</Text>
+        </View>
+        <View style={styles.metaSesion}>
+          <Layers size={14} color="#666" />
+          <Text style={styles.textoMeta}>{count} escaneo{count !== 1 ? 's' : ''}</Text>
+        </View>
+        {item.sync_status && item.sync_status !== 'synced' && (
+          <View style={styles.metaSesion}>
+            <CloudOff size={14} color="#FF9500" />
+            <Text style={[styles.textoMeta, { color: '#FF9500' }]}>Cambios pendientes de sincronizar</Text>
+          </View>
+        )}
+
+        <View style={styles.botonesAccion}>
+          <TouchableOpacity style={styles.botonAccion} onPress={() => startEditing(item)}>
+            <Pencil size={18} color="#007AFF" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.botonAccion} onPress={() => setExportSession(item)}>
+            <Download size={18} color="#007AFF" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.botonAccion} onPress={() => handleDeleteSession(item)}>
+            <Trash2 size={18} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <FlatList
+        data={sessions}
+        renderItem={renderSessionItem}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.contenedorLista}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={loadSessions} tintColor="#007AFF" colors={['#007AFF']} />
+        }
+        ListEmptyComponent={
+          <View style={styles.contenedorVacio}>
+            <Layers size={80} color="#C7C7CC" />
+            <Text style={styles.tituloVacio}>No hay sesiones</Text>
+            <Text style={styles.mensajeVacio}>
+              Activa el modo continuo en el escáner para agrupar varios códigos en una sesión
+            </Text>
+          </View>
+        }
+      />
+
+      <ExportSheet
+        visible={exportSession !== null}
+        scopes={exportSession ? [{
+          key: exportSession.id,
+          label: exportSession.name,
+          query: { sessionId: exportSession.id },
+          fileLabel: exportSession.name,
+        }] : []}
+        onClose={() => setExportSession(null)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedorLista: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  tarjetaSesion: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    borderLeftWidth: 4,
+    borderLeftColor: '#34C759',
+  },
+  filaNombre: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  nombreSesion: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1c1c1e',
+  },
+  inputNombre: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginBottom: 10,
+  },
+  metaSesion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  textoMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 6,
+    fontWeight: '500',
+  },
+  botonesAccion: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  botonAccion: {
+    padding: 8,
+    marginLeft: 4,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  contenedorVacio: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 80,
+  },
+  tituloVacio: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  mensajeVacio: {
+    fontSize: 16,
+    color: '#8e8e93',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, Pressable, ScrollView, Linking } from 'react-native';
+import { X, ShieldAlert, ShieldX, ArrowRight, CloudOff } from 'lucide-react-native';
+import { ScanRecord, scanRepository } from '@/lib/scanRepository';
+import { checkUrl } from '@/lib/urlChecker';
+import {
+  URL_RISK_DESCRIPTIONS,
+  URL_RISK_LABELS,
+  URL_SAFETY_LEVEL_COLORS,
+  URL_SAFETY_LEVEL_LABELS,
+  UrlVerdict,
+} from '@/lib/urlSafety';
+
+interface UrlSafetySheetProps {
+  url: string | null; // Enlace a abrir; la hoja se muestra mientras no sea null
+  scan?: ScanRecord | null; // Escaneo del enlace, en el que se guarda el veredicto
+  onClose: () => void;
+  onVerdictSaved?: (scan: ScanRecord) => void;
+}
+
+const openLink = async (url: string) => {
+  try {
+    const supported = await Linking.canOpenURL(url);
+    if (supported) {
+      await Linking.openURL(url);
+    } else {
+      Alert.alert('Error', 'No se puede abrir este enlace');
+    }
+  } catch (error) {
+    console.error('Error opening URL:', error);
+  }
+};
+
+/**
+ * Comprueba un enlace antes de abrirlo. Si no tiene riesgos se abre directamente; si los tiene,
+ * se muestran los motivos y el usuario decide si abrirlo. El veredicto se guarda con el escaneo.
+ */
+export default function UrlSafetySheet({ url, scan, onClose, onVerdictSaved }: UrlSafetySheetProps) {
+  const [verdict, setVerdict] = useState<UrlVerdict | null>(null);
+  // Props más recientes: la comprobación solo se repite al cambiar el enlace, no con cada render del padre
+  const latestProps = useRef({ scan, onClose, onVerdictSaved });
+  latestProps.current = { scan, onClose, onVerdictSaved };
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    setVerdict(null);
+
+    checkUrl(url).then(async result => {
+      if (cancelled) return;
+      const { scan, onClose, onVerdictSaved } = latestProps.current;
+      if (result.level === 'safe') {
+        onClose();
+        await openLink(url);
+      } else {
+        setVerdict(result);
+      }
+      // Los lectores de un espacio de trabajo no pueden modificar escaneos: el veredicto solo se muestra
+      if (scan) {
+        scanRepository
+          .updateScan(scan, { url_verdict: result })
+          .then(saved => onVerdictSaved?.(saved))
+          .catch(error => console.warn('No se pudo guardar el veredicto del enlace:', error));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const openAnyway = async () => {
+    if (!url) return;
+    onClose();
+    await openLink(url);
+  };
+
+  const LevelIcon = verdict?.level === 'danger' ? ShieldX : ShieldAlert;
+  const levelColor = verdict ? URL_SAFETY_LEVEL_COLORS[verdict.level] : '#8e8e93';
+  const redirectCount = verdict?.redirects.length ?? 0;
+
+  return (
+    <Modal visible={url !== null} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.fondo} onPress={onClose}>
+        {/* Pressable interior para que los toques en la hoja no la cierren */}
+        <Pressable style={styles.hoja}>
+          <View style={styles.encabezado}>
+            {verdict ? (
+              <View style={styles.filaTitulo}>
+                <LevelIcon size={22} color={levelColor} />
+                <Text style={[styles.titulo, { color: levelColor }]}>{URL_SAFETY_LEVEL_LABELS[verdict.level]}</Text>
+              </View>
+            ) : (
+              <Text style={styles.titulo}>Comprobando enlace</Text>
+            )}
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color="#8e8e93" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtitulo} numberOfLines={3}>{url}</Text>
+
+          {!verdict ? (
+            <ActivityIndicator style={styles.indicador} color="#007AFF" />
+          ) : (
+            <ScrollView>
+              {/* Destino real de los enlaces acortados o con redirecciones */}
+              {verdict.final_url !== verdict.url && (
+                <View style={styles.filaDestino}>
+                  <ArrowRight size={16} color="#1c1c1e" />
+                  <View style={styles.textoDestino}>
+                    <Text style={styles.etiquetaDestino}>
+                      Lleva a ({redirectCount} {redirectCount !== 1 ? 'redirecciones' : 'redirección'})
+                    </Text>
+                    <Text style={styles.urlDestino} numberOfLines={3}>{verdict.final_url}</Text>
+                  </View>
+                </View>
+              )}
+              {!verdict.resolved && (
+                <View style={styles.filaDestino}>
+                  <CloudOff size={16} color="#8e8e93" />
+                  <Text style={[styles.textoDestino, styles.textoSecundario]}>
+                    No se pudieron seguir las redirecciones: el destino final puede ser otro.
+                  </Text>
+                </View>
+              )}
+
+              <Text style={styles.etiqueta}>Motivos</Text>
+              {verdict.risks.map(risk => (
+                <View key={risk} style={styles.riesgo}>
+                  <Text style={styles.nombreRiesgo}>{URL_RISK_LABELS[risk]}</Text>
+                  <Text style={styles.textoSecundario}>{URL_RISK_DESCRIPTIONS[risk]}</Text>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity style={styles.botonCancelar} onPress={onClose}>
+            <Text style={styles.textoBotonCancelar}>No abrir</Text>
+          </TouchableOpacity>
+          {verdict && (
+            <TouchableOpacity style={styles.botonAbrir} onPress={openAnyway}>
+              <Text style={[styles.textoBotonAbrir, { color: levelColor }]}>Abrir de todos modos</Text>
+            </TouchableOpacity>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hoja: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '90%',
+  },
+  encabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  filaTitulo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  titulo: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+    marginLeft: 8,
+  },
+  subtitulo: {
+    fontSize: 14,
+    color: '#8e8e93',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  indicador: {
+    marginVertical: 24,
+  },
+  filaDestino: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 8,
+  },
+  textoDestino: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  etiquetaDestino: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 2,
+  },
+  urlDestino: {
+    fontSize: 14,
+    color: '#1c1c1e',
+  },
+  etiqueta: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  riesgo: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+  },
+  nombreRiesgo: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1c1c1e',
+    marginBottom: 2,
+  },
+  textoSecundario: {
+    fontSize: 13,
+    color: '#8e8e93',
+  },
+  botonCancelar: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  textoBotonCancelar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  botonAbrir: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  textoBotonAbrir: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, Pressable, TextInput, ScrollView } from 'react-native';
+import * as Location from 'expo-location';
+import { X, LocateFixed, Plus, Trash2 } from 'lucide-react-native';
+import { scanRepository, Zone } from '@/lib/scanRepository';
+import { Coordinates } from '@/lib/geo';
+import {
+  MIN_POLYGON_POINTS,
+  parseCoordinatesText,
+  ZONE_RADIUS_OPTIONS,
+  ZONE_SHAPE_LABELS,
+  ZoneShape,
+  ZoneShapeType,
+} from '@/lib/zones';
+
+interface ZoneEditorProps {
+  visible: boolean;
+  zone: Zone | null; // null para crear una zona nueva
+  onClose: () => void;
+  onSaved: (zone: Zone) => void;
+}
+
+const formatCoordinates = ({ latitude, longitude }: Coordinates): string =>
+  `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+
+export default function ZoneEditor({ visible, zone, onClose, onSaved }: ZoneEditorProps) {
+  const [name, setName] = useState('');
+  const [shapeType, setShapeType] = useState<ZoneShapeType>('circle');
+  const [centerText, setCenterText] = useState('');
+  const [radius, setRadius] = useState(ZONE_RADIUS_OPTIONS[2]);
+  const [points, setPoints] = useState<Coordinates[]>([]);
+  const [pointText, setPointText] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Cada apertura parte de la zona que se edita o de un formulario vacío
+  useEffect(() => {
+    if (!visible) return;
+    setName(zone?.name ?? '');
+    setShapeType(zone?.shape.type ?? 'circle');
+    setCenterText(zone?.shape.type === 'circle' ? formatCoordinates(zone.shape.center) : '');
+    setRadius(zone?.shape.type === 'circle' ? zone.shape.radius : ZONE_RADIUS_OPTIONS[2]);
+    setPoints(zone?.shape.type === 'polygon' ? zone.shape.points : []);
+    setPointText('');
+  }, [visible, zone]);
+
+  const getCurrentCoordinates = async (): Promise<Coordinates | null> => {
+    try {
+      setLocating(true);
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Ubicación', 'Se necesita permiso de ubicación para usar la posición actual');
+        return null;
+      }
+      const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      return { latitude: location.coords.latitude, longitude: location.coords.longitude };
+    } catch (error) {
+      console.error('Error al obtener la ubicación:', error);
+      Alert.alert('Error', 'No se pudo obtener la ubicación actual');
+      return null;
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const useCurrentCenter = async () => {
+    const coordinates = await getCurrentCoordinates();
+    if (coordinates) setCenterText(formatCoordinates(coordinates));
+  };
+
+  // Los vértices se pueden ir añadiendo mientras se recorre el perímetro
+  const addCurrentPoint = async () => {
+    const coordinates = await getCurrentCoordinates();
+    if (coordinates) setPoints(prev => [...prev, coordinates]);
+  };
+
+  const addTypedPoint = () => {
+    const coordinates = parseCoordinatesText(pointText);
+    if (!coordinates) {
+      Alert.alert('Coordenadas inválidas', 'Escribe la latitud y la longitud separadas por una coma');
+      return;
+    }
+    setPoints(prev => [...prev, coordinates]);
+    setPointText('');
+  };
+
+  const buildShape = (): ZoneShape | null => {
+    if (shapeType === 'circle') {
+      const center = parseCoordinatesText(centerText);
+      if (!center) {
+        Alert.alert('Centro inválido', 'Indica el centro como "latitud, longitud" o usa tu ubicación');
+        return null;
+      }
+      return { type: 'circle', center, radius };
+    }
+    if (points.length < MIN_POLYGON_POINTS) {
+      Alert.alert('Polígono incompleto', `Añade al menos ${MIN_POLYGON_POINTS} vértices`);
+      return null;
+    }
+    return { type: 'polygon', points };
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Nombre obligatorio', 'Escribe un nombre para la zona');
+      return;
+    }
+    const shape = buildShape();
+    if (!shape) return;
+
+    try {
+      setSaving(true);
+      const saved = zone
+        ? await scanRepository.updateZone(zone, { name, shape })
+        : await scanRepository.createZone(name, shape);
+      onSaved(saved);
+      onClose();
+    } catch (error) {
+      console.error('Error saving zone:', error);
+      Alert.alert('Error', 'No se pudo guardar la zona');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCircleFields = () => (
+    <>
+      <Text style={styles.etiqueta}>Centro</Text>
+      <View style={styles.filaCampo}>
+        <TextInput
+          style={[styles.campoTexto, styles.campoFlexible]}
+          value={centerText}
+          onChangeText={setCenterText}
+          placeholder="40.416775, -3.703790"
+          placeholderTextColor="#8e8e93"
+          keyboardType="numbers-and-punctuation"
+          autoCorrect={false}
+        />
+        <TouchableOpacity style={styles.botonIcono} onPress={useCurrentCenter} disabled={locating}>
+          {locating ? <ActivityIndicator color="#007AFF" /> : <LocateFixed size={20} color="#007AFF" />}
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.etiqueta}>Radio</Text>
+      <View style={styles.filaChips}>
+        {ZONE_RADIUS_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, radius === option && styles.chipActivo]}
+            onPress={() => setRadius(option)}>
+            <Text style={[styles.textoChip, radius === option && styles.textoChipActivo]}>
+              {option >= 1000 ? `${option / 1000} km` : `${option} m`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </>
+  );
+
+  const renderPolygonFields = () => (
+    <>
+      <Text style={styles.etiqueta}>Vértices ({points.length})</Text>
+      {points.map((point, index) => (
+        <View key={`${index}-${point.latitude}-${point.longitude}`} style={styles.filaVertice}>
+          <Text style={styles.textoVertice}>
+            {index + 1}. {formatCoordinates(point)}
+          </Text>
+          <TouchableOpacity onPress={() => setPoints(prev => prev.filter((_, i) => i !== index))}>
+            <Trash2 size={16} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={styles.filaCampo}>
+        <TextInput
+          style={[styles.campoTexto, styles.campoFlexible]}
+          value={pointText}
+          onChangeText={setPointText}
+          placeholder="latitud, longitud"
+          placeholderTextColor="#8e8e93"
+          keyboardType="numbers-and-punctuation"
+          autoCorrect={false}
+          onSubmitEditing={addTypedPoint}
+        />
+        <TouchableOpacity style={styles.botonIcono} onPress={addTypedPoint}>
+          <Plus size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.botonIcono} onPress={addCurrentPoint} disabled={locating}>
+          {locating ? <ActivityIndicator color="#007AFF" /> : <LocateFixed size={20} color="#007AFF" />}
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.ayuda}>
+        Añade los vértices en orden escribiendo sus coordenadas o recorriendo el perímetro con tu ubicación.
+      </Text>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.fondo} onPress={saving ? undefined : onClose}>
+        {/* Pressable interior para que los toques en la hoja no la cierren */}
+        <Pressable style={styles.hoja}>
+          <View style={styles.encabezado}>
+            <Text style={styles.titulo}>{zone ? 'Editar zona' : 'Nueva zona'}</Text>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <X size={22} color="#8e8e93" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.etiqueta}>Nombre</Text>
+            <TextInput
+              style={styles.campoTexto}
+              value={name}
+              onChangeText={setName}
+              placeholder="Almacén norte"
+              placeholderTextColor="#8e8e93"
+              maxLength={100}
+            />
+
+            <Text style={styles.etiqueta}>Forma</Text>
+            <View style={styles.filaChips}>
+              {(['circle', 'polygon'] as const).map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, shapeType === type && styles.chipActivo]}
+                  onPress={() => setShapeType(type)}>
+                  <Text style={[styles.textoChip, shapeType === type && styles.textoChipActivo]}>
+                    {ZONE_SHAPE_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {shapeType === 'circle' ? renderCircleFields() : renderPolygonFields()}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.botonGuardar, saving && styles.botonDeshabilitado]}
+            onPress={handleSave}
+            disabled={saving}>
+            {saving ? <ActivityIndicator color="white" /> : <Text style={styles.textoBotonGuardar}>Guardar</Text>}
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  hoja: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '90%',
+  },
+  encabezado: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  titulo: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1c1c1e',
+  },
+  etiqueta: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8e8e93',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  campoTexto: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1c1c1e',
+  },
+  campoFlexible: {
+    flex: 1,
+  },
+  filaCampo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  botonIcono: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: '#f0f6ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  filaChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActivo: {
+    backgroundColor: '#007AFF',
+  },
+  textoChip: {
+    fontSize: 13,
+    color: '#1c1c1e',
+    fontWeight: '600',
+  },
+  textoChipActivo: {
+    color: 'white',
+  },
+  filaVertice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f2f2f7',
+    marginBottom: 4,
+  },
+  textoVertice: {
+    fontSize: 14,
+    color: '#1c1c1e',
+  },
+  ayuda: {
+    fontSize: 13,
+    color: '#8e8e93',
+    marginTop: 8,
+  },
+  botonGuardar: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  botonDeshabilitado: {
+    opacity: 0.6,
+  },
+  textoBotonGuardar: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
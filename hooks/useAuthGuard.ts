@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useRouter, useSegments } from 'expo-router';
+import { auth, AuthSession } from '@/lib/auth';
+import { getStorageMode, requiresLogin } from '@/lib/config';
+
+// Pantallas accesibles sin sesión (en Ajustes se puede elegir otro servidor)
+const PUBLIC_SCREENS = ['login', 'settings'];
+
+// Lleva a la pantalla de inicio de sesión cuando no hay sesión (o caduca) y se usa el web service
+export function useAuthGuard() {
+  const router = useRouter();
+  const segments = useSegments();
+  const [session, setSession] = useState<AuthSession | null>(auth.getSession());
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = auth.subscribe(setSession);
+    auth.init().then(current => {
+      setSession(current);
+      setLoaded(true);
+    });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!loaded || !requiresLogin(getStorageMode())) return;
+    const screen = segments[0] ?? '';
+    if (!session && !PUBLIC_SCREENS.includes(screen)) {
+      router.replace('/login');
+    }
+  }, [loaded, session, segments, router]);
+}
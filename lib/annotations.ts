@@ -0,0 +1,98 @@
+import type { UrlVerdict } from '@/lib/urlSafety';
+
+// Campos que se pueden cambiar en un escaneo ya guardado: notas, etiquetas, estado de revisión y el
+// veredicto de seguridad del enlace (se guarda al comprobarlo antes de abrirlo)
+
+export type ScanStatus = 'pending' | 'verified' | 'rejected';
+
+export const SCAN_STATUSES: readonly ScanStatus[] = ['pending', 'verified', 'rejected'];
+
+export const SCAN_STATUS_LABELS: Record<ScanStatus, string> = {
+  pending: 'Pendiente',
+  verified: 'Verificado',
+  rejected: 'Rechazado',
+};
+
+export const SCAN_STATUS_COLORS: Record<ScanStatus, string> = {
+  pending: '#8e8e93',
+  verified: '#34C759',
+  rejected: '#FF3B30',
+};
+
+// Estado de los escaneos nuevos y de los guardados antes de existir el campo
+export const DEFAULT_SCAN_STATUS: ScanStatus = 'pending';
+
+export const isScanStatus = (value: unknown): value is ScanStatus =>
+  typeof value === 'string' && (SCAN_STATUSES as readonly string[]).includes(value);
+
+export const MAX_NOTES_LENGTH = 2000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+// Separador de etiquetas en las columnas CSV y al escribir varias de una vez
+export const TAG_SEPARATOR = ';';
+
+export interface ScanAnnotations {
+  notes: string | null;
+  tags: string[];
+  status: ScanStatus;
+  url_verdict: UrlVerdict | null;
+}
+
+// Cuerpo de PATCH /scans/:id: solo se modifican los campos presentes
+export type ScanAnnotationChanges = Partial<ScanAnnotations>;
+
+// Etiqueta con el número de escaneos que la llevan (GET /tags)
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Las etiquetas se comparan sin mayúsculas ni espacios repetidos, para que "Roto" y "roto " sean la misma
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Normaliza una lista de etiquetas: sin vacías ni repetidas y en el orden en que se añadieron.
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(normalizeTag).filter(tag => tag !== ''))];
+
+/**
+ * Interpreta varias etiquetas escritas en un solo texto ("roto; revisar, almacén").
+ */
+export const parseTagsText = (text: string): string[] => normalizeTags(text.split(/[;,]/));
+
+// Las notas vacías se guardan como null
+export const normalizeNotes = (notes: string | null | undefined): string | null => {
+  const trimmed = notes?.trim() ?? '';
+  return trimmed === '' ? null : trimmed;
+};
+
+/**
+ * Normaliza los cambios de un PATCH (notas vacías a null, etiquetas sin repetir) sin añadir campos.
+ */
+export const normalizeAnnotationChanges = (changes: ScanAnnotationChanges): ScanAnnotationChanges => {
+  const normalized: ScanAnnotationChanges = { ...changes };
+  if (changes.notes !== undefined) normalized.notes = normalizeNotes(changes.notes);
+  if (changes.tags !== undefined) normalized.tags = normalizeTags(changes.tags);
+  return normalized;
+};
+
+/**
+ * Cuenta los escaneos que llevan cada etiqueta, de la más frecuente a la menos.
+ */
+export const countTags = (scans: Partial<ScanAnnotations>[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  scans.forEach(scan => (scan.tags ?? []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Notas, etiquetas, estado y veredicto de un escaneo, con los valores por defecto de los registros anteriores
+export const getScanAnnotations = (scan: Partial<ScanAnnotations>): ScanAnnotations => ({
+  notes: scan.notes ?? null,
+  tags: scan.tags ?? [],
+  status: scan.status ?? DEFAULT_SCAN_STATUS,
+  url_verdict: scan.url_verdict ?? null,
+});
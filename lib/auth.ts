@@ -0,0 +1,239 @@
+import { getJSON, removeItem, setJSON } from '@/lib/deviceStorage';
+
+// Sesión del usuario con el web service. Los tokens se guardan en el dispositivo junto con la URL
+// del backend que los emitió, y authFetch los añade a cada petición a ese backend: renueva el token
+// de acceso antes de que caduque y, si el servidor responde 401 aun así, cierra la sesión y avisa
+// a los suscriptores (la app vuelve a la pantalla de inicio de sesión)
+
+const AUTH_SESSION_KEY = 'auth_session';
+
+// Margen con el que se renueva el token de acceso antes de su caducidad
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+export interface AuthSession {
+  baseUrl: string;
+  user: AuthUser;
+  access_token: string;
+  refresh_token: string;
+  expires_at: number; // Caducidad del token de acceso
+}
+
+// Respuesta de /auth/login, /auth/register y /auth/refresh
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  user: AuthUser;
+}
+
+// Error de inicio de sesión o registro con el código de estado y el mensaje del servidor
+export class AuthError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+type AuthListener = (session: AuthSession | null) => void;
+
+const toSession = (baseUrl: string, tokens: TokenResponse): AuthSession => ({
+  baseUrl,
+  user: tokens.user,
+  access_token: tokens.access_token,
+  refresh_token: tokens.refresh_token,
+  expires_at: Date.now() + tokens.expires_in * 1000,
+});
+
+const postJson = (url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+class AuthService {
+  private session: AuthSession | null = null;
+  private loading: Promise<AuthSession | null> | null = null;
+  private refreshing: Promise<AuthSession | null> | null = null;
+  private listeners = new Set<AuthListener>();
+
+  /**
+   * Carga la sesión guardada en el dispositivo (solo la primera vez).
+   * @returns La sesión actual, o null si no hay ninguna
+   */
+  init(): Promise<AuthSession | null> {
+    this.loading ??= getJSON<AuthSession>(AUTH_SESSION_KEY).then(stored => {
+      // Una sesión abierta mientras se cargaba tiene prioridad sobre la guardada
+      this.session ??= stored;
+      return this.session;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Sesión actual (null si no se ha iniciado o aún no se ha cargado con init).
+   */
+  getSession(): AuthSession | null {
+    return this.session;
+  }
+
+  /**
+   * Inicia sesión en el backend indicado.
+   * @throws AuthError si las credenciales no son correctas o el servidor rechaza la petición
+   */
+  login(baseUrl: string, username: string, password: string): Promise<AuthSession> {
+    return this.openSession(baseUrl, '/auth/login', { username, password });
+  }
+
+  /**
+   * Crea una cuenta en el backend indicado e inicia sesión con ella.
+   * @throws AuthError si el nombre ya existe o los datos no son válidos
+   */
+  register(baseUrl: string, username: string, password: string): Promise<AuthSession> {
+    return this.openSession(baseUrl, '/auth/register', { username, password });
+  }
+
+  /**
+   * Cierra la sesión: invalida los tokens en el servidor (si responde) y los borra del dispositivo.
+   */
+  async logout(): Promise<void> {
+    const session = this.session;
+    await this.clearSession();
+    if (!session) return;
+    try {
+      await postJson(
+        `${session.baseUrl}/auth/logout`,
+        { refresh_token: session.refresh_token },
+        { Authorization: `Bearer ${session.access_token}` }
+      );
+    } catch (error) {
+      console.warn('No se pudo cerrar la sesión en el servidor:', error);
+    }
+  }
+
+  /**
+   * Suscribe una función a los inicios y cierres de sesión.
+   * @returns Función para cancelar la suscripción
+   */
+  subscribe(listener: AuthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * fetch con la cabecera Authorization de la sesión actual. Solo se envía el token al backend que
+   * lo emitió. Si el servidor responde 401 se intenta renovar el token una vez y, si sigue sin
+   * aceptarlo, se cierra la sesión en el dispositivo y se devuelve la respuesta 401.
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    await this.init();
+    let session = this.getSessionFor(url);
+    if (session && session.expires_at - REFRESH_MARGIN_MS <= Date.now()) {
+      session = await this.refresh(session);
+    }
+
+    let response = await fetch(url, this.withAuthorization(init, session));
+    if (response.status !== 401) return response;
+
+    if (session) {
+      const refreshed = await this.refresh(session);
+      // Si la renovación falló sin que el servidor rechazara el token, la sesión se conserva
+      if (refreshed === session) return response;
+      if (refreshed) {
+        response = await fetch(url, this.withAuthorization(init, refreshed));
+        if (response.status !== 401) return response;
+      }
+    }
+    await this.clearSession();
+    return response;
+  }
+
+  /**
+   * Sesión con la que autenticar a mano una petición a url (conexiones que no pasan por fetch, como la
+   * de eventos en tiempo real). Renueva antes el token si está a punto de caducar o con forceRefresh.
+   * @returns null si no hay sesión con ese backend o el servidor ya no la acepta
+   */
+  async getValidSession(url: string, options: { forceRefresh?: boolean } = {}): Promise<AuthSession | null> {
+    await this.init();
+    const session = this.getSessionFor(url);
+    if (session && (options.forceRefresh || session.expires_at - REFRESH_MARGIN_MS <= Date.now())) {
+      return this.refresh(session);
+    }
+    return session;
+  }
+
+  private getSessionFor(url: string): AuthSession | null {
+    return this.session && url.startsWith(`${this.session.baseUrl}/`) ? this.session : null;
+  }
+
+  private withAuthorization(init: RequestInit, session: AuthSession | null): RequestInit {
+    if (!session) return init;
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${session.access_token}`);
+    return { ...init, headers };
+  }
+
+  // Las peticiones simultáneas comparten la misma renovación: el token de refresco solo vale una vez
+  private refresh(session: AuthSession): Promise<AuthSession | null> {
+    this.refreshing ??= this.requestRefresh(session).finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async requestRefresh(session: AuthSession): Promise<AuthSession | null> {
+    // Otra petición pudo renovar la sesión mientras esta esperaba
+    if (this.session && this.session.access_token !== session.access_token) {
+      return this.session;
+    }
+    const response = await postJson(`${session.baseUrl}/auth/refresh`, { refresh_token: session.refresh_token });
+    if (!response.ok) {
+      // Sin un token de refresco válido la sesión ya no se puede recuperar; otros errores se reintentan
+      if (response.status === 401) await this.clearSession();
+      return response.status === 401 ? null : session;
+    }
+    return this.saveSession(toSession(session.baseUrl, await response.json()));
+  }
+
+  private async openSession(baseUrl: string, path: string, credentials: unknown): Promise<AuthSession> {
+    const response = await postJson(`${baseUrl}${path}`, credentials);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const details = Array.isArray(body?.details) ? `: ${body.details.join(', ')}` : '';
+      throw new AuthError(response.status, `${body?.error ?? `HTTP ${response.status}`}${details}`);
+    }
+    return this.saveSession(toSession(baseUrl, await response.json()));
+  }
+
+  private async saveSession(session: AuthSession): Promise<AuthSession> {
+    this.session = session;
+    await setJSON(AUTH_SESSION_KEY, session);
+    this.notifyListeners();
+    return session;
+  }
+
+  private async clearSession(): Promise<void> {
+    if (!this.session) return;
+    this.session = null;
+    await removeItem(AUTH_SESSION_KEY);
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.session));
+  }
+}
+
+export const auth = new AuthService();
+
+/**
+ * fetch autenticado con la sesión actual (ver AuthService.fetch).
+ */
+export const authFetch = (url: string, init?: RequestInit): Promise<Response> => auth.fetch(url, init);
@@ -0,0 +1,20 @@
+import type { ApiProfile } from '@/lib/config';
+import { ApiStatus, database } from '@/lib/database';
+
+// Backend elegido en Ajustes (perfil o URL personalizada) y su estado de conexión. Lo usan las pantallas
+// que hablan con el web service fuera del almacenamiento de escaneos: inicio de sesión, ajustes,
+// espacios de trabajo, reglas y webhooks
+
+export type { ApiStatus };
+
+export interface Backend {
+  // Carga la URL guardada y la sesión del usuario; se puede llamar varias veces
+  init(): Promise<void>;
+  getStatus(): ApiStatus;
+  checkConnection(): Promise<boolean>;
+  useProfile(profile: ApiProfile): Promise<ApiStatus>;
+  useCustomUrl(url: string): Promise<ApiStatus>;
+  resetApiSettings(): Promise<ApiStatus>;
+}
+
+export const backend: Backend = database;
@@ -0,0 +1,82 @@
+import type { BarcodeType } from 'expo-camera';
+
+// Simbologías de código de barras que puede leer el escáner
+
+export type { BarcodeType };
+
+export const BARCODE_TYPES: readonly BarcodeType[] = [
+  'qr',
+  'ean13',
+  'ean8',
+  'upc_a',
+  'upc_e',
+  'code128',
+  'code39',
+  'code93',
+  'itf14',
+  'codabar',
+  'datamatrix',
+  'pdf417',
+  'aztec',
+];
+
+export const BARCODE_TYPE_LABELS: Record<BarcodeType, string> = {
+  qr: 'QR',
+  ean13: 'EAN-13',
+  ean8: 'EAN-8',
+  upc_a: 'UPC-A',
+  upc_e: 'UPC-E',
+  code128: 'Code 128',
+  code39: 'Code 39',
+  code93: 'Code 93',
+  itf14: 'ITF-14',
+  codabar: 'Codabar',
+  datamatrix: 'Data Matrix',
+  pdf417: 'PDF417',
+  aztec: 'Aztec',
+};
+
+// Simbologías activas si el usuario no ha elegido otras
+export const DEFAULT_BARCODE_TYPES: readonly BarcodeType[] = ['qr', 'ean13', 'code128', 'datamatrix', 'pdf417', 'aztec'];
+
+// Nombres con los que cada plataforma informa del tipo (iOS: "org.iso.QRCode", web: "qr_code"...)
+const BARCODE_TYPE_ALIASES: Record<string, BarcodeType> = {
+  qrcode: 'qr',
+  ean13: 'ean13',
+  ean8: 'ean8',
+  upca: 'upc_a',
+  upce: 'upc_e',
+  code128: 'code128',
+  code39: 'code39',
+  code39mod43: 'code39',
+  code93: 'code93',
+  itf14: 'itf14',
+  itf: 'itf14',
+  interleaved2of5: 'itf14',
+  codabar: 'codabar',
+  datamatrix: 'datamatrix',
+  pdf417: 'pdf417',
+  aztec: 'aztec',
+};
+
+export const isBarcodeType = (value: unknown): value is BarcodeType =>
+  typeof value === 'string' && (BARCODE_TYPES as readonly string[]).includes(value);
+
+/**
+ * Convierte el tipo devuelto por la cámara al nombre común (qr, ean13, code128...).
+ * Los tipos desconocidos se conservan en minúsculas.
+ */
+export const normalizeBarcodeType = (type: string): string => {
+  const trimmed = type.trim();
+  if (isBarcodeType(trimmed)) return trimmed;
+  const key = trimmed.replace(/^org\.(iso|gs1|ansi)\./i, '').replace(/[^a-z0-9]/gi, '').toLowerCase();
+  return BARCODE_TYPE_ALIASES[key] ?? trimmed.toLowerCase();
+};
+
+/**
+ * Nombre legible de una simbología guardada (o el propio valor si no se conoce).
+ */
+export const getBarcodeTypeLabel = (type: string | null | undefined): string => {
+  if (!type) return BARCODE_TYPE_LABELS.qr;
+  return isBarcodeType(type) ? BARCODE_TYPE_LABELS[type] : type.toUpperCase();
+};
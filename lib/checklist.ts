@@ -0,0 +1,107 @@
+import * as Crypto from 'expo-crypto';
+import { getJSON, removeItem, setJSON } from '@/lib/deviceStorage';
+import {
+  ChecklistOutcome,
+  ChecklistProgress,
+  ChecklistSummary,
+  createChecklistProgress,
+  getChecklistSummary,
+  Manifest,
+  ManifestItem,
+  recordChecklistScan,
+} from '@/lib/manifest';
+
+// Lista de control activa en el dispositivo: como mucho una a la vez, con su progreso guardado aparte
+// para no reescribir la lista completa en cada lectura
+
+export interface ActiveChecklist {
+  manifest: Manifest;
+  progress: ChecklistProgress;
+}
+
+export interface ChecklistScanResult extends ActiveChecklist {
+  outcome: ChecklistOutcome;
+  item: ManifestItem | null;
+  summary: ChecklistSummary;
+}
+
+const MANIFEST_KEY = 'checklist_manifest';
+const PROGRESS_KEY = 'checklist_progress';
+
+let cachedChecklist: ActiveChecklist | null | undefined;
+
+/**
+ * Lista de control activa o null si no hay ninguna.
+ */
+export const getActiveChecklist = async (): Promise<ActiveChecklist | null> => {
+  if (cachedChecklist !== undefined) return cachedChecklist;
+
+  const manifest = await getJSON<Manifest>(MANIFEST_KEY);
+  if (!manifest || !Array.isArray(manifest.items)) {
+    cachedChecklist = null;
+    return null;
+  }
+  const stored = await getJSON<ChecklistProgress>(PROGRESS_KEY);
+  // Un progreso de otra lista (o dañado) se descarta
+  const progress =
+    stored?.manifest_id === manifest.id
+      ? { manifest_id: manifest.id, matched: stored.matched ?? {}, unexpected: stored.unexpected ?? {} }
+      : createChecklistProgress(manifest);
+  cachedChecklist = { manifest, progress };
+  return cachedChecklist;
+};
+
+/**
+ * Activa una lista de control nueva, sustituyendo a la anterior y a su progreso.
+ */
+export const startChecklist = async (name: string, items: ManifestItem[]): Promise<ActiveChecklist> => {
+  const manifest: Manifest = { id: Crypto.randomUUID(), name, items, created_at: Date.now() };
+  const checklist = { manifest, progress: createChecklistProgress(manifest) };
+  await setJSON(MANIFEST_KEY, manifest);
+  await setJSON(PROGRESS_KEY, checklist.progress);
+  cachedChecklist = checklist;
+  return checklist;
+};
+
+/**
+ * Anota un código leído en la lista activa.
+ * @returns El resultado de la lectura o null si no hay lista activa
+ */
+export const recordChecklistCode = async (
+  qrData: string,
+  at: number = Date.now()
+): Promise<ChecklistScanResult | null> => {
+  const checklist = await getActiveChecklist();
+  if (!checklist) return null;
+
+  const { progress, outcome, item } = recordChecklistScan(checklist.manifest, checklist.progress, qrData, at);
+  cachedChecklist = { manifest: checklist.manifest, progress };
+  await setJSON(PROGRESS_KEY, progress);
+  return {
+    ...cachedChecklist,
+    outcome,
+    item,
+    summary: getChecklistSummary(checklist.manifest, progress),
+  };
+};
+
+/**
+ * Vacía el progreso de la lista activa sin quitar la lista.
+ */
+export const resetChecklistProgress = async (): Promise<ActiveChecklist | null> => {
+  const checklist = await getActiveChecklist();
+  if (!checklist) return null;
+
+  cachedChecklist = { manifest: checklist.manifest, progress: createChecklistProgress(checklist.manifest) };
+  await setJSON(PROGRESS_KEY, cachedChecklist.progress);
+  return cachedChecklist;
+};
+
+/**
+ * Quita la lista activa y su progreso.
+ */
+export const closeChecklist = async (): Promise<void> => {
+  cachedChecklist = null;
+  await removeItem(MANIFEST_KEY);
+  await removeItem(PROGRESS_KEY);
+};
@@ -0,0 +1,96 @@
+import Constants from 'expo-constants';
+
+// Configuración del backend: perfiles definidos en app.json (extra.api)
+// y variables de entorno EXPO_PUBLIC_API_URL / EXPO_PUBLIC_API_PROFILE.
+// El almacenamiento de escaneos se elige con extra.storage o EXPO_PUBLIC_SCAN_STORAGE
+
+export type ApiProfile = 'local' | 'staging' | 'production';
+
+export const API_PROFILES: readonly ApiProfile[] = ['local', 'staging', 'production'];
+
+export const API_PROFILE_LABELS: Record<ApiProfile, string> = {
+  local: 'Local',
+  staging: 'Staging',
+  production: 'Producción',
+};
+
+interface ApiExtraConfig {
+  defaultProfile?: ApiProfile;
+  profiles?: Partial<Record<ApiProfile, string>>;
+}
+
+// Origen de la URL activa: variable de entorno, perfil o URL personalizada guardada en el dispositivo
+export type ApiUrlSource = 'env' | 'profile' | 'custom';
+
+export interface ApiSelection {
+  profile: ApiProfile | null;
+  url: string;
+  source: ApiUrlSource;
+}
+
+const FALLBACK_PROFILES: Record<ApiProfile, string> = {
+  local: 'http://localhost:8081',
+  staging: '',
+  production: '',
+};
+
+const getExtraConfig = (): ApiExtraConfig =>
+  (Constants.expoConfig?.extra?.api as ApiExtraConfig | undefined) ?? {};
+
+// Dónde se guardan los escaneos: solo en el dispositivo, solo en el servidor, en el dispositivo
+// sincronizado con el servidor (por defecto) o en memoria (pruebas)
+export type StorageMode = 'local' | 'remote' | 'hybrid' | 'memory';
+
+export const STORAGE_MODES: readonly StorageMode[] = ['local', 'remote', 'hybrid', 'memory'];
+
+export const isStorageMode = (value: unknown): value is StorageMode =>
+  typeof value === 'string' && (STORAGE_MODES as readonly string[]).includes(value);
+
+/**
+ * Almacenamiento de escaneos configurado: variable de entorno, app.json o híbrido por defecto.
+ */
+export const getStorageMode = (): StorageMode => {
+  const envMode = process.env.EXPO_PUBLIC_SCAN_STORAGE;
+  if (isStorageMode(envMode)) return envMode;
+  const configured = Constants.expoConfig?.extra?.storage;
+  return isStorageMode(configured) ? configured : 'hybrid';
+};
+
+// Los almacenamientos que usan el web service necesitan una sesión de usuario
+export const requiresLogin = (mode: StorageMode): boolean => mode === 'remote' || mode === 'hybrid';
+
+export const isApiProfile = (value: unknown): value is ApiProfile =>
+  typeof value === 'string' && (API_PROFILES as readonly string[]).includes(value);
+
+export const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+export const isValidBaseUrl = (url: string): boolean => /^https?:\/\/[^\s/]+/i.test(url.trim());
+
+/**
+ * URL del perfil indicado. El perfil local usa el host del servidor de desarrollo
+ * de Expo cuando está disponible, ya que es quien sirve las rutas de API.
+ */
+export const getProfileUrl = (profile: ApiProfile): string => {
+  if (profile === 'local' && Constants.expoConfig?.hostUri) {
+    return normalizeBaseUrl(`http://${Constants.expoConfig.hostUri}`);
+  }
+  const configured = getExtraConfig().profiles?.[profile] ?? FALLBACK_PROFILES[profile];
+  return normalizeBaseUrl(configured);
+};
+
+/**
+ * Selección por defecto antes de aplicar cualquier ajuste guardado en el dispositivo.
+ */
+export const getDefaultApiSelection = (): ApiSelection => {
+  const envUrl = process.env.EXPO_PUBLIC_API_URL;
+  if (envUrl && isValidBaseUrl(envUrl)) {
+    return { profile: null, url: normalizeBaseUrl(envUrl), source: 'env' };
+  }
+
+  const envProfile = process.env.EXPO_PUBLIC_API_PROFILE;
+  const profile = isApiProfile(envProfile)
+    ? envProfile
+    : getExtraConfig().defaultProfile ?? 'local';
+
+  return { profile, url: getProfileUrl(profile), source: 'profile' };
+};
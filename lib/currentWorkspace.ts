@@ -0,0 +1,79 @@
+import { auth } from '@/lib/auth';
+import { getJSON, removeItem, setJSON } from '@/lib/deviceStorage';
+import type { WorkspaceRole, WorkspaceSummary } from '@/lib/workspaces';
+
+// Espacio de trabajo elegido en la app: los escaneos nuevos se guardan en él y el historial, el mapa y
+// las etiquetas muestran los suyos. Sin elegir ninguno se usan los escaneos personales. La elección se
+// guarda en el dispositivo junto con el usuario que la hizo y no se aplica si inicia sesión otro
+
+const CURRENT_WORKSPACE_KEY = 'current_workspace';
+
+export interface CurrentWorkspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+interface StoredWorkspaceSelection extends CurrentWorkspace {
+  user_id: string;
+}
+
+type WorkspaceListener = (workspace: CurrentWorkspace | null) => void;
+
+let selection: StoredWorkspaceSelection | null = null;
+let loading: Promise<void> | null = null;
+const listeners = new Set<WorkspaceListener>();
+
+/**
+ * Carga del dispositivo el espacio de trabajo elegido (solo la primera vez).
+ */
+export const loadCurrentWorkspace = async (): Promise<CurrentWorkspace | null> => {
+  loading ??= getJSON<StoredWorkspaceSelection>(CURRENT_WORKSPACE_KEY).then(stored => {
+    selection ??= stored;
+  });
+  await loading;
+  return getCurrentWorkspace();
+};
+
+/**
+ * Espacio de trabajo elegido por el usuario con sesión, o null si usa sus escaneos personales.
+ */
+export const getCurrentWorkspace = (): CurrentWorkspace | null => {
+  const userId = auth.getSession()?.user.id;
+  if (!selection || selection.user_id !== userId) return null;
+  const { user_id, ...workspace } = selection;
+  return workspace;
+};
+
+// ID para las consultas de escaneos (null: escaneos personales)
+export const getCurrentWorkspaceId = (): string | null => getCurrentWorkspace()?.id ?? null;
+
+/**
+ * Cambia de espacio de trabajo (null para volver a los escaneos personales) y avisa a los suscriptores.
+ */
+export const setCurrentWorkspace = async (
+  workspace: Pick<WorkspaceSummary, 'id' | 'name' | 'role'> | null
+): Promise<void> => {
+  const userId = auth.getSession()?.user.id;
+  selection = workspace && userId
+    ? { id: workspace.id, name: workspace.name, role: workspace.role, user_id: userId }
+    : null;
+  if (selection) {
+    await setJSON(CURRENT_WORKSPACE_KEY, selection);
+  } else {
+    await removeItem(CURRENT_WORKSPACE_KEY);
+  }
+  const current = getCurrentWorkspace();
+  listeners.forEach(listener => listener(current));
+};
+
+/**
+ * Suscribe una función a los cambios de espacio de trabajo.
+ * @returns Función para cancelar la suscripción
+ */
+export const subscribeToWorkspace = (listener: WorkspaceListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -1,123 +1,1052 @@
-import { Platform } from 'react-native';
-
-// Interfaz para el registro de escaneos QR
-export interface ScanRecord {
-  id: number;
-  qr_data: string;        // Datos del código QR escaneado
-  latitude: number | null;  // Coordenada de latitud (si está disponible)
-  longitude: number | null; // Coordenada de longitud (si está disponible)
-  altitude: number | null;  // Altitud (si está disponible)
-  accuracy: number | null;  // Precisión de la ubicación (si está disponible)
-  timestamp: number;      // Marca de tiempo del escaneo (puede ser UNIX timestamp)
-  created_at: string;     // Fecha de creación en formato ISO (gestionada por el backend)
-}
+import { AppState, Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { getScanAnnotations, normalizeAnnotationChanges, ScanAnnotationChanges, TagCount } from '@/lib/annotations';
+import { auth } from '@/lib/auth';
+import {
+  ApiProfile,
+  ApiSelection,
+  getDefaultApiSelection,
+  getProfileUrl,
+  getStorageMode,
+  isApiProfile,
+  isValidBaseUrl,
+  normalizeBaseUrl,
+} from '@/lib/config';
+import { getCurrentWorkspaceId, loadCurrentWorkspace, subscribeToWorkspace } from '@/lib/currentWorkspace';
+import { getJSON, removeItem, setJSON } from '@/lib/deviceStorage';
+import { decideDuplicate, DuplicateSettings } from '@/lib/duplicates';
+import { ImportRow, ImportRowResult, ImportSummary, summarizeImport, validateImportRows } from '@/lib/importScans';
+import {
+  deleteRemoteScan,
+  deleteRemoteSession,
+  deleteRemoteZone,
+  fetchAllPages,
+  fetchScan,
+  fetchScans,
+  fetchSessions,
+  fetchTags,
+  fetchZones,
+  HttpError,
+  isRetryableStatus,
+  patchScan,
+  postBulk,
+  postScan,
+  postSightings,
+  putSession,
+  putZone,
+} from '@/lib/scanApi';
+import { ScanEventStream, ScanFeedListener } from '@/lib/scanEventStream';
+import type { NewScan, ScanRecord } from '@/lib/scanRecord';
+import type {
+  RegisterScanResult,
+  ScanListPage,
+  ScanRepository,
+  SessionChanges,
+  SyncListener,
+  SyncSummary,
+  ZoneChanges,
+} from '@/lib/scanRepository';
+import * as localStore from '@/lib/scanStore';
+import { MAX_BULK_SIZE } from '@/lib/server/validation';
+import type { ScanQuery, ScanSession } from '@/lib/scanStore';
+import { getExpectedZoneId, Zone, ZoneShape } from '@/lib/zones';
+
+const API_SETTINGS_KEY = 'api_settings';
+// Usuario al que pertenecen los datos guardados en el dispositivo
+const LOCAL_DATA_OWNER_KEY = 'local_data_owner';
+const CONNECTION_TIMEOUT_MS = 5000;
+
+// Reintentos de sincronización con backoff exponencial
+const SYNC_BASE_DELAY_MS = 5000;
+const SYNC_MAX_DELAY_MS = 5 * 60 * 1000;
+const SYNC_MAX_ATTEMPTS = 10;
+
+const getRetryDelay = (attempts: number): number =>
+  Math.min(SYNC_BASE_DELAY_MS * 2 ** (attempts - 1), SYNC_MAX_DELAY_MS);
 
-const API_BASE_URL = 'http://192.168.1.183:3000'; 
+// Clave de idempotencia con la que se envía un escaneo de la cola: el ID local no cambia entre reintentos
+// y, junto con el momento de la lectura, no se repite aunque se reutilice el ID tras borrar los datos
+const getIdempotencyKey = (scan: Pick<ScanRecord, 'id' | 'timestamp'>): string => `scan-${scan.id}-${scan.timestamp}`;
 
-// Clase ApiService que se comunica con el backend remoto
-class ApiService {
+// Ajuste guardado en el dispositivo que sustituye a la configuración por defecto
+type StoredApiSettings =
+  | { type: 'profile'; profile: ApiProfile }
+  | { type: 'custom'; url: string };
+
+export interface ApiStatus extends ApiSelection {
+  reachable: boolean | null; // null mientras no se haya comprobado
+  lastCheckedAt: number | null;
+}
+
+// Clase ApiService que se comunica con el backend remoto. Como almacenamiento de escaneos es el
+// modo híbrido: guarda en el dispositivo y sincroniza con el web service mediante una cola
+class ApiService implements ScanRepository {
   private initialized: boolean = false;
+  private selection: ApiSelection = getDefaultApiSelection();
+  private reachable: boolean | null = null;
+  private lastCheckedAt: number | null = null;
+  private syncing: boolean = false;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncListeners = new Set<SyncListener>();
+  private scanFeedListeners = new Set<ScanFeedListener>();
+  private scanEvents: ScanEventStream | null = null;
+  private scanEventsKey: string | null = null;
+  private localDataOwner: { userId: string; ready: Promise<void> } | null = null;
 
+  private get baseUrl(): string {
+    return this.selection.url;
+  }
+
+  /**
+   * Carga la URL del backend (ajuste del dispositivo, entorno o app.json) y la sesión
+   * del usuario, y comprueba si el servidor es accesible. Si los datos del dispositivo son
+   * de otro usuario, los borra.
+   */
   async init(): Promise<void> {
     if (!this.initialized) {
-      console.log('API Service initialized, connecting to:', API_BASE_URL);
       this.initialized = true;
+      this.watchConnectivity();
+      await this.loadStoredSettings();
+      await auth.init();
+      await loadCurrentWorkspace();
+      // Los escaneos guardados sin sesión se envían en cuanto el usuario la inicia
+      auth.subscribe(session => {
+        if (session) void this.syncPending({ force: true });
+        this.updateScanEventStream();
+      });
+      subscribeToWorkspace(() => this.updateScanEventStream());
+      this.updateScanEventStream();
+      const reachable = await this.checkConnection();
+      console.log(
+        `API Service initialized, connecting to: ${this.baseUrl} (${reachable ? 'accesible' : 'no accesible'})`
+      );
+    }
+    await this.claimLocalData();
+  }
+
+  // Los escaneos, la cola, las sesiones y las zonas del dispositivo son del último usuario que inició
+  // sesión en él. Si la inicia otro, se borran para que no los vea ni los envíe con su cuenta; los
+  // guardados antes de recordar el usuario pasan al primero que inicie sesión. En los modos local y
+  // remoto el almacenamiento del dispositivo no depende de la cuenta
+  private claimLocalData(): Promise<void> {
+    const userId = auth.getSession()?.user.id;
+    if (!userId || getStorageMode() !== 'hybrid') return Promise.resolve();
+    if (this.localDataOwner?.userId !== userId) {
+      const ready = (async () => {
+        const owner = await getJSON<string>(LOCAL_DATA_OWNER_KEY);
+        if (owner === userId) return;
+        if (owner !== null) {
+          console.warn('Se borran los datos del dispositivo del usuario anterior');
+          await localStore.clearLocalData();
+        }
+        await setJSON(LOCAL_DATA_OWNER_KEY, userId);
+      })();
+      this.localDataOwner = { userId, ready };
+      // Si falla, el siguiente intento vuelve a comprobarlo
+      ready.catch(() => {
+        if (this.localDataOwner?.ready === ready) this.localDataOwner = null;
+      });
+    }
+    return this.localDataOwner!.ready;
+  }
+
+  /**
+   * Estado actual de la conexión con el backend.
+   */
+  getStatus(): ApiStatus {
+    return {
+      ...this.selection,
+      reachable: this.reachable,
+      lastCheckedAt: this.lastCheckedAt,
+    };
+  }
+
+  /**
+   * Verdadero si la última comprobación del servidor falló: lo nuevo se queda en la cola.
+   */
+  isOffline(): boolean {
+    return this.reachable === false;
+  }
+
+  /**
+   * Comprueba que el servidor responde en /health.
+   * @returns Verdadero si el servidor es accesible
+   */
+  async checkConnection(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CONNECTION_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${this.baseUrl}/health`, { signal: controller.signal });
+      this.reachable = response.ok;
+      if (this.reachable) {
+        void this.syncPending({ force: true });
+      }
+    } catch (error) {
+      console.warn('Backend no accesible:', this.baseUrl, error);
+      this.reachable = false;
+    } finally {
+      clearTimeout(timeout);
+      this.lastCheckedAt = Date.now();
     }
+    return this.reachable;
+  }
+
+  /**
+   * Cambia al perfil indicado y guarda la elección en el dispositivo.
+   */
+  async useProfile(profile: ApiProfile): Promise<ApiStatus> {
+    await setJSON(API_SETTINGS_KEY, { type: 'profile', profile } satisfies StoredApiSettings);
+    this.selection = { profile, url: getProfileUrl(profile), source: 'profile' };
+    this.updateScanEventStream();
+    await this.checkConnection();
+    return this.getStatus();
   }
 
   /**
-   * Obtiene todos los escaneos desde el web service.
+   * Usa una URL personalizada y la guarda en el dispositivo.
    */
-  async getScans(): Promise<ScanRecord[]> {
+  async useCustomUrl(url: string): Promise<ApiStatus> {
+    if (!isValidBaseUrl(url)) {
+      throw new Error(`URL de backend inválida: ${url}`);
+    }
+    const normalized = normalizeBaseUrl(url);
+    await setJSON(API_SETTINGS_KEY, { type: 'custom', url: normalized } satisfies StoredApiSettings);
+    this.selection = { profile: null, url: normalized, source: 'custom' };
+    this.updateScanEventStream();
+    await this.checkConnection();
+    return this.getStatus();
+  }
+
+  /**
+   * Elimina el ajuste del dispositivo y vuelve a la configuración por defecto.
+   */
+  async resetApiSettings(): Promise<ApiStatus> {
+    await removeItem(API_SETTINGS_KEY);
+    this.selection = getDefaultApiSelection();
+    this.updateScanEventStream();
+    await this.checkConnection();
+    return this.getStatus();
+  }
+
+  private async loadStoredSettings(): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/scans`);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status} - ${response.statusText}`);
+      const stored = await getJSON<StoredApiSettings>(API_SETTINGS_KEY);
+      if (stored?.type === 'profile' && isApiProfile(stored.profile)) {
+        this.selection = { profile: stored.profile, url: getProfileUrl(stored.profile), source: 'profile' };
+      } else if (stored?.type === 'custom' && isValidBaseUrl(stored.url)) {
+        this.selection = { profile: null, url: normalizeBaseUrl(stored.url), source: 'custom' };
       }
-      const data: ScanRecord[] = await response.json();
-      return data;
     } catch (error) {
-      console.error('Error fetching scans:', error);
-      throw error; 
+      console.error('Error al cargar la configuración del backend:', error);
     }
   }
 
   /**
-   * Añade un nuevo escaneo QR al web service.
-   * @param scanData Datos del escaneo (sin ID ni fecha de creación, los asigna el backend)
-   * @returns ID del nuevo escaneo asignado por el servidor
+   * Obtiene una página de escaneos del web service. En la primera página se añaden
+   * los escaneos de este dispositivo que aún no se han sincronizado.
+   * Sin conexión, la consulta se resuelve contra el almacenamiento local.
+   * Si no se indica workspaceId se usan los escaneos del espacio de trabajo elegido.
+   * @param query Filtros, orden y paginación
    */
-  async addScan(scanData: Omit<ScanRecord, 'id' | 'created_at'>): Promise<number> {
+  async getScans(query: ScanQuery = {}): Promise<ScanListPage> {
+    query = { workspaceId: getCurrentWorkspaceId(), ...query };
+    const offset = query.offset ?? 0;
+
+    let remotePage: ScanListPage;
     try {
-      const response = await fetch(`${API_BASE_URL}/scans`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          qr_data: scanData.qr_data,
-          latitude: scanData.latitude,
-          longitude: scanData.longitude,
-          altitude: scanData.altitude,
-          accuracy: scanData.accuracy,
-          timestamp: scanData.timestamp, 
-        }),
-      });
+      remotePage = await fetchScans(this.baseUrl, query);
+    } catch (error) {
+      console.warn('Servidor no accesible, mostrando escaneos locales:', error);
+      return this.getLocalScans(query);
+    }
+
+    // Escaneos locales (todas las páginas y sin agrupar) para relacionar IDs y añadir los no enviados
+    const [localScans, entries] = await Promise.all([
+      this.getLocalScans({ ...query, groupByData: false, limit: undefined, offset: 0 }).then(page => page.items),
+      localStore.getSyncEntries(),
+    ]);
+    const uploadedLocalIds = new Set(entries.filter(entry => entry.remote_id !== null).map(entry => entry.scan_id));
+    const notUploaded = localScans.filter(scan => !uploadedLocalIds.has(scan.local_id!));
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
+    // Relacionar los escaneos remotos con su copia local (si se hicieron en este dispositivo);
+    // la copia local puede tener lecturas repetidas pendientes de enviar
+    const localByRemoteId = new Map<number, ScanRecord>();
+    localScans.forEach(scan => {
+      if (uploadedLocalIds.has(scan.local_id!)) {
+        localByRemoteId.set(scan.id, scan);
       }
-      const newScan: ScanRecord = await response.json();
-      return newScan.id;
+    });
+
+    // Las ediciones hechas en el dispositivo y aún no enviadas tienen prioridad sobre el servidor
+    const editedLocalIds = new Set(entries.filter(entry => entry.pending_changes > 0).map(entry => entry.scan_id));
+
+    const remoteItems = remotePage.items.map(scan => {
+      const local = localByRemoteId.get(scan.id);
+      return {
+        ...scan,
+        ...(local && editedLocalIds.has(local.local_id!) ? getScanAnnotations(local) : {}),
+        sync_status: local?.sync_status ?? ('synced' as const),
+        local_id: local?.local_id,
+      };
+    });
+
+    if (offset !== 0) {
+      return { items: remoteItems, total: remotePage.total, nextOffset: remotePage.nextOffset };
+    }
+
+    if (query.groupByData) {
+      // Los escaneos sin enviar se suman a su grupo si aparece en esta página
+      const items = localStore.groupScans([...remoteItems, ...notUploaded])
+        .sort(localStore.compareScans(query.sort, query.order));
+      return {
+        items,
+        total: remotePage.total + (items.length - remoteItems.length),
+        nextOffset: remotePage.nextOffset,
+      };
+    }
+
+    return {
+      items: [...notUploaded, ...remoteItems].sort(localStore.compareScans(query.sort, query.order)),
+      total: remotePage.total + notUploaded.length,
+      nextOffset: remotePage.nextOffset,
+    };
+  }
+
+  /**
+   * Obtiene todos los escaneos que cumplen la consulta, recorriendo todas las páginas.
+   * @param query Filtros y orden (se ignoran limit y offset)
+   */
+  getAllScans(query: ScanQuery = {}): Promise<ScanRecord[]> {
+    return fetchAllPages(page => this.getScans(page), query);
+  }
+
+  /**
+   * Guarda un nuevo escaneo en el dispositivo y lo encola para enviarlo al web service.
+   * El guardado no depende de la conexión: si el servidor no responde se reintenta más tarde.
+   * Sin workspace_id, el escaneo se guarda en el espacio de trabajo elegido.
+   * @param scanData Datos del escaneo (sin ID ni fecha de creación)
+   * @returns ID local del nuevo escaneo
+   */
+  async addScan(scanData: NewScan): Promise<number> {
+    const localId = await localStore.addScan({
+      ...scanData,
+      workspace_id: scanData.workspace_id ?? getCurrentWorkspaceId(),
+    });
+    await localStore.saveSyncEntry({
+      scan_id: localId,
+      status: 'pending',
+      remote_id: null,
+      attempts: 0,
+      next_attempt_at: null,
+      last_error: null,
+      pending_sightings: 0,
+      pending_changes: 0,
+      sending_sightings: 0,
+      sending_key: null,
+    });
+    this.notifySyncListeners();
+
+    // Intentar enviarlo en segundo plano
+    void this.syncPending();
+    return localId;
+  }
+
+  /**
+   * Registra una lectura aplicando la política de códigos repetidos: la compara con la
+   * última lectura del mismo código en este dispositivo y la guarda, la ignora o la suma
+   * al registro existente (que se vuelve a encolar para enviar la nueva lectura).
+   * @param scanData Datos del escaneo
+   * @param duplicates Política de repetidos
+   */
+  async registerScan(scanData: NewScan, duplicates: DuplicateSettings): Promise<RegisterScanResult> {
+    // Dentro de una sesión solo cuentan como repetidas las lecturas de esa misma sesión
+    const previous = duplicates.policy === 'always'
+      ? null
+      : await localStore.findLatestScanByData(scanData.qr_data, scanData.session_id);
+    const expectedZoneId = getExpectedZoneId(scanData, await localStore.findLatestZoneIdByData(scanData.qr_data));
+
+    switch (decideDuplicate(previous, scanData, duplicates)) {
+      case 'ignore':
+        return { outcome: 'ignored', localId: previous!.id, scanCount: previous!.scan_count ?? 1, expectedZoneId };
+      case 'increment': {
+        await localStore.recordSighting(previous!.id, scanData.timestamp);
+        const entry = await localStore.getSyncEntry(previous!.id);
+        await localStore.saveSyncEntry({
+          scan_id: previous!.id,
+          remote_id: entry?.remote_id ?? null,
+          status: 'pending',
+          attempts: 0,
+          next_attempt_at: null,
+          last_error: null,
+          pending_sightings: (entry?.pending_sightings ?? 0) + 1,
+          pending_changes: entry?.pending_changes ?? 0,
+          sending_sightings: entry?.sending_sightings ?? 0,
+          sending_key: entry?.sending_key ?? null,
+        });
+        this.notifySyncListeners();
+        void this.syncPending();
+        return {
+          outcome: 'incremented',
+          localId: previous!.id,
+          scanCount: (previous!.scan_count ?? 1) + 1,
+          expectedZoneId,
+        };
+      }
+      default: {
+        const localId = await this.addScan(scanData);
+        return { outcome: 'recorded', localId, scanCount: 1, expectedZoneId };
+      }
+    }
+  }
+
+  /**
+   * Importa escaneos de una copia de seguridad. Cada fila se valida como en POST /scans y se
+   * omiten las que ya existen con el mismo qr_data y timestamp. Con conexión se envían en
+   * lotes a POST /scans/bulk; sin ella se guardan en el dispositivo (comprobando repetidos solo
+   * contra los escaneos locales) y se sincronizan con la cola como cualquier otro escaneo.
+   * Los escaneos se importan en el espacio de trabajo elegido.
+   * @param rows Filas leídas con readImportFile
+   * @returns Resumen con el resultado de cada fila
+   */
+  async importScans(rows: ImportRow[]): Promise<ImportSummary> {
+    const workspaceId = getCurrentWorkspaceId();
+    const validated = validateImportRows(rows);
+    const valid = validated.valid.map(item => ({ ...item, scan: { ...item.scan, workspace_id: workspaceId } }));
+    const invalid = validated.invalid;
+    const results: ImportRowResult[] = [...invalid];
+
+    let queued = false;
+    for (let start = 0; start < valid.length; start += MAX_BULK_SIZE) {
+      const batch = valid.slice(start, start + MAX_BULK_SIZE);
+
+      if (!queued) {
+        try {
+          const response = await postBulk(this.baseUrl, batch.map(item => item.scan));
+          response.results.forEach(item => {
+            const { row } = batch[item.index];
+            results.push(item.status === 'invalid'
+              ? { row, status: 'invalid', errors: item.errors }
+              : { row, status: item.status, id: item.id });
+          });
+          continue;
+        } catch (error) {
+          // Si el servidor rechaza el lote no tiene sentido guardarlo para reenviarlo después
+          if (error instanceof HttpError && !isRetryableStatus(error.status)) throw error;
+          console.warn('Servidor no accesible, importando en el dispositivo:', error);
+          queued = true;
+        }
+      }
+
+      const saved = await localStore.addScansIfNew(batch.map(item => item.scan));
+      for (const [position, { id, inserted }] of saved.entries()) {
+        if (inserted) {
+          await localStore.saveSyncEntry({
+            scan_id: id,
+            status: 'pending',
+            remote_id: null,
+            attempts: 0,
+            next_attempt_at: null,
+            last_error: null,
+            pending_sightings: 0,
+            pending_changes: 0,
+            sending_sightings: 0,
+            sending_key: null,
+          });
+        }
+        results.push({ row: batch[position].row, status: inserted ? 'inserted' : 'skipped', id });
+      }
+    }
+
+    if (queued) {
+      this.notifySyncListeners();
+      void this.syncPending();
+    }
+    return summarizeImport(results, queued);
+  }
+
+  /**
+   * Elimina un escaneo. Los que aún no se han sincronizado solo existen en el
+   * dispositivo; el resto se eliminan del web service (y de la copia local).
+   * @param scan Escaneo a eliminar
+   * @returns Verdadero si se eliminó correctamente, falso si no existía
+   */
+  async deleteScan(scan: Pick<ScanRecord, 'id' | 'sync_status' | 'local_id'>): Promise<boolean> {
+    // Un escaneo pendiente puede estar ya en el servidor si solo le faltan lecturas repetidas
+    const entry = scan.local_id !== undefined ? await localStore.getSyncEntry(scan.local_id) : null;
+    if ((scan.sync_status === 'pending' || scan.sync_status === 'failed') && entry?.remote_id == null) {
+      const deleted = await localStore.deleteScan(scan.local_id ?? scan.id);
+      this.notifySyncListeners();
+      return deleted;
+    }
+
+    try {
+      const deleted = await deleteRemoteScan(this.baseUrl, scan.id);
+      if (scan.local_id !== undefined) {
+        await localStore.deleteScan(scan.local_id);
+      }
+      return deleted;
     } catch (error) {
-      console.error('Error adding scan:', error);
+      console.error('Error deleting scan:', error);
       throw error;
     }
   }
 
   /**
-   * Elimina un escaneo por su ID del web service.
-   * @param id ID del escaneo a eliminar
-   * @returns Verdadero si se eliminó correctamente
+   * Cambia las notas, etiquetas o estado de un escaneo. En los escaneos hechos en este dispositivo
+   * el cambio se guarda en la copia local y se envía con la cola de sincronización, así que también
+   * funciona sin conexión; los que solo existen en el servidor se modifican directamente.
+   * @param scan Escaneo a modificar
+   * @param changes Campos a cambiar (los ausentes se conservan)
+   * @returns El escaneo con los cambios aplicados
    */
-  async deleteScan(id: number): Promise<boolean> {
+  async updateScan(scan: ScanRecord, changes: ScanAnnotationChanges): Promise<ScanRecord> {
+    const normalized = normalizeAnnotationChanges(changes);
+
+    if (scan.local_id === undefined) {
+      const remote = await patchScan(this.baseUrl, scan.id, normalized);
+      return { ...scan, ...remote, sync_status: 'synced' };
+    }
+
+    const updated = await localStore.updateScanAnnotations(scan.local_id, normalized);
+    if (!updated) {
+      throw new Error(`El escaneo ${scan.local_id} ya no existe en el dispositivo`);
+    }
+
+    // Los escaneos que aún no se han enviado llevan los cambios al enviarse
+    const entry = await localStore.getSyncEntry(scan.local_id);
+    if (entry?.remote_id == null) {
+      return { ...scan, ...normalized };
+    }
+    await localStore.saveSyncEntry({
+      ...entry,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: null,
+      last_error: null,
+      pending_changes: entry.pending_changes + 1,
+    });
+    this.notifySyncListeners();
+    void this.syncPending();
+    return { ...scan, ...normalized, sync_status: 'pending' };
+  }
+
+  /**
+   * Etiquetas usadas en los escaneos, de la más frecuente a la menos, para ofrecerlas como
+   * filtros y sugerencias (las del espacio de trabajo elegido). Sin conexión se devuelven las
+   * de los escaneos del dispositivo.
+   */
+  async getTags(): Promise<TagCount[]> {
+    const workspaceId = getCurrentWorkspaceId();
+    try {
+      return await fetchTags(this.baseUrl, workspaceId);
+    } catch (error) {
+      console.warn('Servidor no accesible, mostrando etiquetas locales:', error);
+      return localStore.getTagCounts({ workspaceId });
+    }
+  }
+
+  /**
+   * Envía al web service los escaneos pendientes cuyo reintento ya ha vencido.
+   * Sin sesión no se envía nada: la cola espera a que el usuario la inicie.
+   * @param options force ignora el backoff (por ejemplo, al recuperar la conexión)
+   */
+  async syncPending(options: { force?: boolean } = {}): Promise<void> {
+    if (this.syncing || !auth.getSession()) return;
+    this.syncing = true;
+    this.notifySyncListeners();
+
     try {
-      const response = await fetch(`${API_BASE_URL}/scans/${id}`, {
-        method: 'DELETE',
+      // Nunca se envían con esta sesión los datos que otro usuario dejó en el dispositivo
+      await this.claimLocalData();
+      await this.pushPendingSessions();
+      await this.pushPendingZones();
+
+      const entries = await localStore.getSyncEntries(['pending']);
+      const now = Date.now();
+
+      for (const entry of entries) {
+        if (!options.force && entry.next_attempt_at !== null && entry.next_attempt_at > now) {
+          continue;
+        }
+
+        const scan = await localStore.getScanById(entry.scan_id);
+        if (!scan) continue;
+
+        try {
+          // Los escaneos ya enviados solo tienen pendientes sus ediciones y lecturas repetidas.
+          // Las ediciones van primero porque PATCH se puede repetir sin efectos si fallan las lecturas
+          let remoteId = entry.remote_id;
+          let sentSightings = entry.pending_sightings;
+          if (remoteId === null) {
+            remoteId = (await postScan(this.baseUrl, scan, getIdempotencyKey(scan))).id;
+          } else {
+            if (entry.pending_changes > 0) {
+              await patchScan(this.baseUrl, remoteId, getScanAnnotations(scan));
+            }
+            if (entry.pending_sightings > 0) {
+              // El lote y su clave se guardan antes de enviarlo: si se pierde la respuesta, el reintento
+              // repite el mismo número de lecturas con la misma clave aunque se hayan sumado más mientras tanto
+              let sendingKey = entry.sending_key;
+              sentSightings = entry.sending_sightings;
+              if (sendingKey === null || sentSightings === 0) {
+                sendingKey = `sightings-${Crypto.randomUUID()}`;
+                sentSightings = entry.pending_sightings;
+                const latest = (await localStore.getSyncEntry(entry.scan_id)) ?? entry;
+                await localStore.saveSyncEntry({
+                  ...latest,
+                  sending_sightings: sentSightings,
+                  sending_key: sendingKey,
+                });
+              }
+              const seenAt = scan.last_seen_at ?? scan.timestamp;
+              await postSightings(this.baseUrl, remoteId, sentSightings, seenAt, sendingKey);
+            }
+          }
+
+          // Las lecturas y ediciones registradas mientras se enviaba quedan pendientes para la próxima vez
+          const latest = (await localStore.getSyncEntry(entry.scan_id)) ?? entry;
+          const remaining = Math.max(latest.pending_sightings - sentSightings, 0);
+          const remainingChanges = Math.max(latest.pending_changes - entry.pending_changes, 0);
+          await localStore.saveSyncEntry({
+            ...latest,
+            status: remaining > 0 || remainingChanges > 0 ? 'pending' : 'synced',
+            remote_id: remoteId,
+            next_attempt_at: null,
+            last_error: null,
+            pending_sightings: remaining,
+            pending_changes: remainingChanges,
+            sending_sightings: 0,
+            sending_key: null,
+          });
+        } catch (error) {
+          // La sesión ha caducado: el escaneo sigue pendiente hasta que se vuelva a iniciar
+          if (error instanceof HttpError && error.status === 401) break;
+
+          const attempts = entry.attempts + 1;
+          const rejected = error instanceof HttpError && !isRetryableStatus(error.status);
+          const failed = rejected || attempts >= SYNC_MAX_ATTEMPTS;
+
+          // Se conservan el lote en envío y las lecturas registradas mientras tanto
+          const latest = (await localStore.getSyncEntry(entry.scan_id)) ?? entry;
+          await localStore.saveSyncEntry({
+            ...latest,
+            status: failed ? 'failed' : 'pending',
+            attempts,
+            next_attempt_at: failed ? null : Date.now() + getRetryDelay(attempts),
+            last_error: error instanceof Error ? error.message : String(error),
+          });
+
+          // Si el fallo es de red, el resto de la cola fallaría igual
+          if (!rejected) break;
+        }
+      }
+    } catch (error) {
+      console.error('Error al sincronizar escaneos pendientes:', error);
+    } finally {
+      this.syncing = false;
+      await this.scheduleNextSync();
+      this.notifySyncListeners();
+    }
+  }
+
+  /**
+   * Vuelve a poner en cola los escaneos cuya sincronización falló y los reintenta.
+   */
+  async retryFailed(): Promise<void> {
+    const failed = await localStore.getSyncEntries(['failed']);
+    for (const entry of failed) {
+      await localStore.saveSyncEntry({ ...entry, status: 'pending', attempts: 0, next_attempt_at: null });
+    }
+    await this.syncPending({ force: true });
+  }
+
+  /**
+   * Número de escaneos pendientes y fallidos en la cola de sincronización.
+   */
+  async getSyncSummary(): Promise<SyncSummary> {
+    const entries = await localStore.getSyncEntries(['pending', 'failed']);
+    return {
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      failed: entries.filter(entry => entry.status === 'failed').length,
+      syncing: this.syncing,
+    };
+  }
+
+  /**
+   * Suscribe una función a los cambios de la cola de sincronización.
+   * @returns Función para cancelar la suscripción
+   */
+  subscribeToSync(listener: SyncListener): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Suscribe una función a los cambios en los escaneos del servidor (los de este y otros dispositivos)
+   * del espacio de trabajo actual. La conexión se abre con el primer suscriptor, se cierra con el último
+   * y se reabre al cambiar de sesión, backend o espacio de trabajo.
+   * @returns Función para cancelar la suscripción
+   */
+  subscribeToScanEvents(listener: ScanFeedListener): () => void {
+    this.scanFeedListeners.add(listener);
+    this.updateScanEventStream();
+    return () => {
+      this.scanFeedListeners.delete(listener);
+      this.updateScanEventStream();
+    };
+  }
+
+  // Conexión de eventos que corresponde a los suscriptores, la sesión, el backend y el espacio de trabajo
+  // actuales; las renovaciones del token no la cambian
+  private updateScanEventStream(): void {
+    const session = auth.getSession();
+    const workspaceId = getCurrentWorkspaceId();
+    const url = session && session.baseUrl === this.baseUrl && this.scanFeedListeners.size > 0
+      ? `${this.baseUrl}/scans/events${workspaceId ? `?workspace_id=${encodeURIComponent(workspaceId)}` : ''}`
+      : null;
+    const key = session && url ? `${session.user.id} ${url}` : null;
+    if (key === this.scanEventsKey) return;
+
+    this.scanEvents?.stop();
+    this.scanEvents = null;
+    this.scanEventsKey = key;
+    if (url) {
+      this.scanEvents = new ScanEventStream(url, message => {
+        this.scanFeedListeners.forEach(listener => listener(message));
       });
-      if (!response.ok) {
-        if (response.status === 204) {
-          return true; 
+      this.scanEvents.start();
+    }
+  }
+
+  private notifySyncListeners(): void {
+    if (this.syncListeners.size === 0) return;
+    this.getSyncSummary()
+      .then(summary => this.syncListeners.forEach(listener => listener(summary)))
+      .catch(error => console.error('Error al notificar el estado de sincronización:', error));
+  }
+
+  private async scheduleNextSync(): Promise<void> {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    const pending = await localStore.getSyncEntries(['pending']);
+    if (pending.length === 0) {
+      // Las sesiones y zonas pendientes se reintentan aunque no haya escaneos en cola
+      const [sessions, zones] = await Promise.all([localStore.getSessions(), localStore.getZones()]);
+      if ([...sessions, ...zones].some(item => item.sync_status === 'pending' || item.sync_status === 'modified')) {
+        this.syncTimer = setTimeout(() => {
+          this.syncTimer = null;
+          void this.syncPending();
+        }, SYNC_BASE_DELAY_MS);
+      }
+      return;
+    }
+
+    const nextAttempt = Math.min(...pending.map(entry => entry.next_attempt_at ?? Date.now()));
+    const delay = Math.max(nextAttempt - Date.now(), SYNC_BASE_DELAY_MS);
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.syncPending();
+    }, delay);
+  }
+
+  // Reintentar la cola en cuanto la app vuelve a primer plano o el navegador recupera la red
+  private watchConnectivity(): void {
+    AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        void this.syncPending({ force: true });
+      }
+    });
+    if (Platform.OS === 'web' && typeof window !== 'undefined' && window.addEventListener) {
+      window.addEventListener('online', () => void this.syncPending({ force: true }));
+    }
+  }
+
+  private async getLocalScans(query: ScanQuery): Promise<ScanListPage> {
+    const [page, entries] = await Promise.all([localStore.queryScans(query), localStore.getSyncEntries()]);
+    const entryByScanId = new Map(entries.map(entry => [entry.scan_id, entry]));
+
+    const items = page.items.map(scan => this.toClientScan(scan, entryByScanId.get(scan.id)));
+    return { items, total: page.total, nextOffset: page.nextOffset };
+  }
+
+  // Copia local con el ID del servidor si ya se envió y su estado de sincronización
+  private toClientScan(scan: ScanRecord, entry: localStore.SyncEntry | undefined): ScanRecord {
+    const uploaded = entry !== undefined && entry.remote_id !== null;
+    return {
+      ...scan,
+      id: uploaded ? entry.remote_id! : scan.id,
+      sync_status: entry?.status ?? 'pending',
+      local_id: scan.id,
+    };
+  }
+
+  /**
+   * Busca un escaneo guardado en este dispositivo por su ID local.
+   * @param localId ID en el almacenamiento del dispositivo
+   */
+  async getLocalScan(localId: number): Promise<ScanRecord | null> {
+    const scan = await localStore.getScanById(localId);
+    if (!scan) return null;
+    return this.toClientScan(scan, (await localStore.getSyncEntry(localId)) ?? undefined);
+  }
+
+  /**
+   * Sesiones de escaneo del espacio de trabajo elegido en el web service, junto con las de este
+   * dispositivo que aún no se han enviado. Sin conexión se devuelven las sesiones locales.
+   */
+  async getSessions(): Promise<ScanSession[]> {
+    const workspaceId = getCurrentWorkspaceId();
+    const localSessions = await localStore.getSessions({ workspaceId });
+
+    let remoteSessions: ScanSession[];
+    try {
+      remoteSessions = await fetchSessions(this.baseUrl, workspaceId);
+    } catch (error) {
+      console.warn('Servidor no accesible, mostrando sesiones locales:', error);
+      return localSessions;
+    }
+
+    // Los escaneos locales aún no enviados no están en el recuento del servidor
+    const [localScans, entries] = await Promise.all([localStore.getScans(), localStore.getSyncEntries()]);
+    const uploaded = new Set(entries.filter(entry => entry.remote_id !== null).map(entry => entry.scan_id));
+    const unsentCounts = new Map<string, number>();
+    localScans.forEach(scan => {
+      if (scan.session_id && !uploaded.has(scan.id)) {
+        unsentCounts.set(scan.session_id, (unsentCounts.get(scan.session_id) ?? 0) + 1);
+      }
+    });
+
+    const localById = new Map(localSessions.map(session => [session.id, session]));
+    const merged = remoteSessions.map(session => {
+      const local = localById.get(session.id);
+      localById.delete(session.id);
+      // Un cambio local pendiente (nombre, cierre) tiene prioridad sobre la copia del servidor
+      return {
+        ...(local?.sync_status === 'modified' ? local : session),
+        scan_count: (session.scan_count ?? 0) + (unsentCounts.get(session.id) ?? 0),
+        sync_status: local?.sync_status ?? 'synced',
+      };
+    });
+
+    return [...merged, ...localById.values()].sort((a, b) => b.started_at - a.started_at);
+  }
+
+  /**
+   * Abre una sesión nueva del espacio de trabajo elegido en el dispositivo y la encola para enviarla
+   * al web service.
+   * @param name Nombre visible de la sesión
+   */
+  async startSession(name: string): Promise<ScanSession> {
+    const session: ScanSession = {
+      id: Crypto.randomUUID(),
+      name: name.trim(),
+      started_at: Date.now(),
+      ended_at: null,
+      sync_status: 'pending',
+      workspace_id: getCurrentWorkspaceId(),
+    };
+    await localStore.saveSession(session);
+    void this.syncPending();
+    return session;
+  }
+
+  /**
+   * Renombra o cierra una sesión. El cambio se guarda en el dispositivo y se envía en segundo plano.
+   * @param session Sesión a modificar
+   * @param changes Nuevo nombre o momento de cierre
+   */
+  async updateSession(session: ScanSession, changes: SessionChanges): Promise<ScanSession> {
+    const local = await localStore.getSessionById(session.id);
+    const updated: ScanSession = {
+      ...session,
+      ...changes,
+      name: (changes.name ?? session.name).trim(),
+      // Las sesiones que solo existen en el servidor (de otro dispositivo) también se guardan aquí
+      sync_status: local?.sync_status === 'pending' ? 'pending' : 'modified',
+    };
+    await localStore.saveSession(updated);
+    void this.syncPending();
+    return updated;
+  }
+
+  /**
+   * Elimina una sesión con todos sus escaneos, en el web service (si ya se envió) y en el dispositivo.
+   * @param session Sesión a eliminar
+   */
+  async deleteSession(session: ScanSession): Promise<void> {
+    // Solo las sesiones que nunca se han enviado pueden eliminarse sin conexión
+    const local = await localStore.getSessionById(session.id);
+    if (local?.sync_status !== 'pending') {
+      try {
+        await deleteRemoteSession(this.baseUrl, session.id);
+      } catch (error) {
+        console.error('Error deleting session:', error);
+        throw error;
+      }
+    }
+
+    await localStore.deleteSession(session.id);
+    this.notifySyncListeners();
+  }
+
+  // Enviar las sesiones creadas o modificadas en el dispositivo (PUT es idempotente)
+  private async pushPendingSessions(): Promise<void> {
+    const sessions = await localStore.getSessions();
+    for (const session of sessions.filter(s => s.sync_status === 'pending' || s.sync_status === 'modified')) {
+      try {
+        await putSession(this.baseUrl, session);
+        // Solo se marca como enviada si no ha vuelto a cambiar mientras tanto
+        const latest = await localStore.getSessionById(session.id);
+        if (latest && latest.name === session.name && latest.ended_at === session.ended_at) {
+          await localStore.saveSession({ ...latest, sync_status: 'synced' });
         }
-        throw new Error(`HTTP error! status: ${response.status}, ${response.statusText}`);
+      } catch (error) {
+        console.warn('No se pudo enviar la sesión:', session.id, error);
+        if (!(error instanceof HttpError)) break;
       }
-      return true; 
+    }
+  }
+
+  /**
+   * Zonas del espacio de trabajo elegido en el web service. Se guardan en el dispositivo para poder
+   * etiquetar los escaneos sin conexión; los cambios locales aún no enviados tienen prioridad.
+   * Sin conexión se devuelven las zonas locales.
+   */
+  async getZones(): Promise<Zone[]> {
+    const workspaceId = getCurrentWorkspaceId();
+    let remoteZones: Zone[];
+    try {
+      remoteZones = await fetchZones(this.baseUrl, workspaceId);
     } catch (error) {
-      console.error('Error deleting scan:', error);
-      throw error;
+      console.warn('Servidor no accesible, usando zonas locales:', error);
+      return localStore.getZones({ workspaceId });
     }
+
+    const localById = new Map((await localStore.getZones({ workspaceId })).map(zone => [zone.id, zone]));
+    for (const zone of remoteZones) {
+      const local = localById.get(zone.id);
+      localById.delete(zone.id);
+      if (local?.sync_status !== 'pending' && local?.sync_status !== 'modified') {
+        await localStore.saveZone({ ...zone, sync_status: 'synced' });
+      }
+    }
+    // Las zonas ya enviadas que no devuelve el servidor se han eliminado desde otro dispositivo
+    for (const zone of localById.values()) {
+      if (zone.sync_status === 'synced') {
+        await localStore.deleteZone(zone.id);
+      }
+    }
+    return localStore.getZones({ workspaceId });
+  }
+
+  /**
+   * Crea una zona del espacio de trabajo elegido en el dispositivo y la encola para enviarla al web service.
+   * @param name Nombre visible de la zona
+   * @param shape Círculo o polígono
+   */
+  async createZone(name: string, shape: ZoneShape): Promise<Zone> {
+    const zone: Zone = {
+      id: Crypto.randomUUID(),
+      name: name.trim(),
+      shape,
+      created_at: Date.now(),
+      sync_status: 'pending',
+      workspace_id: getCurrentWorkspaceId(),
+    };
+    await localStore.saveZone(zone);
+    void this.syncPending();
+    return zone;
   }
 
   /**
-   * Busca un escaneo por su ID en el web service.
+   * Renombra una zona o cambia su forma. Los escaneos ya etiquetados conservan su zona.
+   * @param zone Zona a modificar
+   * @param changes Nuevo nombre o nueva forma
+   */
+  async updateZone(zone: Zone, changes: ZoneChanges): Promise<Zone> {
+    const local = await localStore.getZoneById(zone.id);
+    const updated: Zone = {
+      ...zone,
+      ...changes,
+      name: (changes.name ?? zone.name).trim(),
+      sync_status: local?.sync_status === 'pending' ? 'pending' : 'modified',
+    };
+    await localStore.saveZone(updated);
+    void this.syncPending();
+    return updated;
+  }
+
+  /**
+   * Elimina una zona en el web service (si ya se envió) y en el dispositivo.
+   * Sus escaneos se conservan, sin zona.
+   * @param zone Zona a eliminar
+   */
+  async deleteZone(zone: Zone): Promise<void> {
+    // Solo las zonas que nunca se han enviado pueden eliminarse sin conexión
+    const local = await localStore.getZoneById(zone.id);
+    if (local?.sync_status !== 'pending') {
+      try {
+        await deleteRemoteZone(this.baseUrl, zone.id);
+      } catch (error) {
+        console.error('Error deleting zone:', error);
+        throw error;
+      }
+    }
+
+    await localStore.deleteZone(zone.id);
+  }
+
+  // Enviar las zonas creadas o modificadas en el dispositivo (PUT es idempotente)
+  private async pushPendingZones(): Promise<void> {
+    const zones = await localStore.getZones();
+    for (const zone of zones.filter(z => z.sync_status === 'pending' || z.sync_status === 'modified')) {
+      try {
+        await putZone(this.baseUrl, zone);
+        // Solo se marca como enviada si no ha vuelto a cambiar mientras tanto
+        const latest = await localStore.getZoneById(zone.id);
+        if (latest && latest.name === zone.name && JSON.stringify(latest.shape) === JSON.stringify(zone.shape)) {
+          await localStore.saveZone({ ...latest, sync_status: 'synced' });
+        }
+      } catch (error) {
+        console.warn('No se pudo enviar la zona:', zone.id, error);
+        if (!(error instanceof HttpError)) break;
+      }
+    }
+  }
+
+  /**
+   * Busca un escaneo por su ID en el web service. Si se hizo en este dispositivo se añade su
+   * estado de sincronización, y sin conexión se devuelve la copia local.
    * @param id ID del escaneo a buscar
-   * @returns 
+   * @returns El escaneo, o null si no existe
    */
   async getScanById(id: number): Promise<ScanRecord | null> {
+    const entries = await localStore.getSyncEntries();
+    const entry = entries.find(e => e.remote_id === id);
+
     try {
-      const response = await fetch(`${API_BASE_URL}/scans/${id}`);
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null; 
-        }
-        throw new Error(`HTTP error! status: ${response.status}, ${response.statusText}`);
-      }
-      const scan: ScanRecord = await response.json();
-      return scan;
+      const scan = await fetchScan(this.baseUrl, id);
+      if (!scan) return null;
+      if (!entry) return { ...scan, sync_status: 'synced' };
+      const local = entry.pending_changes > 0 ? await localStore.getScanById(entry.scan_id) : null;
+      return {
+        ...scan,
+        ...(local ? getScanAnnotations(local) : {}),
+        sync_status: entry.status,
+        local_id: entry.scan_id,
+      };
     } catch (error) {
-      console.error('Error fetching scan by ID:', error);
-      throw error;
+      if (!entry || error instanceof HttpError) {
+        console.error('Error fetching scan by ID:', error);
+        throw error;
+      }
+      console.warn('Servidor no accesible, mostrando la copia local del escaneo:', error);
+      return this.getLocalScan(entry.scan_id);
     }
   }
 }
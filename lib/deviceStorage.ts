@@ -0,0 +1,56 @@
+import { Platform } from 'react-native';
+
+// Almacenamiento clave/valor persistente en el dispositivo
+// (expo-sqlite/kv-store en móvil, localStorage en navegador)
+
+let kvStore: any = null;
+
+// La comprobación de Platform.OS permite que el bundler excluya expo-sqlite del bundle web
+const getKvStore = () => {
+  if (Platform.OS !== 'web' && !kvStore) {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    kvStore = require('expo-sqlite/kv-store').default;
+  }
+  return kvStore;
+};
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+export const getItem = async (key: string): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return hasLocalStorage() ? localStorage.getItem(key) : null;
+  }
+  return getKvStore().getItem(key);
+};
+
+export const setItem = async (key: string, value: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    if (hasLocalStorage()) localStorage.setItem(key, value);
+    return;
+  }
+  await getKvStore().setItem(key, value);
+};
+
+export const removeItem = async (key: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    if (hasLocalStorage()) localStorage.removeItem(key);
+    return;
+  }
+  await getKvStore().removeItem(key);
+};
+
+// Lee un valor JSON; devuelve null si no existe o no se puede interpretar
+export const getJSON = async <T>(key: string): Promise<T | null> => {
+  const raw = await getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Valor inválido en el almacenamiento para "${key}":`, error);
+    return null;
+  }
+};
+
+export const setJSON = async (key: string, value: unknown): Promise<void> => {
+  await setItem(key, JSON.stringify(value));
+};
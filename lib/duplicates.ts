@@ -0,0 +1,71 @@
+import { distanceInMeters, getCoordinates } from '@/lib/geo';
+import type { ScanRecord } from '@/lib/scanStore';
+
+// Política para los códigos que se vuelven a escanear
+
+export type DuplicatePolicy = 'always' | 'ignore_time' | 'ignore_distance' | 'increment';
+
+export const DUPLICATE_POLICIES: readonly DuplicatePolicy[] = ['always', 'ignore_time', 'ignore_distance', 'increment'];
+
+export const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  always: 'Registrar siempre',
+  ignore_time: 'Ignorar durante un tiempo',
+  ignore_distance: 'Ignorar en el mismo lugar',
+  increment: 'Sumar al registro existente',
+};
+
+export const DUPLICATE_POLICY_DESCRIPTIONS: Record<DuplicatePolicy, string> = {
+  always: 'Cada lectura crea un registro nuevo.',
+  ignore_time: 'No se guarda si el mismo código se leyó hace menos del tiempo indicado.',
+  ignore_distance: 'No se guarda si el mismo código se leyó a menos de la distancia indicada.',
+  increment: 'Se suma una lectura al último registro del código y se actualiza su última vez visto.',
+};
+
+export interface DuplicateSettings {
+  policy: DuplicatePolicy;
+  windowSeconds: number;  // Para ignore_time
+  distanceMeters: number; // Para ignore_distance
+}
+
+export const DUPLICATE_WINDOW_OPTIONS = [5, 10, 30, 60, 300];
+export const DUPLICATE_DISTANCE_OPTIONS = [10, 25, 50, 100, 500];
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  policy: 'ignore_time',
+  windowSeconds: 10,
+  distanceMeters: 25,
+};
+
+export const isDuplicatePolicy = (value: unknown): value is DuplicatePolicy =>
+  typeof value === 'string' && (DUPLICATE_POLICIES as readonly string[]).includes(value);
+
+export type DuplicateDecision = 'record' | 'ignore' | 'increment';
+
+/**
+ * Decide qué hacer con un escaneo nuevo a partir de la lectura anterior del mismo código.
+ * Sin ubicación en alguna de las dos lecturas, ignore_distance siempre registra.
+ */
+export const decideDuplicate = (
+  previous: Pick<ScanRecord, 'timestamp' | 'last_seen_at' | 'latitude' | 'longitude'> | null,
+  scan: Pick<ScanRecord, 'timestamp' | 'latitude' | 'longitude'>,
+  settings: DuplicateSettings
+): DuplicateDecision => {
+  if (!previous) return 'record';
+
+  switch (settings.policy) {
+    case 'ignore_time': {
+      const elapsed = scan.timestamp - (previous.last_seen_at ?? previous.timestamp);
+      return elapsed < settings.windowSeconds * 1000 ? 'ignore' : 'record';
+    }
+    case 'ignore_distance': {
+      const from = getCoordinates(previous);
+      const to = getCoordinates(scan);
+      if (!from || !to) return 'record';
+      return distanceInMeters(from, to) < settings.distanceMeters ? 'ignore' : 'record';
+    }
+    case 'increment':
+      return 'increment';
+    default:
+      return 'record';
+  }
+};
@@ -0,0 +1,164 @@
+import { DEFAULT_SCAN_STATUS, TAG_SEPARATOR } from '@/lib/annotations';
+import { getScanPayload } from '@/lib/payload';
+import type { ScanRecord } from '@/lib/scanStore';
+
+// Exportación de escaneos a formatos de intercambio (la usan la app y GET /scans/export)
+
+export type ExportFormat = 'csv' | 'json' | 'geojson';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'json', 'geojson'];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  geojson: 'GeoJSON',
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  geojson: 'application/geo+json',
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+
+// Campos exportados, en orden (también son las columnas del CSV)
+const EXPORT_FIELDS = [
+  'id',
+  'qr_data',
+  'barcode_type',
+  'payload_type',
+  'latitude',
+  'longitude',
+  'altitude',
+  'accuracy',
+  'timestamp',
+  'last_seen_at',
+  'scan_count',
+  'session_id',
+  'zone_id',
+  'status',
+  'tags',
+  'notes',
+] as const;
+
+type ExportField = typeof EXPORT_FIELDS[number];
+
+export type ExportedScan = Pick<ScanRecord, ExportField> & Pick<ScanRecord, 'payload_fields'>;
+
+// Solo los datos del escaneo: se descartan los campos internos del dispositivo (estado de sincronización, id local...)
+const toExportedScan = (scan: ScanRecord): ExportedScan => {
+  const payload = getScanPayload(scan);
+  return {
+    id: scan.id,
+    qr_data: scan.qr_data,
+    barcode_type: scan.barcode_type ?? 'qr',
+    payload_type: payload.type,
+    latitude: scan.latitude,
+    longitude: scan.longitude,
+    altitude: scan.altitude,
+    accuracy: scan.accuracy,
+    timestamp: scan.timestamp,
+    last_seen_at: scan.last_seen_at ?? scan.timestamp,
+    scan_count: scan.scan_count ?? 1,
+    session_id: scan.session_id ?? null,
+    zone_id: scan.zone_id ?? null,
+    status: scan.status ?? DEFAULT_SCAN_STATUS,
+    tags: scan.tags ?? [],
+    notes: scan.notes ?? null,
+    payload_fields: payload.fields as Record<string, unknown>,
+  };
+};
+
+// Las fechas se exportan en ISO 8601 para que las hojas de cálculo las reconozcan
+const formatCsvValue = (scan: ExportedScan, field: ExportField): string => {
+  const value = scan[field];
+  if (value === null || value === undefined) return '';
+  if (field === 'timestamp' || field === 'last_seen_at') return new Date(value as number).toISOString();
+  if (Array.isArray(value)) return value.join(TAG_SEPARATOR);
+  return String(value);
+};
+
+// Comillas dobles si el valor contiene separadores, comillas o saltos de línea (RFC 4180)
+export const escapeCsv = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Convierte escaneos a CSV con cabecera.
+ */
+export const scansToCsv = (scans: ScanRecord[]): string =>
+  [
+    EXPORT_FIELDS.join(','),
+    ...scans
+      .map(toExportedScan)
+      .map(scan => EXPORT_FIELDS.map(field => escapeCsv(formatCsvValue(scan, field))).join(',')),
+  ].join('\r\n');
+
+/**
+ * Convierte escaneos a un array JSON con los mismos campos que el CSV y los campos del contenido.
+ */
+export const scansToJson = (scans: ScanRecord[]): string =>
+  JSON.stringify(scans.map(toExportedScan), null, 2);
+
+/**
+ * Convierte escaneos a una FeatureCollection GeoJSON de puntos [longitud, latitud, altitud].
+ * Los escaneos sin coordenadas no tienen geometría y se omiten.
+ */
+export const scansToGeoJson = (scans: ScanRecord[]): string => {
+  const features = scans
+    .filter(scan => scan.latitude !== null && scan.longitude !== null)
+    .map(toExportedScan)
+    .map(({ latitude, longitude, altitude, ...properties }) => ({
+      type: 'Feature' as const,
+      id: properties.id,
+      geometry: {
+        type: 'Point' as const,
+        // RFC 7946: longitud primero; la altitud es opcional
+        coordinates: altitude !== null ? [longitude, latitude, altitude] : [longitude, latitude],
+      },
+      // accuracy es el radio de incertidumbre en metros
+      properties: {
+        ...properties,
+        timestamp: new Date(properties.timestamp).toISOString(),
+        last_seen_at: new Date(properties.last_seen_at ?? properties.timestamp).toISOString(),
+      },
+    }));
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+/**
+ * Serializa escaneos en el formato indicado.
+ */
+export const serializeScans = (scans: ScanRecord[], format: ExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return scansToJson(scans);
+    case 'geojson':
+      return scansToGeoJson(scans);
+    default:
+      return scansToCsv(scans);
+  }
+};
+
+/**
+ * Convierte un texto en una parte de nombre de fichero: sin acentos, en minúsculas y con guiones.
+ */
+export const toFileNameSlug = (label: string): string =>
+  label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+
+/**
+ * Nombre de fichero para una exportación, p. ej. escaneos-pasillo-3-2024-05-01.geojson
+ * @param label Nombre de la sesión u otra descripción del contenido (opcional)
+ */
+export const buildExportFileName = (format: ExportFormat, label?: string, now: number = Date.now()): string => {
+  const date = new Date(now).toISOString().slice(0, 10);
+  return ['escaneos', toFileNameSlug(label ?? ''), date].filter(Boolean).join('-') + `.${format}`;
+};
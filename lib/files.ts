@@ -0,0 +1,65 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Ficheros de texto que entran y salen de la app: en navegador se descargan y se eligen con el
+// selector del navegador; en móvil se comparten con el menú del sistema y se leen de la caché
+
+/**
+ * Guarda el contenido como fichero y lo ofrece al usuario.
+ * @param content Contenido del fichero
+ * @param fileName Nombre con extensión, p. ej. escaneos-2024-05-01.csv
+ * @param mimeType Tipo MIME del contenido
+ * @param dialogTitle Título del menú de compartir (solo Android)
+ */
+export const shareTextFile = async (
+  content: string,
+  fileName: string,
+  mimeType: string,
+  dialogTitle?: string
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    try {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } finally {
+      // Se libera después de que el navegador haya empezado la descarga
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Compartir ficheros no está disponible en este dispositivo');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle });
+};
+
+export interface PickedTextFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * Pide al usuario un fichero y devuelve su contenido como texto, o null si cancela.
+ * @param mimeTypes Tipos admitidos en el selector
+ */
+export const pickTextFile = async (mimeTypes: string[] = ['*/*']): Promise<PickedTextFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const content = Platform.OS === 'web'
+    ? await (asset.file ? asset.file.text() : fetch(asset.uri).then(response => response.text()))
+    : await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+  return { name: asset.name, content };
+};
@@ -0,0 +1,68 @@
+// Utilidades geográficas
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Distancia en metros entre dos puntos (fórmula del haversine).
+ */
+export const distanceInMeters = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Coordenadas de un registro si tiene latitud y longitud
+export const getCoordinates = (
+  record: { latitude: number | null; longitude: number | null }
+): Coordinates | null =>
+  record.latitude !== null && record.longitude !== null
+    ? { latitude: record.latitude, longitude: record.longitude }
+    : null;
+
+// Circunferencia ecuatorial terrestre, para convertir metros en unidades de la proyección
+const EARTH_CIRCUMFERENCE_METERS = 2 * Math.PI * EARTH_RADIUS_METERS;
+
+// Límite de latitud de la proyección de Mercator (el mundo proyectado es un cuadrado)
+const MAX_MERCATOR_LATITUDE = 85.05112878;
+
+// Punto proyectado con Web Mercator: x e y van de 0 a 1 (de oeste a este y de norte a sur)
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Proyecta unas coordenadas con Web Mercator (la misma proyección que los mapas web).
+ */
+export const projectToWorld = ({ latitude, longitude }: Coordinates): WorldPoint => {
+  const lat = toRadians(Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, latitude)));
+  return {
+    x: (longitude + 180) / 360,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2,
+  };
+};
+
+/**
+ * Inversa de projectToWorld.
+ */
+export const unprojectFromWorld = ({ x, y }: WorldPoint): Coordinates => ({
+  latitude: (Math.atan(Math.sinh(Math.PI * (1 - 2 * y))) * 180) / Math.PI,
+  longitude: x * 360 - 180,
+});
+
+/**
+ * Metros que mide una unidad de la proyección a la latitud indicada (Mercator estira los
+ * paralelos al alejarse del ecuador).
+ */
+export const metersPerWorldUnit = (latitude: number): number =>
+  EARTH_CIRCUMFERENCE_METERS * Math.cos(toRadians(latitude));
@@ -0,0 +1,238 @@
+// Identificadores de aplicación (AI) GS1 en códigos GS1-128, GS1 DataMatrix y GS1 QR
+// Ejemplos: "(01)09501101530003(17)250630(10)AB-123" o "]d2010950110153000317250630\u001d10AB-123"
+
+export interface Gs1Element {
+  ai: string;
+  label: string;
+  value: string;     // Valor tal y como aparece en el código
+  formatted: string; // Fechas en ISO 8601 e importes/pesos con decimales
+}
+
+export interface Gs1Payload {
+  elements: Gs1Element[];
+  gtin: string | null;
+  sscc: string | null;
+  batch: string | null;
+  serial: string | null;
+  expiry: string | null; // Fecha de caducidad (AI 17) en ISO 8601
+}
+
+type Gs1Format = 'numeric' | 'text' | 'date' | 'decimal' | 'currencyDecimal';
+
+interface Gs1AiDefinition {
+  prefix: string;     // Dígitos iniciales que identifican el AI
+  aiLength: number;   // Longitud total del AI (310n, 392n... incluyen el nº de decimales)
+  label: string;
+  format: Gs1Format;
+  length?: number;    // Longitud fija del valor
+  maxLength?: number; // Longitud máxima si es variable (termina en FNC1/GS o al final)
+  checkDigit?: boolean;
+}
+
+const GS = '\u001d';
+
+// Subconjunto de la tabla de AIs de las GS1 General Specifications más habitual en logística y retail
+const AI_DEFINITIONS: Gs1AiDefinition[] = [
+  { prefix: '00', aiLength: 2, label: 'SSCC', format: 'numeric', length: 18, checkDigit: true },
+  { prefix: '01', aiLength: 2, label: 'GTIN', format: 'numeric', length: 14, checkDigit: true },
+  { prefix: '02', aiLength: 2, label: 'GTIN contenido', format: 'numeric', length: 14, checkDigit: true },
+  { prefix: '10', aiLength: 2, label: 'Lote', format: 'text', maxLength: 20 },
+  { prefix: '11', aiLength: 2, label: 'Fecha de producción', format: 'date', length: 6 },
+  { prefix: '12', aiLength: 2, label: 'Fecha de vencimiento de pago', format: 'date', length: 6 },
+  { prefix: '13', aiLength: 2, label: 'Fecha de envasado', format: 'date', length: 6 },
+  { prefix: '15', aiLength: 2, label: 'Consumo preferente', format: 'date', length: 6 },
+  { prefix: '16', aiLength: 2, label: 'Fecha límite de venta', format: 'date', length: 6 },
+  { prefix: '17', aiLength: 2, label: 'Fecha de caducidad', format: 'date', length: 6 },
+  { prefix: '20', aiLength: 2, label: 'Variante', format: 'numeric', length: 2 },
+  { prefix: '21', aiLength: 2, label: 'Número de serie', format: 'text', maxLength: 20 },
+  { prefix: '22', aiLength: 2, label: 'Variante de consumo', format: 'text', maxLength: 20 },
+  { prefix: '240', aiLength: 3, label: 'Identificación adicional', format: 'text', maxLength: 30 },
+  { prefix: '241', aiLength: 3, label: 'Referencia del cliente', format: 'text', maxLength: 30 },
+  { prefix: '250', aiLength: 3, label: 'Número de serie secundario', format: 'text', maxLength: 30 },
+  { prefix: '30', aiLength: 2, label: 'Cantidad', format: 'numeric', maxLength: 8 },
+  { prefix: '37', aiLength: 2, label: 'Unidades contenidas', format: 'numeric', maxLength: 8 },
+  { prefix: '310', aiLength: 4, label: 'Peso neto (kg)', format: 'decimal', length: 6 },
+  { prefix: '320', aiLength: 4, label: 'Peso neto (lb)', format: 'decimal', length: 6 },
+  { prefix: '330', aiLength: 4, label: 'Peso bruto (kg)', format: 'decimal', length: 6 },
+  { prefix: '392', aiLength: 4, label: 'Importe a pagar', format: 'decimal', maxLength: 15 },
+  { prefix: '393', aiLength: 4, label: 'Importe a pagar con divisa', format: 'currencyDecimal', maxLength: 18 },
+  { prefix: '400', aiLength: 3, label: 'Pedido del cliente', format: 'text', maxLength: 30 },
+  { prefix: '401', aiLength: 3, label: 'Número de envío', format: 'text', maxLength: 30 },
+  { prefix: '402', aiLength: 3, label: 'Número de expedición', format: 'numeric', length: 17, checkDigit: true },
+  { prefix: '403', aiLength: 3, label: 'Código de ruta', format: 'text', maxLength: 30 },
+  { prefix: '410', aiLength: 3, label: 'Entregar a (GLN)', format: 'numeric', length: 13, checkDigit: true },
+  { prefix: '411', aiLength: 3, label: 'Facturar a (GLN)', format: 'numeric', length: 13, checkDigit: true },
+  { prefix: '412', aiLength: 3, label: 'Comprado a (GLN)', format: 'numeric', length: 13, checkDigit: true },
+  { prefix: '413', aiLength: 3, label: 'Destino final (GLN)', format: 'numeric', length: 13, checkDigit: true },
+  { prefix: '414', aiLength: 3, label: 'Ubicación (GLN)', format: 'numeric', length: 13, checkDigit: true },
+  { prefix: '415', aiLength: 3, label: 'Emisor de la factura (GLN)', format: 'numeric', length: 13, checkDigit: true },
+  { prefix: '420', aiLength: 3, label: 'Código postal de destino', format: 'text', maxLength: 20 },
+  { prefix: '422', aiLength: 3, label: 'País de origen', format: 'numeric', length: 3 },
+  { prefix: '8004', aiLength: 4, label: 'Identificador de activo (GIAI)', format: 'text', maxLength: 30 },
+  { prefix: '8020', aiLength: 4, label: 'Referencia de pago', format: 'text', maxLength: 25 },
+  { prefix: '90', aiLength: 2, label: 'Información acordada', format: 'text', maxLength: 30 },
+  { prefix: '9', aiLength: 2, label: 'Información interna', format: 'text', maxLength: 90 },
+];
+
+// Identificadores de simbología que algunos lectores anteponen (GS1-128, GS1 DataMatrix, GS1 QR...)
+const SYMBOLOGY_IDENTIFIER = /^\](C1|e0|d2|Q3|J1)/;
+
+const findDefinition = (data: string): Gs1AiDefinition | undefined =>
+  AI_DEFINITIONS.find(definition => data.startsWith(definition.prefix));
+
+// Dígito de control módulo 10 de GS1 (GTIN, SSCC, GLN...)
+export const isValidGs1CheckDigit = (digits: string): boolean => {
+  if (!/^\d{2,}$/.test(digits)) return false;
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+// AAMMDD a ISO 8601; el día 00 indica el último día del mes
+const parseGs1Date = (value: string, now: Date = new Date()): string | null => {
+  const year2 = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+
+  // Regla de siglo de GS1: el año se sitúa entre 49 años antes y 50 después del actual
+  const currentYear = now.getFullYear();
+  const difference = year2 - (currentYear % 100);
+  let century = Math.floor(currentYear / 100);
+  if (difference >= 51) century--;
+  else if (difference <= -50) century++;
+  const year = century * 100 + year2;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = lastDay;
+  if (day > lastDay) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const insertDecimals = (digits: string, decimals: number): string => {
+  if (decimals === 0) return String(Number(digits));
+  const padded = digits.padStart(decimals + 1, '0');
+  const integer = String(Number(padded.slice(0, -decimals)));
+  return `${integer}.${padded.slice(-decimals)}`;
+};
+
+const buildElement = (definition: Gs1AiDefinition, ai: string, value: string): Gs1Element | null => {
+  if (value === '') return null;
+  if (definition.length !== undefined && value.length !== definition.length) return null;
+  if (definition.maxLength !== undefined && value.length > definition.maxLength) return null;
+  if (definition.format !== 'text' && !/^\d+$/.test(value)) return null;
+  if (definition.checkDigit && !isValidGs1CheckDigit(value)) return null;
+
+  let formatted = value;
+  switch (definition.format) {
+    case 'date': {
+      const date = parseGs1Date(value);
+      if (!date) return null;
+      formatted = date;
+      break;
+    }
+    case 'decimal':
+      formatted = insertDecimals(value, Number(ai[3]));
+      break;
+    case 'currencyDecimal':
+      // Código numérico ISO 4217 de la divisa seguido del importe
+      if (value.length < 4) return null;
+      formatted = `${insertDecimals(value.slice(3), Number(ai[3]))} (divisa ${value.slice(0, 3)})`;
+      break;
+  }
+
+  return { ai, label: definition.label, value, formatted };
+};
+
+// Cadena de elementos sin paréntesis: los campos variables terminan en GS (FNC1) o al final
+const parseElementString = (data: string): Gs1Element[] | null => {
+  const elements: Gs1Element[] = [];
+  let rest = data;
+
+  while (rest.length > 0) {
+    if (rest[0] === GS) {
+      rest = rest.slice(1);
+      continue;
+    }
+    const definition = findDefinition(rest);
+    const ai = rest.slice(0, definition?.aiLength ?? 0);
+    if (!definition || !/^\d+$/.test(ai) || ai.length < definition.aiLength) return null;
+    rest = rest.slice(definition.aiLength);
+
+    let value: string;
+    if (definition.length !== undefined) {
+      value = rest.slice(0, definition.length);
+      rest = rest.slice(definition.length);
+    } else {
+      const end = rest.indexOf(GS);
+      value = end >= 0 ? rest.slice(0, end) : rest;
+      rest = end >= 0 ? rest.slice(end + 1) : '';
+    }
+
+    const element = buildElement(definition, ai, value);
+    if (!element) return null;
+    elements.push(element);
+  }
+
+  return elements;
+};
+
+// Forma legible con los AIs entre paréntesis: "(01)09501101530003(10)AB-123"
+const parseBracketedString = (data: string): Gs1Element[] | null => {
+  const elements: Gs1Element[] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(data)) !== null) {
+    if (match.index !== consumed) return null;
+    consumed = pattern.lastIndex;
+
+    const [, ai, rawValue] = match;
+    const definition = findDefinition(ai);
+    if (!definition || definition.aiLength !== ai.length) return null;
+    const element = buildElement(definition, ai, rawValue.trim());
+    if (!element) return null;
+    elements.push(element);
+  }
+
+  return consumed === data.length ? elements : null;
+};
+
+/**
+ * Extrae los identificadores de aplicación GS1 de un código.
+ * Sin identificador de simbología, separador FNC1 ni paréntesis, solo se acepta si la
+ * cadena completa se interpreta como dos o más elementos válidos (evita falsos positivos).
+ * @returns null si el contenido no es una cadena de elementos GS1 válida
+ */
+export const parseGs1 = (data: string): Gs1Payload | null => {
+  const trimmed = data.trim();
+  let elements: Gs1Element[] | null;
+
+  if (trimmed.startsWith('(')) {
+    elements = parseBracketedString(trimmed);
+  } else {
+    const marked = SYMBOLOGY_IDENTIFIER.test(trimmed) || trimmed.startsWith(GS);
+    const content = trimmed.replace(SYMBOLOGY_IDENTIFIER, '');
+    elements = parseElementString(content);
+    if (elements && !marked && !content.includes(GS) && elements.length < 2) {
+      elements = null;
+    }
+  }
+
+  if (!elements || elements.length === 0) return null;
+
+  const find = (...ais: string[]) => elements.find(element => ais.includes(element.ai)) ?? null;
+  return {
+    elements,
+    gtin: find('01', '02')?.value ?? null,
+    sscc: find('00')?.value ?? null,
+    batch: find('10')?.value ?? null,
+    serial: find('21')?.value ?? null,
+    expiry: find('17')?.formatted ?? null,
+  };
+};
@@ -0,0 +1,130 @@
+import { isScanStatus, normalizeTags, ScanStatus } from '@/lib/annotations';
+import { getJSON, setJSON } from '@/lib/deviceStorage';
+import { isPayloadType, PayloadType } from '@/lib/payload';
+import type { ScanQuery } from '@/lib/scanStore';
+
+// Filtros del historial, guardados en el dispositivo para conservarlos entre pestañas y sesiones
+
+export type DateRangePreset = 'all' | 'today' | 'week' | 'month';
+
+export const DATE_RANGE_LABELS: Record<DateRangePreset, string> = {
+  all: 'Todo',
+  today: 'Hoy',
+  week: '7 días',
+  month: '30 días',
+};
+
+export interface HistoryFilters {
+  search: string;
+  hasLocation: boolean;
+  payloadType: PayloadType | null;
+  dateRange: DateRangePreset;
+  groupDuplicates: boolean; // Un elemento por código con su número de lecturas
+  session: SessionFilter | null;
+  zone: ZoneFilter | null;
+  tags: string[];            // Deben estar todas
+  status: ScanStatus | null;
+}
+
+// Se guarda también el nombre para mostrar el filtro sin volver a pedir la sesión
+export interface SessionFilter {
+  id: string;
+  name: string;
+}
+
+export interface ZoneFilter {
+  id: string;
+  name: string;
+}
+
+const readNamedFilter = (value: Partial<SessionFilter> | null | undefined): SessionFilter | null =>
+  typeof value?.id === 'string' && typeof value.name === 'string' ? { id: value.id, name: value.name } : null;
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  search: '',
+  hasLocation: false,
+  payloadType: null,
+  dateRange: 'all',
+  groupDuplicates: true,
+  session: null,
+  zone: null,
+  tags: [],
+  status: null,
+};
+
+const HISTORY_FILTERS_KEY = 'history_filters';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Copia en memoria para que la pantalla recupere los filtros al instante al volver a montarse
+let cachedFilters: HistoryFilters | null = null;
+
+export const loadHistoryFilters = async (): Promise<HistoryFilters> => {
+  if (cachedFilters) return cachedFilters;
+
+  const stored = await getJSON<Partial<HistoryFilters>>(HISTORY_FILTERS_KEY);
+  cachedFilters = {
+    search: typeof stored?.search === 'string' ? stored.search : '',
+    hasLocation: stored?.hasLocation === true,
+    payloadType: isPayloadType(stored?.payloadType) ? stored.payloadType : null,
+    dateRange: stored?.dateRange && stored.dateRange in DATE_RANGE_LABELS ? stored.dateRange : 'all',
+    groupDuplicates: stored?.groupDuplicates !== false,
+    session: readNamedFilter(stored?.session),
+    zone: readNamedFilter(stored?.zone),
+    tags: Array.isArray(stored?.tags)
+      ? normalizeTags(stored.tags.filter((tag): tag is string => typeof tag === 'string'))
+      : [],
+    status: isScanStatus(stored?.status) ? stored.status : null,
+  };
+  return cachedFilters;
+};
+
+export const saveHistoryFilters = async (filters: HistoryFilters): Promise<void> => {
+  cachedFilters = filters;
+  await setJSON(HISTORY_FILTERS_KEY, filters);
+};
+
+// La agrupación es un modo de visualización y no cuenta como filtro
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  filters.search.trim() !== '' ||
+  filters.hasLocation ||
+  filters.payloadType !== null ||
+  filters.dateRange !== 'all' ||
+  filters.session !== null ||
+  filters.zone !== null ||
+  filters.tags.length > 0 ||
+  filters.status !== null;
+
+const getRangeStart = (preset: DateRangePreset, now: number): number | undefined => {
+  switch (preset) {
+    case 'today': {
+      const start = new Date(now);
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case 'week':
+      return now - 7 * DAY_MS;
+    case 'month':
+      return now - 30 * DAY_MS;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Convierte los filtros de la pantalla en parámetros de consulta para getScans.
+ */
+export const toScanQuery = (filters: HistoryFilters, now: number = Date.now()): ScanQuery => {
+  const query: ScanQuery = {};
+  const search = filters.search.trim();
+  if (search) query.search = search;
+  if (filters.hasLocation) query.hasLocation = true;
+  if (filters.payloadType) query.payloadType = filters.payloadType;
+  if (filters.groupDuplicates) query.groupByData = true;
+  if (filters.session) query.sessionId = filters.session.id;
+  if (filters.zone) query.zoneId = filters.zone.id;
+  if (filters.tags.length > 0) query.tags = filters.tags;
+  if (filters.status) query.status = filters.status;
+  const from = getRangeStart(filters.dateRange, now);
+  if (from !== undefined) query.from = from;
+  return query;
+};
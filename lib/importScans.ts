@@ -0,0 +1,242 @@
+import { parseTagsText } from '@/lib/annotations';
+import { ScanInput, validateScanInput } from '@/lib/server/validation';
+
+// Lectura de copias de seguridad de escaneos (CSV, JSON o GeoJSON exportados por la app)
+
+// Fila leída del fichero, antes de validarla. row es la línea del CSV o la posición en el JSON
+export interface ImportRow {
+  row: number;
+  data: Record<string, unknown>;
+}
+
+export type ImportRowStatus = 'inserted' | 'skipped' | 'invalid';
+
+export interface ImportRowResult {
+  row: number;
+  status: ImportRowStatus; // skipped: ya existía un escaneo con el mismo qr_data y timestamp
+  id?: number;             // Escaneo creado o ya existente
+  errors?: string[];       // Solo en las filas inválidas
+}
+
+export interface ImportSummary {
+  inserted: number;
+  skipped: number;
+  invalid: number;
+  rows: ImportRowResult[];
+  queued: boolean; // Guardadas solo en el dispositivo, pendientes de enviar al servidor
+}
+
+// Respuesta de POST /scans/bulk, con una entrada por elemento del lote (index empieza en 0)
+export type BulkItemResult =
+  | { index: number; status: 'inserted' | 'skipped'; id: number }
+  | { index: number; status: 'invalid'; errors: string[] };
+
+export interface BulkScanResponse {
+  inserted: number;
+  skipped: number;
+  invalid: number;
+  results: BulkItemResult[];
+}
+
+// Fichero que no se puede interpretar como copia de escaneos (el mensaje se muestra al usuario)
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// Campos calculados o propios de cada almacenamiento, que no se importan
+const IGNORED_FIELDS = ['id', 'created_at', 'payload_type', 'payload_fields', 'group_size', 'sync_status', 'local_id'];
+const NUMERIC_FIELDS = ['latitude', 'longitude', 'altitude', 'accuracy', 'scan_count'];
+const TIME_FIELDS = ['timestamp', 'last_seen_at'];
+
+/**
+ * Divide un CSV (RFC 4180) en registros, cada uno con la línea en la que empieza.
+ * Admite comillas con separadores y saltos de línea dentro del valor.
+ */
+export const parseCsv = (content: string): { line: number; values: string[] }[] => {
+  const records: { line: number; values: string[] }[] = [];
+  let values: string[] = [];
+  let value = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(value);
+    // Las líneas vacías no son registros
+    if (values.length > 1 || values[0] !== '') {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    value = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      value += char;
+    }
+  }
+  if (quoted) {
+    throw new ImportFileError(`El CSV tiene unas comillas sin cerrar (línea ${recordLine})`);
+  }
+  if (value !== '' || values.length > 0) endRecord();
+  return records;
+};
+
+const readCsvRows = (content: string): ImportRow[] => {
+  const [header, ...records] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.values.map(column => column.trim());
+  if (!columns.includes('qr_data')) {
+    throw new ImportFileError('El CSV debe tener una cabecera con la columna qr_data');
+  }
+
+  return records.map(({ line, values }) => ({
+    row: line,
+    data: Object.fromEntries(
+      columns.map((column, index) => [column, values[index] ?? ''] as const).filter(([column]) => column !== '')
+    ),
+  }));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Array de escaneos, { scans: [...] } o una FeatureCollection GeoJSON de puntos
+const readJsonRows = (content: string): ImportRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ImportFileError('El fichero no contiene JSON válido');
+  }
+
+  if (isRecord(parsed) && parsed.type === 'FeatureCollection' && Array.isArray(parsed.features)) {
+    return parsed.features.map((feature, index) => {
+      const properties = isRecord(feature) && isRecord(feature.properties) ? feature.properties : {};
+      const geometry = isRecord(feature) && isRecord(feature.geometry) ? feature.geometry : {};
+      const coordinates = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+      return {
+        row: index + 1,
+        data: {
+          ...properties,
+          longitude: coordinates[0] ?? null,
+          latitude: coordinates[1] ?? null,
+          altitude: coordinates[2] ?? null,
+        },
+      };
+    });
+  }
+
+  const items = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.scans) ? parsed.scans : null;
+  if (!items) {
+    throw new ImportFileError('El JSON debe ser una lista de escaneos o una FeatureCollection GeoJSON');
+  }
+  // Los elementos que no son objetos se conservan para que se informen como filas inválidas
+  return items.map((item, index) => ({ row: index + 1, data: isRecord(item) ? item : { value: item } }));
+};
+
+/**
+ * Lee las filas de un fichero de copia. El formato se deduce de la extensión o, si no la
+ * tiene, del contenido.
+ * @throws ImportFileError si el fichero no se puede interpretar
+ */
+export const readImportFile = (content: string, fileName: string = ''): ImportRow[] => {
+  // Las hojas de cálculo suelen añadir una marca BOM al principio
+  const text = content.replace(/^\uFEFF/, '');
+  const extension = fileName.toLowerCase().split('.').pop();
+  const isJson = extension === 'json' || extension === 'geojson' || (extension !== 'csv' && /^\s*[[{]/.test(text));
+
+  const rows = isJson ? readJsonRows(text) : readCsvRows(text);
+  if (rows.length === 0) {
+    throw new ImportFileError('El fichero no contiene escaneos');
+  }
+  return rows;
+};
+
+// Fechas ISO (como las exporta la app) o milisegundos, también como texto
+const parseTime = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  if (/^\d+$/.test(value.trim())) return Number(value);
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? value : parsed;
+};
+
+const parseNumber = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const parsed = Number(value.trim());
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : value;
+};
+
+/**
+ * Convierte una fila importada al formato de POST /scans: quita los campos calculados,
+ * interpreta números y fechas escritos como texto y trata las celdas vacías como null.
+ */
+export const normalizeImportRow = (data: Record<string, unknown>): Record<string, unknown> => {
+  const normalized: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(data)) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const value = raw === '' ? null : raw;
+    if (TIME_FIELDS.includes(field)) normalized[field] = parseTime(value);
+    // En CSV las etiquetas van en una sola columna separadas por ;
+    else if (field === 'tags' && typeof value === 'string') normalized[field] = parseTagsText(value);
+    else if (NUMERIC_FIELDS.includes(field)) normalized[field] = parseNumber(value);
+    else normalized[field] = value;
+  }
+  return normalized;
+};
+
+/**
+ * Valida cada fila como en POST /scans.
+ * @returns Las filas válidas listas para guardar y el resultado de las inválidas
+ */
+export const validateImportRows = (
+  rows: ImportRow[]
+): { valid: { row: number; scan: ScanInput }[]; invalid: ImportRowResult[] } => {
+  const valid: { row: number; scan: ScanInput }[] = [];
+  const invalid: ImportRowResult[] = [];
+  for (const { row, data } of rows) {
+    const result = validateScanInput(normalizeImportRow(data));
+    if (result.ok) {
+      valid.push({ row, scan: result.value });
+    } else {
+      invalid.push({ row, status: 'invalid', errors: result.errors });
+    }
+  }
+  return { valid, invalid };
+};
+
+/**
+ * Totales del resultado de una importación, con las filas en el orden del fichero.
+ */
+export const summarizeImport = (rows: ImportRowResult[], queued: boolean = false): ImportSummary => ({
+  inserted: rows.filter(row => row.status === 'inserted').length,
+  skipped: rows.filter(row => row.status === 'skipped').length,
+  invalid: rows.filter(row => row.status === 'invalid').length,
+  rows: [...rows].sort((a, b) => a.row - b.row),
+  queued,
+});
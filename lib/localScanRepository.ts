@@ -0,0 +1,143 @@
+import * as Crypto from 'expo-crypto';
+import { normalizeAnnotationChanges, ScanAnnotationChanges, TagCount } from '@/lib/annotations';
+import { decideDuplicate, DuplicateSettings } from '@/lib/duplicates';
+import { ImportRow, ImportRowResult, ImportSummary, summarizeImport, validateImportRows } from '@/lib/importScans';
+import type { NewScan, ScanRecord } from '@/lib/scanRecord';
+import type {
+  RegisterScanResult,
+  ScanListPage,
+  ScanRepository,
+  SessionChanges,
+  ZoneChanges,
+} from '@/lib/scanRepository';
+import * as localStore from '@/lib/scanStore';
+import type { ScanQuery, ScanSession } from '@/lib/scanStore';
+import { getExpectedZoneId, Zone, ZoneShape } from '@/lib/zones';
+
+// Escaneos guardados solo en el dispositivo (SQLite en móvil, IndexedDB en navegador), sin servidor.
+// Los IDs son los del almacenamiento local y los registros (también las sesiones y las zonas) no tienen
+// estado de sincronización
+
+const toClientScan = (scan: ScanRecord): ScanRecord => ({ ...scan, local_id: scan.id });
+
+export class LocalScanRepository implements ScanRepository {
+  async init(): Promise<void> {
+    await localStore.initDatabase();
+  }
+
+  async getScans(query: ScanQuery = {}): Promise<ScanListPage> {
+    const page = await localStore.queryScans(query);
+    return { ...page, items: page.items.map(toClientScan) };
+  }
+
+  async getAllScans(query: ScanQuery = {}): Promise<ScanRecord[]> {
+    const { items } = await this.getScans({ ...query, limit: undefined, offset: 0 });
+    return items;
+  }
+
+  async getScanById(id: number): Promise<ScanRecord | null> {
+    const scan = await localStore.getScanById(id);
+    return scan ? toClientScan(scan) : null;
+  }
+
+  getLocalScan(localId: number): Promise<ScanRecord | null> {
+    return this.getScanById(localId);
+  }
+
+  addScan(scanData: NewScan): Promise<number> {
+    return localStore.addScan(scanData);
+  }
+
+  async registerScan(scanData: NewScan, duplicates: DuplicateSettings): Promise<RegisterScanResult> {
+    // Dentro de una sesión solo cuentan como repetidas las lecturas de esa misma sesión
+    const previous = duplicates.policy === 'always'
+      ? null
+      : await localStore.findLatestScanByData(scanData.qr_data, scanData.session_id);
+    const expectedZoneId = getExpectedZoneId(scanData, await localStore.findLatestZoneIdByData(scanData.qr_data));
+
+    switch (decideDuplicate(previous, scanData, duplicates)) {
+      case 'ignore':
+        return { outcome: 'ignored', localId: previous!.id, scanCount: previous!.scan_count ?? 1, expectedZoneId };
+      case 'increment':
+        await localStore.recordSighting(previous!.id, scanData.timestamp);
+        return {
+          outcome: 'incremented',
+          localId: previous!.id,
+          scanCount: (previous!.scan_count ?? 1) + 1,
+          expectedZoneId,
+        };
+      default: {
+        const localId = await this.addScan(scanData);
+        return { outcome: 'recorded', localId, scanCount: 1, expectedZoneId };
+      }
+    }
+  }
+
+  async importScans(rows: ImportRow[]): Promise<ImportSummary> {
+    const { valid, invalid } = validateImportRows(rows);
+    const saved = await localStore.addScansIfNew(valid.map(item => item.scan));
+    const results: ImportRowResult[] = saved.map(({ id, inserted }, position) => ({
+      row: valid[position].row,
+      status: inserted ? 'inserted' : 'skipped',
+      id,
+    }));
+    return summarizeImport([...invalid, ...results]);
+  }
+
+  deleteScan(scan: Pick<ScanRecord, 'id' | 'sync_status' | 'local_id'>): Promise<boolean> {
+    return localStore.deleteScan(scan.local_id ?? scan.id);
+  }
+
+  async updateScan(scan: ScanRecord, changes: ScanAnnotationChanges): Promise<ScanRecord> {
+    const normalized = normalizeAnnotationChanges(changes);
+    const id = scan.local_id ?? scan.id;
+    if (!(await localStore.updateScanAnnotations(id, normalized))) {
+      throw new Error(`El escaneo ${id} ya no existe en el dispositivo`);
+    }
+    return { ...scan, ...normalized };
+  }
+
+  getTags(): Promise<TagCount[]> {
+    return localStore.getTagCounts();
+  }
+
+  getSessions(): Promise<ScanSession[]> {
+    return localStore.getSessions();
+  }
+
+  async startSession(name: string): Promise<ScanSession> {
+    const session: ScanSession = { id: Crypto.randomUUID(), name: name.trim(), started_at: Date.now(), ended_at: null };
+    await localStore.saveSession(session);
+    return session;
+  }
+
+  async updateSession(session: ScanSession, changes: SessionChanges): Promise<ScanSession> {
+    const updated = { ...session, ...changes, name: (changes.name ?? session.name).trim() };
+    await localStore.saveSession(updated);
+    return updated;
+  }
+
+  async deleteSession(session: ScanSession): Promise<void> {
+    await localStore.deleteSession(session.id);
+  }
+
+  getZones(): Promise<Zone[]> {
+    return localStore.getZones();
+  }
+
+  async createZone(name: string, shape: ZoneShape): Promise<Zone> {
+    const zone: Zone = { id: Crypto.randomUUID(), name: name.trim(), shape, created_at: Date.now() };
+    await localStore.saveZone(zone);
+    return zone;
+  }
+
+  async updateZone(zone: Zone, changes: ZoneChanges): Promise<Zone> {
+    const updated = { ...zone, ...changes, name: (changes.name ?? zone.name).trim() };
+    await localStore.saveZone(updated);
+    return updated;
+  }
+
+  async deleteZone(zone: Zone): Promise<void> {
+    await localStore.deleteZone(zone.id);
+  }
+}
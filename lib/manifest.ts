@@ -0,0 +1,259 @@
+import { escapeCsv, toFileNameSlug } from '@/lib/export';
+import { ImportFileError, parseCsv } from '@/lib/importScans';
+
+// Listas de códigos esperados (modo lista de control) para auditorías e inventarios: se carga una
+// lista de qr_data con su descripción y el escáner indica si cada lectura estaba en ella, ya se había
+// leído o no se esperaba. Al terminar, la conciliación reúne los códigos que faltan y los inesperados
+
+export const MAX_MANIFEST_ITEMS = 10000;
+export const MAX_MANIFEST_LABEL_LENGTH = 200;
+
+export interface ManifestItem {
+  qr_data: string;
+  label: string | null; // Descripción para reconocer el código (ubicación, artículo...)
+}
+
+export interface Manifest {
+  id: string;
+  name: string;
+  items: ManifestItem[];
+  created_at: number;
+}
+
+// Lecturas de un código durante la lista de control
+export interface ChecklistSighting {
+  first_scanned_at: number;
+  last_scanned_at: number;
+  count: number;
+}
+
+export interface ChecklistProgress {
+  manifest_id: string;
+  matched: Record<string, ChecklistSighting>;    // Por qr_data de la lista
+  unexpected: Record<string, ChecklistSighting>; // Por qr_data leído que no está en la lista
+}
+
+// matched: primera lectura de un código esperado; already_scanned: se vuelve a leer uno esperado
+export type ChecklistOutcome = 'matched' | 'already_scanned' | 'unexpected';
+
+export const CHECKLIST_OUTCOME_LABELS: Record<ChecklistOutcome, string> = {
+  matched: 'Esperado',
+  already_scanned: 'Ya escaneado',
+  unexpected: 'No esperado',
+};
+
+export const CHECKLIST_OUTCOME_COLORS: Record<ChecklistOutcome, string> = {
+  matched: '#34C759',
+  already_scanned: '#FF9500',
+  unexpected: '#FF3B30',
+};
+
+export interface ChecklistSummary {
+  total: number;
+  matched: number;
+  missing: ManifestItem[];
+  unexpected: { qr_data: string; sighting: ChecklistSighting }[];
+}
+
+// Los códigos se comparan sin los espacios y saltos de línea de los extremos, que las hojas de cálculo
+// y algunos lectores añaden o quitan
+export const normalizeManifestCode = (value: string): string => value.trim();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toItem = (code: unknown, label: unknown): ManifestItem | null => {
+  if (typeof code !== 'string' && typeof code !== 'number') return null;
+  const qrData = normalizeManifestCode(String(code));
+  if (qrData === '') return null;
+  const text = typeof label === 'string' ? label.trim().slice(0, MAX_MANIFEST_LABEL_LENGTH) : '';
+  return { qr_data: qrData, label: text || null };
+};
+
+// CSV con cabecera qr_data (y label opcional) o, sin cabecera, un código por línea
+const readCsvItems = (content: string): (ManifestItem | null)[] => {
+  const records = parseCsv(content);
+  const columns = records[0]?.values.map(column => column.trim().toLowerCase()) ?? [];
+  const codeColumn = columns.indexOf('qr_data');
+  if (codeColumn === -1) return records.map(({ values }) => toItem(values[0], values[1]));
+  const labelColumn = columns.indexOf('label');
+  return records
+    .slice(1)
+    .map(({ values }) => toItem(values[codeColumn], labelColumn === -1 ? null : values[labelColumn]));
+};
+
+// Lista de textos o de objetos { qr_data, label }, sola o en { items: [...] }
+const readJsonItems = (content: string): (ManifestItem | null)[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ImportFileError('El fichero no contiene JSON válido');
+  }
+  const items = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.items) ? parsed.items : null;
+  if (!items) {
+    throw new ImportFileError('El JSON debe ser una lista de códigos o un objeto { items: [...] }');
+  }
+  return items.map(item => (isRecord(item) ? toItem(item.qr_data, item.label) : toItem(item, null)));
+};
+
+/**
+ * Lee los códigos esperados de un fichero CSV o JSON. Se omiten las filas vacías y los códigos
+ * repetidos (se conserva la primera descripción).
+ * @throws ImportFileError si el fichero no se puede interpretar, está vacío o supera MAX_MANIFEST_ITEMS
+ */
+export const readManifestFile = (content: string, fileName: string = ''): ManifestItem[] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const extension = fileName.toLowerCase().split('.').pop();
+  const isJson = extension === 'json' || (extension !== 'csv' && /^\s*[[{]/.test(text));
+
+  const seen = new Set<string>();
+  const items = (isJson ? readJsonItems(text) : readCsvItems(text)).filter((item): item is ManifestItem => {
+    if (!item || seen.has(item.qr_data)) return false;
+    seen.add(item.qr_data);
+    return true;
+  });
+  if (items.length === 0) {
+    throw new ImportFileError('El fichero no contiene códigos');
+  }
+  if (items.length > MAX_MANIFEST_ITEMS) {
+    throw new ImportFileError(`La lista no puede tener más de ${MAX_MANIFEST_ITEMS} códigos`);
+  }
+  return items;
+};
+
+export const createChecklistProgress = (manifest: Pick<Manifest, 'id'>): ChecklistProgress => ({
+  manifest_id: manifest.id,
+  matched: {},
+  unexpected: {},
+});
+
+const addSighting = (sighting: ChecklistSighting | undefined, at: number): ChecklistSighting =>
+  sighting
+    ? { ...sighting, last_scanned_at: at, count: sighting.count + 1 }
+    : { first_scanned_at: at, last_scanned_at: at, count: 1 };
+
+/**
+ * Anota una lectura en el progreso de la lista de control.
+ * @returns El progreso actualizado (sin modificar el anterior), el resultado y el elemento de la lista
+ */
+export const recordChecklistScan = (
+  manifest: Manifest,
+  progress: ChecklistProgress,
+  qrData: string,
+  at: number
+): { progress: ChecklistProgress; outcome: ChecklistOutcome; item: ManifestItem | null } => {
+  const code = normalizeManifestCode(qrData);
+  const item = manifest.items.find(entry => entry.qr_data === code) ?? null;
+  if (!item) {
+    const unexpected = { ...progress.unexpected, [code]: addSighting(progress.unexpected[code], at) };
+    return { progress: { ...progress, unexpected }, outcome: 'unexpected', item };
+  }
+  const previous = progress.matched[code];
+  return {
+    progress: { ...progress, matched: { ...progress.matched, [code]: addSighting(previous, at) } },
+    outcome: previous ? 'already_scanned' : 'matched',
+    item,
+  };
+};
+
+/**
+ * Totales de la lista de control, con los códigos que faltan en el orden de la lista y los inesperados
+ * por orden de lectura.
+ */
+export const getChecklistSummary = (manifest: Manifest, progress: ChecklistProgress): ChecklistSummary => ({
+  total: manifest.items.length,
+  matched: manifest.items.filter(item => progress.matched[item.qr_data]).length,
+  missing: manifest.items.filter(item => !progress.matched[item.qr_data]),
+  unexpected: Object.entries(progress.unexpected)
+    .map(([qr_data, sighting]) => ({ qr_data, sighting }))
+    .sort((a, b) => a.sighting.first_scanned_at - b.sighting.first_scanned_at),
+});
+
+export type ReconciliationFormat = 'csv' | 'json';
+
+export const RECONCILIATION_MIME_TYPES: Record<ReconciliationFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Fila del informe de conciliación: un código esperado que no se ha leído o uno leído que no se esperaba
+interface ReconciliationRow {
+  result: 'missing' | 'unexpected';
+  qr_data: string;
+  label: string | null;
+  first_scanned_at: string | null;
+  last_scanned_at: string | null;
+  scan_count: number;
+}
+
+const RECONCILIATION_FIELDS: (keyof ReconciliationRow)[] = [
+  'result',
+  'qr_data',
+  'label',
+  'first_scanned_at',
+  'last_scanned_at',
+  'scan_count',
+];
+
+/**
+ * Informe de conciliación: los códigos de la lista que faltan y los leídos que no estaban en ella.
+ * En JSON incluye además los totales de la lista.
+ */
+export const buildReconciliationReport = (
+  manifest: Manifest,
+  progress: ChecklistProgress,
+  format: ReconciliationFormat
+): string => {
+  const summary = getChecklistSummary(manifest, progress);
+  const rows: ReconciliationRow[] = [
+    ...summary.missing.map(item => ({
+      result: 'missing' as const,
+      qr_data: item.qr_data,
+      label: item.label,
+      first_scanned_at: null,
+      last_scanned_at: null,
+      scan_count: 0,
+    })),
+    ...summary.unexpected.map(({ qr_data, sighting }) => ({
+      result: 'unexpected' as const,
+      qr_data,
+      label: null,
+      first_scanned_at: new Date(sighting.first_scanned_at).toISOString(),
+      last_scanned_at: new Date(sighting.last_scanned_at).toISOString(),
+      scan_count: sighting.count,
+    })),
+  ];
+
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        manifest: manifest.name,
+        generated_at: new Date().toISOString(),
+        total: summary.total,
+        matched: summary.matched,
+        missing: summary.missing.length,
+        unexpected: summary.unexpected.length,
+        items: rows,
+      },
+      null,
+      2
+    );
+  }
+  return [
+    RECONCILIATION_FIELDS.join(','),
+    ...rows.map(row => RECONCILIATION_FIELDS.map(field => escapeCsv(String(row[field] ?? ''))).join(',')),
+  ].join('\r\n');
+};
+
+/**
+ * Nombre de fichero del informe de conciliación, p. ej. conciliacion-inventario-almacen-2024-05-01.csv
+ */
+export const buildReconciliationFileName = (
+  manifest: Pick<Manifest, 'name'>,
+  format: ReconciliationFormat,
+  now: number = Date.now()
+): string => {
+  const date = new Date(now).toISOString().slice(0, 10);
+  return ['conciliacion', toFileNameSlug(manifest.name), date].filter(Boolean).join('-') + `.${format}`;
+};
@@ -0,0 +1,41 @@
+// Agrupación de marcadores cercanos para el mapa de escaneos
+
+export interface MapPoint<T> {
+  x: number; // Píxeles en el plano del mapa al nivel de zoom actual
+  y: number;
+  item: T;
+}
+
+export interface MapCluster<T> {
+  key: string;
+  x: number; // Centro de los puntos del grupo
+  y: number;
+  items: T[];
+}
+
+/**
+ * Agrupa los puntos que caen en la misma celda de una cuadrícula de cellSize píxeles.
+ * Las coordenadas deben ser del plano del mapa (no de la pantalla) para que los grupos no
+ * cambien al desplazar el mapa, solo al hacer zoom.
+ */
+export const clusterPoints = <T>(points: MapPoint<T>[], cellSize: number): MapCluster<T>[] => {
+  const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+  for (const point of points) {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.sumX += point.x;
+      cell.sumY += point.y;
+      cell.items.push(point.item);
+    } else {
+      cells.set(key, { sumX: point.x, sumY: point.y, items: [point.item] });
+    }
+  }
+
+  return [...cells.entries()].map(([key, cell]) => ({
+    key,
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+    items: cell.items,
+  }));
+};
@@ -0,0 +1,184 @@
+import * as Crypto from 'expo-crypto';
+import {
+  countTags,
+  DEFAULT_SCAN_STATUS,
+  normalizeAnnotationChanges,
+  ScanAnnotationChanges,
+  TagCount,
+} from '@/lib/annotations';
+import { decideDuplicate, DuplicateSettings } from '@/lib/duplicates';
+import { ImportRow, ImportRowResult, ImportSummary, summarizeImport, validateImportRows } from '@/lib/importScans';
+import { parsePayload } from '@/lib/payload';
+import type { NewScan, ScanRecord } from '@/lib/scanRecord';
+import type {
+  RegisterScanResult,
+  ScanListPage,
+  ScanRepository,
+  SessionChanges,
+  ZoneChanges,
+} from '@/lib/scanRepository';
+import { pickLatestScan, ScanQuery, ScanSession, selectScans } from '@/lib/scanStore';
+import { getExpectedZoneId, Zone, ZoneShape } from '@/lib/zones';
+
+// Escaneos en una lista en memoria que se pierde al cerrar la app. Pensado para pruebas y
+// demostraciones: se puede crear con escaneos iniciales y se comporta como el almacenamiento local
+
+export class MemoryScanRepository implements ScanRepository {
+  private scans: ScanRecord[];
+  private nextId: number;
+  private sessions: ScanSession[] = [];
+  private zones: Zone[] = [];
+
+  constructor(initialScans: ScanRecord[] = []) {
+    this.scans = initialScans.map(scan => ({ ...scan }));
+    this.nextId = Math.max(0, ...initialScans.map(scan => scan.id)) + 1;
+  }
+
+  async init(): Promise<void> {}
+
+  async getScans(query: ScanQuery = {}): Promise<ScanListPage> {
+    const page = selectScans(this.scans, query);
+    return { ...page, items: page.items.map(scan => ({ ...scan, local_id: scan.id })) };
+  }
+
+  async getAllScans(query: ScanQuery = {}): Promise<ScanRecord[]> {
+    return (await this.getScans({ ...query, limit: undefined, offset: 0 })).items;
+  }
+
+  async getScanById(id: number): Promise<ScanRecord | null> {
+    const scan = this.scans.find(item => item.id === id);
+    return scan ? { ...scan, local_id: scan.id } : null;
+  }
+
+  getLocalScan(localId: number): Promise<ScanRecord | null> {
+    return this.getScanById(localId);
+  }
+
+  // Con los mismos valores por defecto que el almacenamiento local
+  async addScan(scanData: NewScan): Promise<number> {
+    const payload = parsePayload(scanData.qr_data);
+    const scan: ScanRecord = {
+      ...scanData,
+      id: this.nextId++,
+      created_at: new Date().toISOString(),
+      payload_type: payload.type,
+      payload_fields: payload.fields as Record<string, unknown>,
+      barcode_type: scanData.barcode_type ?? null,
+      scan_count: scanData.scan_count ?? 1,
+      last_seen_at: scanData.last_seen_at ?? scanData.timestamp,
+      session_id: scanData.session_id ?? null,
+      zone_id: scanData.zone_id ?? null,
+      notes: scanData.notes ?? null,
+      tags: scanData.tags ?? [],
+      status: scanData.status ?? DEFAULT_SCAN_STATUS,
+    };
+    this.scans.push(scan);
+    return scan.id;
+  }
+
+  async registerScan(scanData: NewScan, duplicates: DuplicateSettings): Promise<RegisterScanResult> {
+    const matches = this.scans.filter(scan => scan.qr_data === scanData.qr_data);
+    const previous = duplicates.policy === 'always'
+      ? null
+      : pickLatestScan(matches.filter(scan => !scanData.session_id || scan.session_id === scanData.session_id));
+    const lastZoneId = pickLatestScan(matches.filter(scan => scan.zone_id))?.zone_id ?? null;
+    const expectedZoneId = getExpectedZoneId(scanData, lastZoneId);
+
+    switch (decideDuplicate(previous, scanData, duplicates)) {
+      case 'ignore':
+        return { outcome: 'ignored', localId: previous!.id, scanCount: previous!.scan_count ?? 1, expectedZoneId };
+      case 'increment':
+        previous!.scan_count = (previous!.scan_count ?? 1) + 1;
+        previous!.last_seen_at = Math.max(previous!.last_seen_at ?? previous!.timestamp, scanData.timestamp);
+        return { outcome: 'incremented', localId: previous!.id, scanCount: previous!.scan_count, expectedZoneId };
+      default: {
+        const localId = await this.addScan(scanData);
+        return { outcome: 'recorded', localId, scanCount: 1, expectedZoneId };
+      }
+    }
+  }
+
+  async importScans(rows: ImportRow[]): Promise<ImportSummary> {
+    const { valid, invalid } = validateImportRows(rows);
+    const existing = new Map(this.scans.map(scan => [`${scan.timestamp}:${scan.qr_data}`, scan.id]));
+    const results: ImportRowResult[] = [...invalid];
+    for (const { row, scan } of valid) {
+      const key = `${scan.timestamp}:${scan.qr_data}`;
+      const id = existing.get(key);
+      if (id !== undefined) {
+        results.push({ row, status: 'skipped', id });
+        continue;
+      }
+      const newId = await this.addScan(scan);
+      existing.set(key, newId);
+      results.push({ row, status: 'inserted', id: newId });
+    }
+    return summarizeImport(results);
+  }
+
+  async deleteScan(scan: Pick<ScanRecord, 'id' | 'sync_status' | 'local_id'>): Promise<boolean> {
+    const initialLength = this.scans.length;
+    this.scans = this.scans.filter(item => item.id !== (scan.local_id ?? scan.id));
+    return this.scans.length < initialLength;
+  }
+
+  async updateScan(scan: ScanRecord, changes: ScanAnnotationChanges): Promise<ScanRecord> {
+    const stored = this.scans.find(item => item.id === (scan.local_id ?? scan.id));
+    if (!stored) {
+      throw new Error(`El escaneo ${scan.id} no existe`);
+    }
+    Object.assign(stored, normalizeAnnotationChanges(changes));
+    return { ...scan, ...stored, local_id: stored.id };
+  }
+
+  async getTags(): Promise<TagCount[]> {
+    return countTags(this.scans);
+  }
+
+  async getSessions(): Promise<ScanSession[]> {
+    return this.sessions
+      .map(session => ({ ...session, scan_count: this.scans.filter(scan => scan.session_id === session.id).length }))
+      .sort((a, b) => b.started_at - a.started_at);
+  }
+
+  async startSession(name: string): Promise<ScanSession> {
+    const session: ScanSession = { id: Crypto.randomUUID(), name: name.trim(), started_at: Date.now(), ended_at: null };
+    this.sessions.push(session);
+    return { ...session };
+  }
+
+  async updateSession(session: ScanSession, changes: SessionChanges): Promise<ScanSession> {
+    const { scan_count: _count, ...updated } = { ...session, ...changes, name: (changes.name ?? session.name).trim() };
+    this.sessions = [...this.sessions.filter(item => item.id !== session.id), updated];
+    return { ...updated };
+  }
+
+  async deleteSession(session: ScanSession): Promise<void> {
+    this.sessions = this.sessions.filter(item => item.id !== session.id);
+    this.scans = this.scans.filter(scan => scan.session_id !== session.id);
+  }
+
+  async getZones(): Promise<Zone[]> {
+    return this.zones.map(zone => ({ ...zone })).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createZone(name: string, shape: ZoneShape): Promise<Zone> {
+    const zone: Zone = { id: Crypto.randomUUID(), name: name.trim(), shape, created_at: Date.now() };
+    this.zones.push(zone);
+    return { ...zone };
+  }
+
+  async updateZone(zone: Zone, changes: ZoneChanges): Promise<Zone> {
+    const updated = { ...zone, ...changes, name: (changes.name ?? zone.name).trim() };
+    this.zones = [...this.zones.filter(item => item.id !== zone.id), updated];
+    return { ...updated };
+  }
+
+  // Como en el almacenamiento local, los escaneos de la zona se conservan sin ella
+  async deleteZone(zone: Zone): Promise<void> {
+    this.zones = this.zones.filter(item => item.id !== zone.id);
+    this.scans.filter(scan => scan.zone_id === zone.id).forEach(scan => {
+      scan.zone_id = null;
+    });
+  }
+}
@@ -0,0 +1,380 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// Migraciones versionadas del almacenamiento local. SQLite guarda su versión en PRAGMA user_version
+// y el almacenamiento web en la clave version del almacén meta de IndexedDB (antes, en localStorage).
+// Las migraciones se aplican en orden y cada una en su propia transacción: si falla, se deshacen
+// sus cambios y la versión se queda en la última migración completada.
+//
+// Para cambiar el esquema se añade una migración al final de la lista correspondiente;
+// nunca se modifican las que ya se han publicado. Tampoco usan código que pueda cambiar después, como el
+// analizador del contenido: lo que escribe una migración no debe depender de cuándo se actualizó la app.
+
+export interface SqliteMigration {
+  version: number;
+  description: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+// Datos web guardados (IndexedDB o el antiguo objeto de localStorage); las migraciones trabajan sin tipos
+export type StoredWebData = Record<string, any>;
+
+export interface WebMigration {
+  version: number;
+  description: string;
+  up: (data: StoredWebData) => StoredWebData;
+}
+
+// Error de una migración concreta (la base de datos conserva la versión anterior)
+export class MigrationError extends Error {
+  constructor(public version: number, description: string, public cause: unknown) {
+    super(
+      `Error en la migración ${version} (${description}): ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = 'MigrationError';
+  }
+}
+
+// Las instalaciones anteriores a las migraciones tienen user_version 0 pero pueden tener ya
+// parte de las columnas (se añadían al arrancar), así que hasta la migración 8 se comprueba lo que existe
+const addColumnIfMissing = async (db: SQLiteDatabase, table: string, column: string, type: string) => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some(existing => existing.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+};
+
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'Tabla de escaneos',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS scans (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          qr_data TEXT NOT NULL,
+          latitude REAL,
+          longitude REAL,
+          altitude REAL,
+          accuracy REAL,
+          timestamp INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Cola de sincronización',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sync_queue (
+          scan_id INTEGER PRIMARY KEY,
+          status TEXT NOT NULL DEFAULT 'pending',
+          remote_id INTEGER,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER,
+          last_error TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Contenido interpretado',
+    up: async db => {
+      await addColumnIfMissing(db, 'scans', 'payload_type', 'TEXT');
+      await addColumnIfMissing(db, 'scans', 'payload_fields', 'TEXT');
+      // Las filas existentes las rellena scanStore al abrir la base de datos, con el mismo analizador que
+      // los escaneos nuevos: una migración publicada no debe cambiar lo que escribe si cambia el analizador
+    },
+  },
+  {
+    version: 4,
+    description: 'Simbología del código',
+    up: async db => {
+      await addColumnIfMissing(db, 'scans', 'barcode_type', 'TEXT');
+      // Antes de admitir otras simbologías solo se escaneaban códigos QR
+      await db.runAsync("UPDATE scans SET barcode_type = 'qr' WHERE barcode_type IS NULL");
+    },
+  },
+  {
+    version: 5,
+    description: 'Lecturas repetidas',
+    up: async db => {
+      await addColumnIfMissing(db, 'scans', 'scan_count', 'INTEGER NOT NULL DEFAULT 1');
+      await addColumnIfMissing(db, 'scans', 'last_seen_at', 'INTEGER');
+      await addColumnIfMissing(db, 'sync_queue', 'pending_sightings', 'INTEGER NOT NULL DEFAULT 0');
+      // Antes del contador de lecturas cada escaneo se veía una sola vez
+      await db.runAsync('UPDATE scans SET last_seen_at = timestamp WHERE last_seen_at IS NULL');
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_scans_data_timestamp ON scans (qr_data, timestamp)');
+    },
+  },
+  {
+    version: 6,
+    description: 'Sesiones de escaneo',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          ended_at INTEGER,
+          sync_status TEXT
+        );
+      `);
+      await addColumnIfMissing(db, 'scans', 'session_id', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    description: 'Zonas',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS zones (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          shape TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          sync_status TEXT
+        );
+      `);
+      await addColumnIfMissing(db, 'scans', 'zone_id', 'TEXT');
+    },
+  },
+  {
+    version: 8,
+    description: 'Notas, etiquetas y estado de revisión',
+    up: async db => {
+      await addColumnIfMissing(db, 'scans', 'notes', 'TEXT');
+      await addColumnIfMissing(db, 'scans', 'tags', "TEXT NOT NULL DEFAULT '[]'");
+      await addColumnIfMissing(db, 'scans', 'status', "TEXT NOT NULL DEFAULT 'pending'");
+      await addColumnIfMissing(db, 'sync_queue', 'pending_changes', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 9,
+    description: 'Propietario',
+    up: async db => {
+      await db.execAsync('ALTER TABLE scans ADD COLUMN owner_id TEXT');
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_scans_owner ON scans (owner_id)');
+    },
+  },
+  {
+    version: 10,
+    description: 'Espacios de trabajo',
+    up: async db => {
+      await db.execAsync('ALTER TABLE scans ADD COLUMN owner_name TEXT');
+      await db.execAsync('ALTER TABLE scans ADD COLUMN workspace_id TEXT');
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_scans_workspace ON scans (workspace_id)');
+    },
+  },
+  {
+    version: 11,
+    description: 'Veredicto de seguridad de enlaces',
+    up: async db => {
+      await db.execAsync('ALTER TABLE scans ADD COLUMN url_verdict TEXT');
+    },
+  },
+  {
+    version: 12,
+    description: 'Propietario y espacio de trabajo de sesiones y zonas',
+    up: async db => {
+      for (const table of ['sessions', 'zones']) {
+        await db.execAsync(`ALTER TABLE ${table} ADD COLUMN owner_id TEXT`);
+        await db.execAsync(`ALTER TABLE ${table} ADD COLUMN workspace_id TEXT`);
+      }
+    },
+  },
+  {
+    version: 13,
+    description: 'Lecturas repetidas en envío',
+    up: async db => {
+      await addColumnIfMissing(db, 'sync_queue', 'sending_sightings', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumnIfMissing(db, 'sync_queue', 'sending_key', 'TEXT');
+    },
+  },
+];
+
+export const WEB_MIGRATIONS: WebMigration[] = [
+  {
+    version: 1,
+    description: 'Cola de sincronización',
+    up: data => ({ ...data, scans: data.scans ?? [], queue: data.queue ?? [], nextId: data.nextId ?? 1 }),
+  },
+  {
+    version: 2,
+    description: 'Contenido interpretado',
+    // Como en SQLite, los escaneos sin tipo de contenido los rellena scanStore al cargar los datos
+    up: data => data,
+  },
+  {
+    version: 3,
+    description: 'Simbología del código',
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({ ...scan, barcode_type: scan.barcode_type ?? 'qr' })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Lecturas repetidas',
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({
+        ...scan,
+        scan_count: scan.scan_count ?? 1,
+        last_seen_at: scan.last_seen_at ?? scan.timestamp,
+      })),
+      queue: data.queue.map((entry: StoredWebData) => ({ ...entry, pending_sightings: entry.pending_sightings ?? 0 })),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Sesiones de escaneo',
+    up: data => ({ ...data, sessions: data.sessions ?? [] }),
+  },
+  {
+    version: 6,
+    description: 'Zonas',
+    up: data => ({ ...data, zones: data.zones ?? [] }),
+  },
+  {
+    version: 7,
+    description: 'Notas, etiquetas y estado de revisión',
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({
+        ...scan,
+        notes: scan.notes ?? null,
+        tags: scan.tags ?? [],
+        status: scan.status ?? 'pending',
+      })),
+      queue: data.queue.map((entry: StoredWebData) => ({ ...entry, pending_changes: entry.pending_changes ?? 0 })),
+    }),
+  },
+  {
+    version: 8,
+    description: 'Fecha de creación',
+    // La fecha de guardado es obligatoria en ScanRecord; en los registros antiguos se usa la del escaneo
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({
+        ...scan,
+        created_at: scan.created_at ?? new Date(scan.timestamp).toISOString(),
+      })),
+    }),
+  },
+  {
+    version: 9,
+    description: 'Propietario',
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({ ...scan, owner_id: scan.owner_id ?? null })),
+    }),
+  },
+  {
+    version: 10,
+    description: 'Espacios de trabajo',
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({
+        ...scan,
+        owner_name: scan.owner_name ?? null,
+        workspace_id: scan.workspace_id ?? null,
+      })),
+    }),
+  },
+  {
+    version: 11,
+    description: 'Veredicto de seguridad de enlaces',
+    up: data => ({
+      ...data,
+      scans: data.scans.map((scan: StoredWebData) => ({ ...scan, url_verdict: scan.url_verdict ?? null })),
+    }),
+  },
+  {
+    version: 12,
+    description: 'Propietario y espacio de trabajo de sesiones y zonas',
+    up: data => {
+      const withScope = (item: StoredWebData) => ({
+        ...item,
+        owner_id: item.owner_id ?? null,
+        workspace_id: item.workspace_id ?? null,
+      });
+      return { ...data, sessions: data.sessions.map(withScope), zones: data.zones.map(withScope) };
+    },
+  },
+  {
+    version: 13,
+    description: 'Lecturas repetidas en envío',
+    up: data => ({
+      ...data,
+      queue: data.queue.map((entry: StoredWebData) => ({
+        ...entry,
+        sending_sightings: entry.sending_sightings ?? 0,
+        sending_key: entry.sending_key ?? null,
+      })),
+    }),
+  },
+];
+
+export const SQLITE_SCHEMA_VERSION = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+export const WEB_SCHEMA_VERSION = WEB_MIGRATIONS[WEB_MIGRATIONS.length - 1].version;
+
+/**
+ * Aplica a la base de datos SQLite las migraciones posteriores a su PRAGMA user_version.
+ * Cada migración y su cambio de versión se confirman juntos en una transacción exclusiva.
+ * @returns Versión del esquema tras migrar
+ * @throws MigrationError si falla una migración (las anteriores quedan aplicadas)
+ */
+export const migrateSqlite = async (
+  db: SQLiteDatabase,
+  migrations: SqliteMigration[] = SQLITE_MIGRATIONS
+): Promise<number> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  let version = row?.user_version ?? 0;
+
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (version > latest) {
+    // Base de datos creada por una versión más reciente de la app: se usa tal cual
+    console.warn(`La base de datos tiene la versión ${version} y esta app solo conoce hasta la ${latest}`);
+    return version;
+  }
+
+  for (const migration of migrations.filter(m => m.version > version)) {
+    try {
+      await db.withExclusiveTransactionAsync(async txn => {
+        await migration.up(txn);
+        // PRAGMA no admite parámetros; la versión es siempre un entero de la lista
+        await txn.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      throw new MigrationError(migration.version, migration.description, error);
+    }
+    version = migration.version;
+  }
+  return version;
+};
+
+/**
+ * Migra los datos web guardados a la última versión. Las migraciones trabajan sobre una copia,
+ * así que si alguna falla no se modifica nada y se lanza el error.
+ * Los datos sin clave version son anteriores a las migraciones (versión 0).
+ * @throws MigrationError si falla una migración
+ */
+export const migrateWebData = (
+  stored: StoredWebData,
+  migrations: WebMigration[] = WEB_MIGRATIONS
+): StoredWebData => {
+  let data: StoredWebData = JSON.parse(JSON.stringify(stored));
+  const version = typeof data.version === 'number' ? data.version : 0;
+
+  for (const migration of migrations.filter(m => m.version > version)) {
+    try {
+      data = { ...migration.up(data), version: migration.version };
+    } catch (error) {
+      throw new MigrationError(migration.version, migration.description, error);
+    }
+  }
+  return data;
+};
@@ -0,0 +1,518 @@
+import { Gs1Payload, parseGs1 } from '@/lib/gs1';
+
+// Tipos de contenido de los códigos escaneados
+
+export type PayloadType =
+  | 'url'
+  | 'wifi'
+  | 'contact'
+  | 'email'
+  | 'phone'
+  | 'sms'
+  | 'geo'
+  | 'event'
+  | 'payment'
+  | 'gs1'
+  | 'text';
+
+export const PAYLOAD_TYPES: readonly PayloadType[] = [
+  'url',
+  'wifi',
+  'contact',
+  'email',
+  'phone',
+  'sms',
+  'geo',
+  'event',
+  'payment',
+  'gs1',
+  'text',
+];
+
+export const PAYLOAD_TYPE_LABELS: Record<PayloadType, string> = {
+  url: 'Enlace',
+  wifi: 'Wi-Fi',
+  contact: 'Contacto',
+  email: 'Email',
+  phone: 'Teléfono',
+  sms: 'SMS',
+  geo: 'Ubicación',
+  event: 'Evento',
+  payment: 'Pago',
+  gs1: 'GS1',
+  text: 'Texto',
+};
+
+// Prefijos que identifican cada tipo (sin distinguir mayúsculas). 'gs1' se reconoce por
+// su estructura de identificadores de aplicación y 'text' es el resto.
+const PAYLOAD_TYPE_PREFIXES: Record<Exclude<PayloadType, 'gs1' | 'text'>, string[]> = {
+  url: ['http://', 'https://', 'www.'],
+  wifi: ['WIFI:'],
+  contact: ['BEGIN:VCARD', 'MECARD:'],
+  email: ['mailto:', 'MATMSG:'],
+  phone: ['tel:'],
+  sms: ['SMSTO:', 'sms:'],
+  geo: ['geo:'],
+  event: ['BEGIN:VEVENT', 'BEGIN:VCALENDAR'],
+  payment: ['BCD\n', 'BCD\r\n'],
+};
+
+export const isPayloadType = (value: unknown): value is PayloadType =>
+  typeof value === 'string' && (PAYLOAD_TYPES as readonly string[]).includes(value);
+
+/**
+ * Detecta el tipo de contenido de un código a partir de su prefijo
+ * o, para códigos de producto y logística, de sus identificadores GS1.
+ */
+export const detectPayloadType = (data: string): PayloadType => {
+  const normalized = data.toLowerCase();
+  for (const [type, prefixes] of Object.entries(PAYLOAD_TYPE_PREFIXES)) {
+    if (prefixes.some(prefix => normalized.startsWith(prefix.toLowerCase()))) {
+      return type as PayloadType;
+    }
+  }
+  return parseGs1(data) ? 'gs1' : 'text';
+};
+
+// Campos extraídos de cada tipo de contenido
+
+export interface UrlPayload {
+  url: string;
+}
+
+export interface WifiPayload {
+  ssid: string;
+  password: string | null;
+  security: string | null; // WPA, WEP, nopass...
+  hidden: boolean;
+}
+
+export interface ContactPayload {
+  name: string | null;
+  organization: string | null;
+  title: string | null;
+  phones: string[];
+  emails: string[];
+  address: string | null;
+  url: string | null;
+  note: string | null;
+}
+
+export interface EmailPayload {
+  to: string;
+  subject: string | null;
+  body: string | null;
+}
+
+export interface PhonePayload {
+  number: string;
+}
+
+export interface SmsPayload {
+  number: string;
+  message: string | null;
+}
+
+export interface GeoPayload {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  query: string | null;
+}
+
+export interface EventPayload {
+  summary: string | null;
+  start: string | null; // ISO 8601
+  end: string | null;
+  location: string | null;
+  description: string | null;
+}
+
+// Transferencia SEPA según la guía EPC069-12 (códigos "BCD")
+export interface PaymentPayload {
+  name: string;
+  iban: string;
+  bic: string | null;
+  amount: number | null;
+  currency: string | null;
+  purpose: string | null;
+  reference: string | null;
+  text: string | null;
+}
+
+export type { Gs1Payload };
+
+export type TextPayload = Record<string, never>;
+
+export interface PayloadFieldsByType {
+  url: UrlPayload;
+  wifi: WifiPayload;
+  contact: ContactPayload;
+  email: EmailPayload;
+  phone: PhonePayload;
+  sms: SmsPayload;
+  geo: GeoPayload;
+  event: EventPayload;
+  payment: PaymentPayload;
+  gs1: Gs1Payload;
+  text: TextPayload;
+}
+
+export type ParsedPayload = {
+  [K in PayloadType]: { type: K; fields: PayloadFieldsByType[K] };
+}[PayloadType];
+
+const TEXT_PAYLOAD: ParsedPayload = { type: 'text', fields: {} };
+
+const emptyToNull = (value: string | undefined | null): string | null =>
+  value !== undefined && value !== null && value.trim() !== '' ? value : null;
+
+// Los esquemas tel:, sms: y mailto: no codifican los espacios como "+", así que "+" se conserva
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Divide "CLAVE:valor;CLAVE:valor;;" respetando los escapes con barra invertida (WIFI:, MECARD:, MATMSG:)
+const parseKeyValueFields = (body: string): Map<string, string[]> => {
+  const fields = new Map<string, string[]>();
+  let current = '';
+  const flush = () => {
+    const separator = current.indexOf(':');
+    if (separator > 0) {
+      const key = current.slice(0, separator).toUpperCase();
+      fields.set(key, [...(fields.get(key) ?? []), current.slice(separator + 1)]);
+    }
+    current = '';
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += body[++i];
+    } else if (char === ';') {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  flush();
+  return fields;
+};
+
+// Líneas "NOMBRE;PARAM=x:valor" de vCard/iCalendar, desplegando las líneas continuadas
+const parseContentLines = (data: string): { name: string; value: string }[] =>
+  data
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map(line => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) return null;
+      const name = line.slice(0, separator).split(';')[0].toUpperCase();
+      const value = line
+        .slice(separator + 1)
+        .replace(/\\n/gi, '\n')
+        .replace(/\\([,;\\])/g, '$1');
+      return { name, value };
+    })
+    .filter((line): line is { name: string; value: string } => line !== null);
+
+const parseUrl = (data: string): UrlPayload => {
+  const url = data.trim();
+  return { url: /^www\./i.test(url) ? `https://${url}` : url };
+};
+
+const parseWifi = (data: string): WifiPayload | null => {
+  const fields = parseKeyValueFields(data.slice('WIFI:'.length));
+  const ssid = fields.get('S')?.[0];
+  if (!ssid) return null;
+  return {
+    ssid,
+    password: emptyToNull(fields.get('P')?.[0]),
+    security: emptyToNull(fields.get('T')?.[0]),
+    hidden: fields.get('H')?.[0]?.toLowerCase() === 'true',
+  };
+};
+
+const parseMecard = (data: string): ContactPayload => {
+  const fields = parseKeyValueFields(data.slice('MECARD:'.length));
+  // N:Apellido,Nombre
+  const rawName = fields.get('N')?.[0];
+  const name = rawName ? rawName.split(',').map(part => part.trim()).reverse().join(' ').trim() : null;
+  return {
+    name: emptyToNull(name),
+    organization: emptyToNull(fields.get('ORG')?.[0]),
+    title: null,
+    phones: fields.get('TEL') ?? [],
+    emails: fields.get('EMAIL') ?? [],
+    address: emptyToNull(fields.get('ADR')?.[0]),
+    url: emptyToNull(fields.get('URL')?.[0]),
+    note: emptyToNull(fields.get('NOTE')?.[0]),
+  };
+};
+
+const parseVcard = (data: string): ContactPayload => {
+  const contact: ContactPayload = {
+    name: null,
+    organization: null,
+    title: null,
+    phones: [],
+    emails: [],
+    address: null,
+    url: null,
+    note: null,
+  };
+  let structuredName: string | null = null;
+
+  for (const { name, value } of parseContentLines(data)) {
+    switch (name) {
+      case 'FN':
+        contact.name = emptyToNull(value);
+        break;
+      case 'N':
+        // N:Apellidos;Nombre;Adicionales;Prefijo;Sufijo
+        structuredName = emptyToNull(value.split(';').slice(0, 2).reverse().join(' ').trim());
+        break;
+      case 'ORG':
+        contact.organization = emptyToNull(value.split(';').join(' ').trim());
+        break;
+      case 'TITLE':
+        contact.title = emptyToNull(value);
+        break;
+      case 'TEL':
+        if (value.trim()) contact.phones.push(value.trim());
+        break;
+      case 'EMAIL':
+        if (value.trim()) contact.emails.push(value.trim());
+        break;
+      case 'ADR':
+        contact.address = emptyToNull(value.split(';').filter(part => part.trim()).join(', '));
+        break;
+      case 'URL':
+        contact.url = emptyToNull(value);
+        break;
+      case 'NOTE':
+        contact.note = emptyToNull(value);
+        break;
+    }
+  }
+
+  contact.name = contact.name ?? structuredName;
+  return contact;
+};
+
+const parseEmail = (data: string): EmailPayload | null => {
+  if (/^MATMSG:/i.test(data)) {
+    const fields = parseKeyValueFields(data.slice('MATMSG:'.length));
+    const to = fields.get('TO')?.[0];
+    if (!to) return null;
+    return { to, subject: emptyToNull(fields.get('SUB')?.[0]), body: emptyToNull(fields.get('BODY')?.[0]) };
+  }
+
+  const [address, query = ''] = data.slice('mailto:'.length).split('?');
+  const params = new Map(
+    query.split('&').filter(Boolean).map(pair => {
+      const [key, value = ''] = pair.split('=');
+      return [key.toLowerCase(), safeDecode(value)] as const;
+    })
+  );
+  const to = safeDecode(address);
+  if (!to) return null;
+  return { to, subject: emptyToNull(params.get('subject')), body: emptyToNull(params.get('body')) };
+};
+
+const parsePhone = (data: string): PhonePayload | null => {
+  const number = safeDecode(data.slice('tel:'.length)).trim();
+  return number ? { number } : null;
+};
+
+const parseSms = (data: string): SmsPayload | null => {
+  if (/^SMSTO:/i.test(data)) {
+    // SMSTO:número:mensaje
+    const rest = data.slice('SMSTO:'.length);
+    const separator = rest.indexOf(':');
+    const number = (separator >= 0 ? rest.slice(0, separator) : rest).trim();
+    if (!number) return null;
+    return { number, message: separator >= 0 ? emptyToNull(rest.slice(separator + 1)) : null };
+  }
+
+  // sms:número?body=mensaje
+  const [number, query = ''] = data.slice('sms:'.length).split('?');
+  const body = query.split('&').find(pair => pair.toLowerCase().startsWith('body='));
+  if (!number.trim()) return null;
+  return { number: safeDecode(number).trim(), message: body ? emptyToNull(safeDecode(body.slice(5))) : null };
+};
+
+const parseGeo = (data: string): GeoPayload | null => {
+  // geo:lat,lng[,alt][;u=...][?q=...]
+  const [coordinates, query = ''] = data.slice('geo:'.length).split('?');
+  const [lat, lng, alt] = coordinates.split(';')[0].split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  const q = query.split('&').find(pair => pair.toLowerCase().startsWith('q='));
+  return {
+    latitude: lat,
+    longitude: lng,
+    altitude: Number.isFinite(alt) ? alt : null,
+    query: q ? emptyToNull(safeDecode(q.slice(2))) : null,
+  };
+};
+
+// Convierte fechas iCalendar (20240131T093000Z o 20240131) a ISO 8601
+const parseICalDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return emptyToNull(value);
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utc] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${utc ? 'Z' : ''}`;
+};
+
+const parseEvent = (data: string): EventPayload => {
+  const event: EventPayload = { summary: null, start: null, end: null, location: null, description: null };
+  for (const { name, value } of parseContentLines(data)) {
+    switch (name) {
+      case 'SUMMARY':
+        event.summary = emptyToNull(value);
+        break;
+      case 'DTSTART':
+        event.start = parseICalDate(value.trim());
+        break;
+      case 'DTEND':
+        event.end = parseICalDate(value.trim());
+        break;
+      case 'LOCATION':
+        event.location = emptyToNull(value);
+        break;
+      case 'DESCRIPTION':
+        event.description = emptyToNull(value);
+        break;
+    }
+  }
+  return event;
+};
+
+const parsePayment = (data: string): PaymentPayload | null => {
+  // BCD / versión / codificación / SCT / BIC / nombre / IBAN / importe / propósito / referencia / texto
+  const lines = data.replace(/\r\n/g, '\n').split('\n').map(line => line.trim());
+  if (lines[0] !== 'BCD' || lines[3] !== 'SCT') return null;
+
+  const name = lines[5];
+  const iban = lines[6]?.replace(/\s+/g, '').toUpperCase();
+  if (!name || !iban) return null;
+
+  const amountMatch = lines[7]?.match(/^([A-Z]{3})(\d+(?:\.\d{1,2})?)$/);
+  return {
+    name,
+    iban,
+    bic: emptyToNull(lines[4]),
+    amount: amountMatch ? Number(amountMatch[2]) : null,
+    currency: amountMatch ? amountMatch[1] : null,
+    purpose: emptyToNull(lines[8]),
+    reference: emptyToNull(lines[9]),
+    text: emptyToNull(lines[10]),
+  };
+};
+
+/**
+ * Reconoce el formato del contenido de un código y extrae sus campos.
+ * Si el contenido tiene el prefijo de un tipo pero está mal formado, se trata como texto.
+ */
+export const parsePayload = (data: string): ParsedPayload => {
+  const type = detectPayloadType(data);
+  switch (type) {
+    case 'url':
+      return { type, fields: parseUrl(data) };
+    case 'wifi': {
+      const fields = parseWifi(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    case 'contact':
+      return { type, fields: /^MECARD:/i.test(data) ? parseMecard(data) : parseVcard(data) };
+    case 'email': {
+      const fields = parseEmail(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    case 'phone': {
+      const fields = parsePhone(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    case 'sms': {
+      const fields = parseSms(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    case 'geo': {
+      const fields = parseGeo(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    case 'event':
+      return { type, fields: parseEvent(data) };
+    case 'payment': {
+      const fields = parsePayment(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    case 'gs1': {
+      const fields = parseGs1(data);
+      return fields ? { type, fields } : TEXT_PAYLOAD;
+    }
+    default:
+      return TEXT_PAYLOAD;
+  }
+};
+
+/**
+ * Contenido interpretado de un escaneo: usa los campos guardados si existen
+ * y, si no (registros antiguos), vuelve a analizar qr_data.
+ */
+export const getScanPayload = (scan: {
+  qr_data: string;
+  payload_type?: PayloadType | null;
+  payload_fields?: Record<string, unknown> | null;
+}): ParsedPayload => {
+  if (scan.payload_type && scan.payload_fields) {
+    return { type: scan.payload_type, fields: scan.payload_fields } as ParsedPayload;
+  }
+  return parsePayload(scan.qr_data);
+};
+
+/**
+ * Resumen legible del contenido para mostrar en las tarjetas (null para texto plano).
+ */
+export const describePayload = (payload: ParsedPayload): string | null => {
+  switch (payload.type) {
+    case 'url':
+      return payload.fields.url;
+    case 'wifi':
+      return `Red «${payload.fields.ssid}»${payload.fields.security ? ` (${payload.fields.security})` : ''}`;
+    case 'contact':
+      return payload.fields.name ?? payload.fields.emails[0] ?? payload.fields.phones[0] ?? 'Contacto';
+    case 'email':
+      return payload.fields.subject ? `${payload.fields.to} · ${payload.fields.subject}` : payload.fields.to;
+    case 'phone':
+      return payload.fields.number;
+    case 'sms':
+      return payload.fields.number;
+    case 'geo':
+      return `${payload.fields.latitude.toFixed(6)}, ${payload.fields.longitude.toFixed(6)}`;
+    case 'event':
+      return [payload.fields.summary, payload.fields.start?.slice(0, 10)].filter(Boolean).join(' · ') || 'Evento';
+    case 'payment': {
+      const { name, amount, currency } = payload.fields;
+      return amount !== null ? `${name} · ${amount.toFixed(2)} ${currency}` : name;
+    }
+    case 'gs1': {
+      const { gtin, sscc, batch, expiry, elements } = payload.fields;
+      const parts = [
+        gtin ? `GTIN ${gtin}` : sscc ? `SSCC ${sscc}` : null,
+        batch ? `Lote ${batch}` : null,
+        expiry ? `Cad. ${expiry}` : null,
+      ].filter(Boolean);
+      return parts.length > 0 ? parts.join(' · ') : `${elements.length} elementos GS1`;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,200 @@
+import * as Crypto from 'expo-crypto';
+import { normalizeAnnotationChanges, ScanAnnotationChanges, TagCount } from '@/lib/annotations';
+import { decideDuplicate, DuplicateSettings } from '@/lib/duplicates';
+import { ImportRow, ImportRowResult, ImportSummary, summarizeImport, validateImportRows } from '@/lib/importScans';
+import {
+  deleteRemoteScan,
+  deleteRemoteSession,
+  deleteRemoteZone,
+  fetchAllPages,
+  fetchScan,
+  fetchScans,
+  fetchSessions,
+  fetchTags,
+  fetchZones,
+  patchScan,
+  postBulk,
+  postScan,
+  postSightings,
+  putSession,
+  putZone,
+} from '@/lib/scanApi';
+import { getCurrentWorkspaceId } from '@/lib/currentWorkspace';
+import type { ScanFeedListener } from '@/lib/scanEventStream';
+import type { NewScan, ScanRecord } from '@/lib/scanRecord';
+import type {
+  RegisterScanResult,
+  ScanListPage,
+  ScanRepository,
+  SessionChanges,
+  ZoneChanges,
+} from '@/lib/scanRepository';
+import { pickLatestScan, ScanQuery, ScanSession } from '@/lib/scanStore';
+import { MAX_BULK_SIZE } from '@/lib/server/validation';
+import { getExpectedZoneId, Zone, ZoneShape } from '@/lib/zones';
+
+// Escaneos guardados solo en el web service: sin copia en el dispositivo ni cola de
+// sincronización, así que cada operación necesita conexión y falla sin ella. Como en el modo
+// híbrido, se trabaja con los escaneos del espacio de trabajo elegido
+
+// Lecturas del mismo código que se consultan para detectar repetidos
+const DUPLICATE_LOOKUP_LIMIT = 50;
+
+// Backend activo (ApiService gestiona el perfil o la URL elegida en Ajustes)
+export interface BackendConnection {
+  init(): Promise<void>;
+  getStatus(): { url: string };
+  subscribeToScanEvents(listener: ScanFeedListener): () => void;
+}
+
+const toClientScan = (scan: ScanRecord): ScanRecord => ({ ...scan, sync_status: 'synced' });
+
+export class RemoteScanRepository implements ScanRepository {
+  constructor(private connection: BackendConnection) {}
+
+  private get baseUrl(): string {
+    return this.connection.getStatus().url;
+  }
+
+  init(): Promise<void> {
+    return this.connection.init();
+  }
+
+  async getScans(query: ScanQuery = {}): Promise<ScanListPage> {
+    const page = await fetchScans(this.baseUrl, { workspaceId: getCurrentWorkspaceId(), ...query });
+    return { ...page, items: page.items.map(toClientScan) };
+  }
+
+  getAllScans(query: ScanQuery = {}): Promise<ScanRecord[]> {
+    return fetchAllPages(page => this.getScans(page), query);
+  }
+
+  async getScanById(id: number): Promise<ScanRecord | null> {
+    const scan = await fetchScan(this.baseUrl, id);
+    return scan ? toClientScan(scan) : null;
+  }
+
+  // No hay copia en el dispositivo
+  async getLocalScan(): Promise<ScanRecord | null> {
+    return null;
+  }
+
+  async addScan(scanData: NewScan): Promise<number> {
+    const scan = { ...scanData, workspace_id: scanData.workspace_id ?? getCurrentWorkspaceId() };
+    return (await postScan(this.baseUrl, scan)).id;
+  }
+
+  async registerScan(scanData: NewScan, duplicates: DuplicateSettings): Promise<RegisterScanResult> {
+    // La búsqueda del API es por subcadena, así que se descartan las coincidencias que no son exactas
+    const { items } = await fetchScans(this.baseUrl, {
+      workspaceId: getCurrentWorkspaceId(),
+      search: scanData.qr_data,
+      sort: 'timestamp',
+      order: 'desc',
+      limit: DUPLICATE_LOOKUP_LIMIT,
+    });
+    const matches = items.filter(scan => scan.qr_data === scanData.qr_data);
+    // Dentro de una sesión solo cuentan como repetidas las lecturas de esa misma sesión
+    const previous = duplicates.policy === 'always'
+      ? null
+      : pickLatestScan(matches.filter(scan => !scanData.session_id || scan.session_id === scanData.session_id));
+    const lastZoneId = pickLatestScan(matches.filter(scan => scan.zone_id))?.zone_id ?? null;
+    const expectedZoneId = getExpectedZoneId(scanData, lastZoneId);
+
+    switch (decideDuplicate(previous, scanData, duplicates)) {
+      case 'ignore':
+        return { outcome: 'ignored', localId: previous!.id, scanCount: previous!.scan_count ?? 1, expectedZoneId };
+      case 'increment': {
+        const updated = await postSightings(this.baseUrl, previous!.id, 1, scanData.timestamp);
+        return {
+          outcome: 'incremented',
+          localId: previous!.id,
+          scanCount: updated.scan_count ?? (previous!.scan_count ?? 1) + 1,
+          expectedZoneId,
+        };
+      }
+      default: {
+        const localId = await this.addScan(scanData);
+        return { outcome: 'recorded', localId, scanCount: 1, expectedZoneId };
+      }
+    }
+  }
+
+  async importScans(rows: ImportRow[]): Promise<ImportSummary> {
+    const { valid, invalid } = validateImportRows(rows);
+    const workspaceId = getCurrentWorkspaceId();
+    const results: ImportRowResult[] = [...invalid];
+    for (let start = 0; start < valid.length; start += MAX_BULK_SIZE) {
+      const batch = valid.slice(start, start + MAX_BULK_SIZE);
+      const response = await postBulk(this.baseUrl, batch.map(item => ({ ...item.scan, workspace_id: workspaceId })));
+      response.results.forEach(item => {
+        const { row } = batch[item.index];
+        results.push(item.status === 'invalid'
+          ? { row, status: 'invalid', errors: item.errors }
+          : { row, status: item.status, id: item.id });
+      });
+    }
+    return summarizeImport(results);
+  }
+
+  deleteScan(scan: Pick<ScanRecord, 'id' | 'sync_status' | 'local_id'>): Promise<boolean> {
+    return deleteRemoteScan(this.baseUrl, scan.id);
+  }
+
+  async updateScan(scan: ScanRecord, changes: ScanAnnotationChanges): Promise<ScanRecord> {
+    const remote = await patchScan(this.baseUrl, scan.id, normalizeAnnotationChanges(changes));
+    return { ...scan, ...remote, sync_status: 'synced' };
+  }
+
+  getTags(): Promise<TagCount[]> {
+    return fetchTags(this.baseUrl, getCurrentWorkspaceId());
+  }
+
+  getSessions(): Promise<ScanSession[]> {
+    return fetchSessions(this.baseUrl, getCurrentWorkspaceId());
+  }
+
+  startSession(name: string): Promise<ScanSession> {
+    return putSession(this.baseUrl, {
+      id: Crypto.randomUUID(),
+      name: name.trim(),
+      started_at: Date.now(),
+      ended_at: null,
+      workspace_id: getCurrentWorkspaceId(),
+    });
+  }
+
+  updateSession(session: ScanSession, changes: SessionChanges): Promise<ScanSession> {
+    return putSession(this.baseUrl, { ...session, ...changes, name: (changes.name ?? session.name).trim() });
+  }
+
+  async deleteSession(session: ScanSession): Promise<void> {
+    await deleteRemoteSession(this.baseUrl, session.id);
+  }
+
+  getZones(): Promise<Zone[]> {
+    return fetchZones(this.baseUrl, getCurrentWorkspaceId());
+  }
+
+  createZone(name: string, shape: ZoneShape): Promise<Zone> {
+    return putZone(this.baseUrl, {
+      id: Crypto.randomUUID(),
+      name: name.trim(),
+      shape,
+      created_at: Date.now(),
+      workspace_id: getCurrentWorkspaceId(),
+    });
+  }
+
+  updateZone(zone: Zone, changes: ZoneChanges): Promise<Zone> {
+    return putZone(this.baseUrl, { ...zone, ...changes, name: (changes.name ?? zone.name).trim() });
+  }
+
+  async deleteZone(zone: Zone): Promise<void> {
+    await deleteRemoteZone(this.baseUrl, zone.id);
+  }
+
+  subscribeToScanEvents(listener: ScanFeedListener): () => void {
+    return this.connection.subscribeToScanEvents(listener);
+  }
+}
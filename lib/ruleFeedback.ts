@@ -0,0 +1,53 @@
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import type { RuleFeedback } from '@/lib/rules';
+
+// Aviso de la acción "Sonido y vibración" de las reglas de escaneo. En el móvil se usa la vibración
+// (la app no incluye ningún módulo de audio nativo); en la web, donde no hay vibración, un pitido
+// generado con Web Audio: agudo si es correcto, dos tonos si es una advertencia y grave si es un error
+
+const HAPTIC_TYPES: Record<RuleFeedback, Haptics.NotificationFeedbackType> = {
+  success: Haptics.NotificationFeedbackType.Success,
+  warning: Haptics.NotificationFeedbackType.Warning,
+  error: Haptics.NotificationFeedbackType.Error,
+};
+
+// Frecuencias (Hz) de cada tono del pitido
+const BEEP_TONES: Record<RuleFeedback, number[]> = {
+  success: [1320],
+  warning: [880, 880],
+  error: [220],
+};
+const BEEP_DURATION_S = 0.15;
+
+let audioContext: AudioContext | null = null;
+
+const beep = (feedback: RuleFeedback) => {
+  if (typeof AudioContext === 'undefined') return;
+  const context = (audioContext ??= new AudioContext());
+  BEEP_TONES[feedback].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain).connect(context.destination);
+    const toneStart = context.currentTime + index * BEEP_DURATION_S * 1.5;
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + (feedback === 'error' ? BEEP_DURATION_S * 3 : BEEP_DURATION_S));
+  });
+};
+
+/**
+ * Reproduce el aviso de una regla que ha coincidido con el código escaneado.
+ */
+export const playRuleFeedback = (feedback: RuleFeedback): void => {
+  if (Platform.OS === 'web') {
+    try {
+      beep(feedback);
+    } catch (error) {
+      console.warn('Sonido no disponible:', error);
+    }
+    return;
+  }
+  Haptics.notificationAsync(HAPTIC_TYPES[feedback]).catch(error => console.warn('Vibración no disponible:', error));
+};
@@ -0,0 +1,401 @@
+import { MAX_TAG_LENGTH, MAX_TAGS, normalizeTag, normalizeTags, SCAN_STATUS_LABELS, ScanStatus } from '@/lib/annotations';
+import { detectPayloadType, isPayloadType, PayloadType } from '@/lib/payload';
+import { isPointInZone, Zone } from '@/lib/zones';
+
+// Reglas de escaneo: acciones automáticas según el contenido del código ("si qr_data empieza por X
+// [y se lee dentro de la zona Z], etiquetar, cambiar el estado, abrir el enlace, avisar, llamar a un
+// webhook o rechazar"). Se guardan en el servidor por ámbito (escaneos personales o espacio de trabajo),
+// la app las evalúa al escanear con su última copia y el servidor otra vez al guardar, de modo que
+// también se aplican a los escaneos que llegan por sincronización o importación. Se aplican todas las
+// reglas activas que coinciden, en el orden de la lista
+
+export type RuleMatchType = 'regex' | 'prefix' | 'payload_type';
+
+export const RULE_MATCH_TYPES: readonly RuleMatchType[] = ['prefix', 'regex', 'payload_type'];
+
+export const RULE_MATCH_LABELS: Record<RuleMatchType, string> = {
+  prefix: 'Empieza por',
+  regex: 'Expresión regular',
+  payload_type: 'Tipo de contenido',
+};
+
+export interface RuleCondition {
+  match: RuleMatchType;
+  value: string;          // Prefijo, expresión regular o tipo de contenido (PayloadType)
+  zone_id: string | null; // Solo si se lee dentro de esta zona
+}
+
+// Aviso sonoro y vibración al escanear
+export type RuleFeedback = 'success' | 'warning' | 'error';
+
+export const RULE_FEEDBACKS: readonly RuleFeedback[] = ['success', 'warning', 'error'];
+
+export const RULE_FEEDBACK_LABELS: Record<RuleFeedback, string> = {
+  success: 'Correcto',
+  warning: 'Advertencia',
+  error: 'Error',
+};
+
+export type RuleAction =
+  | { type: 'tag'; tag: string }
+  | { type: 'set_status'; status: ScanStatus }
+  | { type: 'open_url' } // Solo en la app y con enlaces; antes se comprueba su seguridad
+  | { type: 'feedback'; feedback: RuleFeedback } // Solo en la app
+  | { type: 'webhook'; webhook_id: string } // Solo en el servidor, al guardar el escaneo
+  | { type: 'reject'; message: string | null }; // El escaneo no se guarda
+
+export type RuleActionType = RuleAction['type'];
+
+export const RULE_ACTION_TYPES: readonly RuleActionType[] = [
+  'tag',
+  'set_status',
+  'open_url',
+  'feedback',
+  'webhook',
+  'reject',
+];
+
+export const RULE_ACTION_LABELS: Record<RuleActionType, string> = {
+  tag: 'Añadir etiqueta',
+  set_status: 'Cambiar estado',
+  open_url: 'Abrir el enlace',
+  feedback: 'Sonido y vibración',
+  webhook: 'Llamar a un webhook',
+  reject: 'Rechazar el escaneo',
+};
+
+export interface ScanRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: RuleCondition;
+  actions: RuleAction[];
+}
+
+// Reglas de un ámbito; version aumenta con cada cambio para que las apps sepan si su copia está al día
+export interface RuleSet {
+  version: number;
+  rules: ScanRule[];
+  updated_at: number | null;
+}
+
+export const EMPTY_RULE_SET: RuleSet = { version: 0, rules: [], updated_at: null };
+
+export const MAX_RULES = 50;
+export const MAX_RULE_NAME_LENGTH = 100;
+export const MAX_RULE_PATTERN_LENGTH = 200;
+export const MAX_RULE_ACTIONS = 10;
+export const MAX_REJECT_MESSAGE_LENGTH = 200;
+
+// Datos del escaneo que usan las condiciones
+export interface RuleScanInput {
+  qr_data: string;
+  latitude: number | null;
+  longitude: number | null;
+  zone_id?: string | null;
+  payload_type?: PayloadType | null;
+}
+
+export interface RuleEvaluation {
+  matched: Pick<ScanRule, 'id' | 'name'>[];
+  tags: string[];
+  status: ScanStatus | null;  // El de la última regla que lo cambia
+  open_url: boolean; // Solo si el contenido es un enlace
+  feedback: RuleFeedback | null; // El más grave de las reglas que coinciden
+  webhooks: { webhook_id: string; rule: Pick<ScanRule, 'id' | 'name'> }[];
+  rejected: boolean;
+  reject_message: string | null;
+}
+
+// Muestra de caracteres (ASCII y algunos otros) con la que se compara lo que aceptan las partes de una expresión
+const SAMPLE_CHARS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  'ñ',
+  'Á',
+  '€',
+  '\u00a0',
+  '\u2028',
+];
+
+// Caracteres de la muestra que acepta un átomo (un carácter, una clase, . o un escape como \d)
+const getAtomChars = (atom: string): string[] => {
+  try {
+    const regex = new RegExp(`^(?:${atom})$`);
+    return SAMPLE_CHARS.filter(char => regex.test(char));
+  } catch {
+    return SAMPLE_CHARS;
+  }
+};
+
+const sharesChars = (first: string[], second: string[]): boolean => first.some(char => second.includes(char));
+
+// Mínimo y máximo de repeticiones de un cuantificador (*, +, ?, {n}, {n,} o {n,m})
+const readQuantifier = (rest: string): { length: number; min: number; max: number } => {
+  const match = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/.exec(rest);
+  if (!match) return { length: 0, min: 1, max: 1 };
+  const [text, symbol, min, comma, max] = match;
+  if (symbol) {
+    return { length: text.length, min: symbol === '+' ? 1 : 0, max: symbol === '?' ? 1 : Infinity };
+  }
+  return { length: text.length, min: Number(min), max: !comma ? Number(min) : max ? Number(max) : Infinity };
+};
+
+interface PatternGroup {
+  chars: string[];   // Caracteres que aceptan sus partes
+  variable: boolean; // Si dentro hay repeticiones de longitud variable o alternativas
+}
+
+/**
+ * Indica si la expresión regular puede tardar demasiado con algunos textos (backtracking catastrófico):
+ * grupos repetidos que contienen otras repeticiones o alternativas, como (a+)+ o (a|ab)*; repeticiones
+ * seguidas que pueden repartirse los mismos caracteres, como .*.*x o \w+\d*, que sin nada que las separe
+ * tardan un tiempo polinómico; y referencias a grupos anteriores. Es una comprobación conservadora que
+ * puede rechazar alguna expresión segura.
+ */
+export const isBacktrackingPattern = (pattern: string): boolean => {
+  const groups: PatternGroup[] = [];
+  // Caracteres de las repeticiones variables que la siguiente repetición podría disputar
+  let pending: string[][] = [];
+
+  // Añade una parte de la expresión con su cuantificador; true si se solapa con una repetición anterior
+  const addPart = (chars: string[], min: number, max: number): boolean => {
+    const variable = min !== max;
+    if (variable && pending.some(previous => sharesChars(previous, chars))) return true;
+    // Una parte obligatoria fuera de grupos que una repetición no puede consumir la separa de las siguientes
+    if (min > 0 && groups.length === 0) pending = pending.filter(previous => sharesChars(previous, chars));
+    if (variable) pending.push(chars);
+    const group = groups[groups.length - 1];
+    if (group) {
+      group.chars.push(...chars);
+      group.variable ||= variable;
+    }
+    return false;
+  };
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const rest = pattern.slice(index);
+    let atom: string | null = null;
+    if (char === '\\') {
+      if (/^\\(?:[1-9]|k<)/.test(rest)) return true;
+      const escape = /^\\(?:x[\da-fA-F]{2}|u[\da-fA-F]{4}|c[A-Za-z]|[\s\S])/.exec(rest)?.[0] ?? char;
+      index += escape.length - 1;
+      if (escape !== '\\b' && escape !== '\\B') atom = escape;
+    } else if (char === '[') {
+      atom = /^\[\^?\]?(?:\\[\s\S]|[^\]\\])*\]/.exec(rest)?.[0] ?? char;
+      index += atom.length - 1;
+    } else if (char === '(') {
+      groups.push({ chars: [], variable: false });
+      index += (/^\((?:\?(?:[:=!]|<[=!]|<[^>]*>))?/.exec(rest)?.[0] ?? char).length - 1;
+    } else if (char === ')') {
+      const group = groups.pop();
+      if (!group) continue;
+      const quantifier = readQuantifier(pattern.slice(index + 1));
+      index += quantifier.length;
+      if (group.variable && quantifier.max > 1) return true;
+      const parent = groups[groups.length - 1];
+      if (parent) parent.variable ||= group.variable;
+      // El grupo no separa las repeticiones de fuera: puede tener alternativas o partes opcionales
+      if (quantifier.min !== quantifier.max && addPart(group.chars, 0, quantifier.max)) return true;
+      if (quantifier.min === quantifier.max) parent?.chars.push(...group.chars);
+    } else if (char === '|') {
+      const group = groups[groups.length - 1];
+      if (group) group.variable = true;
+      else pending = [];
+    } else if (char !== '^' && char !== '$') {
+      atom = char;
+    }
+
+    if (atom !== null) {
+      const quantifier = readQuantifier(pattern.slice(index + 1));
+      index += quantifier.length;
+      if (addPart(getAtomChars(atom), quantifier.min, quantifier.max)) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Compila la expresión regular de una condición, o null si no es válida, es demasiado larga o puede
+ * provocar backtracking catastrófico.
+ */
+export const compileRulePattern = (pattern: string): RegExp | null => {
+  if (pattern.length > MAX_RULE_PATTERN_LENGTH || isBacktrackingPattern(pattern)) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+// Expresiones ya compiladas por condición, para no compilarlas en cada escaneo mientras las reglas no cambian
+const compiledPatterns = new WeakMap<RuleCondition, RegExp | null>();
+
+const getConditionPattern = (condition: RuleCondition): RegExp | null => {
+  let pattern = compiledPatterns.get(condition);
+  if (pattern === undefined) {
+    pattern = compileRulePattern(condition.value);
+    compiledPatterns.set(condition, pattern);
+  }
+  return pattern;
+};
+
+/**
+ * Errores de una regla (vacío si es válida). Los comparten el editor de la app y el servidor.
+ */
+export const getRuleErrors = (rule: ScanRule): string[] => {
+  const errors: string[] = [];
+  const name = rule.name.trim();
+  if (name === '' || name.length > MAX_RULE_NAME_LENGTH) {
+    errors.push(`El nombre debe tener entre 1 y ${MAX_RULE_NAME_LENGTH} caracteres`);
+  }
+
+  const { match, value } = rule.condition;
+  if (value === '' || value.length > MAX_RULE_PATTERN_LENGTH) {
+    errors.push(`La condición debe tener entre 1 y ${MAX_RULE_PATTERN_LENGTH} caracteres`);
+  } else if (match === 'regex' && isBacktrackingPattern(value)) {
+    errors.push(`La expresión regular "${value}" tiene repeticiones que se pueden solapar y puede ser muy lenta`);
+  } else if (match === 'regex' && !compileRulePattern(value)) {
+    errors.push(`La expresión regular "${value}" no es válida`);
+  } else if (match === 'payload_type' && !isPayloadType(value)) {
+    errors.push(`"${value}" no es un tipo de contenido`);
+  }
+
+  if (rule.actions.length === 0 || rule.actions.length > MAX_RULE_ACTIONS) {
+    errors.push(`La regla debe tener entre 1 y ${MAX_RULE_ACTIONS} acciones`);
+  }
+  rule.actions.forEach(action => {
+    if (action.type === 'tag' && (normalizeTag(action.tag) === '' || action.tag.length > MAX_TAG_LENGTH)) {
+      errors.push(`Las etiquetas deben tener entre 1 y ${MAX_TAG_LENGTH} caracteres`);
+    }
+    if (action.type === 'webhook' && action.webhook_id === '') {
+      errors.push('Elige el webhook al que llamar');
+    }
+    if (action.type === 'reject' && (action.message?.length ?? 0) > MAX_REJECT_MESSAGE_LENGTH) {
+      errors.push(`El mensaje de rechazo no puede superar ${MAX_REJECT_MESSAGE_LENGTH} caracteres`);
+    }
+  });
+  return errors;
+};
+
+const isInZone = (scan: RuleScanInput, zoneId: string, zones: Pick<Zone, 'id' | 'shape'>[]): boolean => {
+  if (scan.zone_id === zoneId) return true;
+  const zone = zones.find(item => item.id === zoneId);
+  if (!zone || scan.latitude === null || scan.longitude === null) return false;
+  return isPointInZone({ latitude: scan.latitude, longitude: scan.longitude }, zone);
+};
+
+/**
+ * Indica si el escaneo cumple la condición de la regla (no tiene en cuenta si está activa).
+ * @param zones Zonas conocidas, para comprobar las condiciones de zona con las coordenadas
+ */
+export const matchesRule = (rule: ScanRule, scan: RuleScanInput, zones: Pick<Zone, 'id' | 'shape'>[]): boolean => {
+  const { match, value, zone_id } = rule.condition;
+  let matches: boolean;
+  if (match === 'prefix') {
+    matches = scan.qr_data.startsWith(value);
+  } else if (match === 'regex') {
+    matches = getConditionPattern(rule.condition)?.test(scan.qr_data) ?? false;
+  } else {
+    matches = (scan.payload_type ?? detectPayloadType(scan.qr_data)) === value;
+  }
+  return matches && (!zone_id || isInZone(scan, zone_id, zones));
+};
+
+const isMoreSevere = (feedback: RuleFeedback, than: RuleFeedback): boolean =>
+  RULE_FEEDBACKS.indexOf(feedback) > RULE_FEEDBACKS.indexOf(than);
+
+/**
+ * Evalúa las reglas activas sobre un escaneo y reúne sus acciones.
+ */
+export const evaluateRules = (
+  rules: ScanRule[],
+  scan: RuleScanInput,
+  zones: Pick<Zone, 'id' | 'shape'>[]
+): RuleEvaluation => {
+  const evaluation: RuleEvaluation = {
+    matched: [],
+    tags: [],
+    status: null,
+    open_url: false,
+    feedback: null,
+    webhooks: [],
+    rejected: false,
+    reject_message: null,
+  };
+
+  const payloadType = scan.payload_type ?? detectPayloadType(scan.qr_data);
+  rules.filter(rule => rule.enabled && matchesRule(rule, scan, zones)).forEach(rule => {
+    const ruleRef = { id: rule.id, name: rule.name };
+    evaluation.matched.push(ruleRef);
+    rule.actions.forEach(action => {
+      switch (action.type) {
+        case 'tag':
+          evaluation.tags.push(action.tag);
+          break;
+        case 'set_status':
+          evaluation.status = action.status;
+          break;
+        case 'open_url':
+          evaluation.open_url ||= payloadType === 'url';
+          break;
+        case 'feedback':
+          if (!evaluation.feedback || isMoreSevere(action.feedback, evaluation.feedback)) {
+            evaluation.feedback = action.feedback;
+          }
+          break;
+        case 'webhook':
+          evaluation.webhooks.push({ webhook_id: action.webhook_id, rule: ruleRef });
+          break;
+        case 'reject':
+          evaluation.rejected = true;
+          evaluation.reject_message ??= action.message || `Rechazado por la regla "${rule.name}"`;
+          break;
+      }
+    });
+  });
+  evaluation.tags = normalizeTags(evaluation.tags);
+  return evaluation;
+};
+
+/**
+ * Añade al escaneo las etiquetas y el estado que deciden las reglas.
+ */
+export const applyRuleEvaluation = <T extends { tags?: string[]; status?: ScanStatus }>(
+  scan: T,
+  evaluation: RuleEvaluation
+): T => {
+  if (evaluation.tags.length === 0 && !evaluation.status) return scan;
+  return {
+    ...scan,
+    tags: normalizeTags([...(scan.tags ?? []), ...evaluation.tags]).slice(0, MAX_TAGS),
+    status: evaluation.status ?? scan.status,
+  };
+};
+
+/**
+ * Descripción corta de la condición para las listas ("Empieza por https://acme.com · en zona Almacén").
+ * @param zoneName Nombre de la zona de la condición, si la tiene
+ */
+export const describeRuleCondition = (condition: RuleCondition, zoneName?: string | null): string => {
+  const zone = condition.zone_id ? ` · en zona ${zoneName ?? 'eliminada'}` : '';
+  return `${RULE_MATCH_LABELS[condition.match]}: ${condition.value}${zone}`;
+};
+
+/**
+ * Descripción corta de una acción ("Etiqueta: revisar", "Estado: Verificado"...).
+ */
+export const describeRuleAction = (action: RuleAction): string => {
+  switch (action.type) {
+    case 'tag':
+      return `Etiqueta: ${action.tag}`;
+    case 'set_status':
+      return `Estado: ${SCAN_STATUS_LABELS[action.status]}`;
+    case 'feedback':
+      return `Aviso: ${RULE_FEEDBACK_LABELS[action.feedback]}`;
+    case 'reject':
+      return action.message ? `Rechazar: ${action.message}` : RULE_ACTION_LABELS.reject;
+    default:
+      return RULE_ACTION_LABELS[action.type];
+  }
+};
@@ -0,0 +1,255 @@
+import { getScanAnnotations, ScanAnnotationChanges, TagCount } from '@/lib/annotations';
+import { authFetch } from '@/lib/auth';
+import type { BulkScanResponse } from '@/lib/importScans';
+import type { ScanRecord } from '@/lib/scanRecord';
+import type { ScanPage, ScanQuery, ScanSession } from '@/lib/scanStore';
+import type { ScanInput } from '@/lib/server/validation';
+import type { Zone } from '@/lib/zones';
+
+// Llamadas HTTP a las rutas /scans, /tags, /sessions y /zones del web service, compartidas por los
+// almacenamientos remoto e híbrido. Cada función recibe la URL base del backend activo y envía
+// el token de la sesión con authFetch
+
+// Error HTTP con su código de estado, para distinguir rechazos del servidor de fallos de red
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Los errores 4xx indican que el servidor rechaza el escaneo, salvo timeout y rate limit
+export const isRetryableStatus = (status: number): boolean =>
+  status >= 500 || status === 408 || status === 429;
+
+const sendJson = async <T>(
+  url: string,
+  method: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<T> => {
+  const response = await authFetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new HttpError(response.status, `HTTP error! status: ${response.status}, body: ${errorBody}`);
+  }
+  return response.json();
+};
+
+// GET que devuelve JSON
+const getJson = async <T>(url: string): Promise<T> => {
+  const response = await authFetch(url);
+  if (!response.ok) {
+    throw new HttpError(response.status, `HTTP error! status: ${response.status} - ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// Parámetro workspace_id de las consultas de un espacio de trabajo (sin él, las personales del usuario)
+const getWorkspaceQuery = (workspaceId: string | null): string =>
+  workspaceId ? `?workspace_id=${encodeURIComponent(workspaceId)}` : '';
+
+// DELETE que trata 404 como un recurso que ya no existe
+const deleteResource = async (url: string): Promise<boolean> => {
+  const response = await authFetch(url, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw new HttpError(response.status, `HTTP error! status: ${response.status}, ${response.statusText}`);
+  }
+  return response.ok;
+};
+
+/**
+ * Obtiene una página de escaneos (GET /scans) con los filtros de la consulta.
+ */
+export const fetchScans = async (baseUrl: string, query: ScanQuery): Promise<ScanPage> => {
+  const params = new URLSearchParams();
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.offset !== undefined) params.set('offset', String(query.offset));
+  if (query.from !== undefined) params.set('from', String(query.from));
+  if (query.to !== undefined) params.set('to', String(query.to));
+  if (query.search) params.set('q', query.search);
+  if (query.hasLocation !== undefined) params.set('has_location', String(query.hasLocation));
+  if (query.payloadType) params.set('type', query.payloadType);
+  if (query.sessionId) params.set('session_id', query.sessionId);
+  if (query.zoneId) params.set('zone_id', query.zoneId);
+  if (query.workspaceId) params.set('workspace_id', query.workspaceId);
+  query.tags?.forEach(tag => params.append('tag', tag));
+  if (query.status) params.set('status', query.status);
+  if (query.groupByData) params.set('group_by', 'qr_data');
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+
+  const queryString = params.toString();
+  const response = await authFetch(`${baseUrl}/scans${queryString ? `?${queryString}` : ''}`);
+  if (!response.ok) {
+    throw new HttpError(response.status, `HTTP error! status: ${response.status} - ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// Tamaño de página al descargar todos los escaneos de una consulta (máximo del API)
+export const FETCH_ALL_PAGE_SIZE = 500;
+
+/**
+ * Recorre todas las páginas de una consulta con getScans (del servidor o combinada con la copia local).
+ */
+export const fetchAllPages = async (
+  getScans: (query: ScanQuery) => Promise<ScanPage>,
+  query: ScanQuery = {}
+): Promise<ScanRecord[]> => {
+  const items: ScanRecord[] = [];
+  let offset: number | null = 0;
+  while (offset !== null) {
+    const page: ScanPage = await getScans({ ...query, limit: FETCH_ALL_PAGE_SIZE, offset });
+    items.push(...page.items);
+    offset = page.nextOffset;
+  }
+  return items;
+};
+
+/**
+ * Obtiene un escaneo por su ID (GET /scans/:id).
+ * @returns El escaneo, o null si no existe
+ */
+export const fetchScan = async (baseUrl: string, id: number): Promise<ScanRecord | null> => {
+  const response = await authFetch(`${baseUrl}/scans/${id}`);
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    throw new HttpError(response.status, `HTTP error! status: ${response.status}, ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Envía un escaneo nuevo (POST /scans) con sus lecturas y anotaciones.
+ * @param idempotencyKey Clave estable del escaneo: si se reenvía con la misma clave, el servidor no lo duplica
+ */
+export const postScan = (
+  baseUrl: string,
+  scanData: Omit<ScanRecord, 'id' | 'created_at'>,
+  idempotencyKey?: string
+): Promise<ScanRecord> =>
+  sendJson(`${baseUrl}/scans`, 'POST', {
+    qr_data: scanData.qr_data,
+    latitude: scanData.latitude,
+    longitude: scanData.longitude,
+    altitude: scanData.altitude,
+    accuracy: scanData.accuracy,
+    timestamp: scanData.timestamp,
+    barcode_type: scanData.barcode_type,
+    session_id: scanData.session_id ?? null,
+    zone_id: scanData.zone_id ?? null,
+    workspace_id: scanData.workspace_id ?? null,
+    scan_count: scanData.scan_count,
+    last_seen_at: scanData.last_seen_at,
+    ...getScanAnnotations(scanData),
+  }, idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {});
+
+/**
+ * Envía un lote de escaneos ya validados (POST /scans/bulk).
+ */
+export const postBulk = (baseUrl: string, scans: ScanInput[]): Promise<BulkScanResponse> =>
+  sendJson(`${baseUrl}/scans/bulk`, 'POST', { scans });
+
+/**
+ * Cambia las notas, etiquetas o estado de un escaneo (PATCH /scans/:id).
+ */
+export const patchScan = (baseUrl: string, id: number, changes: ScanAnnotationChanges): Promise<ScanRecord> =>
+  sendJson(`${baseUrl}/scans/${id}`, 'PATCH', changes);
+
+/**
+ * Suma lecturas repetidas a un escaneo (POST /scans/:id/sightings).
+ * @param idempotencyKey Clave estable del lote: si se reenvía con la misma clave, el servidor no lo suma dos veces
+ */
+export const postSightings = (
+  baseUrl: string,
+  id: number,
+  count: number,
+  timestamp: number,
+  idempotencyKey?: string
+): Promise<ScanRecord> =>
+  sendJson(
+    `${baseUrl}/scans/${id}/sightings`,
+    'POST',
+    { count, timestamp },
+    idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}
+  );
+
+/**
+ * Elimina un escaneo (DELETE /scans/:id).
+ * @returns Verdadero si se eliminó, falso si no existía
+ */
+export const deleteRemoteScan = (baseUrl: string, id: number): Promise<boolean> =>
+  deleteResource(`${baseUrl}/scans/${id}`);
+
+/**
+ * Etiquetas usadas en los escaneos del servidor (GET /tags): los de un espacio de trabajo o,
+ * sin él, los personales del usuario.
+ */
+export const fetchTags = async (baseUrl: string, workspaceId: string | null = null): Promise<TagCount[]> => {
+  const response = await authFetch(`${baseUrl}/tags${getWorkspaceQuery(workspaceId)}`);
+  if (!response.ok) {
+    throw new HttpError(response.status, `HTTP error! status: ${response.status} - ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Sesiones de escaneo del servidor (GET /sessions), las más recientes primero y con su número de escaneos:
+ * las de un espacio de trabajo o, sin él, las personales del usuario.
+ */
+export const fetchSessions = (baseUrl: string, workspaceId: string | null = null): Promise<ScanSession[]> =>
+  getJson(`${baseUrl}/sessions${getWorkspaceQuery(workspaceId)}`);
+
+/**
+ * Crea o actualiza una sesión con el ID generado en el cliente (PUT /sessions/:id).
+ */
+export const putSession = (baseUrl: string, session: ScanSession): Promise<ScanSession> =>
+  sendJson(`${baseUrl}/sessions/${session.id}`, 'PUT', {
+    name: session.name,
+    started_at: session.started_at,
+    ended_at: session.ended_at,
+    workspace_id: session.workspace_id ?? null,
+  });
+
+/**
+ * Elimina una sesión con sus escaneos (DELETE /sessions/:id).
+ * @returns Verdadero si se eliminó, falso si no existía
+ */
+export const deleteRemoteSession = (baseUrl: string, id: string): Promise<boolean> =>
+  deleteResource(`${baseUrl}/sessions/${id}`);
+
+/**
+ * Zonas del servidor (GET /zones), ordenadas por nombre: las de un espacio de trabajo o, sin él,
+ * las personales del usuario.
+ */
+export const fetchZones = (baseUrl: string, workspaceId: string | null = null): Promise<Zone[]> =>
+  getJson(`${baseUrl}/zones${getWorkspaceQuery(workspaceId)}`);
+
+/**
+ * Crea o actualiza una zona con el ID generado en el cliente (PUT /zones/:id).
+ */
+export const putZone = (baseUrl: string, zone: Zone): Promise<Zone> =>
+  sendJson(`${baseUrl}/zones/${zone.id}`, 'PUT', {
+    name: zone.name,
+    shape: zone.shape,
+    created_at: zone.created_at,
+    workspace_id: zone.workspace_id ?? null,
+  });
+
+/**
+ * Elimina una zona (DELETE /zones/:id); sus escaneos se conservan sin zona.
+ * @returns Verdadero si se eliminó, falso si no existía
+ */
+export const deleteRemoteZone = (baseUrl: string, id: string): Promise<boolean> =>
+  deleteResource(`${baseUrl}/zones/${id}`);
@@ -0,0 +1,178 @@
+import { auth, AuthSession } from '@/lib/auth';
+import { isRetryableStatus } from '@/lib/scanApi';
+import { SCAN_EVENT_TYPES, SCAN_EVENTS_RESET, ScanEvent, ScanEventType, ScanFeedMessage } from '@/lib/scanEvents';
+
+// Conexión de la app con GET /scans/events. Se usa XMLHttpRequest porque el fetch de React Native no
+// permite leer la respuesta a medida que llega: los mensajes se interpretan del texto recibido. Si la
+// conexión se corta se reabre con backoff exponencial enviando en Last-Event-ID el último id recibido
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+// El servidor envía un comentario cada 25 s: sin datos en este tiempo la conexión se da por perdida
+const IDLE_TIMEOUT_MS = 60 * 1000;
+
+export type ScanFeedListener = (message: ScanFeedMessage) => void;
+
+interface SseMessage {
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+// Mensajes completos (terminados en una línea en blanco) de un texto SSE y el resto aún sin terminar
+const parseSse = (text: string): { messages: SseMessage[]; rest: string } => {
+  const blocks = text.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const messages = blocks.map(block => {
+    const message: SseMessage = { id: null, event: 'message', data: '' };
+    const data: string[] = [];
+    block.split('\n').forEach(line => {
+      // Las líneas que empiezan por ":" son comentarios
+      if (line === '' || line.startsWith(':')) return;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'id') message.id = value;
+      if (field === 'event') message.event = value;
+      if (field === 'data') data.push(value);
+    });
+    message.data = data.join('\n');
+    return message;
+  });
+  return { messages, rest };
+};
+
+export class ScanEventStream {
+  private request: XMLHttpRequest | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastEventId: string | null = null;
+  private attempts: number = 0;
+  private forceRefresh: boolean = false;
+  private running: boolean = false;
+
+  /**
+   * @param url URL de /scans/events con el espacio de trabajo de la consulta
+   * @param onMessage Recibe cada evento y los avisos de recarga (reset)
+   */
+  constructor(private url: string, private onMessage: ScanFeedListener) {}
+
+  /**
+   * Abre la conexión; se mantiene (reconectando si hace falta) hasta llamar a stop.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.connect();
+  }
+
+  /**
+   * Cierra la conexión y cancela las reconexiones pendientes.
+   */
+  stop(): void {
+    this.running = false;
+    this.closeRequest();
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async connect(): Promise<void> {
+    this.retryTimer = null;
+    let session: AuthSession | null;
+    try {
+      session = await auth.getValidSession(this.url, { forceRefresh: this.forceRefresh });
+    } catch (error) {
+      console.warn('No se pudo renovar la sesión para los eventos de escaneos:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.forceRefresh = false;
+    if (!this.running) return;
+    // Sin sesión no hay eventos: ApiService abre otra conexión cuando el usuario la inicia
+    if (!session) {
+      this.running = false;
+      return;
+    }
+
+    const request = new XMLHttpRequest();
+    let received = 0;
+    let buffer = '';
+    const readResponse = () => {
+      if (this.request !== request || request.status !== 200) return;
+      const text = request.responseText;
+      const { messages, rest } = parseSse(buffer + text.slice(received));
+      received = text.length;
+      buffer = rest;
+      this.attempts = 0;
+      this.watchIdle();
+      messages.forEach(message => this.dispatch(message));
+    };
+
+    request.onprogress = readResponse;
+    request.onloadend = () => {
+      if (this.request !== request) return;
+      readResponse();
+      this.closeRequest();
+      if (request.status === 401) {
+        this.forceRefresh = true;
+      } else if (request.status >= 400 && !isRetryableStatus(request.status)) {
+        // Por ejemplo, ya no es miembro del espacio de trabajo: no tiene sentido insistir
+        console.warn('El servidor rechazó la conexión de eventos de escaneos:', request.status);
+        this.running = false;
+        return;
+      }
+      this.scheduleReconnect();
+    };
+
+    this.request = request;
+    request.open('GET', this.url);
+    request.setRequestHeader('Accept', 'text/event-stream');
+    request.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+    if (this.lastEventId) request.setRequestHeader('Last-Event-ID', this.lastEventId);
+    request.send();
+    this.watchIdle();
+  }
+
+  private dispatch(message: SseMessage): void {
+    if (message.id) this.lastEventId = message.id;
+    if (message.event === SCAN_EVENTS_RESET) {
+      this.onMessage({ type: SCAN_EVENTS_RESET });
+      return;
+    }
+    if (!SCAN_EVENT_TYPES.includes(message.event as ScanEventType)) return;
+    try {
+      this.onMessage(JSON.parse(message.data) as ScanEvent);
+    } catch (error) {
+      console.warn('Evento de escaneos no válido:', error);
+    }
+  }
+
+  // Cierra la petición actual sin que su onloadend programe otra conexión
+  private closeRequest(): void {
+    const request = this.request;
+    this.request = null;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    request?.abort();
+  }
+
+  private watchIdle(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.closeRequest();
+      this.scheduleReconnect();
+    }, IDLE_TIMEOUT_MS);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.retryTimer) return;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.attempts, RECONNECT_MAX_DELAY_MS);
+    this.attempts++;
+    this.retryTimer = setTimeout(() => void this.connect(), delay);
+  }
+}
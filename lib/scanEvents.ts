@@ -0,0 +1,23 @@
+import type { ScanRecord } from '@/lib/scanRecord';
+
+// Cambios en los escaneos que el servidor envía en tiempo real por GET /scans/events (Server-Sent Events).
+// Cada evento lleva un id que la app devuelve en Last-Event-ID al reconectar para recibir los que se
+// perdió mientras estaba desconectada
+
+export type ScanEventType = 'created' | 'updated' | 'deleted';
+
+export const SCAN_EVENT_TYPES: readonly ScanEventType[] = ['created', 'updated', 'deleted'];
+
+export interface ScanEvent {
+  id: string; // "<arranque del servidor>:<número de evento>"
+  type: ScanEventType;
+  scan_id: number;
+  scan: ScanRecord | null; // Estado tras el cambio (null en los eliminados)
+  at: number;
+}
+
+// El servidor ya no conserva los eventos posteriores al último recibido (o se ha reiniciado):
+// hay que recargar la lista completa
+export const SCAN_EVENTS_RESET = 'reset';
+
+export type ScanFeedMessage = ScanEvent | { type: typeof SCAN_EVENTS_RESET };
@@ -0,0 +1,54 @@
+import type { ScanStatus } from '@/lib/annotations';
+import type { PayloadType } from '@/lib/payload';
+import type { UrlVerdict } from '@/lib/urlSafety';
+
+// Registro de escaneo común al almacenamiento del dispositivo, las rutas de API y la app
+
+// Estado de sincronización de un escaneo local con el servidor
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
+export interface ScanRecord {
+  id: number;
+  qr_data: string;          // Datos del código escaneado
+  latitude: number | null;  // Coordenada de latitud (si está disponible)
+  longitude: number | null; // Coordenada de longitud (si está disponible)
+  altitude: number | null;  // Altitud (si está disponible)
+  accuracy: number | null;  // Precisión de la ubicación (si está disponible)
+  timestamp: number;        // Marca de tiempo del escaneo (primera lectura)
+  created_at: string;       // Fecha en que se guardó el registro (la asigna el almacenamiento)
+  barcode_type?: string | null;                    // Simbología del código (qr, ean13, code128, datamatrix...)
+  scan_count?: number;                             // Veces que se ha leído el código (en grupos: total del grupo)
+  last_seen_at?: number | null;                    // Última lectura (timestamp es la primera)
+  group_size?: number;                             // Solo en consultas agrupadas: registros del grupo
+  session_id?: string | null;                      // Sesión de escaneo continuo a la que pertenece
+  zone_id?: string | null;                         // Zona en la que se leyó (null si fuera de todas o sin ubicación)
+  payload_type?: PayloadType | null;               // Tipo de contenido detectado (wifi, contact, url...)
+  payload_fields?: Record<string, unknown> | null; // Campos extraídos del contenido
+  notes?: string | null;    // Notas libres
+  tags?: string[];          // Etiquetas (en minúsculas, sin repetir)
+  status?: ScanStatus;      // Estado de revisión (pending si no se indica)
+  url_verdict?: UrlVerdict | null; // Última comprobación de seguridad del enlace (solo enlaces ya abiertos)
+  owner_id?: string | null;     // Usuario que lo creó en el servidor (null en el dispositivo)
+  owner_name?: string | null;   // Nombre de ese usuario, para mostrar quién hizo cada escaneo
+  workspace_id?: string | null; // Espacio de trabajo al que pertenece (null: escaneo personal)
+  // Solo en la app
+  sync_status?: SyncStatus; // Estado de sincronización con el backend
+  local_id?: number;        // ID en el almacenamiento del dispositivo (si se guardó en él)
+}
+
+// Datos de un escaneo nuevo; el tipo de contenido se calcula al guardarlo
+export type NewScan = Omit<
+  ScanRecord,
+  'id' | 'created_at' | 'payload_type' | 'payload_fields' | 'sync_status' | 'local_id' | 'group_size' | 'owner_id'
+  | 'owner_name'
+>;
+
+// Clave única para listas: los escaneos sin sincronizar usan el ID local, que puede coincidir con un ID remoto
+export const getScanKey = (scan: Pick<ScanRecord, 'id' | 'sync_status'>): string =>
+  scan.sync_status === 'pending' || scan.sync_status === 'failed' ? `local-${scan.id}` : `${scan.id}`;
+
+// Inversa de getScanKey, para las rutas /scan/:key (null si la clave no es válida)
+export const parseScanKey = (key: string): { id: number; local: boolean } | null => {
+  const match = /^(local-)?(\d+)$/.exec(key);
+  return match ? { id: Number(match[2]), local: match[1] !== undefined } : null;
+};
@@ -0,0 +1,107 @@
+import type { ScanAnnotationChanges, TagCount } from '@/lib/annotations';
+import { getStorageMode, StorageMode } from '@/lib/config';
+import { database } from '@/lib/database';
+import type { DuplicateSettings } from '@/lib/duplicates';
+import type { ImportRow, ImportSummary } from '@/lib/importScans';
+import { LocalScanRepository } from '@/lib/localScanRepository';
+import { MemoryScanRepository } from '@/lib/memoryScanRepository';
+import { RemoteScanRepository } from '@/lib/remoteScanRepository';
+import type { ScanFeedListener } from '@/lib/scanEventStream';
+import type { NewScan, ScanRecord } from '@/lib/scanRecord';
+import type { ScanQuery, ScanSession } from '@/lib/scanStore';
+import type { Zone, ZoneShape } from '@/lib/zones';
+
+// Contrato común de los almacenamientos de escaneos. Las pantallas solo usan esta interfaz;
+// cuál la implementa se decide con la configuración (StorageMode):
+// - local: SQLite o IndexedDB del dispositivo, sin servidor
+// - remote: solo el web service
+// - hybrid: copia en el dispositivo sincronizada con el web service (ApiService)
+// - memory: lista en memoria, para pruebas
+// Las sesiones y las zonas se guardan en el mismo almacenamiento que los escaneos; la elección
+// del backend está en lib/backend.
+
+export type { NewScan, ScanQuery, ScanRecord, ScanSession, TagCount, Zone };
+export { getScanKey, parseScanKey } from '@/lib/scanRecord';
+
+// Página de resultados de getScans
+export interface ScanListPage {
+  items: ScanRecord[];
+  total: number;
+  nextOffset: number | null;
+}
+
+// Resultado de registrar una lectura según la política de repetidos
+export interface RegisterScanResult {
+  outcome: 'recorded' | 'ignored' | 'incremented';
+  localId: number;   // ID del registro afectado en el almacenamiento que lo guarda
+  scanCount: number; // Lecturas acumuladas del registro afectado
+  // Zona en la que se leyó el código la última vez, si esta lectura (con ubicación) cae fuera de ella
+  expectedZoneId: string | null;
+}
+
+// Estado de la cola de sincronización con el web service
+export interface SyncSummary {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+}
+
+export type SyncListener = (summary: SyncSummary) => void;
+
+export type SessionChanges = Partial<Pick<ScanSession, 'name' | 'ended_at'>>;
+export type ZoneChanges = Partial<Pick<Zone, 'name' | 'shape'>>;
+
+export interface ScanRepository {
+  // Prepara el almacenamiento (base de datos local, URL del backend...); se puede llamar varias veces
+  init(): Promise<void>;
+  getScans(query?: ScanQuery): Promise<ScanListPage>;
+  // Todas las páginas de la consulta (se ignoran limit y offset)
+  getAllScans(query?: ScanQuery): Promise<ScanRecord[]>;
+  getScanById(id: number): Promise<ScanRecord | null>;
+  // Escaneo por su ID en el dispositivo (claves local-N); null si no hay copia local
+  getLocalScan(localId: number): Promise<ScanRecord | null>;
+  addScan(scanData: NewScan): Promise<number>;
+  registerScan(scanData: NewScan, duplicates: DuplicateSettings): Promise<RegisterScanResult>;
+  importScans(rows: ImportRow[]): Promise<ImportSummary>;
+  deleteScan(scan: Pick<ScanRecord, 'id' | 'sync_status' | 'local_id'>): Promise<boolean>;
+  updateScan(scan: ScanRecord, changes: ScanAnnotationChanges): Promise<ScanRecord>;
+  getTags(): Promise<TagCount[]>;
+  // Sesiones de escaneo, las más recientes primero y con su número de escaneos
+  getSessions(): Promise<ScanSession[]>;
+  startSession(name: string): Promise<ScanSession>;
+  updateSession(session: ScanSession, changes: SessionChanges): Promise<ScanSession>;
+  // Elimina la sesión con todos sus escaneos
+  deleteSession(session: ScanSession): Promise<void>;
+  getZones(): Promise<Zone[]>;
+  createZone(name: string, shape: ZoneShape): Promise<Zone>;
+  updateZone(zone: Zone, changes: ZoneChanges): Promise<Zone>;
+  // Elimina la zona; sus escaneos se conservan sin zona
+  deleteZone(zone: Zone): Promise<void>;
+  // Cambios en los escaneos del servidor en tiempo real; solo en los almacenamientos con web service
+  subscribeToScanEvents?(listener: ScanFeedListener): () => void;
+  // Cola de sincronización y estado de la conexión; solo en el almacenamiento híbrido
+  getSyncSummary?(): Promise<SyncSummary>;
+  subscribeToSync?(listener: SyncListener): () => void;
+  retryFailed?(): Promise<void>;
+  // Verdadero si la última comprobación del servidor falló y lo nuevo queda a la espera de enviarse
+  isOffline?(): boolean;
+}
+
+/**
+ * Crea el almacenamiento de escaneos del modo indicado.
+ */
+export const createScanRepository = (mode: StorageMode): ScanRepository => {
+  switch (mode) {
+    case 'local':
+      return new LocalScanRepository();
+    case 'remote':
+      // La URL del backend es la que se elige en Ajustes
+      return new RemoteScanRepository(database);
+    case 'memory':
+      return new MemoryScanRepository();
+    default:
+      return database;
+  }
+};
+
+export const scanRepository: ScanRepository = createScanRepository(getStorageMode());
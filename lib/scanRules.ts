@@ -0,0 +1,115 @@
+import { auth, authFetch } from '@/lib/auth';
+import { getCurrentWorkspaceId } from '@/lib/currentWorkspace';
+import { getJSON, setJSON } from '@/lib/deviceStorage';
+import { EMPTY_RULE_SET, RuleSet, ScanRule } from '@/lib/rules';
+import { HttpError } from '@/lib/scanApi';
+
+// Reglas de escaneo en la app. El escáner las evalúa sin esperar a la red con la copia del dispositivo,
+// que se guarda por usuario y ámbito (espacio de trabajo o escaneos personales) y se actualiza con
+// GET /rules al abrir el escáner. Sin sesión las reglas solo existen en el dispositivo. Los cambios hechos
+// sin conexión quedan pendientes y se envían en la siguiente actualización
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+interface StoredRuleSet extends RuleSet {
+  pending: boolean; // Cambios hechos sin conexión que el servidor aún no tiene
+}
+
+const cache = new Map<string, StoredRuleSet>();
+
+// Clave de la copia del ámbito actual; sin sesión, la de las reglas del dispositivo
+const getStorageKey = (): string => {
+  const userId = auth.getSession()?.user.id;
+  return userId ? `scan_rules:${userId}:${getCurrentWorkspaceId() ?? 'personal'}` : 'scan_rules';
+};
+
+const loadStored = async (key: string): Promise<StoredRuleSet> => {
+  const stored = cache.get(key) ?? (await getJSON<StoredRuleSet>(key)) ?? { ...EMPTY_RULE_SET, pending: false };
+  cache.set(key, stored);
+  return stored;
+};
+
+const store = async (key: string, ruleSet: StoredRuleSet): Promise<void> => {
+  cache.set(key, ruleSet);
+  await setJSON(key, ruleSet);
+};
+
+const request = async (url: string, init: RequestInit = {}): Promise<RuleSet> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await authFetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw new HttpError(response.status, errorBody?.error ?? `HTTP error! status: ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const putRules = (baseUrl: string, rules: ScanRule[], workspaceId: string | null): Promise<RuleSet> =>
+  request(`${baseUrl}/rules`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rules, workspace_id: workspaceId }),
+  });
+
+/**
+ * Reglas del ámbito actual guardadas en el dispositivo (no consulta el servidor).
+ */
+export const getScanRules = async (): Promise<StoredRuleSet> => loadStored(getStorageKey());
+
+/**
+ * Envía los cambios pendientes o descarga las reglas del ámbito actual. Sin sesión o sin conexión
+ * se conserva la copia del dispositivo.
+ */
+export const refreshScanRules = async (): Promise<StoredRuleSet> => {
+  const key = getStorageKey();
+  const current = await loadStored(key);
+  const session = auth.getSession();
+  if (!session) return current;
+
+  const workspaceId = getCurrentWorkspaceId();
+  try {
+    const latest = current.pending
+      ? await putRules(session.baseUrl, current.rules, workspaceId)
+      : await request(`${session.baseUrl}/rules${workspaceId ? `?workspace_id=${workspaceId}` : ''}`);
+    const updated = { ...latest, pending: false };
+    await store(key, updated);
+    return updated;
+  } catch (error) {
+    // Los cambios que el servidor rechaza (por ejemplo, ya no es propietario) se descartan
+    if (current.pending && error instanceof HttpError && error.status !== 401) {
+      console.warn('El servidor rechazó las reglas pendientes:', error.message);
+      await store(key, { ...current, pending: false, version: 0 });
+      return refreshScanRules();
+    }
+    console.warn('No se pudieron actualizar las reglas de escaneo:', error);
+    return current;
+  }
+};
+
+/**
+ * Guarda la lista de reglas del ámbito actual. Con sesión se envía al servidor; si no hay conexión se
+ * guarda en el dispositivo y se envía más tarde.
+ * @throws HttpError si el servidor rechaza las reglas (no válidas o sin permiso para cambiarlas)
+ */
+export const saveScanRules = async (rules: ScanRule[]): Promise<StoredRuleSet> => {
+  const key = getStorageKey();
+  const current = await loadStored(key);
+  const session = auth.getSession();
+  let saved: StoredRuleSet = { version: current.version, rules, updated_at: Date.now(), pending: session !== null };
+
+  if (session) {
+    try {
+      saved = { ...(await putRules(session.baseUrl, rules, getCurrentWorkspaceId())), pending: false };
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      console.warn('Servidor no accesible, las reglas se enviarán más tarde:', error);
+    }
+  }
+  await store(key, saved);
+  return saved;
+};
@@ -0,0 +1,1031 @@
+import { Platform } from 'react-native';
+import { countTags, DEFAULT_SCAN_STATUS, ScanAnnotationChanges, ScanStatus, TagCount } from '@/lib/annotations';
+import { migrateSqlite, migrateWebData, StoredWebData, WEB_SCHEMA_VERSION } from '@/lib/migrations';
+import { parsePayload, PayloadType } from '@/lib/payload';
+import type { ScanRecord, SyncStatus } from '@/lib/scanRecord';
+import type { UrlVerdict } from '@/lib/urlSafety';
+import { hasIndexedDB, loadWebData, replaceWebData, WebChanges, writeWebChanges } from '@/lib/webStore';
+import type { Zone } from '@/lib/zones';
+
+// Almacenamiento local de escaneos compartido por la app y las rutas de API
+// (SQLite en móvil, IndexedDB en navegador y memoria en el servidor)
+
+export type { ScanRecord, SyncStatus };
+
+// Añade el tipo y los campos del contenido (se calculan siempre a partir de qr_data)
+const withPayload = <T extends Pick<ScanRecord, 'qr_data'>>(scan: T): T & Pick<ScanRecord, 'payload_type' | 'payload_fields'> => {
+  const payload = parsePayload(scan.qr_data);
+  return { ...scan, payload_type: payload.type, payload_fields: payload.fields as Record<string, unknown> };
+};
+
+// Entrada de la cola de sincronización (una por escaneo guardado localmente)
+export interface SyncEntry {
+  scan_id: number;
+  status: SyncStatus;
+  remote_id: number | null;      // ID asignado por el servidor una vez sincronizado
+  attempts: number;
+  next_attempt_at: number | null; // Momento del siguiente reintento (backoff)
+  last_error: string | null;
+  pending_sightings: number;      // Lecturas repetidas aún no comunicadas al servidor
+  pending_changes: number;        // Ediciones (notas, etiquetas, estado) aún no enviadas al servidor
+  sending_sightings: number;      // Lecturas del último envío sin confirmar: se reenvían igual y con la misma clave
+  sending_key: string | null;     // Clave de idempotencia de ese envío
+}
+
+// Estado de envío de una sesión: 'pending' si nunca se ha enviado y 'modified' si ya está
+// en el servidor pero tiene cambios (nombre, cierre) sin enviar
+export type SessionSyncStatus = 'pending' | 'modified' | 'synced';
+
+// Sesión de escaneo (por ejemplo, un recorrido de inventario). El id lo genera el dispositivo
+// que la crea para poder asociarle escaneos antes de sincronizarla.
+export interface ScanSession {
+  id: string;
+  name: string;
+  started_at: number;
+  ended_at: number | null;                  // null mientras la sesión sigue abierta
+  scan_count?: number;                      // Registros de la sesión (se calcula al consultar)
+  sync_status?: SessionSyncStatus | null;  // Solo en el dispositivo
+  owner_id?: string | null;                 // Usuario que la creó en el servidor
+  workspace_id?: string | null;             // Espacio de trabajo al que pertenece (null: sesión personal)
+}
+
+interface WebState {
+  scans: ScanRecord[];
+  queue: SyncEntry[];
+  sessions: ScanSession[];
+  zones: Zone[];
+  nextId: number;
+  ready: Promise<void> | null;
+}
+
+// Copia en memoria de los datos web: las consultas se resuelven sobre ella y cada cambio se escribe
+// solo en los registros afectados de IndexedDB. En el servidor no existe IndexedDB, por lo que
+// los datos solo viven en memoria.
+// Cada ruta de API se empaqueta por separado, así que el estado se guarda en globalThis
+// para que todas las rutas compartan los mismos escaneos.
+const globalStore = globalThis as typeof globalThis & { __qrScannerWebState?: WebState };
+const web: WebState = (globalStore.__qrScannerWebState ??= {
+  scans: [],
+  queue: [],
+  sessions: [],
+  zones: [],
+  nextId: 1,
+  ready: null,
+});
+
+// Versiones anteriores guardaban todo en localStorage; se importa una sola vez a IndexedDB
+const hasLocalStorage = typeof localStorage !== 'undefined';
+const LEGACY_STORAGE_KEY = 'qr_scans';
+const LEGACY_BACKUP_KEY = 'qr_scans_backup';
+
+// Base de datos SQLite para plataformas móviles. Se asigna cuando ya está migrada;
+// mientras tanto, las llamadas concurrentes esperan a la misma inicialización
+let db: any = null;
+let mobileInit: Promise<void> | null = null;
+
+// Rellena el tipo y los campos del contenido de los escaneos guardados antes de que se interpretara. No
+// forma parte de la migración para que esta escriba siempre lo mismo: se usa el analizador actual, como
+// con los escaneos nuevos
+const fillMissingPayloads = async (database: any): Promise<void> => {
+  const untyped: Pick<ScanRecord, 'id' | 'qr_data'>[] = await database.getAllAsync(
+    'SELECT id, qr_data FROM scans WHERE payload_type IS NULL'
+  );
+  for (const row of untyped) {
+    const { payload_type, payload_fields } = withPayload(row);
+    await database.runAsync('UPDATE scans SET payload_type = ?, payload_fields = ? WHERE id = ?', [
+      payload_type,
+      JSON.stringify(payload_fields),
+      row.id,
+    ]);
+  }
+};
+
+const initMobileDatabase = (): Promise<void> => {
+  if (Platform.OS === 'web' || db) return Promise.resolve();
+  mobileInit ??= (async () => {
+    const SQLite = require('expo-sqlite');
+    const database = SQLite.openDatabaseSync('qr_scanner.db');
+    try {
+      await migrateSqlite(database);
+      await fillMissingPayloads(database);
+      db = database;
+    } catch (error) {
+      // Sin base de datos no se guarda nada; el siguiente intento vuelve a migrar desde la última versión completada
+      mobileInit = null;
+      throw error;
+    }
+  })();
+  return mobileInit;
+};
+
+const parseJsonColumn = <T>(value: string | null, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+// Convertir una fila de SQLite en ScanRecord (los campos del contenido, las etiquetas y el veredicto
+// del enlace se guardan como JSON)
+const fromRow = (row: any): ScanRecord => ({
+  ...row,
+  payload_fields: parseJsonColumn<Record<string, unknown> | null>(row.payload_fields, null),
+  tags: parseJsonColumn<string[]>(row.tags, []),
+  url_verdict: parseJsonColumn<UrlVerdict | null>(row.url_verdict, null),
+});
+
+// Fila de una consulta agrupada: los totales del grupo sustituyen a los de la fila representativa
+const fromGroupRow = (row: any): ScanRecord => {
+  const { group_size, group_scan_count, group_first_seen, group_last_seen, ...scan } = row;
+  return {
+    ...fromRow(scan),
+    timestamp: group_first_seen,
+    last_seen_at: group_last_seen,
+    scan_count: group_scan_count,
+    group_size,
+  };
+};
+
+const importLegacyWebData = async (): Promise<StoredWebData | null> => {
+  const stored = hasLocalStorage ? localStorage.getItem(LEGACY_STORAGE_KEY) : null;
+  if (!stored) return null;
+  try {
+    const data = migrateWebData(JSON.parse(stored));
+    await replaceWebData(data);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return data;
+  } catch (error) {
+    // Se conserva una copia de los datos originales y se empieza con la base de datos vacía
+    console.error('Error al importar los escaneos de localStorage:', error);
+    localStorage.setItem(LEGACY_BACKUP_KEY, stored);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return null;
+  }
+};
+
+const loadWebState = async (): Promise<void> => {
+  if (!hasIndexedDB()) return;
+  const stored = (await loadWebData()) ?? (await importLegacyWebData());
+  if (!stored) {
+    await writeWebChanges({ meta: { version: WEB_SCHEMA_VERSION, nextId: web.nextId } });
+    return;
+  }
+  // Los datos se migran sobre una copia y se reescriben en una sola transacción;
+  // si algo falla, lo guardado no se toca y la inicialización se reintenta en la siguiente llamada
+  const data = migrateWebData(stored);
+  // Escaneos guardados antes de que se interpretara el contenido (ver fillMissingPayloads)
+  const untyped: ScanRecord[] = data.scans.filter((scan: ScanRecord) => !scan.payload_type).map(withPayload);
+  if (untyped.length > 0) {
+    const filled = new Map(untyped.map(scan => [scan.id, scan]));
+    data.scans = data.scans.map((scan: ScanRecord) => filled.get(scan.id) ?? scan);
+  }
+  if (data.version !== stored.version) {
+    await replaceWebData(data);
+  } else if (untyped.length > 0) {
+    await writeWebChanges({ put: { scans: untyped } });
+  }
+  web.scans = data.scans;
+  web.queue = data.queue;
+  web.sessions = data.sessions;
+  web.zones = data.zones;
+  web.nextId = data.nextId;
+};
+
+// Inicializar la base de datos según la plataforma
+export const initDatabase = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    web.ready ??= loadWebState().catch(error => {
+      web.ready = null;
+      throw error;
+    });
+    await web.ready;
+  } else {
+    await initMobileDatabase();
+  }
+};
+
+// Escribir en IndexedDB los registros que ha cambiado una operación web
+const persistWeb = async (changes: WebChanges): Promise<void> => {
+  if (hasIndexedDB()) {
+    await writeWebChanges(changes);
+  }
+};
+
+// Campos por los que se puede ordenar la lista de escaneos
+export type ScanSortField = 'timestamp' | 'qr_data';
+export type SortOrder = 'asc' | 'desc';
+
+// Filtros, orden y paginación para consultar escaneos
+export interface ScanQuery {
+  limit?: number;       // Tamaño de página (sin límite si no se indica)
+  offset?: number;
+  from?: number;        // Marca de tiempo mínima (inclusive)
+  to?: number;          // Marca de tiempo máxima (inclusive)
+  search?: string;      // Texto contenido en qr_data (sin distinguir mayúsculas)
+  hasLocation?: boolean; // true: solo con coordenadas; false: solo sin coordenadas
+  payloadType?: PayloadType;
+  groupByData?: boolean; // Un resultado por qr_data con el total de lecturas
+  sessionId?: string;   // Solo los escaneos de una sesión
+  zoneId?: string;      // Solo los escaneos leídos dentro de una zona
+  tags?: string[];      // Solo los escaneos que tienen todas estas etiquetas
+  status?: ScanStatus;  // Solo los escaneos con este estado de revisión
+  ownerId?: string;     // Solo los escaneos de este usuario (en el servidor)
+  workspaceId?: string | null; // Solo los de este espacio de trabajo (null: solo los personales)
+  sort?: ScanSortField; // Por defecto: timestamp
+  order?: SortOrder;    // Por defecto: desc
+}
+
+// Ámbito de una consulta: los registros de un usuario o los de un espacio de trabajo
+export type ScopeFilter = Pick<ScanQuery, 'ownerId' | 'workspaceId'>;
+
+export interface ScanPage {
+  items: ScanRecord[];
+  total: number;              // Total de escaneos que cumplen los filtros
+  nextOffset: number | null;  // null si no hay más páginas
+}
+
+// Los grupos se ordenan por su última lectura; los escaneos sueltos, por su marca de tiempo
+const getSortTime = (scan: Pick<ScanRecord, 'timestamp' | 'last_seen_at' | 'group_size'>): number =>
+  scan.group_size !== undefined ? scan.last_seen_at ?? scan.timestamp : scan.timestamp;
+
+// Comparador equivalente al ORDER BY de SQLite, con el id como desempate
+export const compareScans = (sort: ScanSortField = 'timestamp', order: SortOrder = 'desc') =>
+  (
+    a: Pick<ScanRecord, ScanSortField | 'id' | 'last_seen_at' | 'group_size'>,
+    b: Pick<ScanRecord, ScanSortField | 'id' | 'last_seen_at' | 'group_size'>
+  ): number => {
+    const direction = order === 'asc' ? 1 : -1;
+    const diff = sort === 'qr_data' ? a.qr_data.localeCompare(b.qr_data) : getSortTime(a) - getSortTime(b);
+    return (diff !== 0 ? diff : a.id - b.id) * direction;
+  };
+
+/**
+ * Agrupa los escaneos por qr_data. Cada grupo conserva los datos de su lectura más reciente,
+ * con timestamp como primera lectura, last_seen_at como última y scan_count como total.
+ * Acepta grupos ya formados (por ejemplo, los devueltos por el servidor).
+ */
+export const groupScans = <T extends ScanRecord>(scans: T[]): T[] => {
+  const groups = new Map<string, T>();
+  for (const scan of scans) {
+    const lastSeen = scan.last_seen_at ?? scan.timestamp;
+    const current = groups.get(scan.qr_data);
+    if (!current) {
+      groups.set(scan.qr_data, {
+        ...scan,
+        scan_count: scan.scan_count ?? 1,
+        last_seen_at: lastSeen,
+        group_size: scan.group_size ?? 1,
+      });
+      continue;
+    }
+    const latest = lastSeen > (current.last_seen_at ?? current.timestamp) ? scan : current;
+    groups.set(scan.qr_data, {
+      ...latest,
+      timestamp: Math.min(current.timestamp, scan.timestamp),
+      last_seen_at: Math.max(current.last_seen_at ?? current.timestamp, lastSeen),
+      scan_count: (current.scan_count ?? 1) + (scan.scan_count ?? 1),
+      group_size: (current.group_size ?? 1) + (scan.group_size ?? 1),
+    });
+  }
+  return [...groups.values()];
+};
+
+// Comprueba si un escaneo, una sesión o una zona está en el ámbito
+const matchesScope = (
+  item: { owner_id?: string | null; workspace_id?: string | null },
+  scope: ScopeFilter
+): boolean =>
+  (!scope.ownerId || item.owner_id === scope.ownerId) &&
+  (scope.workspaceId === undefined || (item.workspace_id ?? null) === scope.workspaceId);
+
+// Condiciones SQL del ámbito sobre las columnas owner_id y workspace_id de una tabla
+const getScopeConditions = (scope: ScopeFilter, table: string): { conditions: string[]; params: string[] } => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (scope.ownerId) {
+    conditions.push(`${table}.owner_id = ?`);
+    params.push(scope.ownerId);
+  }
+  if (scope.workspaceId !== undefined) {
+    conditions.push(scope.workspaceId === null ? `${table}.workspace_id IS NULL` : `${table}.workspace_id = ?`);
+    if (scope.workspaceId !== null) params.push(scope.workspaceId);
+  }
+  return { conditions, params };
+};
+
+// Comprueba si un escaneo cumple los filtros de la consulta (sin paginación)
+export const matchesScanQuery = (scan: ScanRecord, query: ScanQuery): boolean => {
+  if (query.from !== undefined && scan.timestamp < query.from) return false;
+  if (query.to !== undefined && scan.timestamp > query.to) return false;
+  if (query.search && !scan.qr_data.toLowerCase().includes(query.search.toLowerCase())) return false;
+  if (query.hasLocation !== undefined) {
+    const located = scan.latitude !== null && scan.longitude !== null;
+    if (located !== query.hasLocation) return false;
+  }
+  if (query.payloadType && (scan.payload_type ?? parsePayload(scan.qr_data).type) !== query.payloadType) {
+    return false;
+  }
+  if (query.sessionId && scan.session_id !== query.sessionId) return false;
+  if (query.zoneId && scan.zone_id !== query.zoneId) return false;
+  if (query.tags && !query.tags.every(tag => (scan.tags ?? []).includes(tag))) return false;
+  if (query.status && (scan.status ?? DEFAULT_SCAN_STATUS) !== query.status) return false;
+  return matchesScope(scan, query);
+};
+
+const getNextOffset = (offset: number, pageSize: number, total: number): number | null =>
+  offset + pageSize < total ? offset + pageSize : null;
+
+/**
+ * Resuelve una consulta sobre una lista de escaneos en memoria: filtra, agrupa, ordena y pagina
+ * igual que la consulta SQL de SQLite.
+ */
+export const selectScans = (scans: ScanRecord[], query: ScanQuery = {}): ScanPage => {
+  const offset = query.offset ?? 0;
+  const filtered = scans.filter(scan => matchesScanQuery(scan, query));
+  const matching = (query.groupByData ? groupScans(filtered) : filtered).sort(compareScans(query.sort, query.order));
+  const items = query.limit !== undefined
+    ? matching.slice(offset, offset + query.limit)
+    : matching.slice(offset);
+  return { items, total: matching.length, nextOffset: getNextOffset(offset, items.length, matching.length) };
+};
+
+// Lectura más reciente de una lista (por última lectura); null si está vacía
+export const pickLatestScan = (scans: ScanRecord[]): ScanRecord | null =>
+  scans.length === 0
+    ? null
+    : scans.reduce((latest, scan) =>
+      (scan.last_seen_at ?? scan.timestamp) >= (latest.last_seen_at ?? latest.timestamp) ? scan : latest);
+
+// Consultar escaneos con filtros, orden y paginación
+export const queryScans = async (query: ScanQuery = {}): Promise<ScanPage> => {
+  await initDatabase();
+
+  const offset = query.offset ?? 0;
+  const sort = query.sort ?? 'timestamp';
+  const order = query.order ?? 'desc';
+
+  if (Platform.OS === 'web') {
+    return selectScans(web.scans, query);
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.from !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.to);
+    }
+    if (query.search) {
+      conditions.push("qr_data LIKE ? ESCAPE '\\'");
+      params.push(`%${query.search.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    }
+    if (query.hasLocation !== undefined) {
+      conditions.push(query.hasLocation
+        ? '(latitude IS NOT NULL AND longitude IS NOT NULL)'
+        : '(latitude IS NULL OR longitude IS NULL)');
+    }
+    if (query.payloadType) {
+      conditions.push('payload_type = ?');
+      params.push(query.payloadType);
+    }
+    if (query.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.zoneId) {
+      conditions.push('zone_id = ?');
+      params.push(query.zoneId);
+    }
+    for (const tag of query.tags ?? []) {
+      conditions.push('EXISTS (SELECT 1 FROM json_each(scans.tags) WHERE json_each.value = ?)');
+      params.push(tag);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.ownerId) {
+      conditions.push('owner_id = ?');
+      params.push(query.ownerId);
+    }
+    if (query.workspaceId !== undefined) {
+      conditions.push(query.workspaceId === null ? 'workspace_id IS NULL' : 'workspace_id = ?');
+      if (query.workspaceId !== null) params.push(query.workspaceId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+    if (query.groupByData) {
+      // La fila con el mayor id representa al grupo; los totales se calculan en la subconsulta
+      const groups = `SELECT qr_data, MAX(id) AS group_latest_id, COUNT(*) AS group_size,
+          SUM(scan_count) AS group_scan_count, MIN(timestamp) AS group_first_seen,
+          MAX(COALESCE(last_seen_at, timestamp)) AS group_last_seen
+        FROM scans ${where} GROUP BY qr_data`;
+      const countRow = await db.getFirstAsync(`SELECT COUNT(*) AS total FROM (${groups})`, params);
+      const total: number = countRow?.total ?? 0;
+      const orderBy = sort === 'qr_data' ? 's.qr_data' : 'g.group_last_seen';
+
+      const rows = await db.getAllAsync(
+        `SELECT s.*, g.group_size, g.group_scan_count, g.group_first_seen, g.group_last_seen
+         FROM scans s JOIN (${groups}) g ON s.id = g.group_latest_id
+         ORDER BY ${orderBy} ${direction}, s.id ${direction} LIMIT ? OFFSET ?`,
+        [...params, query.limit ?? -1, offset]
+      );
+      return { items: rows.map(fromGroupRow), total, nextOffset: getNextOffset(offset, rows.length, total) };
+    }
+
+    const countRow = await db.getFirstAsync(`SELECT COUNT(*) AS total FROM scans ${where}`, params);
+    const total: number = countRow?.total ?? 0;
+
+    const items = await db.getAllAsync(
+      `SELECT * FROM scans ${where} ORDER BY ${sort} ${direction}, id ${direction} LIMIT ? OFFSET ?`,
+      [...params, query.limit ?? -1, offset]
+    );
+    return { items: items.map(fromRow), total, nextOffset: getNextOffset(offset, items.length, total) };
+  }
+};
+
+// Obtener todos los escaneos
+export const getScans = async (): Promise<ScanRecord[]> => {
+  const page = await queryScans();
+  return page.items;
+};
+
+type NewScanRecord = Omit<ScanRecord, 'id' | 'created_at'>;
+
+// Registro web con los mismos valores por defecto que las columnas de SQLite
+const createWebScan = (scanData: NewScanRecord): ScanRecord => ({
+  ...withPayload(scanData),
+  barcode_type: scanData.barcode_type ?? null,
+  scan_count: scanData.scan_count ?? 1,
+  last_seen_at: scanData.last_seen_at ?? scanData.timestamp,
+  session_id: scanData.session_id ?? null,
+  zone_id: scanData.zone_id ?? null,
+  notes: scanData.notes ?? null,
+  tags: scanData.tags ?? [],
+  status: scanData.status ?? DEFAULT_SCAN_STATUS,
+  owner_id: scanData.owner_id ?? null,
+  owner_name: scanData.owner_name ?? null,
+  workspace_id: scanData.workspace_id ?? null,
+  url_verdict: scanData.url_verdict ?? null,
+  id: web.nextId++,
+  created_at: new Date().toISOString()
+});
+
+const insertScanRow = async (scanData: NewScanRecord): Promise<number> => {
+  const { payload_type, payload_fields } = withPayload(scanData);
+  const result = await db.runAsync(
+    `INSERT INTO scans (qr_data, latitude, longitude, altitude, accuracy, timestamp, barcode_type,
+       payload_type, payload_fields, scan_count, last_seen_at, session_id, zone_id, notes, tags, status, owner_id,
+       owner_name, workspace_id, url_verdict)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      scanData.qr_data,
+      scanData.latitude,
+      scanData.longitude,
+      scanData.altitude,
+      scanData.accuracy,
+      scanData.timestamp,
+      scanData.barcode_type ?? null,
+      payload_type,
+      JSON.stringify(payload_fields),
+      scanData.scan_count ?? 1,
+      scanData.last_seen_at ?? scanData.timestamp,
+      scanData.session_id ?? null,
+      scanData.zone_id ?? null,
+      scanData.notes ?? null,
+      JSON.stringify(scanData.tags ?? []),
+      scanData.status ?? DEFAULT_SCAN_STATUS,
+      scanData.owner_id ?? null,
+      scanData.owner_name ?? null,
+      scanData.workspace_id ?? null,
+      scanData.url_verdict ? JSON.stringify(scanData.url_verdict) : null,
+    ]
+  );
+  return result.lastInsertRowId;
+};
+
+// Agregar un nuevo escaneo
+export const addScan = async (scanData: NewScanRecord): Promise<number> => {
+  await initDatabase();
+  
+  if (Platform.OS === 'web') {
+    const newScan = createWebScan(scanData);
+    web.scans.push(newScan);
+    await persistWeb({ put: { scans: [newScan] }, meta: { nextId: web.nextId } });
+    return newScan.id;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+    
+    return insertScanRow(scanData);
+  }
+};
+
+// Resultado de una inserción masiva: el id del escaneo nuevo o del que ya existía
+export interface BulkInsertResult {
+  id: number;
+  inserted: boolean;
+}
+
+// Un escaneo importado se considera el mismo si coinciden el contenido y el momento de la lectura
+// (en el servidor, solo entre los escaneos del mismo espacio de trabajo o, si son personales, del mismo usuario)
+const getImportKey = (scan: Pick<ScanRecord, 'qr_data' | 'timestamp' | 'owner_id' | 'workspace_id'>): string =>
+  `${scan.workspace_id ? `w:${scan.workspace_id}` : `u:${scan.owner_id ?? ''}`}:${scan.timestamp}:${scan.qr_data}`;
+
+/**
+ * Inserta varios escaneos en una sola operación, omitiendo los que ya existen con el mismo
+ * qr_data y timestamp (también los repetidos dentro del propio lote).
+ */
+export const addScansIfNew = async (scans: NewScanRecord[]): Promise<BulkInsertResult[]> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const existing = new Map(web.scans.map(scan => [getImportKey(scan), scan.id]));
+    const inserted: ScanRecord[] = [];
+    const results = scans.map(scanData => {
+      const key = getImportKey(scanData);
+      const id = existing.get(key);
+      if (id !== undefined) return { id, inserted: false };
+
+      const newScan = createWebScan(scanData);
+      web.scans.push(newScan);
+      inserted.push(newScan);
+      existing.set(key, newScan.id);
+      return { id: newScan.id, inserted: true };
+    });
+    if (inserted.length > 0) {
+      await persistWeb({ put: { scans: inserted }, meta: { nextId: web.nextId } });
+    }
+    return results;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const results: BulkInsertResult[] = [];
+    await db.withTransactionAsync(async () => {
+      for (const scanData of scans) {
+        const row = scanData.workspace_id
+          ? await db.getFirstAsync(
+            'SELECT id FROM scans WHERE qr_data = ? AND timestamp = ? AND workspace_id = ? LIMIT 1',
+            [scanData.qr_data, scanData.timestamp, scanData.workspace_id]
+          )
+          : await db.getFirstAsync(
+            `SELECT id FROM scans WHERE qr_data = ? AND timestamp = ? AND workspace_id IS NULL AND owner_id IS ?
+             LIMIT 1`,
+            [scanData.qr_data, scanData.timestamp, scanData.owner_id ?? null]
+          );
+        results.push(row ? { id: row.id, inserted: false } : { id: await insertScanRow(scanData), inserted: true });
+      }
+    });
+    return results;
+  }
+};
+
+// Eliminar un escaneo
+export const deleteScan = async (id: number): Promise<boolean> => {
+  await initDatabase();
+  
+  if (Platform.OS === 'web') {
+    const initialLength = web.scans.length;
+    web.scans = web.scans.filter(scan => scan.id !== id);
+    web.queue = web.queue.filter(entry => entry.scan_id !== id);
+    const deleted = web.scans.length < initialLength;
+    if (deleted) {
+      await persistWeb({ delete: { scans: [id], sync_queue: [id] } });
+    }
+    return deleted;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+    
+    const result = await db.runAsync('DELETE FROM scans WHERE id = ?', [id]);
+    await db.runAsync('DELETE FROM sync_queue WHERE scan_id = ?', [id]);
+    return result.changes > 0;
+  }
+};
+
+// Obtener un escaneo específico por ID
+export const getScanById = async (id: number): Promise<ScanRecord | null> => {
+  await initDatabase();
+  
+  if (Platform.OS === 'web') {
+    return web.scans.find(scan => scan.id === id) || null;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+    
+    const result = await db.getFirstAsync('SELECT * FROM scans WHERE id = ?', [id]);
+    return result ? fromRow(result) : null;
+  }
+};
+
+// Obtener la lectura más reciente de un código (para detectar escaneos repetidos),
+// opcionalmente solo dentro de una sesión
+export const findLatestScanByData = async (qrData: string, sessionId?: string | null): Promise<ScanRecord | null> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return pickLatestScan(web.scans.filter(scan =>
+      scan.qr_data === qrData && (!sessionId || scan.session_id === sessionId)));
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const result = await db.getFirstAsync(
+      `SELECT * FROM scans WHERE qr_data = ? ${sessionId ? 'AND session_id = ?' : ''}
+       ORDER BY COALESCE(last_seen_at, timestamp) DESC, id DESC LIMIT 1`,
+      sessionId ? [qrData, sessionId] : [qrData]
+    );
+    return result ? fromRow(result) : null;
+  }
+};
+
+// Zona de la lectura más reciente de un código que se hizo dentro de alguna zona
+// (la zona en la que se espera volver a encontrarlo)
+export const findLatestZoneIdByData = async (qrData: string): Promise<string | null> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return pickLatestScan(web.scans.filter(scan => scan.qr_data === qrData && scan.zone_id))?.zone_id ?? null;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const result = await db.getFirstAsync(
+      `SELECT zone_id FROM scans WHERE qr_data = ? AND zone_id IS NOT NULL
+       ORDER BY COALESCE(last_seen_at, timestamp) DESC, id DESC LIMIT 1`,
+      [qrData]
+    );
+    return result?.zone_id ?? null;
+  }
+};
+
+// Registrar nuevas lecturas de un escaneo existente (suma al contador y actualiza la última lectura)
+export const recordSighting = async (id: number, timestamp: number, count: number = 1): Promise<boolean> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const scan = web.scans.find(s => s.id === id);
+    if (!scan) return false;
+    scan.scan_count = (scan.scan_count ?? 1) + count;
+    scan.last_seen_at = Math.max(scan.last_seen_at ?? scan.timestamp, timestamp);
+    await persistWeb({ put: { scans: [scan] } });
+    return true;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const result = await db.runAsync(
+      `UPDATE scans SET scan_count = scan_count + ?, last_seen_at = MAX(COALESCE(last_seen_at, timestamp), ?)
+       WHERE id = ?`,
+      [count, timestamp, id]
+    );
+    return result.changes > 0;
+  }
+};
+
+// Cambiar las notas, etiquetas, estado o veredicto del enlace de un escaneo (solo los campos indicados)
+export const updateScanAnnotations = async (id: number, changes: ScanAnnotationChanges): Promise<boolean> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const scan = web.scans.find(s => s.id === id);
+    if (!scan) return false;
+    if (changes.notes !== undefined) scan.notes = changes.notes;
+    if (changes.tags !== undefined) scan.tags = changes.tags;
+    if (changes.status !== undefined) scan.status = changes.status;
+    if (changes.url_verdict !== undefined) scan.url_verdict = changes.url_verdict;
+    await persistWeb({ put: { scans: [scan] } });
+    return true;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const assignments: string[] = [];
+    const params: (string | null)[] = [];
+    if (changes.notes !== undefined) {
+      assignments.push('notes = ?');
+      params.push(changes.notes);
+    }
+    if (changes.tags !== undefined) {
+      assignments.push('tags = ?');
+      params.push(JSON.stringify(changes.tags));
+    }
+    if (changes.status !== undefined) {
+      assignments.push('status = ?');
+      params.push(changes.status);
+    }
+    if (changes.url_verdict !== undefined) {
+      assignments.push('url_verdict = ?');
+      params.push(changes.url_verdict ? JSON.stringify(changes.url_verdict) : null);
+    }
+    if (assignments.length === 0) {
+      return (await db.getFirstAsync('SELECT id FROM scans WHERE id = ?', [id])) !== null;
+    }
+
+    const result = await db.runAsync(`UPDATE scans SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+    return result.changes > 0;
+  }
+};
+
+// Etiquetas usadas en los escaneos (opcionalmente solo los de un usuario o un espacio de trabajo),
+// de la más frecuente a la menos
+export const getTagCounts = async (scope: ScopeFilter = {}): Promise<TagCount[]> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return countTags(web.scans.filter(scan => matchesScope(scan, scope)));
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const { conditions, params } = getScopeConditions(scope, 'scans');
+    return db.getAllAsync(
+      `SELECT json_each.value AS tag, COUNT(*) AS count FROM scans, json_each(scans.tags)
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       GROUP BY json_each.value ORDER BY count DESC, tag`,
+      params
+    );
+  }
+};
+
+// Obtener las entradas de la cola de sincronización (opcionalmente filtradas por estado)
+export const getSyncEntries = async (statuses?: SyncStatus[]): Promise<SyncEntry[]> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return web.queue.filter(entry => !statuses || statuses.includes(entry.status));
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    if (!statuses || statuses.length === 0) {
+      return (await db.getAllAsync('SELECT * FROM sync_queue')) as SyncEntry[];
+    }
+    const placeholders = statuses.map(() => '?').join(', ');
+    const result = await db.getAllAsync(
+      `SELECT * FROM sync_queue WHERE status IN (${placeholders})`,
+      statuses
+    );
+    return result as SyncEntry[];
+  }
+};
+
+// Obtener la entrada de sincronización de un escaneo
+export const getSyncEntry = async (scanId: number): Promise<SyncEntry | null> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return web.queue.find(entry => entry.scan_id === scanId) ?? null;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    return (await db.getFirstAsync('SELECT * FROM sync_queue WHERE scan_id = ?', [scanId])) ?? null;
+  }
+};
+
+// Crear o actualizar la entrada de sincronización de un escaneo
+export const saveSyncEntry = async (entry: SyncEntry): Promise<void> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const stored = { ...entry };
+    web.queue = [...web.queue.filter(e => e.scan_id !== entry.scan_id), stored];
+    await persistWeb({ put: { sync_queue: [stored] } });
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO sync_queue
+         (scan_id, status, remote_id, attempts, next_attempt_at, last_error, pending_sightings, pending_changes,
+          sending_sightings, sending_key)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.scan_id,
+        entry.status,
+        entry.remote_id,
+        entry.attempts,
+        entry.next_attempt_at,
+        entry.last_error,
+        entry.pending_sightings,
+        entry.pending_changes,
+        entry.sending_sightings,
+        entry.sending_key,
+      ]
+    );
+  }
+};
+
+// Obtener las sesiones (las más recientes primero) con su número de escaneos; con ámbito, solo las
+// de ese usuario o espacio de trabajo y contando solo sus escaneos
+export const getSessions = async (scope: ScopeFilter = {}): Promise<ScanSession[]> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return web.sessions
+      .filter(session => matchesScope(session, scope))
+      .map(session => ({
+        ...session,
+        scan_count: web.scans.filter(scan => scan.session_id === session.id && matchesScope(scan, scope)).length,
+      }))
+      .sort((a, b) => b.started_at - a.started_at);
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const sessionScope = getScopeConditions(scope, 'sessions');
+    const scanScope = getScopeConditions(scope, 'scans');
+    return db.getAllAsync(
+      `SELECT sessions.*, COUNT(scans.id) AS scan_count FROM sessions
+       LEFT JOIN scans ON scans.session_id = sessions.id ${scanScope.conditions.map(c => `AND ${c}`).join(' ')}
+       ${sessionScope.conditions.length > 0 ? `WHERE ${sessionScope.conditions.join(' AND ')}` : ''}
+       GROUP BY sessions.id ORDER BY sessions.started_at DESC`,
+      [...scanScope.params, ...sessionScope.params]
+    );
+  }
+};
+
+// Obtener una sesión por su ID (con ámbito, contando solo sus escaneos)
+export const getSessionById = async (id: string, scope: ScopeFilter = {}): Promise<ScanSession | null> => {
+  const sessions = await getSessions(scope);
+  return sessions.find(session => session.id === id) ?? null;
+};
+
+// Crear o actualizar una sesión
+export const saveSession = async (session: ScanSession): Promise<void> => {
+  await initDatabase();
+
+  const { scan_count: _count, ...stored } = session;
+  if (Platform.OS === 'web') {
+    web.sessions = [...web.sessions.filter(s => s.id !== session.id), stored];
+    await persistWeb({ put: { sessions: [stored] } });
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO sessions (id, name, started_at, ended_at, sync_status, owner_id, workspace_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        stored.id,
+        stored.name,
+        stored.started_at,
+        stored.ended_at,
+        stored.sync_status ?? null,
+        stored.owner_id ?? null,
+        stored.workspace_id ?? null,
+      ]
+    );
+  }
+};
+
+// Eliminar una sesión junto con sus escaneos. Con ámbito solo se eliminan los escaneos de ese
+// usuario o espacio de trabajo; los demás se conservan, aunque la sesión ya no exista
+export const deleteSession = async (id: string, scope: ScopeFilter = {}): Promise<boolean> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const exists = web.sessions.some(session => session.id === id);
+    const scanIds = new Set(web.scans
+      .filter(scan => scan.session_id === id && matchesScope(scan, scope))
+      .map(scan => scan.id));
+    web.sessions = web.sessions.filter(session => session.id !== id);
+    web.scans = web.scans.filter(scan => !scanIds.has(scan.id));
+    web.queue = web.queue.filter(entry => !scanIds.has(entry.scan_id));
+    if (exists || scanIds.size > 0) {
+      const ids = [...scanIds];
+      await persistWeb({ delete: { sessions: [id], scans: ids, sync_queue: ids } });
+    }
+    return exists;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    let deleted = false;
+    const { conditions, params: scopeParams } = getScopeConditions(scope, 'scans');
+    const inScope = conditions.map(condition => `AND ${condition}`).join(' ');
+    const params = [id, ...scopeParams];
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `DELETE FROM sync_queue WHERE scan_id IN (SELECT id FROM scans WHERE session_id = ? ${inScope})`,
+        params
+      );
+      await db.runAsync(`DELETE FROM scans WHERE session_id = ? ${inScope}`, params);
+      const result = await db.runAsync('DELETE FROM sessions WHERE id = ?', [id]);
+      deleted = result.changes > 0;
+    });
+    return deleted;
+  }
+};
+
+// Convertir una fila de SQLite en Zone (la forma se guarda como JSON)
+const fromZoneRow = (row: any): Zone => ({ ...row, shape: JSON.parse(row.shape) });
+
+// Obtener las zonas (opcionalmente solo las de un usuario o un espacio de trabajo) ordenadas por nombre
+export const getZones = async (scope: ScopeFilter = {}): Promise<Zone[]> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return web.zones.filter(zone => matchesScope(zone, scope)).sort((a, b) => a.name.localeCompare(b.name));
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const { conditions, params } = getScopeConditions(scope, 'zones');
+    const rows = await db.getAllAsync(
+      `SELECT * FROM zones ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY name COLLATE NOCASE`,
+      params
+    );
+    return rows.map(fromZoneRow);
+  }
+};
+
+// Obtener una zona por su ID
+export const getZoneById = async (id: string): Promise<Zone | null> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    return web.zones.find(zone => zone.id === id) ?? null;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    const row = await db.getFirstAsync('SELECT * FROM zones WHERE id = ?', [id]);
+    return row ? fromZoneRow(row) : null;
+  }
+};
+
+// Crear o actualizar una zona
+export const saveZone = async (zone: Zone): Promise<void> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    web.zones = [...web.zones.filter(z => z.id !== zone.id), zone];
+    await persistWeb({ put: { zones: [zone] } });
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO zones (id, name, shape, created_at, sync_status, owner_id, workspace_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        zone.id,
+        zone.name,
+        JSON.stringify(zone.shape),
+        zone.created_at,
+        zone.sync_status ?? null,
+        zone.owner_id ?? null,
+        zone.workspace_id ?? null,
+      ]
+    );
+  }
+};
+
+// Eliminar una zona. Los escaneos se conservan, pero dejan de estar asociados a ella
+export const deleteZone = async (id: string): Promise<boolean> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const exists = web.zones.some(zone => zone.id === id);
+    web.zones = web.zones.filter(zone => zone.id !== id);
+    const unzoned = web.scans.filter(scan => scan.zone_id === id);
+    unzoned.forEach(scan => {
+      scan.zone_id = null;
+    });
+    if (exists || unzoned.length > 0) {
+      await persistWeb({ put: { scans: unzoned }, delete: { zones: [id] } });
+    }
+    return exists;
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    let deleted = false;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('UPDATE scans SET zone_id = NULL WHERE zone_id = ?', [id]);
+      const result = await db.runAsync('DELETE FROM zones WHERE id = ?', [id]);
+      deleted = result.changes > 0;
+    });
+    return deleted;
+  }
+};
+
+// Borrar todos los datos del dispositivo: escaneos, cola de sincronización, sesiones y zonas.
+// Los IDs de los escaneos nuevos siguen a partir de los anteriores
+export const clearLocalData = async (): Promise<void> => {
+  await initDatabase();
+
+  if (Platform.OS === 'web') {
+    const deleted = {
+      scans: web.scans.map(scan => scan.id),
+      sync_queue: web.queue.map(entry => entry.scan_id),
+      sessions: web.sessions.map(session => session.id),
+      zones: web.zones.map(zone => zone.id),
+    };
+    web.scans = [];
+    web.queue = [];
+    web.sessions = [];
+    web.zones = [];
+    await persistWeb({ delete: deleted });
+  } else {
+    if (!db) throw new Error('Base de datos no inicializada');
+
+    await db.withTransactionAsync(async () => {
+      for (const table of ['sync_queue', 'scans', 'sessions', 'zones']) {
+        await db.runAsync(`DELETE FROM ${table}`);
+      }
+    });
+  }
+};
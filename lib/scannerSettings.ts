@@ -0,0 +1,55 @@
+import { BarcodeType, DEFAULT_BARCODE_TYPES, isBarcodeType } from '@/lib/barcode';
+import { getJSON, setJSON } from '@/lib/deviceStorage';
+import { DEFAULT_DUPLICATE_SETTINGS, DuplicateSettings, isDuplicatePolicy } from '@/lib/duplicates';
+
+// Ajustes del escáner guardados en el dispositivo
+
+export interface ScannerSettings {
+  barcodeTypes: BarcodeType[];   // Simbologías que reconoce la cámara
+  duplicates: DuplicateSettings; // Qué hacer con los códigos repetidos
+  cooldownSeconds: number;       // Pausa tras cada lectura antes de volver a escanear
+}
+
+export const COOLDOWN_OPTIONS = [1, 2, 3, 5];
+
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
+  barcodeTypes: [...DEFAULT_BARCODE_TYPES],
+  duplicates: DEFAULT_DUPLICATE_SETTINGS,
+  cooldownSeconds: 3,
+};
+
+const SCANNER_SETTINGS_KEY = 'scanner_settings';
+
+let cachedSettings: ScannerSettings | null = null;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export const loadScannerSettings = async (): Promise<ScannerSettings> => {
+  if (cachedSettings) return cachedSettings;
+
+  const stored = await getJSON<Partial<ScannerSettings>>(SCANNER_SETTINGS_KEY);
+  const barcodeTypes = Array.isArray(stored?.barcodeTypes) ? stored.barcodeTypes.filter(isBarcodeType) : [];
+  const duplicates: Partial<DuplicateSettings> = stored?.duplicates ?? {};
+  cachedSettings = {
+    barcodeTypes: barcodeTypes.length > 0 ? barcodeTypes : [...DEFAULT_SCANNER_SETTINGS.barcodeTypes],
+    duplicates: {
+      policy: isDuplicatePolicy(duplicates.policy) ? duplicates.policy : DEFAULT_DUPLICATE_SETTINGS.policy,
+      windowSeconds: isPositiveNumber(duplicates.windowSeconds)
+        ? duplicates.windowSeconds
+        : DEFAULT_DUPLICATE_SETTINGS.windowSeconds,
+      distanceMeters: isPositiveNumber(duplicates.distanceMeters)
+        ? duplicates.distanceMeters
+        : DEFAULT_DUPLICATE_SETTINGS.distanceMeters,
+    },
+    cooldownSeconds: isPositiveNumber(stored?.cooldownSeconds)
+      ? stored.cooldownSeconds
+      : DEFAULT_SCANNER_SETTINGS.cooldownSeconds,
+  };
+  return cachedSettings;
+};
+
+export const saveScannerSettings = async (settings: ScannerSettings): Promise<void> => {
+  cachedSettings = settings;
+  await setJSON(SCANNER_SETTINGS_KEY, settings);
+};
@@ -0,0 +1,184 @@
+import { jsonError } from '@/lib/server/http';
+
+// Usuarios y tokens del servidor. Como los escaneos del servidor, viven en memoria y se comparten
+// entre rutas a través de globalThis. Las contraseñas se guardan con PBKDF2 (Web Crypto) y los
+// tokens son valores aleatorios opacos: el de acceso caduca pronto y el de refresco se renueva
+// (y se invalida) cada vez que se usa.
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const PBKDF2_ITERATIONS = 100000;
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+// Respuesta de POST /auth/login, /auth/register y /auth/refresh
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'Bearer';
+  expires_in: number; // Segundos de validez del token de acceso
+  user: AuthUser;
+}
+
+interface StoredUser extends AuthUser {
+  password_hash: string;
+  salt: string;
+  created_at: number;
+}
+
+interface StoredToken {
+  user_id: string;
+  expires_at: number;
+}
+
+interface AuthState {
+  users: Map<string, StoredUser>; // Por nombre de usuario
+  accessTokens: Map<string, StoredToken>;
+  refreshTokens: Map<string, StoredToken>;
+}
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerAuthState?: AuthState };
+const state: AuthState = (globalStore.__qrScannerAuthState ??= {
+  users: new Map(),
+  accessTokens: new Map(),
+  refreshTokens: new Map(),
+});
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const randomToken = (): string => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// Sal con la que se deriva la clave cuando el usuario no existe (ver loginUser)
+const UNKNOWN_USER_SALT = randomToken();
+
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// Comparación en tiempo constante para no revelar cuántos caracteres coinciden
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const toAuthUser = ({ id, username }: StoredUser): AuthUser => ({ id, username });
+
+const findUserById = (id: string): StoredUser | undefined =>
+  [...state.users.values()].find(user => user.id === id);
+
+const issueTokens = (user: AuthUser): AuthTokens => {
+  const now = Date.now();
+  const access_token = randomToken();
+  const refresh_token = randomToken();
+  state.accessTokens.set(access_token, { user_id: user.id, expires_at: now + ACCESS_TOKEN_TTL_MS });
+  state.refreshTokens.set(refresh_token, { user_id: user.id, expires_at: now + REFRESH_TOKEN_TTL_MS });
+  return { access_token, refresh_token, token_type: 'Bearer', expires_in: ACCESS_TOKEN_TTL_MS / 1000, user };
+};
+
+/**
+ * Crea un usuario y le abre sesión.
+ * @returns null si el nombre de usuario ya existe
+ */
+export const registerUser = async (username: string, password: string): Promise<AuthTokens | null> => {
+  if (state.users.has(username)) return null;
+  const salt = randomToken();
+  const user: StoredUser = {
+    id: crypto.randomUUID(),
+    username,
+    salt,
+    password_hash: await hashPassword(password, salt),
+    created_at: Date.now(),
+  };
+  // Otro registro con el mismo nombre puede haber terminado mientras se derivaba la clave
+  if (state.users.has(username)) return null;
+  state.users.set(username, user);
+  return issueTokens(toAuthUser(user));
+};
+
+/**
+ * Comprueba usuario y contraseña y abre una sesión.
+ * @returns null si las credenciales no son correctas
+ */
+export const loginUser = async (username: string, password: string): Promise<AuthTokens | null> => {
+  const user = state.users.get(username);
+  // Sin usuario también se deriva la clave, para que el tiempo de respuesta no revele qué nombres existen
+  const hash = await hashPassword(password, user?.salt ?? UNKNOWN_USER_SALT);
+  return user && safeEqual(hash, user.password_hash) ? issueTokens(toAuthUser(user)) : null;
+};
+
+/**
+ * Cambia un token de refresco por un par nuevo. El token usado deja de valer.
+ * @returns null si el token no existe o ha caducado
+ */
+export const refreshSession = (refreshToken: string): AuthTokens | null => {
+  const stored = state.refreshTokens.get(refreshToken);
+  state.refreshTokens.delete(refreshToken);
+  if (!stored || stored.expires_at <= Date.now()) return null;
+  const user = findUserById(stored.user_id);
+  return user ? issueTokens(toAuthUser(user)) : null;
+};
+
+/**
+ * Invalida los tokens de una sesión (los que se indiquen).
+ */
+export const revokeTokens = (tokens: { accessToken?: string | null; refreshToken?: string | null }): void => {
+  if (tokens.accessToken) state.accessTokens.delete(tokens.accessToken);
+  if (tokens.refreshToken) state.refreshTokens.delete(tokens.refreshToken);
+};
+
+/**
+ * Token de la cabecera Authorization: Bearer <token>, o null si no hay.
+ */
+export const getBearerToken = (request: Request): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('Authorization') ?? '');
+  return match ? match[1] : null;
+};
+
+/**
+ * Usuario de la petición según su token de acceso, o null si falta, no existe o ha caducado.
+ */
+export const authenticate = (request: Request): AuthUser | null => {
+  const token = getBearerToken(request);
+  if (!token) return null;
+  const stored = state.accessTokens.get(token);
+  if (!stored) return null;
+  if (stored.expires_at <= Date.now()) {
+    state.accessTokens.delete(token);
+    return null;
+  }
+  const user = findUserById(stored.user_id);
+  return user ? toAuthUser(user) : null;
+};
+
+/**
+ * Busca un usuario por su nombre (ya en minúsculas), o null si no existe.
+ */
+export const findUserByName = (username: string): AuthUser | null => {
+  const user = state.users.get(username);
+  return user ? toAuthUser(user) : null;
+};
+
+/**
+ * Busca un usuario por su ID, o null si no existe.
+ */
+export const getUserById = (id: string): AuthUser | null => {
+  const user = findUserById(id);
+  return user ? toAuthUser(user) : null;
+};
+
+/**
+ * Respuesta 401 para las peticiones sin un token de acceso válido.
+ */
+export const unauthorized = (): Response => jsonError(401, 'Sesión no válida o caducada');
+
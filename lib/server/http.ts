@@ -0,0 +1,40 @@
+// Utilidades HTTP compartidas por las rutas de API (solo se ejecutan en el servidor)
+
+export interface ApiErrorBody {
+  error: string;
+  details?: string[];
+}
+
+/**
+ * Respuesta JSON con el código de estado indicado.
+ */
+export const json = (data: unknown, status: number = 200): Response =>
+  Response.json(data, { status });
+
+/**
+ * Respuesta de error en formato JSON: { error, details? }.
+ */
+export const jsonError = (status: number, error: string, details?: string[]): Response => {
+  const body: ApiErrorBody = details && details.length > 0 ? { error, details } : { error };
+  return Response.json(body, { status });
+};
+
+/**
+ * Lee el cuerpo JSON de la petición; devuelve undefined si no es JSON válido.
+ */
+export const readJsonBody = async (request: Request): Promise<unknown> => {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Convierte el parámetro :id de la ruta en un entero positivo, o null si no es válido.
+ */
+export const parseId = (value: string | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
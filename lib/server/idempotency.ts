@@ -0,0 +1,65 @@
+// Claves de idempotencia de POST /scans: la app envía cada escaneo de su cola con una clave estable
+// (cabecera Idempotency-Key), así que si reintenta tras un timeout o una respuesta perdida el servidor
+// devuelve el escaneo que ya creó en lugar de duplicarlo. Las claves son de cada usuario, caducan a las
+// 24 horas y, como el resto del estado del servidor, viven en memoria y se comparten a través de globalThis
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+interface IdempotentRequest {
+  // ID del escaneo creado; se guarda la promesa para que un reintento simultáneo espere al original
+  result: Promise<number>;
+  expires_at: number;
+}
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerIdempotencyState?: Map<string, IdempotentRequest> };
+const requests: Map<string, IdempotentRequest> = (globalStore.__qrScannerIdempotencyState ??= new Map());
+
+/**
+ * Cabecera Idempotency-Key de la petición: null si no se envía y undefined si no es válida.
+ */
+export const readIdempotencyKey = (request: Request): string | null | undefined => {
+  const key = request.headers.get('Idempotency-Key');
+  if (key === null) return null;
+  return key.length <= MAX_IDEMPOTENCY_KEY_LENGTH && /^[\w.:-]+$/.test(key) ? key : undefined;
+};
+
+const pruneExpired = (now: number): void => {
+  for (const [key, entry] of requests) {
+    if (entry.expires_at <= now) requests.delete(key);
+  }
+};
+
+/**
+ * Crea un escaneo una sola vez por clave y usuario. Sin clave siempre se crea.
+ * @param create Crea el escaneo y devuelve su ID
+ * @returns El ID del escaneo y si ya se había creado con esa clave
+ */
+export const createOnce = async (
+  userId: string,
+  key: string | null,
+  create: () => Promise<number>
+): Promise<{ id: number; replayed: boolean }> => {
+  if (key === null) return { id: await create(), replayed: false };
+
+  const now = Date.now();
+  pruneExpired(now);
+  const storeKey = `${userId}:${key}`;
+  // Si el intento anterior falló, este lo sustituye (salvo que otro reintento se haya adelantado)
+  let previous = requests.get(storeKey);
+  while (previous) {
+    const id = await previous.result.catch(() => null);
+    if (id !== null) return { id, replayed: true };
+    const current = requests.get(storeKey);
+    previous = current !== previous ? current : undefined;
+  }
+
+  const result = create();
+  requests.set(storeKey, { result, expires_at: now + IDEMPOTENCY_TTL_MS });
+  try {
+    return { id: await result, replayed: false };
+  } catch (error) {
+    if (requests.get(storeKey)?.result === result) requests.delete(storeKey);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+import { applyRuleEvaluation, EMPTY_RULE_SET, evaluateRules, RuleEvaluation, RuleSet, ScanRule } from '@/lib/rules';
+import type { ScanRecord } from '@/lib/scanRecord';
+import { getZones } from '@/lib/scanStore';
+import { jsonError } from '@/lib/server/http';
+import type { ScanInput } from '@/lib/server/validation';
+import { dispatchRuleWebhooks } from '@/lib/server/webhooks';
+
+// Reglas de escaneo del servidor, una lista por ámbito (espacio de trabajo o escaneos personales de un
+// usuario). Se vuelven a evaluar al guardar cada escaneo, así que también se aplican a los que no pasan por
+// el escáner de la app. Como el resto del estado del servidor, viven en memoria y se comparten entre rutas
+// a través de globalThis
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerRuleState?: Map<string, RuleSet> };
+const ruleSets: Map<string, RuleSet> = (globalStore.__qrScannerRuleState ??= new Map());
+
+const getScopeKey = (workspaceId: string | null, ownerId: string): string =>
+  workspaceId ? `workspace:${workspaceId}` : `user:${ownerId}`;
+
+/**
+ * Respuesta 403 para los miembros de un espacio de trabajo que no pueden cambiar sus reglas.
+ */
+export const cannotManageRules = (): Response =>
+  jsonError(403, 'Solo el propietario del espacio de trabajo puede cambiar sus reglas');
+
+/**
+ * Reglas del espacio de trabajo o, con workspaceId null, de los escaneos personales del usuario.
+ */
+export const getRuleSet = (workspaceId: string | null, ownerId: string): RuleSet =>
+  ruleSets.get(getScopeKey(workspaceId, ownerId)) ?? EMPTY_RULE_SET;
+
+/**
+ * Sustituye las reglas del ámbito y aumenta su versión.
+ */
+export const replaceRuleSet = (workspaceId: string | null, ownerId: string, rules: ScanRule[]): RuleSet => {
+  const ruleSet: RuleSet = {
+    version: getRuleSet(workspaceId, ownerId).version + 1,
+    rules,
+    updated_at: Date.now(),
+  };
+  ruleSets.set(getScopeKey(workspaceId, ownerId), ruleSet);
+  return ruleSet;
+};
+
+/**
+ * Evalúa las reglas del ámbito del escaneo antes de guardarlo y le añade sus etiquetas y su estado.
+ * @returns El escaneo que se debe guardar y la evaluación (si rejected, no se guarda)
+ */
+export const applyScanRules = async (
+  scan: ScanInput & { owner_id: string }
+): Promise<{ scan: ScanInput & { owner_id: string }; evaluation: RuleEvaluation }> => {
+  const { rules } = getRuleSet(scan.workspace_id ?? null, scan.owner_id);
+  const zones = rules.some(rule => rule.condition.zone_id) ? await getZones() : [];
+  const evaluation = evaluateRules(rules, scan, zones);
+  return { scan: evaluation.rejected ? scan : applyRuleEvaluation(scan, evaluation), evaluation };
+};
+
+/**
+ * Acciones de las reglas que se ejecutan después de guardar el escaneo (llamar a webhooks).
+ */
+export const runSavedScanRules = (evaluation: RuleEvaluation, scan: ScanRecord): void => {
+  if (evaluation.webhooks.length > 0) dispatchRuleWebhooks(evaluation.webhooks, scan);
+};
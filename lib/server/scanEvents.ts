@@ -0,0 +1,149 @@
+import type { ScanRecord } from '@/lib/scanRecord';
+import { SCAN_EVENTS_RESET, ScanEvent, ScanEventType } from '@/lib/scanEvents';
+import type { AuthUser } from '@/lib/server/auth';
+import { dispatchScanWebhooks } from '@/lib/server/webhooks';
+import { getWorkspaceRole, ScanScope } from '@/lib/server/workspaces';
+
+// Difusión de los cambios en los escaneos a las conexiones de GET /scans/events. Los últimos eventos
+// se guardan en memoria para que las apps que se reconectan reciban los que se perdieron; como el
+// resto del estado del servidor, se comparten entre rutas a través de globalThis
+
+const MAX_BUFFERED_EVENTS = 1000;
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Las conexiones se cierran pasado este tiempo: la app se reconecta con un token vigente y sin perder eventos
+const MAX_STREAM_DURATION_MS = 15 * 60 * 1000;
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+// Propietario y espacio de trabajo del escaneo, para saber quién puede recibir el evento
+interface StoredScanEvent extends ScanEvent {
+  sequence: number;
+  owner_id: string | null;
+  workspace_id: string | null;
+}
+
+type ScanEventListener = (event: StoredScanEvent) => void;
+
+interface ScanEventState {
+  bootId: string;
+  sequence: number;
+  events: StoredScanEvent[];
+  listeners: Set<ScanEventListener>;
+}
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerScanEventState?: ScanEventState };
+const state: ScanEventState = (globalStore.__qrScannerScanEventState ??= {
+  bootId: crypto.randomUUID().slice(0, 8),
+  sequence: 0,
+  events: [],
+  listeners: new Set(),
+});
+
+/**
+ * Registra un cambio en un escaneo y lo envía a las conexiones abiertas que pueden verlo y a los webhooks.
+ * @param scan Escaneo tras el cambio (o antes de eliminarlo)
+ */
+export const publishScanEvent = (type: ScanEventType, scan: ScanRecord): void => {
+  const sequence = ++state.sequence;
+  const event: StoredScanEvent = {
+    id: `${state.bootId}:${sequence}`,
+    type,
+    scan_id: scan.id,
+    scan: type === 'deleted' ? null : scan,
+    at: Date.now(),
+    sequence,
+    owner_id: scan.owner_id ?? null,
+    workspace_id: scan.workspace_id ?? null,
+  };
+  state.events.push(event);
+  if (state.events.length > MAX_BUFFERED_EVENTS) state.events.shift();
+  state.listeners.forEach(listener => listener(event));
+  dispatchScanWebhooks(event);
+};
+
+// Mismo criterio que las consultas: los escaneos del espacio de trabajo (si el usuario sigue siendo
+// miembro) o sus escaneos personales
+const isVisible = (event: StoredScanEvent, user: AuthUser, scope: ScanScope): boolean => {
+  const workspaceId = scope.filter.workspaceId;
+  if (workspaceId) return event.workspace_id === workspaceId && getWorkspaceRole(workspaceId, user.id) !== null;
+  return event.workspace_id === null && event.owner_id === user.id;
+};
+
+const formatEvent = ({ id, type, scan_id, scan, at }: StoredScanEvent): string =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify({ id, type, scan_id, scan, at })}\n\n`;
+
+// Eventos posteriores a lastEventId, o null si ya no se conservan todos (hay que recargar)
+const getEventsAfter = (lastEventId: string): StoredScanEvent[] | null => {
+  const [bootId, sequenceText] = lastEventId.split(':');
+  const sequence = Number(sequenceText);
+  if (bootId !== state.bootId || !Number.isInteger(sequence) || sequence > state.sequence) return null;
+  const oldest = state.events[0]?.sequence ?? state.sequence + 1;
+  if (sequence < oldest - 1) return null;
+  return state.events.filter(event => event.sequence > sequence);
+};
+
+/**
+ * Abre una conexión de eventos (text/event-stream) con los cambios de los escaneos del ámbito indicado.
+ * Con lastEventId se envían primero los eventos posteriores a ese o, si ya no se conservan, un
+ * evento reset para que la app recargue la lista.
+ */
+export const openScanEventStream = (
+  request: Request,
+  user: AuthUser,
+  scope: ScanScope,
+  lastEventId: string | null
+): Response => {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      // El id del último evento permite reanudar desde aquí aunque la app aún no haya recibido ninguno
+      const currentId = `${state.bootId}:${state.sequence}`;
+      send(`retry: ${RECONNECT_DELAY_MS}\nid: ${currentId}\n: conectado\n\n`);
+      if (lastEventId) {
+        const missed = getEventsAfter(lastEventId);
+        if (missed === null) {
+          send(`id: ${currentId}\nevent: ${SCAN_EVENTS_RESET}\ndata: {}\n\n`);
+        } else {
+          missed.filter(event => isVisible(event, user, scope)).forEach(event => send(formatEvent(event)));
+        }
+      }
+
+      const listener: ScanEventListener = event => {
+        if (isVisible(event, user, scope)) send(formatEvent(event));
+      };
+      state.listeners.add(listener);
+      // Los comentarios mantienen abierta la conexión a través de proxies que cortan las inactivas
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+      const expiry = setTimeout(() => {
+        cleanup();
+        controller.close();
+      }, MAX_STREAM_DURATION_MS);
+
+      cleanup = () => {
+        closed = true;
+        state.listeners.delete(listener);
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+      };
+      request.signal?.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+};
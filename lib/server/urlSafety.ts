@@ -0,0 +1,161 @@
+import { lookup } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { isIPv4, LookupFunction } from 'node:net';
+import type { AuthUser } from '@/lib/server/auth';
+import {
+  createUrlVerdict,
+  getUrlHost,
+  isHttpUrl,
+  isIpLiteral,
+  MAX_URL_REDIRECTS,
+  normalizeDomain,
+  UrlBlocklist,
+  UrlVerdict,
+} from '@/lib/urlSafety';
+
+// Comprobación de enlaces en el servidor: sigue sus redirecciones (acortadores) y los analiza con la
+// lista de bloqueo. La lista inicial se lee de la variable de entorno URL_BLOCKLIST (dominios separados
+// por comas) y solo la pueden sustituir los usuarios de URL_BLOCKLIST_ADMINS. Vive en memoria y se
+// comparte entre rutas a través de globalThis
+
+const REDIRECT_TIMEOUT_MS = 4 * 1000;
+
+const readEnvList = (name: string): string[] => {
+  const value: string = process.env[name] ?? '';
+  return value.split(',').map(item => item.trim()).filter(item => item !== '');
+};
+
+const createInitialBlocklist = (): UrlBlocklist => {
+  const domains = readEnvList('URL_BLOCKLIST').map(normalizeDomain).filter((domain): domain is string => !!domain);
+  return domains.length > 0
+    ? { version: 1, domains: [...new Set(domains)].sort(), updated_at: Date.now() }
+    : { version: 0, domains: [], updated_at: null };
+};
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerUrlSafetyState?: { blocklist: UrlBlocklist } };
+const state = (globalStore.__qrScannerUrlSafetyState ??= { blocklist: createInitialBlocklist() });
+
+/**
+ * Lista de bloqueo actual.
+ */
+export const getUrlBlocklist = (): UrlBlocklist => state.blocklist;
+
+/**
+ * Indica si el usuario puede sustituir la lista de bloqueo (está en URL_BLOCKLIST_ADMINS).
+ */
+export const canEditUrlBlocklist = (user: AuthUser): boolean =>
+  readEnvList('URL_BLOCKLIST_ADMINS').map(name => name.toLowerCase()).includes(user.username);
+
+/**
+ * Sustituye la lista de bloqueo y aumenta su versión para que las apps descarguen la nueva.
+ * @param domains Dominios ya normalizados
+ */
+export const replaceUrlBlocklist = (domains: string[]): UrlBlocklist => {
+  state.blocklist = {
+    version: state.blocklist.version + 1,
+    domains: [...new Set(domains)].sort(),
+    updated_at: Date.now(),
+  };
+  return state.blocklist;
+};
+
+// El servidor no hace peticiones a IPs ni a nombres de red local: un código QR no debe servir para
+// explorar la red interna en la que se ejecuta
+const isPrivateHost = (host: string): boolean =>
+  isIpLiteral(host)
+  || !host.includes('.')
+  || ['.localhost', '.local', '.internal', '.lan'].some(suffix => host.endsWith(suffix));
+
+// Direcciones a las que el servidor no se conecta: sin especificar, loopback, redes privadas (RFC 1918 y
+// CGNAT), enlace local, multidifusión y reservadas; en IPv6 además las locales únicas (fc00::/7), las de
+// enlace local (fe80::/10) y las que empiezan por :: (IPv4 mapeadas o compatibles) o 64:ff9b:: (NAT64)
+const isPrivateAddress = (address: string): boolean => {
+  if (isIPv4(address)) {
+    const [a, b, c] = address.split('.').map(Number);
+    return a === 0
+      || a === 10
+      || a === 127
+      || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 192 && b === 0 && c === 0)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+  const lower = address.toLowerCase();
+  return lower.startsWith('::') || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith('ff')
+    || lower.startsWith('64:ff9b:');
+};
+
+// Resuelve el host y falla si alguna de sus direcciones es privada. http y https la usan para conectarse,
+// así que se conectan a la misma dirección que se comprueba y una respuesta DNS distinta entre la
+// comprobación y la conexión (DNS rebinding) no sirve para llegar a la red interna
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    const blocked = addresses.find(item => isPrivateAddress(item.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`${hostname} apunta a una dirección privada (${blocked?.address ?? 'ninguna'})`), []);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// HEAD sin seguir redirecciones ni leer el cuerpo; algunos sitios no lo admiten y se repite con GET
+const requestWithoutRedirect = async (url: string): Promise<{ status: number; location: string | null }> => {
+  const send = (method: 'HEAD' | 'GET') =>
+    new Promise<{ status: number; location: string | null }>((resolve, reject) => {
+      const target = new URL(url);
+      const request = (target.protocol === 'https:' ? https : http).request(
+        target,
+        { method, lookup: lookupPublicAddress, signal: AbortSignal.timeout(REDIRECT_TIMEOUT_MS) },
+        response => {
+          response.destroy();
+          resolve({ status: response.statusCode ?? 0, location: response.headers.location ?? null });
+        }
+      );
+      request.on('error', reject);
+      request.end();
+    });
+
+  const response = await send('HEAD');
+  if (response.status !== 405 && response.status !== 501) return response;
+  return send('GET');
+};
+
+/**
+ * Sigue las redirecciones de un enlace sin descargar su contenido.
+ * @returns Los enlaces por los que pasa y si se llegó al destino final (false si se detuvo antes
+ * por un error, un host o una dirección privada o demasiadas redirecciones)
+ */
+export const resolveRedirects = async (url: string): Promise<{ redirects: string[]; resolved: boolean }> => {
+  const redirects: string[] = [];
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_URL_REDIRECTS; hop++) {
+    const host = getUrlHost(current);
+    if (!host || !isHttpUrl(current) || isPrivateHost(host)) return { redirects, resolved: false };
+
+    try {
+      const { status, location } = await requestWithoutRedirect(current);
+      if (status < 300 || status >= 400 || !location) return { redirects, resolved: true };
+      current = new URL(location, current).toString();
+    } catch (error) {
+      console.warn('No se pudo seguir el enlace:', current, error);
+      return { redirects, resolved: false };
+    }
+    redirects.push(current);
+  }
+  return { redirects, resolved: false };
+};
+
+/**
+ * Veredicto de un enlace: sigue sus redirecciones y analiza cada salto con la lista de bloqueo.
+ */
+export const checkUrlSafety = async (url: string): Promise<UrlVerdict> => {
+  const { redirects, resolved } = await resolveRedirects(url);
+  return createUrlVerdict(url, redirects, resolved, getUrlBlocklist().domains);
+};
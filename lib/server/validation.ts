@@ -0,0 +1,1002 @@
+import {
+  DEFAULT_SCAN_STATUS,
+  isScanStatus,
+  MAX_NOTES_LENGTH,
+  MAX_TAG_LENGTH,
+  MAX_TAGS,
+  normalizeNotes,
+  normalizeTags,
+  SCAN_STATUSES,
+  ScanAnnotationChanges,
+  ScanStatus,
+} from '@/lib/annotations';
+import { normalizeBarcodeType } from '@/lib/barcode';
+import { EXPORT_FORMATS, ExportFormat, isExportFormat } from '@/lib/export';
+import { isPayloadType, PAYLOAD_TYPES } from '@/lib/payload';
+import {
+  getRuleErrors,
+  MAX_RULES,
+  RULE_ACTION_TYPES,
+  RULE_FEEDBACKS,
+  RULE_MATCH_TYPES,
+  RuleAction,
+  RuleFeedback,
+  RuleMatchType,
+  ScanRule,
+} from '@/lib/rules';
+import { SCAN_EVENT_TYPES, ScanEventType } from '@/lib/scanEvents';
+import {
+  getUrlSafetyLevel,
+  isHttpUrl,
+  isUrlRisk,
+  MAX_URL_LENGTH,
+  MAX_URL_REDIRECTS,
+  normalizeDomain,
+  UrlVerdict,
+} from '@/lib/urlSafety';
+import type { ScanQuery, ScanRecord, ScanSession } from '@/lib/scanStore';
+import { MAX_WEBHOOK_DESCRIPTION_LENGTH } from '@/lib/webhooks';
+import { isWorkspaceRole, MAX_WORKSPACE_NAME_LENGTH, WORKSPACE_ROLES, WorkspaceRole } from '@/lib/workspaces';
+import { MAX_POLYGON_POINTS, MAX_ZONE_RADIUS_METERS, MIN_POLYGON_POINTS, Zone, ZoneShape } from '@/lib/zones';
+
+export type ScanInput = Omit<ScanRecord, 'id' | 'created_at'>;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+// Lo máximo que cabe en un código QR (solo dígitos); también acota el coste de evaluar las reglas
+const MAX_QR_DATA_LENGTH = 7089;
+const MAX_BARCODE_TYPE_LENGTH = 32;
+const MAX_SESSION_NAME_LENGTH = 100;
+const MAX_ZONE_NAME_LENGTH = 100;
+
+// Los IDs de sesiones y zonas los genera el cliente (UUID)
+export const isValidClientId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9-]{1,64}$/.test(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Campo numérico opcional: acepta número, null o ausencia (se guarda como null)
+const readOptionalNumber = (
+  body: Record<string, unknown>,
+  field: string,
+  errors: string[],
+  range?: [number, number]
+): number | null => {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  if (!isFiniteNumber(value)) {
+    errors.push(`${field} debe ser un número o null`);
+    return null;
+  }
+  if (range && (value < range[0] || value > range[1])) {
+    errors.push(`${field} debe estar entre ${range[0]} y ${range[1]}`);
+  }
+  return value;
+};
+
+const readNotes = (value: unknown, errors: string[]): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || value.length > MAX_NOTES_LENGTH) {
+    errors.push(`notes debe ser un texto de hasta ${MAX_NOTES_LENGTH} caracteres o null`);
+    return null;
+  }
+  return normalizeNotes(value);
+};
+
+const readTags = (value: unknown, errors: string[]): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string' && tag.length <= MAX_TAG_LENGTH)) {
+    errors.push(`tags debe ser una lista de textos de hasta ${MAX_TAG_LENGTH} caracteres`);
+    return [];
+  }
+  const tags = normalizeTags(value);
+  if (tags.length > MAX_TAGS) {
+    errors.push(`Se admiten como máximo ${MAX_TAGS} etiquetas por escaneo`);
+  }
+  return tags;
+};
+
+const readStatus = (value: unknown, errors: string[]): ScanStatus | null => {
+  if (isScanStatus(value)) return value;
+  errors.push(`status debe ser uno de: ${SCAN_STATUSES.join(', ')}`);
+  return null;
+};
+
+const isUrlText = (value: unknown): value is string =>
+  typeof value === 'string' && value !== '' && value.length <= MAX_URL_LENGTH;
+
+// Veredicto de seguridad de un enlace. El nivel se recalcula a partir de los riesgos
+const readUrlVerdict = (value: unknown, errors: string[]): UrlVerdict | null => {
+  if (value === undefined || value === null) return null;
+  const verdict = value as Record<string, unknown>;
+  const valid = typeof value === 'object'
+    && isUrlText(verdict.url)
+    && isUrlText(verdict.final_url)
+    && Array.isArray(verdict.redirects)
+    && verdict.redirects.length <= MAX_URL_REDIRECTS + 1
+    && verdict.redirects.every(isUrlText)
+    && typeof verdict.resolved === 'boolean'
+    && Array.isArray(verdict.risks)
+    && verdict.risks.every(isUrlRisk)
+    && isFiniteNumber(verdict.checked_at);
+  if (!valid) {
+    errors.push('url_verdict debe ser un veredicto de seguridad de enlace válido o null');
+    return null;
+  }
+  const risks = [...new Set(verdict.risks as UrlVerdict['risks'])];
+  return {
+    url: verdict.url as string,
+    final_url: verdict.final_url as string,
+    redirects: verdict.redirects as string[],
+    resolved: verdict.resolved as boolean,
+    risks,
+    level: getUrlSafetyLevel(risks),
+    checked_at: verdict.checked_at as number,
+  };
+};
+
+// workspace_id opcional de un escaneo, una sesión o una zona (null: personal)
+const readWorkspaceId = (data: Record<string, unknown>, errors: string[]): string | null => {
+  const workspaceId = data.workspace_id ?? null;
+  if (workspaceId !== null && !isValidClientId(workspaceId)) {
+    errors.push('workspace_id debe ser un identificador de espacio de trabajo válido o null');
+    return null;
+  }
+  return workspaceId;
+};
+
+/**
+ * Valida el cuerpo de un POST /scans y lo normaliza al formato de ScanRecord.
+ */
+export const validateScanInput = (body: unknown): ValidationResult<ScanInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof data.qr_data !== 'string' || data.qr_data.trim() === '') {
+    errors.push('qr_data es obligatorio y debe ser un texto no vacío');
+  } else if (data.qr_data.length > MAX_QR_DATA_LENGTH) {
+    errors.push(`qr_data no puede superar ${MAX_QR_DATA_LENGTH} caracteres`);
+  }
+
+  if (!isFiniteNumber(data.timestamp) || data.timestamp < 0) {
+    errors.push('timestamp es obligatorio y debe ser un número positivo');
+  }
+
+  const latitude = readOptionalNumber(data, 'latitude', errors, [-90, 90]);
+  const longitude = readOptionalNumber(data, 'longitude', errors, [-180, 180]);
+  const altitude = readOptionalNumber(data, 'altitude', errors);
+  const accuracy = readOptionalNumber(data, 'accuracy', errors, [0, Number.MAX_VALUE]);
+
+  // Los clientes anteriores a admitir otras simbologías no envían el tipo: eran códigos QR
+  let barcodeType = 'qr';
+  if (data.barcode_type !== undefined && data.barcode_type !== null) {
+    const value = data.barcode_type;
+    if (typeof value !== 'string' || value.trim() === '' || value.length > MAX_BARCODE_TYPE_LENGTH) {
+      errors.push(`barcode_type debe ser un texto de 1 a ${MAX_BARCODE_TYPE_LENGTH} caracteres`);
+    } else {
+      barcodeType = normalizeBarcodeType(value);
+    }
+  }
+
+  // Lecturas repetidas acumuladas en el dispositivo antes de sincronizar
+  const scanCount = readOptionalNumber(data, 'scan_count', errors, [1, Number.MAX_SAFE_INTEGER]);
+  if (scanCount !== null && !Number.isInteger(scanCount)) {
+    errors.push('scan_count debe ser un entero');
+  }
+  const lastSeenAt = readOptionalNumber(data, 'last_seen_at', errors, [0, Number.MAX_SAFE_INTEGER]);
+  if (lastSeenAt !== null && isFiniteNumber(data.timestamp) && lastSeenAt < data.timestamp) {
+    errors.push('last_seen_at no puede ser anterior a timestamp');
+  }
+
+  const sessionId = data.session_id ?? null;
+  if (sessionId !== null && !isValidClientId(sessionId)) {
+    errors.push('session_id debe ser un identificador de sesión válido o null');
+  }
+
+  const zoneId = data.zone_id ?? null;
+  if (zoneId !== null && !isValidClientId(zoneId)) {
+    errors.push('zone_id debe ser un identificador de zona válido o null');
+  }
+
+  // La ruta comprueba después que el usuario puede añadir escaneos a ese espacio de trabajo
+  const workspaceId = readWorkspaceId(data, errors);
+
+  // Notas, etiquetas y estado: los envían las copias locales editadas sin conexión y las importaciones
+  const notes = readNotes(data.notes, errors);
+  const tags = readTags(data.tags, errors);
+  const status = data.status === undefined || data.status === null ? DEFAULT_SCAN_STATUS : readStatus(data.status, errors);
+  const urlVerdict = readUrlVerdict(data.url_verdict, errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      qr_data: data.qr_data as string,
+      latitude,
+      longitude,
+      altitude,
+      accuracy,
+      timestamp: data.timestamp as number,
+      barcode_type: barcodeType,
+      scan_count: scanCount ?? 1,
+      last_seen_at: lastSeenAt ?? (data.timestamp as number),
+      session_id: sessionId as string | null,
+      zone_id: zoneId as string | null,
+      workspace_id: workspaceId,
+      notes,
+      tags,
+      status: status ?? DEFAULT_SCAN_STATUS,
+      url_verdict: urlVerdict,
+    },
+  };
+};
+
+const EDITABLE_FIELDS = ['notes', 'tags', 'status', 'url_verdict'];
+
+/**
+ * Valida el cuerpo de un PATCH /scans/:id. Solo se pueden cambiar notes, tags, status y url_verdict;
+ * los campos ausentes se conservan y notes: null borra las notas.
+ */
+export const validateScanPatch = (body: unknown): ValidationResult<ScanAnnotationChanges> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const unknownFields = Object.keys(data).filter(field => !EDITABLE_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    errors.push(`Solo se pueden modificar ${EDITABLE_FIELDS.join(', ')} (recibido: ${unknownFields.join(', ')})`);
+  }
+  if (!EDITABLE_FIELDS.some(field => field in data)) {
+    errors.push(`Indica al menos uno de: ${EDITABLE_FIELDS.join(', ')}`);
+  }
+
+  const changes: ScanAnnotationChanges = {};
+  if ('notes' in data) changes.notes = readNotes(data.notes, errors);
+  if ('tags' in data) changes.tags = readTags(data.tags, errors);
+  if ('status' in data) {
+    const status = readStatus(data.status, errors);
+    if (status) changes.status = status;
+  }
+  if ('url_verdict' in data) changes.url_verdict = readUrlVerdict(data.url_verdict, errors);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: changes };
+};
+
+export interface SightingInput {
+  timestamp: number;
+  count: number;
+}
+
+/**
+ * Valida el cuerpo de un POST /scans/:id/sightings (nuevas lecturas de un escaneo existente).
+ */
+export const validateSightingInput = (body: unknown): ValidationResult<SightingInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isFiniteNumber(data.timestamp) || data.timestamp < 0) {
+    errors.push('timestamp es obligatorio y debe ser un número positivo');
+  }
+
+  const count = readOptionalNumber(data, 'count', errors, [1, Number.MAX_SAFE_INTEGER]);
+  if (count !== null && !Number.isInteger(count)) {
+    errors.push('count debe ser un entero');
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: { timestamp: data.timestamp as number, count: count ?? 1 } };
+};
+
+export type SessionInput = Pick<ScanSession, 'name' | 'started_at' | 'ended_at'> & { workspace_id: string | null };
+
+/**
+ * Valida el cuerpo de un PUT /sessions/:id. workspace_id solo cuenta al crear la sesión.
+ */
+export const validateSessionInput = (body: unknown): ValidationResult<SessionInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (name === '' || name.length > MAX_SESSION_NAME_LENGTH) {
+    errors.push(`name es obligatorio y debe tener entre 1 y ${MAX_SESSION_NAME_LENGTH} caracteres`);
+  }
+
+  if (!isFiniteNumber(data.started_at) || data.started_at < 0) {
+    errors.push('started_at es obligatorio y debe ser un número positivo');
+  }
+
+  const endedAt = readOptionalNumber(data, 'ended_at', errors, [0, Number.MAX_SAFE_INTEGER]);
+  if (endedAt !== null && isFiniteNumber(data.started_at) && endedAt < data.started_at) {
+    errors.push('ended_at no puede ser anterior a started_at');
+  }
+
+  const workspaceId = readWorkspaceId(data, errors);
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : {
+      ok: true,
+      value: { name, started_at: data.started_at as number, ended_at: endedAt, workspace_id: workspaceId },
+    };
+};
+
+export type ZoneInput = Pick<Zone, 'name' | 'shape' | 'created_at'> & { workspace_id: string | null };
+
+const isCoordinates = (value: unknown): value is { latitude: number; longitude: number } => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(latitude) && latitude >= -90 && latitude <= 90 &&
+    isFiniteNumber(longitude) && longitude >= -180 && longitude <= 180
+  );
+};
+
+const readZoneShape = (value: unknown, errors: string[]): ZoneShape | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push('shape es obligatorio y debe ser un objeto');
+    return null;
+  }
+
+  const shape = value as Record<string, unknown>;
+  if (shape.type === 'circle') {
+    const center = shape.center;
+    const valid = isCoordinates(center);
+    if (!valid) {
+      errors.push('shape.center debe tener latitude (-90 a 90) y longitude (-180 a 180)');
+    }
+    if (!isFiniteNumber(shape.radius) || shape.radius <= 0 || shape.radius > MAX_ZONE_RADIUS_METERS) {
+      errors.push(`shape.radius debe ser un número de metros mayor que 0 y hasta ${MAX_ZONE_RADIUS_METERS}`);
+      return null;
+    }
+    return valid
+      ? { type: 'circle', center: { latitude: center.latitude, longitude: center.longitude }, radius: shape.radius }
+      : null;
+  }
+
+  if (shape.type === 'polygon') {
+    const points = shape.points;
+    if (!Array.isArray(points) || points.length < MIN_POLYGON_POINTS || points.length > MAX_POLYGON_POINTS) {
+      errors.push(`shape.points debe ser una lista de ${MIN_POLYGON_POINTS} a ${MAX_POLYGON_POINTS} vértices`);
+      return null;
+    }
+    if (!points.every(isCoordinates)) {
+      errors.push('Cada vértice de shape.points debe tener latitude (-90 a 90) y longitude (-180 a 180)');
+      return null;
+    }
+    return { type: 'polygon', points: points.map(({ latitude, longitude }) => ({ latitude, longitude })) };
+  }
+
+  errors.push('shape.type debe ser circle o polygon');
+  return null;
+};
+
+/**
+ * Valida el cuerpo de un PUT /zones/:id. workspace_id solo cuenta al crear la zona.
+ */
+export const validateZoneInput = (body: unknown): ValidationResult<ZoneInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (name === '' || name.length > MAX_ZONE_NAME_LENGTH) {
+    errors.push(`name es obligatorio y debe tener entre 1 y ${MAX_ZONE_NAME_LENGTH} caracteres`);
+  }
+
+  const shape = readZoneShape(data.shape, errors);
+
+  if (!isFiniteNumber(data.created_at) || data.created_at < 0) {
+    errors.push('created_at es obligatorio y debe ser un número positivo');
+  }
+
+  const workspaceId = readWorkspaceId(data, errors);
+
+  return errors.length > 0 || !shape
+    ? { ok: false, errors }
+    : { ok: true, value: { name, shape, created_at: data.created_at as number, workspace_id: workspaceId } };
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Acepta marcas de tiempo en milisegundos o fechas ISO 8601
+const parseTimestampParam = (value: string): number | null => {
+  if (/^\d+$/.test(value)) return Number(value);
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const parseIntegerParam = (value: string): number | null =>
+  /^\d+$/.test(value) ? Number(value) : null;
+
+/**
+ * Interpreta los parámetros de GET /scans:
+ * limit, offset, from, to, q (búsqueda en qr_data), has_location (true | false),
+ * type (tipo de contenido), session_id, zone_id, workspace_id, tag (se puede repetir; deben estar todas),
+ * status (estado de revisión), group_by (qr_data), sort (timestamp | qr_data) y order (asc | desc).
+ */
+export const parseScanQuery = (params: URLSearchParams): ValidationResult<ScanQuery> => {
+  const errors: string[] = [];
+  const query: ScanQuery = { limit: DEFAULT_PAGE_SIZE, offset: 0 };
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const value = parseIntegerParam(limit);
+    if (value === null || value < 1 || value > MAX_PAGE_SIZE) {
+      errors.push(`limit debe ser un entero entre 1 y ${MAX_PAGE_SIZE}`);
+    } else {
+      query.limit = value;
+    }
+  }
+
+  const offset = params.get('offset');
+  if (offset !== null) {
+    const value = parseIntegerParam(offset);
+    if (value === null) {
+      errors.push('offset debe ser un entero mayor o igual que 0');
+    } else {
+      query.offset = value;
+    }
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    const raw = params.get(field);
+    if (raw === null || raw === '') continue;
+    const value = parseTimestampParam(raw);
+    if (value === null) {
+      errors.push(`${field} debe ser una marca de tiempo en milisegundos o una fecha ISO`);
+    } else {
+      query[field] = value;
+    }
+  }
+  if (query.from !== undefined && query.to !== undefined && query.from > query.to) {
+    errors.push('from no puede ser posterior a to');
+  }
+
+  const search = params.get('q')?.trim();
+  if (search) {
+    query.search = search;
+  }
+
+  const hasLocation = params.get('has_location');
+  if (hasLocation !== null) {
+    if (hasLocation === 'true' || hasLocation === 'false') {
+      query.hasLocation = hasLocation === 'true';
+    } else {
+      errors.push('has_location debe ser true o false');
+    }
+  }
+
+  const type = params.get('type');
+  if (type !== null) {
+    if (isPayloadType(type)) {
+      query.payloadType = type;
+    } else {
+      errors.push(`type debe ser uno de: ${PAYLOAD_TYPES.join(', ')}`);
+    }
+  }
+
+  const sessionId = params.get('session_id');
+  if (sessionId !== null) {
+    if (isValidClientId(sessionId)) {
+      query.sessionId = sessionId;
+    } else {
+      errors.push('session_id no es un identificador de sesión válido');
+    }
+  }
+
+  const zoneId = params.get('zone_id');
+  if (zoneId !== null) {
+    if (isValidClientId(zoneId)) {
+      query.zoneId = zoneId;
+    } else {
+      errors.push('zone_id no es un identificador de zona válido');
+    }
+  }
+
+  const workspaceId = params.get('workspace_id');
+  if (workspaceId !== null) {
+    if (isValidClientId(workspaceId)) {
+      query.workspaceId = workspaceId;
+    } else {
+      errors.push('workspace_id no es un identificador de espacio de trabajo válido');
+    }
+  }
+
+  const tags = params.getAll('tag');
+  if (tags.length > 0) {
+    if (tags.some(tag => tag.trim() === '' || tag.length > MAX_TAG_LENGTH)) {
+      errors.push(`tag debe ser un texto de 1 a ${MAX_TAG_LENGTH} caracteres`);
+    } else {
+      query.tags = normalizeTags(tags);
+    }
+  }
+
+  const status = params.get('status');
+  if (status !== null) {
+    if (isScanStatus(status)) {
+      query.status = status;
+    } else {
+      errors.push(`status debe ser uno de: ${SCAN_STATUSES.join(', ')}`);
+    }
+  }
+
+  const groupBy = params.get('group_by');
+  if (groupBy !== null) {
+    if (groupBy === 'qr_data') {
+      query.groupByData = true;
+    } else {
+      errors.push('group_by solo admite qr_data');
+    }
+  }
+
+  const sort = params.get('sort');
+  if (sort !== null) {
+    if (sort === 'timestamp' || sort === 'qr_data') {
+      query.sort = sort;
+    } else {
+      errors.push('sort debe ser timestamp o qr_data');
+    }
+  }
+
+  const order = params.get('order');
+  if (order !== null) {
+    if (order === 'asc' || order === 'desc') {
+      query.order = order;
+    } else {
+      errors.push('order debe ser asc o desc');
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: query };
+};
+
+export interface ExportQuery {
+  format: ExportFormat;
+  query: ScanQuery;
+}
+
+/**
+ * Interpreta los parámetros de GET /scans/export: format (csv | json | geojson, por defecto csv)
+ * y los mismos filtros que GET /scans. Sin limit se exportan todos los escaneos que cumplen los filtros.
+ */
+export const parseExportQuery = (params: URLSearchParams): ValidationResult<ExportQuery> => {
+  const result = parseScanQuery(params);
+  const errors = result.ok ? [] : [...result.errors];
+
+  const format = params.get('format') ?? 'csv';
+  if (!isExportFormat(format)) {
+    errors.push(`format debe ser uno de: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  if (!result.ok || errors.length > 0 || !isExportFormat(format)) {
+    return { ok: false, errors };
+  }
+
+  const query = { ...result.value };
+  if (!params.has('limit')) {
+    delete query.limit;
+  }
+  return { ok: true, value: { format, query } };
+};
+
+export const MAX_BULK_SIZE = 500;
+
+/**
+ * Valida el cuerpo de un POST /scans/bulk: una lista de escaneos o { scans: [...] }.
+ * Cada elemento se valida después por separado con validateScanInput.
+ */
+export const validateBulkScanInput = (body: unknown): ValidationResult<unknown[]> => {
+  const items = Array.isArray(body)
+    ? body
+    : typeof body === 'object' && body !== null && Array.isArray((body as Record<string, unknown>).scans)
+      ? (body as Record<string, unknown[]>).scans
+      : null;
+
+  if (!items) {
+    return { ok: false, errors: ['El cuerpo debe ser una lista de escaneos o un objeto { scans: [...] }'] };
+  }
+  if (items.length === 0 || items.length > MAX_BULK_SIZE) {
+    return { ok: false, errors: [`Se admiten entre 1 y ${MAX_BULK_SIZE} escaneos por petición`] };
+  }
+  return { ok: true, value: items };
+};
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,40}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+export interface CredentialsInput {
+  username: string;
+  password: string;
+}
+
+/**
+ * Valida el cuerpo de un POST /auth/login o /auth/register. El nombre de usuario se pasa a minúsculas.
+ */
+export const validateCredentials = (body: unknown): ValidationResult<CredentialsInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const username = typeof data.username === 'string' ? data.username.trim().toLowerCase() : '';
+  if (!USERNAME_PATTERN.test(username)) {
+    errors.push('username debe tener entre 3 y 40 caracteres: letras, números, punto, guion o guion bajo');
+  }
+
+  const password = typeof data.password === 'string' ? data.password : '';
+  if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    errors.push(`password debe tener entre ${MIN_PASSWORD_LENGTH} y ${MAX_PASSWORD_LENGTH} caracteres`);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { username, password } };
+};
+
+/**
+ * Valida el cuerpo de un POST /workspaces: { name }.
+ */
+export const validateWorkspaceInput = (body: unknown): ValidationResult<{ name: string }> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (name === '' || name.length > MAX_WORKSPACE_NAME_LENGTH) {
+    return { ok: false, errors: [`name es obligatorio y debe tener entre 1 y ${MAX_WORKSPACE_NAME_LENGTH} caracteres`] };
+  }
+  return { ok: true, value: { name } };
+};
+
+const readRole = (value: unknown, errors: string[]): WorkspaceRole | null => {
+  if (isWorkspaceRole(value)) return value;
+  errors.push(`role debe ser uno de: ${WORKSPACE_ROLES.join(', ')}`);
+  return null;
+};
+
+export interface MemberInput {
+  username: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * Valida el cuerpo de un POST /workspaces/:id/members: { username, role }.
+ */
+export const validateMemberInput = (body: unknown): ValidationResult<MemberInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const username = typeof data.username === 'string' ? data.username.trim().toLowerCase() : '';
+  if (!USERNAME_PATTERN.test(username)) {
+    errors.push('username no es un nombre de usuario válido');
+  }
+  const role = readRole(data.role, errors);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { username, role: role! } };
+};
+
+/**
+ * Valida el cuerpo de un PATCH /workspaces/:id/members/:userId: { role }.
+ */
+export const validateMemberRoleInput = (body: unknown): ValidationResult<{ role: WorkspaceRole }> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const errors: string[] = [];
+  const role = readRole((body as Record<string, unknown>).role, errors);
+  return role ? { ok: true, value: { role } } : { ok: false, errors };
+};
+
+/**
+ * Valida el cuerpo de un POST /url-safety/check: { url } con un enlace http o https.
+ */
+export const validateUrlCheckInput = (body: unknown): ValidationResult<{ url: string }> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const url = (body as Record<string, unknown>).url;
+  if (!isUrlText(url) || !isHttpUrl(url)) {
+    return { ok: false, errors: [`url debe ser un enlace http o https de hasta ${MAX_URL_LENGTH} caracteres`] };
+  }
+  return { ok: true, value: { url: url.trim() } };
+};
+
+export const MAX_BLOCKLIST_SIZE = 10000;
+
+/**
+ * Valida el cuerpo de un PUT /url-safety/blocklist: { domains } con los dominios normalizados.
+ */
+export const validateUrlBlocklistInput = (body: unknown): ValidationResult<{ domains: string[] }> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const domains = (body as Record<string, unknown>).domains;
+  if (!Array.isArray(domains) || domains.length > MAX_BLOCKLIST_SIZE) {
+    return { ok: false, errors: [`domains debe ser una lista de hasta ${MAX_BLOCKLIST_SIZE} dominios`] };
+  }
+
+  const errors: string[] = [];
+  const normalized: string[] = [];
+  domains.forEach((domain, index) => {
+    const value = typeof domain === 'string' ? normalizeDomain(domain) : null;
+    if (value) {
+      normalized.push(value);
+    } else {
+      errors.push(`domains[${index}] no es un dominio válido`);
+    }
+  });
+  // Con listas largas basta con los primeros errores
+  return errors.length > 0 ? { ok: false, errors: errors.slice(0, 20) } : { ok: true, value: { domains: normalized } };
+};
+
+export interface WebhookInput {
+  url: string;
+  events: ScanEventType[];
+  description: string | null;
+  active: boolean;
+  workspace_id: string | null;
+}
+
+export type WebhookPatch = Partial<Pick<WebhookInput, 'url' | 'events' | 'description' | 'active'>> & {
+  rotate_secret?: boolean;
+};
+
+const readWebhookUrl = (value: unknown, errors: string[]): string => {
+  if (isUrlText(value) && isHttpUrl(value)) return value.trim();
+  errors.push(`url debe ser un enlace http o https de hasta ${MAX_URL_LENGTH} caracteres`);
+  return '';
+};
+
+const readWebhookEvents = (value: unknown, errors: string[]): ScanEventType[] => {
+  const isEventList = Array.isArray(value) && value.length > 0
+    && value.every(event => (SCAN_EVENT_TYPES as readonly unknown[]).includes(event));
+  if (isEventList) return [...new Set(value as ScanEventType[])];
+  errors.push(`events debe ser una lista no vacía con: ${SCAN_EVENT_TYPES.join(', ')}`);
+  return [];
+};
+
+const readWebhookDescription = (value: unknown, errors: string[]): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' && value.trim().length <= MAX_WEBHOOK_DESCRIPTION_LENGTH) {
+    return value.trim() || null;
+  }
+  errors.push(`description debe ser un texto de hasta ${MAX_WEBHOOK_DESCRIPTION_LENGTH} caracteres`);
+  return null;
+};
+
+const readActive = (value: unknown, errors: string[]): boolean => {
+  if (typeof value === 'boolean') return value;
+  errors.push('active debe ser true o false');
+  return false;
+};
+
+/**
+ * Valida el cuerpo de un POST /webhooks: { url, events?, description?, active?, workspace_id? }.
+ * Sin events se envían todos los tipos de evento.
+ */
+export const validateWebhookInput = (body: unknown): ValidationResult<WebhookInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const url = readWebhookUrl(data.url, errors);
+  const events = data.events === undefined ? [...SCAN_EVENT_TYPES] : readWebhookEvents(data.events, errors);
+  const description = readWebhookDescription(data.description, errors);
+  const active = data.active === undefined ? true : readActive(data.active, errors);
+  let workspaceId: string | null = null;
+  if (data.workspace_id !== undefined && data.workspace_id !== null) {
+    if (isValidClientId(data.workspace_id)) {
+      workspaceId = data.workspace_id;
+    } else {
+      errors.push('workspace_id no es un identificador de espacio de trabajo válido');
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { url, events, description, active, workspace_id: workspaceId } };
+};
+
+const WEBHOOK_EDITABLE_FIELDS = ['url', 'events', 'description', 'active', 'rotate_secret'];
+
+/**
+ * Valida el cuerpo de un PATCH /webhooks/:id. El ámbito (workspace_id) no se puede cambiar.
+ */
+export const validateWebhookPatch = (body: unknown): ValidationResult<WebhookPatch> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const unknownFields = Object.keys(data).filter(field => !WEBHOOK_EDITABLE_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    errors.push(`Solo se pueden modificar ${WEBHOOK_EDITABLE_FIELDS.join(', ')} (recibido: ${unknownFields.join(', ')})`);
+  }
+  if (!WEBHOOK_EDITABLE_FIELDS.some(field => field in data)) {
+    errors.push(`Indica al menos uno de: ${WEBHOOK_EDITABLE_FIELDS.join(', ')}`);
+  }
+
+  const changes: WebhookPatch = {};
+  if ('url' in data) changes.url = readWebhookUrl(data.url, errors);
+  if ('events' in data) changes.events = readWebhookEvents(data.events, errors);
+  if ('description' in data) changes.description = readWebhookDescription(data.description, errors);
+  if ('active' in data) changes.active = readActive(data.active, errors);
+  if ('rotate_secret' in data) {
+    if (typeof data.rotate_secret === 'boolean') {
+      changes.rotate_secret = data.rotate_secret;
+    } else {
+      errors.push('rotate_secret debe ser true o false');
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: changes };
+};
+
+export interface RulesInput {
+  rules: ScanRule[];
+  workspace_id: string | null;
+}
+
+const readRuleAction = (value: unknown, path: string, errors: string[]): RuleAction | null => {
+  const action = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  switch (action.type) {
+    case 'tag':
+      if (typeof action.tag === 'string') return { type: 'tag', tag: action.tag };
+      errors.push(`${path}.tag debe ser un texto`);
+      return null;
+    case 'set_status': {
+      const status = readStatus(action.status, errors);
+      return status && { type: 'set_status', status };
+    }
+    case 'open_url':
+      return { type: 'open_url' };
+    case 'feedback':
+      if (RULE_FEEDBACKS.includes(action.feedback as RuleFeedback)) {
+        return { type: 'feedback', feedback: action.feedback as RuleFeedback };
+      }
+      errors.push(`${path}.feedback debe ser uno de: ${RULE_FEEDBACKS.join(', ')}`);
+      return null;
+    case 'webhook':
+      if (typeof action.webhook_id === 'string') return { type: 'webhook', webhook_id: action.webhook_id };
+      errors.push(`${path}.webhook_id debe ser un texto`);
+      return null;
+    case 'reject':
+      if (action.message === undefined || action.message === null) return { type: 'reject', message: null };
+      if (typeof action.message === 'string') return { type: 'reject', message: action.message.trim() || null };
+      errors.push(`${path}.message debe ser un texto o null`);
+      return null;
+    default:
+      errors.push(`${path}.type debe ser uno de: ${RULE_ACTION_TYPES.join(', ')}`);
+      return null;
+  }
+};
+
+const readRule = (value: unknown, path: string, errors: string[]): ScanRule | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path} debe ser un objeto`);
+    return null;
+  }
+  const data = value as Record<string, unknown>;
+  const ruleErrors: string[] = [];
+
+  if (!isValidClientId(data.id)) ruleErrors.push('id debe ser un identificador válido');
+  if (typeof data.name !== 'string') ruleErrors.push('name debe ser un texto');
+  const enabled = data.enabled === undefined ? true : readActive(data.enabled, ruleErrors);
+
+  const condition = (typeof data.condition === 'object' && data.condition !== null ? data.condition : {}) as Record<
+    string,
+    unknown
+  >;
+  if (!RULE_MATCH_TYPES.includes(condition.match as RuleMatchType)) {
+    ruleErrors.push(`condition.match debe ser uno de: ${RULE_MATCH_TYPES.join(', ')}`);
+  }
+  if (typeof condition.value !== 'string') ruleErrors.push('condition.value debe ser un texto');
+  const zoneId = condition.zone_id ?? null;
+  if (zoneId !== null && !isValidClientId(zoneId)) {
+    ruleErrors.push('condition.zone_id debe ser un identificador de zona válido o null');
+  }
+
+  const actions: RuleAction[] = [];
+  if (Array.isArray(data.actions)) {
+    data.actions.forEach((item, index) => {
+      const action = readRuleAction(item, `actions[${index}]`, ruleErrors);
+      if (action) actions.push(action);
+    });
+  } else {
+    ruleErrors.push('actions debe ser una lista');
+  }
+
+  if (ruleErrors.length === 0) {
+    const rule: ScanRule = {
+      id: data.id as string,
+      name: (data.name as string).trim(),
+      enabled,
+      condition: {
+        match: condition.match as RuleMatchType,
+        value: condition.value as string,
+        zone_id: zoneId as string | null,
+      },
+      actions,
+    };
+    ruleErrors.push(...getRuleErrors(rule));
+    if (ruleErrors.length === 0) return rule;
+  }
+  errors.push(...ruleErrors.map(error => `${path}: ${error}`));
+  return null;
+};
+
+/**
+ * Valida el cuerpo de un PUT /rules: { rules, workspace_id? }. La lista sustituye a todas las reglas del
+ * ámbito y se evalúa en ese orden.
+ */
+export const validateRulesInput = (body: unknown): ValidationResult<RulesInput> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: ['El cuerpo debe ser un objeto JSON'] };
+  }
+
+  const data = body as Record<string, unknown>;
+  if (!Array.isArray(data.rules) || data.rules.length > MAX_RULES) {
+    return { ok: false, errors: [`rules debe ser una lista de hasta ${MAX_RULES} reglas`] };
+  }
+
+  const errors: string[] = [];
+  const rules: ScanRule[] = [];
+  data.rules.forEach((item, index) => {
+    const rule = readRule(item, `rules[${index}]`, errors);
+    if (!rule) return;
+    if (rules.some(other => other.id === rule.id)) {
+      errors.push(`rules[${index}]: el id ${rule.id} está repetido`);
+    }
+    rules.push(rule);
+  });
+
+  let workspaceId: string | null = null;
+  if (data.workspace_id !== undefined && data.workspace_id !== null) {
+    if (isValidClientId(data.workspace_id)) {
+      workspaceId = data.workspace_id;
+    } else {
+      errors.push('workspace_id no es un identificador de espacio de trabajo válido');
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { rules, workspace_id: workspaceId } };
+};
@@ -0,0 +1,305 @@
+import type { RuleEvaluation } from '@/lib/rules';
+import type { ScanEvent } from '@/lib/scanEvents';
+import type { ScanRecord } from '@/lib/scanRecord';
+import type { AuthUser } from '@/lib/server/auth';
+import { jsonError } from '@/lib/server/http';
+import type { WebhookInput, WebhookPatch } from '@/lib/server/validation';
+import { getWorkspaceRole } from '@/lib/server/workspaces';
+import {
+  MAX_WEBHOOKS_PER_SCOPE,
+  Webhook,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookPayload,
+  WebhookWithSecret,
+} from '@/lib/webhooks';
+import { canManageWebhooks } from '@/lib/workspaces';
+
+// Webhooks del servidor y su registro de entregas. Cada cambio en un escaneo se envía a los webhooks
+// activos de su ámbito (el espacio de trabajo o los escaneos personales de su dueño); las entregas que
+// fallan (sin respuesta o con una respuesta que no es 2xx) se reintentan con backoff exponencial. Como
+// el resto del estado del servidor, vive en memoria y se comparte entre rutas a través de globalThis
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// Entregas que se conservan por webhook (las más recientes)
+const MAX_LOGGED_DELIVERIES = 100;
+
+interface StoredWebhook extends Webhook {
+  secret: string;
+}
+
+interface WebhookState {
+  webhooks: Map<string, StoredWebhook>;
+  deliveries: Map<string, WebhookDelivery[]>; // Por webhook, de la más reciente a la más antigua
+  retryTimers: Map<string, ReturnType<typeof setTimeout>>; // Por entrega
+}
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerWebhookState?: WebhookState };
+const state: WebhookState = (globalStore.__qrScannerWebhookState ??= {
+  webhooks: new Map(),
+  deliveries: new Map(),
+  retryTimers: new Map(),
+});
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const createSecret = (): string => `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+
+const toWebhook = ({ secret, ...webhook }: StoredWebhook): Webhook => webhook;
+
+const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * Firma de un cuerpo para la cabecera X-Webhook-Signature: HMAC-SHA256 en hexadecimal de "<timestamp>.<cuerpo>".
+ * @param timestamp Segundos unix del envío
+ */
+export const signWebhookBody = async (secret: string, timestamp: number, body: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(new Uint8Array(signature));
+};
+
+const canManage = (webhook: StoredWebhook, user: AuthUser): boolean => {
+  if (!webhook.workspace_id) return webhook.owner_id === user.id;
+  const role = getWorkspaceRole(webhook.workspace_id, user.id);
+  return role !== null && canManageWebhooks(role);
+};
+
+const isInScope = (webhook: StoredWebhook, workspaceId: string | null, ownerId: string | null): boolean =>
+  workspaceId ? webhook.workspace_id === workspaceId : webhook.workspace_id === null && webhook.owner_id === ownerId;
+
+/**
+ * Respuesta 403 para los miembros de un espacio de trabajo que no pueden gestionar sus webhooks.
+ */
+export const cannotManageWebhooks = (): Response =>
+  jsonError(403, 'Solo el propietario del espacio de trabajo puede gestionar sus webhooks');
+
+/**
+ * Webhooks del espacio de trabajo o, con workspaceId null, de los escaneos personales del usuario.
+ */
+export const listWebhooks = (user: AuthUser, workspaceId: string | null): Webhook[] =>
+  [...state.webhooks.values()]
+    .filter(webhook => isInScope(webhook, workspaceId, user.id))
+    .sort((a, b) => a.created_at - b.created_at)
+    .map(toWebhook);
+
+/**
+ * Crea un webhook en el ámbito de input.workspace_id (o en los escaneos personales del usuario).
+ * @returns El webhook con su secreto, o null si el ámbito ya tiene MAX_WEBHOOKS_PER_SCOPE
+ */
+export const createWebhook = (input: WebhookInput, user: AuthUser): WebhookWithSecret | null => {
+  if (listWebhooks(user, input.workspace_id).length >= MAX_WEBHOOKS_PER_SCOPE) return null;
+  const now = Date.now();
+  const webhook: StoredWebhook = {
+    id: crypto.randomUUID(),
+    url: input.url,
+    events: input.events,
+    description: input.description,
+    active: input.active,
+    workspace_id: input.workspace_id,
+    owner_id: user.id,
+    created_at: now,
+    updated_at: now,
+    secret: createSecret(),
+  };
+  state.webhooks.set(webhook.id, webhook);
+  state.deliveries.set(webhook.id, []);
+  return { ...toWebhook(webhook), secret: webhook.secret };
+};
+
+/**
+ * Webhook que el usuario puede gestionar, o null si no existe o no tiene permiso para verlo.
+ */
+export const getWebhook = (id: string, user: AuthUser): Webhook | null => {
+  const webhook = state.webhooks.get(id);
+  return webhook && canManage(webhook, user) ? toWebhook(webhook) : null;
+};
+
+/**
+ * Aplica los cambios de un PATCH /webhooks/:id. Con rotate_secret se genera un secreto nuevo y se
+ * devuelve; el anterior deja de ser válido en la siguiente entrega.
+ */
+export const updateWebhook = (id: string, changes: WebhookPatch): Webhook | WebhookWithSecret | null => {
+  const webhook = state.webhooks.get(id);
+  if (!webhook) return null;
+  const { rotate_secret, ...fields } = changes;
+  Object.assign(webhook, fields, { updated_at: Date.now() });
+  if (!rotate_secret) return toWebhook(webhook);
+  webhook.secret = createSecret();
+  return { ...toWebhook(webhook), secret: webhook.secret };
+};
+
+/**
+ * Elimina un webhook con su registro de entregas y cancela sus reintentos pendientes.
+ */
+export const deleteWebhook = (id: string): boolean => {
+  if (!state.webhooks.delete(id)) return false;
+  state.deliveries.get(id)?.forEach(delivery => {
+    clearTimeout(state.retryTimers.get(delivery.id));
+    state.retryTimers.delete(delivery.id);
+  });
+  state.deliveries.delete(id);
+  return true;
+};
+
+/**
+ * Registro de entregas de un webhook, de la más reciente a la más antigua.
+ */
+export const getWebhookDeliveries = (id: string): WebhookDelivery[] => state.deliveries.get(id) ?? [];
+
+const recordDelivery = (webhook: StoredWebhook, payload: WebhookPayload): WebhookDelivery => {
+  const delivery: WebhookDelivery = {
+    id: crypto.randomUUID(),
+    webhook_id: webhook.id,
+    payload,
+    status: 'pending',
+    attempts: [],
+    next_attempt_at: null,
+    created_at: Date.now(),
+  };
+  const log = state.deliveries.get(webhook.id) ?? [];
+  log.unshift(delivery);
+  log.splice(MAX_LOGGED_DELIVERIES);
+  state.deliveries.set(webhook.id, log);
+  return delivery;
+};
+
+// Un intento de entrega; el cuerpo es el mismo en todos, pero la firma se calcula con la hora de cada uno
+const sendDelivery = async (webhook: StoredWebhook, delivery: WebhookDelivery): Promise<WebhookAttempt> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signWebhookBody(webhook.secret, timestamp, body);
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'qr-scanner-webhooks/1',
+        'X-Webhook-Id': delivery.payload.id,
+        'X-Webhook-Event': delivery.payload.type,
+        'X-Webhook-Attempt': String(delivery.attempts.length + 1),
+        [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      // Una redirección no es una entrega: cuenta como fallo
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    await response.body?.cancel();
+    return {
+      at: startedAt,
+      status_code: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      duration_ms: Date.now() - startedAt,
+    };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Sin respuesta en ${DELIVERY_TIMEOUT_MS / 1000} s`
+      : error instanceof Error ? error.message : String(error);
+    return { at: startedAt, status_code: null, error: message, duration_ms: Date.now() - startedAt };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Intenta la entrega y, si falla y quedan intentos, programa el siguiente
+const deliver = async (delivery: WebhookDelivery, retry: boolean): Promise<void> => {
+  state.retryTimers.delete(delivery.id);
+  const webhook = state.webhooks.get(delivery.webhook_id);
+  // Los reintentos de un webhook desactivado o eliminado se abandonan
+  if (!webhook || (retry && !webhook.active)) {
+    delivery.status = 'failed';
+    delivery.next_attempt_at = null;
+    return;
+  }
+
+  const attempt = await sendDelivery(webhook, delivery);
+  delivery.attempts.push(attempt);
+  if (attempt.error === null) {
+    delivery.status = 'succeeded';
+    delivery.next_attempt_at = null;
+  } else if (retry && delivery.attempts.length < MAX_DELIVERY_ATTEMPTS) {
+    const delay = getRetryDelay(delivery.attempts.length);
+    delivery.next_attempt_at = Date.now() + delay;
+    state.retryTimers.set(delivery.id, setTimeout(() => void deliver(delivery, true), delay));
+  } else {
+    delivery.status = 'failed';
+    delivery.next_attempt_at = null;
+  }
+};
+
+/**
+ * Envía un cambio en un escaneo a los webhooks activos de su ámbito suscritos a ese tipo de evento.
+ * No espera a las entregas.
+ * @param event Evento de publishScanEvent con el propietario y el espacio de trabajo del escaneo
+ */
+export const dispatchScanWebhooks = (
+  event: ScanEvent & { owner_id: string | null; workspace_id: string | null }
+): void => {
+  const payload: WebhookPayload = {
+    id: event.id,
+    type: event.type,
+    scan_id: event.scan_id,
+    scan: event.scan,
+    workspace_id: event.workspace_id,
+    at: event.at,
+  };
+  state.webhooks.forEach(webhook => {
+    if (!webhook.active || !webhook.events.includes(event.type)) return;
+    if (!isInScope(webhook, event.workspace_id, event.owner_id)) return;
+    void deliver(recordDelivery(webhook, payload), true);
+  });
+};
+
+/**
+ * Envía un escaneo recién guardado a los webhooks de las reglas que ha cumplido. Solo se llama a los
+ * webhooks activos del ámbito del escaneo: una regla no puede enviar escaneos a otro ámbito.
+ * No espera a las entregas.
+ */
+export const dispatchRuleWebhooks = (webhooks: RuleEvaluation['webhooks'], scan: ScanRecord): void => {
+  webhooks.forEach(({ webhook_id, rule }) => {
+    const webhook = state.webhooks.get(webhook_id);
+    if (!webhook?.active || !isInScope(webhook, scan.workspace_id ?? null, scan.owner_id ?? null)) return;
+    const payload: WebhookPayload = {
+      id: `rule-${crypto.randomUUID()}`,
+      type: 'rule',
+      scan_id: scan.id,
+      scan,
+      workspace_id: scan.workspace_id ?? null,
+      at: Date.now(),
+      rule,
+    };
+    void deliver(recordDelivery(webhook, payload), true);
+  });
+};
+
+/**
+ * Envía un evento ping al webhook (aunque esté desactivado) y espera la respuesta. La prueba no se reintenta.
+ * @returns La entrega con el resultado del intento, o null si el webhook no existe
+ */
+export const testWebhook = async (id: string): Promise<WebhookDelivery | null> => {
+  const webhook = state.webhooks.get(id);
+  if (!webhook) return null;
+  const delivery = recordDelivery(webhook, {
+    id: `ping-${crypto.randomUUID()}`,
+    type: 'ping',
+    scan_id: null,
+    scan: null,
+    workspace_id: webhook.workspace_id,
+    at: Date.now(),
+  });
+  await deliver(delivery, false);
+  return delivery;
+};
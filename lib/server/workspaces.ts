@@ -0,0 +1,150 @@
+import type { ScanRecord } from '@/lib/scanRecord';
+import type { ScanQuery } from '@/lib/scanStore';
+import { AuthUser, getUserById } from '@/lib/server/auth';
+import { jsonError } from '@/lib/server/http';
+import type { Workspace, WorkspaceDetail, WorkspaceMember, WorkspaceRole, WorkspaceSummary } from '@/lib/workspaces';
+
+// Espacios de trabajo y sus miembros en el servidor. Como los usuarios, viven en memoria y se
+// comparten entre rutas a través de globalThis
+
+interface StoredWorkspace extends Workspace {
+  members: Map<string, { role: WorkspaceRole; added_at: number }>; // Por ID de usuario
+}
+
+const globalStore = globalThis as typeof globalThis & { __qrScannerWorkspaceState?: Map<string, StoredWorkspace> };
+const workspaces: Map<string, StoredWorkspace> = (globalStore.__qrScannerWorkspaceState ??= new Map());
+
+const toSummary = (workspace: StoredWorkspace, role: WorkspaceRole): WorkspaceSummary => ({
+  id: workspace.id,
+  name: workspace.name,
+  created_at: workspace.created_at,
+  role,
+  member_count: workspace.members.size,
+});
+
+const countOwners = (workspace: StoredWorkspace): number =>
+  [...workspace.members.values()].filter(member => member.role === 'owner').length;
+
+/**
+ * Rol del usuario en el espacio de trabajo, o null si no existe o no es miembro.
+ */
+export const getWorkspaceRole = (workspaceId: string, userId: string): WorkspaceRole | null =>
+  workspaces.get(workspaceId)?.members.get(userId)?.role ?? null;
+
+/**
+ * Crea un espacio de trabajo con el usuario como propietario.
+ */
+export const createWorkspace = (name: string, user: AuthUser): WorkspaceDetail => {
+  const now = Date.now();
+  const workspace: StoredWorkspace = {
+    id: crypto.randomUUID(),
+    name,
+    created_at: now,
+    members: new Map([[user.id, { role: 'owner', added_at: now }]]),
+  };
+  workspaces.set(workspace.id, workspace);
+  return getWorkspaceDetail(workspace.id, user)!;
+};
+
+/**
+ * Espacios de trabajo de los que el usuario es miembro, ordenados por nombre.
+ */
+export const listWorkspaces = (user: AuthUser): WorkspaceSummary[] =>
+  [...workspaces.values()]
+    .filter(workspace => workspace.members.has(user.id))
+    .map(workspace => toSummary(workspace, workspace.members.get(user.id)!.role))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Espacio de trabajo con sus miembros, o null si no existe o el usuario no es miembro.
+ */
+export const getWorkspaceDetail = (workspaceId: string, user: AuthUser): WorkspaceDetail | null => {
+  const workspace = workspaces.get(workspaceId);
+  const role = workspace?.members.get(user.id)?.role;
+  if (!workspace || !role) return null;
+
+  const members: WorkspaceMember[] = [...workspace.members.entries()].map(([userId, member]) => ({
+    user_id: userId,
+    username: getUserById(userId)?.username ?? userId,
+    role: member.role,
+    added_at: member.added_at,
+  }));
+  return { ...toSummary(workspace, role), members };
+};
+
+/**
+ * Añade un miembro al espacio de trabajo.
+ * @returns false si ya era miembro
+ */
+export const addMember = (workspaceId: string, user: AuthUser, role: WorkspaceRole): boolean => {
+  const workspace = workspaces.get(workspaceId);
+  if (!workspace || workspace.members.has(user.id)) return false;
+  workspace.members.set(user.id, { role, added_at: Date.now() });
+  return true;
+};
+
+// Resultado de cambiar o quitar un miembro: siempre debe quedar al menos un propietario
+export type MemberChangeResult = 'ok' | 'not_found' | 'last_owner';
+
+/**
+ * Cambia el rol de un miembro.
+ */
+export const setMemberRole = (workspaceId: string, userId: string, role: WorkspaceRole): MemberChangeResult => {
+  const workspace = workspaces.get(workspaceId);
+  const member = workspace?.members.get(userId);
+  if (!workspace || !member) return 'not_found';
+  if (member.role === 'owner' && role !== 'owner' && countOwners(workspace) === 1) return 'last_owner';
+  member.role = role;
+  return 'ok';
+};
+
+/**
+ * Quita un miembro del espacio de trabajo. Sus escaneos se quedan en el espacio de trabajo.
+ */
+export const removeMember = (workspaceId: string, userId: string): MemberChangeResult => {
+  const workspace = workspaces.get(workspaceId);
+  const member = workspace?.members.get(userId);
+  if (!workspace || !member) return 'not_found';
+  if (member.role === 'owner' && countOwners(workspace) === 1) return 'last_owner';
+  workspace.members.delete(userId);
+  return 'ok';
+};
+
+/**
+ * Rol del usuario sobre un escaneo (o una sesión o una zona): propietario de los personales suyos y,
+ * en los de un espacio de trabajo, su rol en él. null si no puede verlo.
+ */
+export const getScanRole = (
+  scan: Pick<ScanRecord, 'owner_id' | 'workspace_id'>,
+  user: AuthUser
+): WorkspaceRole | null => {
+  if (scan.workspace_id) return getWorkspaceRole(scan.workspace_id, user.id);
+  return scan.owner_id === user.id ? 'owner' : null;
+};
+
+// Escaneos que ve el usuario en una consulta y su rol sobre ellos
+export interface ScanScope {
+  filter: Pick<ScanQuery, 'ownerId' | 'workspaceId'>;
+  role: WorkspaceRole;
+}
+
+/**
+ * Ámbito de una consulta de escaneos: los de un espacio de trabajo del usuario o, sin
+ * workspace_id, sus escaneos personales.
+ * @returns null si el espacio de trabajo no existe o el usuario no es miembro
+ */
+export const getScanScope = (user: AuthUser, workspaceId?: string | null): ScanScope | null => {
+  if (!workspaceId) return { filter: { ownerId: user.id, workspaceId: null }, role: 'owner' };
+  const role = getWorkspaceRole(workspaceId, user.id);
+  return role ? { filter: { workspaceId }, role } : null;
+};
+
+/**
+ * Respuesta 403 para las consultas de un espacio de trabajo del que el usuario no es miembro.
+ */
+export const notMember = (): Response => jsonError(403, 'No eres miembro de este espacio de trabajo');
+
+/**
+ * Respuesta 403 para los cambios en escaneos que el rol del usuario no permite.
+ */
+export const readOnly = (): Response => jsonError(403, 'Tu rol de lector no permite modificar escaneos');
@@ -0,0 +1,84 @@
+import { auth, authFetch } from '@/lib/auth';
+import { getJSON, setJSON } from '@/lib/deviceStorage';
+import { HttpError } from '@/lib/scanApi';
+import { createUrlVerdict, EMPTY_URL_BLOCKLIST, UrlBlocklist, UrlVerdict } from '@/lib/urlSafety';
+
+// Comprobación de los enlaces escaneados en la app antes de abrirlos. Con sesión, el servidor sigue las
+// redirecciones y da el veredicto con su lista de bloqueo; sin conexión se analiza el enlace en el
+// dispositivo con la última copia de la lista, que se descarga de nuevo como mucho cada hora
+
+const URL_BLOCKLIST_KEY = 'url_blocklist';
+const BLOCKLIST_MAX_AGE_MS = 60 * 60 * 1000;
+const CHECK_TIMEOUT_MS = 10 * 1000;
+
+interface StoredUrlBlocklist extends UrlBlocklist {
+  fetched_at: number;
+}
+
+let blocklist: StoredUrlBlocklist | null = null;
+
+const loadBlocklist = async (): Promise<StoredUrlBlocklist> => {
+  blocklist ??= (await getJSON<StoredUrlBlocklist>(URL_BLOCKLIST_KEY)) ?? { ...EMPTY_URL_BLOCKLIST, fetched_at: 0 };
+  return blocklist;
+};
+
+const requestJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CHECK_TIMEOUT_MS);
+  try {
+    const response = await authFetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw new HttpError(response.status, `HTTP error! status: ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Descarga la lista de bloqueo del servidor si la copia del dispositivo tiene más de una hora.
+ * Sin sesión o sin conexión se conserva la copia.
+ * @param options force la descarga aunque la copia sea reciente
+ * @returns La lista que se usará para comprobar enlaces sin conexión
+ */
+export const refreshUrlBlocklist = async (options: { force?: boolean } = {}): Promise<UrlBlocklist> => {
+  const current = await loadBlocklist();
+  const session = auth.getSession();
+  if (!session || (!options.force && Date.now() - current.fetched_at < BLOCKLIST_MAX_AGE_MS)) {
+    return current;
+  }
+
+  try {
+    const latest = await requestJson<UrlBlocklist>(`${session.baseUrl}/url-safety/blocklist`);
+    blocklist = { ...latest, fetched_at: Date.now() };
+    await setJSON(URL_BLOCKLIST_KEY, blocklist);
+  } catch (error) {
+    console.warn('No se pudo actualizar la lista de bloqueo de enlaces:', error);
+  }
+  return blocklist ?? current;
+};
+
+/**
+ * Comprueba un enlace antes de abrirlo. No falla sin conexión: devuelve el análisis hecho en el
+ * dispositivo con resolved = false, ya que no se han podido seguir sus redirecciones.
+ */
+export const checkUrl = async (url: string): Promise<UrlVerdict> => {
+  const session = auth.getSession();
+  if (session) {
+    try {
+      const verdict = await requestJson<UrlVerdict>(`${session.baseUrl}/url-safety/check`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      void refreshUrlBlocklist();
+      return verdict;
+    } catch (error) {
+      console.warn('Servidor no accesible, comprobando el enlace en el dispositivo:', error);
+    }
+  }
+
+  const { domains } = await loadBlocklist();
+  return createUrlVerdict(url, [], false, domains);
+};
@@ -0,0 +1,304 @@
+// Comprobación de seguridad de los enlaces escaneados antes de abrirlos. Se analiza el enlace y cada
+// redirección que sigue el servidor: dominios internacionalizados (punycode) o que imitan a otros con
+// letras de otro alfabeto, IPs en lugar de dominios, enlaces sin HTTPS y dominios de la lista de
+// bloqueo. El resultado (veredicto) se guarda con el escaneo
+
+export type UrlRisk =
+  | 'blocklisted'
+  | 'homoglyph'
+  | 'credentials'
+  | 'punycode'
+  | 'ip_literal'
+  | 'insecure'
+  | 'redirect'
+  | 'shortener';
+
+export type UrlSafetyLevel = 'safe' | 'warning' | 'danger';
+
+export const URL_RISKS: readonly UrlRisk[] = [
+  'blocklisted',
+  'homoglyph',
+  'credentials',
+  'punycode',
+  'ip_literal',
+  'insecure',
+  'redirect',
+  'shortener',
+];
+
+export const URL_RISK_LABELS: Record<UrlRisk, string> = {
+  blocklisted: 'Dominio bloqueado',
+  homoglyph: 'Dominio que imita a otro',
+  credentials: 'Usuario delante del dominio',
+  punycode: 'Dominio con caracteres internacionales',
+  ip_literal: 'Dirección IP en lugar de dominio',
+  insecure: 'Conexión sin cifrar',
+  redirect: 'Redirige a otro dominio',
+  shortener: 'Enlace acortado sin comprobar',
+};
+
+export const URL_RISK_DESCRIPTIONS: Record<UrlRisk, string> = {
+  blocklisted: 'El dominio está en la lista de sitios maliciosos conocidos.',
+  homoglyph: 'El dominio usa letras de otros alfabetos que se confunden con las latinas (como la "а" cirílica).',
+  credentials: 'El texto antes de "@" no es el sitio real: el enlace lleva al dominio que va después.',
+  punycode: 'El dominio usa caracteres no latinos. Comprueba que es el sitio que esperas.',
+  ip_literal: 'Los sitios legítimos casi nunca enlazan a una IP directamente.',
+  insecure: 'El enlace usa HTTP: lo que envíes se puede leer o modificar por el camino.',
+  redirect: 'El destino final está en un dominio distinto al del código.',
+  shortener: 'No se pudo comprobar a dónde lleva el enlace acortado.',
+};
+
+const URL_RISK_LEVELS: Record<UrlRisk, Exclude<UrlSafetyLevel, 'safe'>> = {
+  blocklisted: 'danger',
+  homoglyph: 'danger',
+  credentials: 'danger',
+  punycode: 'warning',
+  ip_literal: 'warning',
+  insecure: 'warning',
+  redirect: 'warning',
+  shortener: 'warning',
+};
+
+export const URL_SAFETY_LEVEL_LABELS: Record<UrlSafetyLevel, string> = {
+  safe: 'Sin riesgos detectados',
+  warning: 'Enlace sospechoso',
+  danger: 'Enlace peligroso',
+};
+
+export const URL_SAFETY_LEVEL_COLORS: Record<UrlSafetyLevel, string> = {
+  safe: '#34C759',
+  warning: '#FF9500',
+  danger: '#FF3B30',
+};
+
+export const isUrlRisk = (value: unknown): value is UrlRisk =>
+  typeof value === 'string' && (URL_RISKS as readonly string[]).includes(value);
+
+// Redirecciones que sigue el servidor como máximo antes de dar el destino por desconocido
+export const MAX_URL_REDIRECTS = 5;
+export const MAX_URL_LENGTH = 2048;
+
+export interface UrlVerdict {
+  url: string;         // Enlace del código
+  final_url: string;   // Destino tras seguir las redirecciones (el mismo enlace si no se siguieron)
+  redirects: string[]; // Enlaces por los que pasa, en orden; el último es final_url
+  resolved: boolean;   // false si no se pudieron seguir las redirecciones (sin conexión o error)
+  risks: UrlRisk[];
+  level: UrlSafetyLevel;
+  checked_at: number;
+}
+
+// Lista de dominios maliciosos conocidos. La mantiene el servidor y la app guarda una copia para
+// comprobar los enlaces sin conexión
+export interface UrlBlocklist {
+  version: number;
+  domains: string[];
+  updated_at: number | null;
+}
+
+export const EMPTY_URL_BLOCKLIST: UrlBlocklist = { version: 0, domains: [], updated_at: null };
+
+// Acortadores habituales: sin seguir la redirección no se sabe a dónde llevan
+const URL_SHORTENERS = new Set([
+  'bit.ly',
+  'buff.ly',
+  'cutt.ly',
+  'goo.gl',
+  'is.gd',
+  'ow.ly',
+  'rb.gy',
+  'rebrand.ly',
+  's.id',
+  'shorturl.at',
+  't.co',
+  't.ly',
+  'tiny.cc',
+  'tinyurl.com',
+]);
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/;
+
+/**
+ * Normaliza un dominio de la lista de bloqueo ("*.Ejemplo.com." → "ejemplo.com").
+ * @returns null si no es un dominio válido
+ */
+export const normalizeDomain = (domain: string): string | null => {
+  const normalized = domain.trim().toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+  return DOMAIN_PATTERN.test(normalized) ? normalized : null;
+};
+
+interface UrlParts {
+  scheme: string;
+  host: string;
+  hasCredentials: boolean;
+}
+
+// Se analiza el texto del enlace sin URL(): el de React Native no expone el host
+const parseUrl = (url: string): UrlParts | null => {
+  const match = /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)/i.exec(url.trim());
+  if (!match) return null;
+  const authority = match[2];
+  const atIndex = authority.lastIndexOf('@');
+  const hostAndPort = authority.slice(atIndex + 1);
+  const host = hostAndPort.startsWith('[')
+    ? hostAndPort.slice(0, hostAndPort.indexOf(']') + 1)
+    : hostAndPort.split(':')[0];
+  return {
+    scheme: match[1].toLowerCase(),
+    host: host.toLowerCase().replace(/\.$/, ''),
+    hasCredentials: atIndex >= 0,
+  };
+};
+
+/**
+ * Host de un enlace en minúsculas, o null si no es un enlace con esquema y host.
+ */
+export const getUrlHost = (url: string): string | null => parseUrl(url)?.host || null;
+
+export const isHttpUrl = (url: string): boolean => {
+  const parts = parseUrl(url);
+  return !!parts?.host && (parts.scheme === 'http' || parts.scheme === 'https');
+};
+
+// IPv6 entre corchetes o IPv4 en cualquiera de sus formas (192.168.0.1, 3232235521, 0xC0A80001...)
+export const isIpLiteral = (host: string): boolean =>
+  host.startsWith('[') || /^(0x[0-9a-f]+|\d+)(\.(0x[0-9a-f]+|\d+)){0,3}$/i.test(host);
+
+// Decodificación punycode (RFC 3492) de una etiqueta sin el prefijo xn--. null si no es válida
+const decodePunycode = (input: string): string | null => {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+  const adapt = (delta: number, points: number, first: boolean): number => {
+    delta = first ? Math.floor(delta / 700) : delta >> 1;
+    delta += Math.floor(delta / points);
+    let k = 0;
+    while (delta > ((base - tMin) * tMax) >> 1) {
+      delta = Math.floor(delta / (base - tMin));
+      k += base;
+    }
+    return k + Math.floor(((base - tMin + 1) * delta) / (delta + 38));
+  };
+  const digitOf = (code: number): number => {
+    if (code >= 48 && code <= 57) return code - 22;
+    if (code >= 65 && code <= 90) return code - 65;
+    if (code >= 97 && code <= 122) return code - 97;
+    return base;
+  };
+
+  const delimiter = input.lastIndexOf('-');
+  const output = [...input.slice(0, Math.max(delimiter, 0))].map(char => char.charCodeAt(0));
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+  for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+    const previous = i;
+    for (let w = 1, k = base; ; k += base) {
+      if (index >= input.length) return null;
+      const digit = digitOf(input.charCodeAt(index++));
+      if (digit >= base) return null;
+      i += digit * w;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < t) break;
+      w *= base - t;
+    }
+    bias = adapt(i - previous, output.length + 1, previous === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+/**
+ * Dominio tal como lo ve el usuario: las etiquetas xn-- se decodifican.
+ */
+export const toUnicodeHost = (host: string): string =>
+  host
+    .split('.')
+    .map(label => (label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label))
+    .join('.');
+
+const SCRIPT_PATTERNS: [string, RegExp][] = [
+  ['latin', /[a-z\u00c0-\u024f]/],
+  ['cyrillic', /[\u0400-\u052f]/],
+  ['greek', /[\u0370-\u03ff]/],
+  ['armenian', /[\u0530-\u058f]/],
+];
+
+// Letras cirílicas y griegas que se confunden con letras latinas
+const LATIN_LOOKALIKES = /^[аеорсухіјӏѕԁһԛԝьαεικνορτυχ0-9-]+$/;
+
+// Etiqueta que mezcla alfabetos ("аpple") o escrita solo con letras que parecen latinas ("аррӏе")
+const isConfusableLabel = (label: string): boolean => {
+  const scripts = SCRIPT_PATTERNS.filter(([, pattern]) => [...label].some(char => pattern.test(char)));
+  if (scripts.length > 1) return true;
+  return scripts.length === 1 && scripts[0][0] !== 'latin' && LATIN_LOOKALIKES.test(label);
+};
+
+const isBlocklisted = (host: string, blocklist: readonly string[]): boolean =>
+  blocklist.some(domain => host === domain || host.endsWith(`.${domain}`));
+
+/**
+ * Riesgos de un enlace por sí solo, sin seguir sus redirecciones.
+ */
+export const analyzeUrl = (url: string, blocklist: readonly string[]): UrlRisk[] => {
+  const parts = parseUrl(url);
+  if (!parts?.host) return [];
+
+  const risks: UrlRisk[] = [];
+  const unicodeHost = toUnicodeHost(parts.host);
+  if (isBlocklisted(parts.host, blocklist)) risks.push('blocklisted');
+  if (unicodeHost.split('.').some(isConfusableLabel)) risks.push('homoglyph');
+  if (parts.hasCredentials) risks.push('credentials');
+  if (/[^\x00-\x7f]/.test(unicodeHost)) risks.push('punycode');
+  if (isIpLiteral(parts.host)) risks.push('ip_literal');
+  if (parts.scheme === 'http') risks.push('insecure');
+  return risks;
+};
+
+/**
+ * Nivel de un veredicto: el del riesgo más grave.
+ */
+export const getUrlSafetyLevel = (risks: readonly UrlRisk[]): UrlSafetyLevel => {
+  if (risks.some(risk => URL_RISK_LEVELS[risk] === 'danger')) return 'danger';
+  return risks.length > 0 ? 'warning' : 'safe';
+};
+
+// "www.ejemplo.com" y "ejemplo.com" son el mismo sitio a efectos de las redirecciones
+const getSiteHost = (url: string): string | null => getUrlHost(url)?.replace(/^www\./, '') ?? null;
+
+/**
+ * Veredicto de un enlace a partir de las redirecciones que sigue (vacías si no redirige o no se
+ * pudieron seguir). Se analizan el enlace y cada salto, porque un acortador puede llevar a un sitio
+ * bloqueado o a una IP. La falta de HTTPS solo cuenta en el destino: muchos sitios redirigen de
+ * http:// a https://.
+ */
+export const createUrlVerdict = (
+  url: string,
+  redirects: string[],
+  resolved: boolean,
+  blocklist: readonly string[]
+): UrlVerdict => {
+  const finalUrl = redirects[redirects.length - 1] ?? url;
+  const found = new Set([url, ...redirects].flatMap(hop => analyzeUrl(hop, blocklist)));
+  found.delete('insecure');
+  if (analyzeUrl(finalUrl, []).includes('insecure')) found.add('insecure');
+
+  const site = getSiteHost(url);
+  const finalSite = getSiteHost(finalUrl);
+  if (site && finalSite && site !== finalSite) found.add('redirect');
+  if (!resolved && site && URL_SHORTENERS.has(site)) found.add('shortener');
+
+  const risks = URL_RISKS.filter(risk => found.has(risk));
+  return {
+    url,
+    final_url: finalUrl,
+    redirects,
+    resolved,
+    risks,
+    level: getUrlSafetyLevel(risks),
+    checked_at: Date.now(),
+  };
+};
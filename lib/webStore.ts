@@ -0,0 +1,141 @@
+import type { StoredWebData } from '@/lib/migrations';
+
+// Persistencia del almacenamiento web en IndexedDB: un almacén de objetos por tabla y escrituras
+// registro a registro. Con localStorage cada cambio reescribía todos los escaneos serializados
+// y el navegador limita el espacio a unos pocos MB.
+//
+// La estructura (almacenes e índices) se versiona con la versión de IndexedDB; el formato de los
+// registros sigue versionándose con las migraciones web (clave version del almacén meta).
+
+const DB_NAME = 'qr_scanner';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+
+export type WebStoreName = 'scans' | 'sync_queue' | 'sessions' | 'zones';
+
+const STORE_NAMES: WebStoreName[] = ['scans', 'sync_queue', 'sessions', 'zones'];
+
+// Cambios que se escriben juntos en una sola transacción
+export interface WebChanges {
+  put?: Partial<Record<WebStoreName, object[]>>;
+  delete?: Partial<Record<WebStoreName, IDBValidKey[]>>;
+  meta?: Record<string, unknown>; // nextId, version
+}
+
+// En el servidor de las rutas de API no existe IndexedDB y los datos solo viven en memoria
+export const hasIndexedDB = (): boolean => typeof indexedDB !== 'undefined';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transacción de IndexedDB cancelada'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      // Versión 1: un almacén por tabla, con índices para ordenar por fecha y buscar por contenido
+      if (!database.objectStoreNames.contains('scans')) {
+        const scans = database.createObjectStore('scans', { keyPath: 'id' });
+        scans.createIndex('timestamp', 'timestamp');
+        scans.createIndex('qr_data', 'qr_data');
+      }
+      if (!database.objectStoreNames.contains('sync_queue')) {
+        database.createObjectStore('sync_queue', { keyPath: 'scan_id' });
+      }
+      if (!database.objectStoreNames.contains('sessions')) {
+        database.createObjectStore('sessions', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('zones')) {
+        database.createObjectStore('zones', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains(META_STORE)) {
+        database.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+};
+
+/**
+ * Lee todos los datos guardados, con los escaneos ordenados por timestamp.
+ * @returns null si la base de datos es nueva (nunca se ha escrito su versión)
+ */
+export const loadWebData = async (): Promise<StoredWebData | null> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([...STORE_NAMES, META_STORE], 'readonly');
+  const meta = transaction.objectStore(META_STORE);
+
+  const [version, nextId, scans, queue, sessions, zones] = await Promise.all([
+    requestResult(meta.get('version')),
+    requestResult(meta.get('nextId')),
+    requestResult(transaction.objectStore('scans').index('timestamp').getAll()),
+    requestResult(transaction.objectStore('sync_queue').getAll()),
+    requestResult(transaction.objectStore('sessions').getAll()),
+    requestResult(transaction.objectStore('zones').getAll()),
+  ]);
+  if (version === undefined) return null;
+  return { version, nextId: nextId ?? 1, scans, queue, sessions, zones };
+};
+
+/**
+ * Escribe solo los registros indicados, todos en la misma transacción.
+ */
+export const writeWebChanges = async (changes: WebChanges): Promise<void> => {
+  const stores = STORE_NAMES.filter(name => changes.put?.[name]?.length || changes.delete?.[name]?.length);
+  const names = changes.meta ? [...stores, META_STORE] : stores;
+  if (names.length === 0) return;
+
+  const database = await openDatabase();
+  const transaction = database.transaction(names, 'readwrite');
+  for (const name of stores) {
+    const store = transaction.objectStore(name);
+    changes.delete?.[name]?.forEach(key => store.delete(key));
+    changes.put?.[name]?.forEach(record => store.put(record));
+  }
+  if (changes.meta) {
+    const meta = transaction.objectStore(META_STORE);
+    Object.entries(changes.meta).forEach(([key, value]) => meta.put(value, key));
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Sustituye todos los datos guardados (importación inicial o tras migrar el formato).
+ * Si falla, la transacción se deshace y se conservan los datos anteriores.
+ */
+export const replaceWebData = async (data: StoredWebData): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([...STORE_NAMES, META_STORE], 'readwrite');
+  const records: Record<WebStoreName, object[]> = {
+    scans: data.scans ?? [],
+    sync_queue: data.queue ?? [],
+    sessions: data.sessions ?? [],
+    zones: data.zones ?? [],
+  };
+  for (const name of STORE_NAMES) {
+    const store = transaction.objectStore(name);
+    store.clear();
+    records[name].forEach(record => store.put(record));
+  }
+  const meta = transaction.objectStore(META_STORE);
+  meta.put(data.version, 'version');
+  meta.put(data.nextId ?? 1, 'nextId');
+  await transactionDone(transaction);
+};
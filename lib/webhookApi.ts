@@ -0,0 +1,18 @@
+import { authFetch } from '@/lib/auth';
+import { HttpError } from '@/lib/scanApi';
+import type { Webhook } from '@/lib/webhooks';
+
+// Llamadas HTTP a las rutas /webhooks del web service que usa la app (por ahora, elegir el webhook de
+// una regla de escaneo). Los errores llevan el mensaje del servidor para mostrarlo
+
+/**
+ * Webhooks del espacio de trabajo o, con workspaceId null, de los escaneos personales (GET /webhooks).
+ */
+export const fetchWebhooks = async (baseUrl: string, workspaceId: string | null): Promise<Webhook[]> => {
+  const response = await authFetch(`${baseUrl}/webhooks${workspaceId ? `?workspace_id=${workspaceId}` : ''}`);
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw new HttpError(response.status, errorBody?.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
@@ -0,0 +1,65 @@
+import type { ScanEventType } from '@/lib/scanEvents';
+import type { ScanRule } from '@/lib/rules';
+import type { ScanRecord } from '@/lib/scanRecord';
+
+// Webhooks del servidor: URLs de otros sistemas que reciben un POST con cada escaneo creado, modificado o
+// eliminado. El cuerpo JSON va firmado con HMAC-SHA256 y el secreto del webhook en la cabecera
+// X-Webhook-Signature: "t=<segundos unix>,v1=<hex>", calculado sobre "<t>.<cuerpo>". El receptor debe
+// recalcularlo, comparar en tiempo constante y descartar las firmas antiguas; los reintentos de un mismo
+// evento llevan el mismo id para que pueda ignorar los repetidos
+
+// rule: escaneo guardado que cumple una regla con la acción de llamar al webhook (lib/rules.ts), aunque el
+// webhook no esté suscrito a sus eventos. ping: solo lo envía la prueba de POST /webhooks/:id/test
+export type WebhookEventType = ScanEventType | 'rule' | 'ping';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+export const MAX_WEBHOOKS_PER_SCOPE = 20;
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: ScanEventType[];
+  description: string | null;
+  active: boolean;
+  workspace_id: string | null; // null: escaneos personales de owner_id
+  owner_id: string;
+  created_at: number;
+  updated_at: number;
+}
+
+// Respuesta al crear el webhook o cambiar su secreto: es la única vez que se muestra
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+// Cuerpo que recibe la URL del webhook
+export interface WebhookPayload {
+  id: string; // Igual en todos los intentos de entrega del evento
+  type: WebhookEventType;
+  scan_id: number | null;
+  scan: ScanRecord | null; // Estado tras el cambio (null en los eliminados y en ping)
+  workspace_id: string | null;
+  at: number;
+  rule?: Pick<ScanRule, 'id' | 'name'>; // Solo en los eventos rule
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookAttempt {
+  at: number;
+  status_code: number | null; // null si no hubo respuesta (error de red o tiempo agotado)
+  error: string | null;
+  duration_ms: number;
+}
+
+// Entrada del registro de entregas (GET /webhooks/:id/deliveries)
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  next_attempt_at: number | null; // Siguiente reintento de las pendientes
+  created_at: number;
+}
@@ -0,0 +1,65 @@
+import { authFetch } from '@/lib/auth';
+import { HttpError } from '@/lib/scanApi';
+import type { WorkspaceDetail, WorkspaceRole, WorkspaceSummary } from '@/lib/workspaces';
+
+// Llamadas HTTP a las rutas /workspaces del web service. Los espacios de trabajo solo existen en el
+// servidor, así que todas necesitan conexión. Los errores llevan el mensaje del servidor para mostrarlo
+
+const request = async <T>(url: string, method: string = 'GET', body?: unknown): Promise<T> => {
+  const response = await authFetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw new HttpError(response.status, errorBody?.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+};
+
+/**
+ * Espacios de trabajo del usuario (GET /workspaces).
+ */
+export const fetchWorkspaces = (baseUrl: string): Promise<WorkspaceSummary[]> =>
+  request(`${baseUrl}/workspaces`);
+
+/**
+ * Crea un espacio de trabajo con el usuario como propietario (POST /workspaces).
+ */
+export const createWorkspace = (baseUrl: string, name: string): Promise<WorkspaceDetail> =>
+  request(`${baseUrl}/workspaces`, 'POST', { name });
+
+/**
+ * Espacio de trabajo con sus miembros (GET /workspaces/:id).
+ */
+export const fetchWorkspace = (baseUrl: string, id: string): Promise<WorkspaceDetail> =>
+  request(`${baseUrl}/workspaces/${id}`);
+
+/**
+ * Añade un miembro por su nombre de usuario (POST /workspaces/:id/members).
+ */
+export const addWorkspaceMember = (
+  baseUrl: string,
+  id: string,
+  username: string,
+  role: WorkspaceRole
+): Promise<WorkspaceDetail> =>
+  request(`${baseUrl}/workspaces/${id}/members`, 'POST', { username, role });
+
+/**
+ * Cambia el rol de un miembro (PATCH /workspaces/:id/members/:userId).
+ */
+export const updateWorkspaceMember = (
+  baseUrl: string,
+  id: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceDetail> =>
+  request(`${baseUrl}/workspaces/${id}/members/${userId}`, 'PATCH', { role });
+
+/**
+ * Quita un miembro, o al propio usuario para salir del espacio de trabajo (DELETE /workspaces/:id/members/:userId).
+ */
+export const removeWorkspaceMember = (baseUrl: string, id: string, userId: string): Promise<void> =>
+  request(`${baseUrl}/workspaces/${id}/members/${userId}`, 'DELETE');
@@ -0,0 +1,54 @@
+// Espacios de trabajo: colecciones de escaneos compartidas por un equipo. Cada miembro tiene un rol:
+// el propietario gestiona los miembros, los editores añaden, modifican y eliminan escaneos y los
+// lectores solo los consultan. Los escaneos sin espacio de trabajo son personales de quien los hizo
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: readonly WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Propietario',
+  editor: 'Editor',
+  viewer: 'Lector',
+};
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value);
+
+export const MAX_WORKSPACE_NAME_LENGTH = 100;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_at: number;
+}
+
+// Espacio de trabajo tal como lo ve un miembro (GET /workspaces)
+export interface WorkspaceSummary extends Workspace {
+  role: WorkspaceRole;
+  member_count: number;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  username: string;
+  role: WorkspaceRole;
+  added_at: number;
+}
+
+// GET /workspaces/:id
+export interface WorkspaceDetail extends WorkspaceSummary {
+  members: WorkspaceMember[];
+}
+
+// Crear, modificar y eliminar escaneos
+export const canEditScans = (role: WorkspaceRole): boolean => role === 'owner' || role === 'editor';
+
+// Añadir y quitar miembros o cambiar su rol
+export const canManageMembers = (role: WorkspaceRole): boolean => role === 'owner';
+
+// Configurar los webhooks del espacio de trabajo (reciben sus escaneos)
+export const canManageWebhooks = (role: WorkspaceRole): boolean => role === 'owner';
+
+// Cambiar las reglas de escaneo del espacio de trabajo (todos los miembros las consultan)
+export const canManageRules = (role: WorkspaceRole): boolean => role === 'owner';
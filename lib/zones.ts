@@ -0,0 +1,143 @@
+import { Coordinates, distanceInMeters } from '@/lib/geo';
+import type { SessionSyncStatus } from '@/lib/scanStore';
+
+// Zonas (geocercas) con nombre: un círculo alrededor de un punto o un polígono
+
+export type ZoneShape =
+  | { type: 'circle'; center: Coordinates; radius: number } // radius en metros
+  | { type: 'polygon'; points: Coordinates[] };              // Vértices en orden, sin repetir el primero
+
+export type ZoneShapeType = ZoneShape['type'];
+
+export const ZONE_SHAPE_LABELS: Record<ZoneShapeType, string> = {
+  circle: 'Radio',
+  polygon: 'Polígono',
+};
+
+// Como las sesiones, el id lo genera el dispositivo que crea la zona y se envía con PUT
+export interface Zone {
+  id: string;
+  name: string;
+  shape: ZoneShape;
+  created_at: number;
+  sync_status?: SessionSyncStatus | null; // Solo en el dispositivo
+  owner_id?: string | null;               // Usuario que la creó en el servidor
+  workspace_id?: string | null;           // Espacio de trabajo al que pertenece (null: zona personal)
+}
+
+export const MIN_POLYGON_POINTS = 3;
+export const MAX_POLYGON_POINTS = 100;
+export const MAX_ZONE_RADIUS_METERS = 100000;
+
+// Radios que se ofrecen al crear una zona circular (metros)
+export const ZONE_RADIUS_OPTIONS = [25, 50, 100, 250, 500, 1000];
+
+/**
+ * Comprueba si un punto está dentro de un polígono (algoritmo de trazado de rayos).
+ * Las coordenadas se tratan como planas, suficiente para zonas de pocos kilómetros.
+ */
+export const isPointInPolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = a.latitude > point.latitude !== b.latitude > point.latitude;
+    if (
+      crosses &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isPointInZone = (point: Coordinates, zone: Pick<Zone, 'shape'>): boolean =>
+  zone.shape.type === 'circle'
+    ? distanceInMeters(point, zone.shape.center) <= zone.shape.radius
+    : isPointInPolygon(point, zone.shape.points);
+
+/**
+ * Superficie aproximada de la zona en metros cuadrados (el polígono se proyecta sobre un
+ * plano tangente en su primer vértice).
+ */
+export const getZoneArea = (shape: ZoneShape): number => {
+  if (shape.type === 'circle') return Math.PI * shape.radius ** 2;
+
+  const [origin] = shape.points;
+  if (!origin) return 0;
+  const metersPerDegree = distanceInMeters({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 });
+  const cosLat = Math.cos((origin.latitude * Math.PI) / 180);
+  const projected = shape.points.map(point => ({
+    x: (point.longitude - origin.longitude) * metersPerDegree * cosLat,
+    y: (point.latitude - origin.latitude) * metersPerDegree,
+  }));
+
+  let doubleArea = 0;
+  for (let i = 0, j = projected.length - 1; i < projected.length; j = i++) {
+    doubleArea += projected[j].x * projected[i].y - projected[i].x * projected[j].y;
+  }
+  return Math.abs(doubleArea) / 2;
+};
+
+/**
+ * Zona en la que cae un punto. Si hay zonas superpuestas se elige la más pequeña,
+ * que es la más concreta (por ejemplo, un almacén dentro de un polígono industrial).
+ */
+export const findZoneForPoint = <T extends Pick<Zone, 'shape'>>(point: Coordinates, zones: T[]): T | null => {
+  let found: T | null = null;
+  let foundArea = Infinity;
+  for (const zone of zones) {
+    if (!isPointInZone(point, zone)) continue;
+    const area = getZoneArea(zone.shape);
+    if (area < foundArea) {
+      found = zone;
+      foundArea = area;
+    }
+  }
+  return found;
+};
+
+// Punto de referencia de la zona, para centrar el mapa o mostrarla en una lista
+export const getZoneCenter = (shape: ZoneShape): Coordinates => {
+  if (shape.type === 'circle') return shape.center;
+  const count = shape.points.length || 1;
+  return {
+    latitude: shape.points.reduce((sum, point) => sum + point.latitude, 0) / count,
+    longitude: shape.points.reduce((sum, point) => sum + point.longitude, 0) / count,
+  };
+};
+
+/**
+ * Resumen legible de la forma de una zona ("Radio de 150 m", "Polígono de 5 vértices").
+ */
+export const describeZoneShape = (shape: ZoneShape): string =>
+  shape.type === 'circle'
+    ? `Radio de ${shape.radius >= 1000 ? `${(shape.radius / 1000).toFixed(1)} km` : `${Math.round(shape.radius)} m`}`
+    : `Polígono de ${shape.points.length} vértices`;
+
+/**
+ * Interpreta unas coordenadas escritas como "latitud, longitud" (por ejemplo, copiadas de un mapa).
+ * @returns null si el texto no son dos números dentro de rango
+ */
+export const parseCoordinatesText = (text: string): Coordinates | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null;
+};
+
+/**
+ * Zona en la que se esperaba un código si una lectura nueva con ubicación cae fuera de ella.
+ * Sin ubicación no se sabe si el código sigue en su zona, así que no se avisa.
+ * @param lastZoneId Zona de la última lectura del código hecha dentro de alguna zona
+ */
+export const getExpectedZoneId = (
+  scan: { latitude: number | null; longitude: number | null; zone_id?: string | null },
+  lastZoneId: string | null
+): string | null => {
+  if (scan.latitude === null || scan.longitude === null) return null;
+  return lastZoneId !== null && lastZoneId !== (scan.zone_id ?? null) ? lastZoneId : null;
+};